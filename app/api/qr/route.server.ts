@@ -0,0 +1,68 @@
+import { initialQRState } from "@/lib/qr-state";
+import { parseQRApiRequest, QR_API_LIMITS, renderQRSvg } from "@/lib/qr-api";
+import { NextResponse } from "next/server";
+import sharp from "sharp";
+
+export const dynamic = "force-dynamic";
+
+const badRequest = (error: string, status = 400) =>
+  NextResponse.json({ error }, { status });
+
+// Height to width ratio of an image logo, null when it cannot be read. Text
+// logos are square.
+async function getLogoAspect(logo?: string): Promise<number | null> {
+  if (!logo?.startsWith("data:")) return 1;
+  try {
+    const { width, height } = await sharp(
+      Buffer.from(logo.slice(logo.indexOf(",") + 1), "base64")
+    ).metadata();
+    return width && height ? height / width : null;
+  } catch {
+    return null;
+  }
+}
+
+// Defaults and limits, for clients building requests
+export async function GET() {
+  return NextResponse.json({
+    defaults: initialQRState,
+    limits: QR_API_LIMITS,
+  });
+}
+
+// Renders a QR code from a JSON design as PNG or SVG
+export async function POST(request: Request) {
+  const declaredLength = Number(request.headers.get("content-length"));
+  if (declaredLength > QR_API_LIMITS.maxBodyBytes) {
+    return badRequest("The request body is too large", 413);
+  }
+  const text = await request.text();
+  if (Buffer.byteLength(text) > QR_API_LIMITS.maxBodyBytes) {
+    return badRequest("The request body is too large", 413);
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    return badRequest("The request body must be JSON");
+  }
+  const result = parseQRApiRequest(body);
+  if ("error" in result) return badRequest(result.error);
+  const { state, format } = result.request;
+
+  const logoAspect = await getLogoAspect(state.logo);
+  if (logoAspect === null) return badRequest("The logo is not a valid image");
+  const svg = renderQRSvg(state, logoAspect);
+
+  const headers = { "Cache-Control": "no-store" };
+  if (format === "svg") {
+    return new NextResponse(svg, {
+      headers: { ...headers, "Content-Type": "image/svg+xml" },
+    });
+  }
+  const png = await sharp(Buffer.from(svg)).png().toBuffer();
+  return new NextResponse(new Uint8Array(png), {
+    headers: { ...headers, "Content-Type": "image/png" },
+  });
+}
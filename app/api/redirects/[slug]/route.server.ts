@@ -0,0 +1,48 @@
+import { validateRedirectTarget } from "@/lib/dynamic-qr";
+import { checkRegistryAuth } from "@/lib/redirect-auth";
+import { getRedirectStore } from "@/lib/redirect-store";
+import { NextResponse } from "next/server";
+
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ slug: string }> };
+
+const notFound = () =>
+  NextResponse.json({ error: "Redirect not found" }, { status: 404 });
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const authError = checkRegistryAuth(request);
+  if (authError) return authError;
+
+  const { slug } = await params;
+  const entry = await getRedirectStore().get(slug);
+  return entry ? NextResponse.json({ entry }) : notFound();
+}
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  const authError = checkRegistryAuth(request);
+  if (authError) return authError;
+
+  const { slug } = await params;
+  const store = getRedirectStore();
+  if (!(await store.get(slug))) return notFound();
+
+  const body = await request.json().catch(() => null);
+  const target = typeof body?.target === "string" ? body.target.trim() : "";
+  const targetError = validateRedirectTarget(target);
+  if (targetError) {
+    return NextResponse.json({ error: targetError }, { status: 400 });
+  }
+
+  const entry = await store.save(slug, target);
+  return NextResponse.json({ entry });
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const authError = checkRegistryAuth(request);
+  if (authError) return authError;
+
+  const { slug } = await params;
+  const removed = await getRedirectStore().remove(slug);
+  return removed ? NextResponse.json({ removed: true }) : notFound();
+}
@@ -0,0 +1,38 @@
+import { isValidRedirectSlug, validateRedirectTarget } from "@/lib/dynamic-qr";
+import { checkRegistryAuth } from "@/lib/redirect-auth";
+import { getRedirectStore } from "@/lib/redirect-store";
+import { NextResponse } from "next/server";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const authError = checkRegistryAuth(request);
+  if (authError) return authError;
+
+  const entries = await getRedirectStore().list();
+  return NextResponse.json({ entries });
+}
+
+// Creates a redirect or updates the target of an existing slug
+export async function POST(request: Request) {
+  const authError = checkRegistryAuth(request);
+  if (authError) return authError;
+
+  const body = await request.json().catch(() => null);
+  const slug = typeof body?.slug === "string" ? body.slug : "";
+  const target = typeof body?.target === "string" ? body.target.trim() : "";
+
+  if (!isValidRedirectSlug(slug)) {
+    return NextResponse.json(
+      { error: "Slugs may only contain letters, numbers, - and _" },
+      { status: 400 }
+    );
+  }
+  const targetError = validateRedirectTarget(target);
+  if (targetError) {
+    return NextResponse.json({ error: targetError }, { status: 400 });
+  }
+
+  const entry = await getRedirectStore().save(slug, target);
+  return NextResponse.json({ entry });
+}
@@ -29,20 +29,32 @@ import { Slider } from "@/components/ui/slider";
 import { Textarea } from "@/components/ui/textarea";
 import { Html5Qrcode } from "html5-qrcode";
 import {
+  Barcode,
+  Calendar,
   Copy,
   DollarSign,
   Download,
   Facebook,
+  FileSpreadsheet,
+  Film,
+  IndianRupee,
   Instagram,
+  Landmark,
   Link,
   Linkedin,
   Mail,
   MessageCircle,
   Palette,
   Phone,
+  Plus,
+  Printer,
   RefreshCw,
+  Repeat,
+  Save,
   Scan,
   Settings,
+  Share2,
+  Trash2,
   Twitter,
   Upload,
   User,
@@ -53,11 +65,143 @@ import {
 import { useEffect, useRef, useState } from "react";
 import { toast } from "sonner";
 
+import { AnimatedQRDialog } from "@/components/qr/AnimatedQRDialog";
+import { BarcodeDialog } from "@/components/qr/BarcodeDialog";
+import { BatchQRDialog } from "@/components/qr/BatchQRDialog";
+import { BrandKitPanel } from "@/components/qr/BrandKitPanel";
+import { ColorInput } from "@/components/qr/ColorInput";
+import { DesignLibrary } from "@/components/qr/DesignLibrary";
+import { FrameDesigner } from "@/components/qr/FrameDesigner";
+import { GradientEditor } from "@/components/qr/GradientEditor";
 import { InteractiveContrastSlider } from "@/components/qr/InteractiveContrastSlider";
+import { PrintExportSettings } from "@/components/qr/PrintExportSettings";
+import { PrintSheetDialog } from "@/components/qr/PrintSheetDialog";
+import { QRVerificationBadge } from "@/components/qr/QRVerificationBadge";
+import { QRScannerDialog } from "@/components/qr/QRScannerDialog";
 import QRWithFrame from "@/components/qr/QRWithFrame";
+import { ScannabilityScore } from "@/components/qr/ScannabilityScore";
+import { SimpleContrastIndicator } from "@/components/qr/SimpleContrastIndicator";
 import { type StyledQRCodeRef } from "@/components/qr/StyledQRCode";
+import { useBrandKit } from "@/hooks/use-brand-kit";
 import { useQRGenerator } from "@/hooks/use-qr-generator";
-import { generateVCardQR, generateWiFiQR } from "@/lib/qr-utils";
+import { useQRVerification } from "@/hooks/use-qr-verification";
+import {
+  constrainToBrandKit,
+  getBrandFramePresets,
+  getDesignContrastIssues,
+} from "@/lib/brand-kit";
+import { calculateWorstCaseContrast } from "@/lib/contrast-utils";
+import { designLibrary, type SavedDesign } from "@/lib/design-library";
+import {
+  buildDynamicQRUrl,
+  createRedirectRegistry,
+  generateRedirectSlug,
+  isValidRedirectSlug,
+  loadRegistryToken,
+  saveRegistryToken,
+  validateRedirectServer,
+  validateRedirectTarget,
+} from "@/lib/dynamic-qr";
+import {
+  buildDesignLink,
+  isLogoShareable,
+  mergeKnownFields,
+  type QRDesign,
+  readDesignFromHash,
+} from "@/lib/qr-design-link";
+import {
+  buildSepaPayload,
+  buildSwissQRBillPayload,
+  buildUpiPayload,
+  isQRIban,
+  type SepaPayloadInput,
+  type SwissQRBillInput,
+  type UpiPayloadInput,
+} from "@/lib/payment-payloads";
+import {
+  downloadPrintQR,
+  type PrintFormat,
+  type PrintSettings,
+} from "@/lib/print-export";
+import {
+  buildContactPayload,
+  buildWiFiPayload,
+  type ContactAddress,
+  type ContactFormat,
+  createEmptyAddress,
+  type WiFiEapMethod,
+  type WiFiPhase2,
+  type WiFiSecurity,
+} from "@/lib/qr-payloads";
+import { framePresets } from "@/lib/qr-frame";
+import { parseScannedPayload, type ScannedPayload } from "@/lib/qr-scan";
+import { toQRFrame } from "@/lib/qr-state";
+import {
+  type EventRecurrence,
+  frameFonts,
+  generateEventQR,
+  getColorFill,
+} from "@/lib/qr-utils";
+import { decodeQRImage } from "@/lib/qr-verify";
+import { getSymbology, symbologies, type Symbology } from "@/lib/symbology";
+
+const DATA_TYPES = [
+  "text",
+  "url",
+  "email",
+  "phone",
+  "wifi",
+  "vcard",
+  "event",
+  "crypto",
+  "sms",
+  "whatsapp",
+  "skype",
+  "zoom",
+  "paypal",
+  "sepa",
+  "swissqr",
+  "upi",
+  "facebook",
+  "twitter",
+  "instagram",
+  "linkedin",
+  "tiktok",
+  "youtube",
+  "dynamic",
+] as const;
+type DataType = (typeof DATA_TYPES)[number];
+
+const isDataType = (value: string): value is DataType =>
+  (DATA_TYPES as readonly string[]).includes(value);
+
+// Inline validation message below a form field
+const FieldError = ({ message }: { message?: string }) =>
+  message ? <p className="text-xs text-red-600 mt-1">{message}</p> : null;
+
+const FLOATING_TIME_ZONE = "floating";
+
+// Local "YYYY-MM-DDTHH:00" a number of hours from now, for datetime inputs
+const getDefaultEventTime = (hoursFromNow: number) => {
+  const date = new Date(Date.now() + hoursFromNow * 60 * 60 * 1000);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:00`;
+};
+
+// Switches a start/end value between date and datetime-local input formats
+const toEventInputValue = (value: string, allDay: boolean, time: string) => {
+  const date = value.split("T")[0];
+  if (!date || allDay) return date;
+  return value.includes("T") ? value : `${date}T${time}`;
+};
+
+const getTimeZones = () => {
+  try {
+    return Array.from(new Set(["UTC", ...Intl.supportedValuesOf("timeZone")]));
+  } catch {
+    return ["UTC", Intl.DateTimeFormat().resolvedOptions().timeZone];
+  }
+};
 
 // Crypto QR code generator
 const generateCryptoQR = (crypto: {
@@ -166,50 +310,83 @@ export default function QRGenerator() {
     emojiPresets,
   } = useQRGenerator();
 
-  const [dataType, setDataType] = useState<
-    | "text"
-    | "url"
-    | "email"
-    | "phone"
-    | "wifi"
-    | "vcard"
-    | "crypto"
-    | "sms"
-    | "whatsapp"
-    | "skype"
-    | "zoom"
-    | "paypal"
-    | "facebook"
-    | "twitter"
-    | "instagram"
-    | "linkedin"
-    | "tiktok"
-    | "youtube"
-  >("url");
+  const [dataType, setDataType] = useState<DataType>("url");
   const [wifiData, setWifiData] = useState<{
     ssid: string;
     password: string;
-    security: "WPA" | "WEP" | "nopass";
+    security: WiFiSecurity;
+    hidden: boolean;
+    eapMethod: WiFiEapMethod;
+    phase2: WiFiPhase2;
+    identity: string;
+    anonymousIdentity: string;
   }>({
     ssid: "",
     password: "",
     security: "WPA",
+    hidden: false,
+    eapMethod: "PEAP",
+    phase2: "MSCHAPV2",
+    identity: "",
+    anonymousIdentity: "",
   });
-  const [vcardData, setVcardData] = useState({
+  const [vcardData, setVcardData] = useState<{
+    format: ContactFormat;
+    firstName: string;
+    lastName: string;
+    title: string;
+    organization: string;
+    addresses: ContactAddress[];
+    emailPersonal: string;
+    emailBusiness: string;
+    phonePersonal: string;
+    phoneMobile: string;
+    phoneBusiness: string;
+    website: string;
+    birthday: string;
+    note: string;
+    photo: string;
+  }>({
+    format: "vcard3",
     firstName: "",
     lastName: "",
     title: "",
     organization: "",
-    street: "",
-    city: "",
-    zipCode: "",
-    country: "",
+    addresses: [createEmptyAddress("work")],
     emailPersonal: "",
     emailBusiness: "",
     phonePersonal: "",
     phoneMobile: "",
     phoneBusiness: "",
     website: "",
+    birthday: "",
+    note: "",
+    photo: "",
+  });
+  const [eventData, setEventData] = useState<{
+    title: string;
+    start: string;
+    end: string;
+    allDay: boolean;
+    timeZone: string;
+    location: string;
+    description: string;
+    recurrence: EventRecurrence;
+    interval: number;
+    count: number;
+    until: string;
+  }>({
+    title: "",
+    start: "",
+    end: "",
+    allDay: false,
+    timeZone: "",
+    location: "",
+    description: "",
+    recurrence: "",
+    interval: 1,
+    count: 0,
+    until: "",
   });
   const [cryptoData, setCryptoData] = useState({
     type: "bitcoin" as "bitcoin" | "bitcoin-cash" | "ethereum" | "litecoin",
@@ -242,6 +419,44 @@ export default function QRGenerator() {
     shipping: "",
     taxRate: "",
   });
+  const [sepaData, setSepaData] = useState<SepaPayloadInput>({
+    name: "",
+    iban: "",
+    bic: "",
+    amount: "",
+    purpose: "",
+    reference: "",
+    text: "",
+    information: "",
+  });
+  const [swissQRData, setSwissQRData] = useState<SwissQRBillInput>({
+    iban: "",
+    creditorName: "",
+    creditorStreet: "",
+    creditorBuildingNumber: "",
+    creditorPostalCode: "",
+    creditorTown: "",
+    creditorCountry: "CH",
+    amount: "",
+    currency: "CHF",
+    debtorName: "",
+    debtorStreet: "",
+    debtorBuildingNumber: "",
+    debtorPostalCode: "",
+    debtorTown: "",
+    debtorCountry: "",
+    reference: "",
+    message: "",
+    billingInformation: "",
+  });
+  const [upiData, setUpiData] = useState<UpiPayloadInput>({
+    vpa: "",
+    name: "",
+    amount: "",
+    note: "",
+    reference: "",
+    merchantCode: "",
+  });
   const [facebookData, setFacebookData] = useState({
     url: "",
     username: "",
@@ -266,15 +481,42 @@ export default function QRGenerator() {
     url: "",
     channel: "",
   });
+  const [dynamicData, setDynamicData] = useState({
+    baseUrl: "",
+    slug: "",
+    target: "",
+  });
+  const [isSavingRedirect, setIsSavingRedirect] = useState(false);
+  // Kept out of dynamicData so it never ends up in design links
+  const [registryToken, setRegistryToken] = useState("");
   const [isScanning, setIsScanning] = useState(false);
   const [scanResult, setScanResult] = useState<string | null>(null);
   const [hasEverScanned, setHasEverScanned] = useState(false);
   const [showDownloadModal, setShowDownloadModal] = useState(false);
-  const [downloadFormat, setDownloadFormat] = useState<"png" | "svg">("png");
+  const [downloadFormat, setDownloadFormat] = useState<PrintFormat>("png");
+  const [isPrintExport, setIsPrintExport] = useState(false);
+  const [printSettings, setPrintSettings] = useState<PrintSettings>({
+    sizeMm: 25,
+    dpi: 300,
+    cmyk: true,
+  });
+  const [showBatchDialog, setShowBatchDialog] = useState(false);
+  const [showSheetDialog, setShowSheetDialog] = useState(false);
+  const [showAnimationDialog, setShowAnimationDialog] = useState(false);
+  const [showScannerDialog, setShowScannerDialog] = useState(false);
+  const [showBarcodeDialog, setShowBarcodeDialog] = useState(false);
   const [showFloatingPreview, setShowFloatingPreview] = useState(false);
+  const brandKit = useBrandKit();
+  const lockedKit = brandKit.isLocked ? brandKit.activeKit : null;
   const qrRef = useRef<StyledQRCodeRef>(null);
+  const { result: verification, isVerifying } = useQRVerification(
+    generateQROptions,
+    { enabled: qrState.symbology === "qr" }
+  );
   const qrContainerRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const backgroundImageInputRef = useRef<HTMLInputElement>(null);
+  const importQRInputRef = useRef<HTMLInputElement>(null);
 
   // Wrapper function to reset scan state whenever QR changes
   const updateQRStateAndReset = (updates: any) => {
@@ -282,6 +524,32 @@ export default function QRGenerator() {
     setHasEverScanned(false);
   };
 
+  useEffect(() => {
+    setRegistryToken(loadRegistryToken());
+  }, []);
+
+  // Brand lock: pull any value set by presets, randomize or restored designs
+  // back to the closest value the brand kit allows
+  useEffect(() => {
+    if (!lockedKit) return;
+    const updates = constrainToBrandKit(qrState, lockedKit);
+    if (Object.keys(updates).length > 0) {
+      updateQRState(updates);
+      setHasEverScanned(false);
+    }
+  }, [qrState, lockedKit, updateQRState]);
+
+  const availableFramePresets = lockedKit
+    ? getBrandFramePresets(lockedKit)
+    : framePresets;
+  const availableFrameFonts =
+    lockedKit && lockedKit.fonts.length > 0
+      ? lockedKit.fonts.map((font) => ({
+          label: frameFonts.find((f) => f.value === font)?.label || font,
+          value: font,
+        }))
+      : frameFonts;
+
   const handleQRReady = (qrInstance: any) => {
     setQRInstance(qrInstance);
   };
@@ -305,6 +573,24 @@ export default function QRGenerator() {
     fileInputRef.current?.click();
   };
 
+  const handleBackgroundImageUpload = (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (file && file.type.startsWith("image/")) {
+      const reader = new FileReader();
+      reader.onload = (e) => {
+        const result = e.target?.result as string;
+        updateQRStateAndReset({ backgroundImage: result });
+        toast.success("Background image added");
+      };
+      reader.readAsDataURL(file);
+    } else {
+      toast.error("Please select a valid image file");
+    }
+  };
+
   // Don't auto-detect data type - let user control it manually
 
   const handleDataTypeChange = (type: typeof dataType) => {
@@ -321,21 +607,36 @@ export default function QRGenerator() {
         updateQRStateAndReset({ data: "+1234567890" });
         break;
       case "wifi":
-        const wifiQRData = generateWiFiQR(
-          wifiData.ssid || "MyWiFi",
-          wifiData.password || "",
-          wifiData.security
-        );
+        const wifiQRData = buildWiFiPayload({
+          ...wifiData,
+          ssid: wifiData.ssid || "MyWiFi",
+        }).payload;
         updateQRStateAndReset({ data: wifiQRData });
         break;
       case "vcard":
-        const vcardQRData = generateVCardQR({
-          ...vcardData,
-          firstName: vcardData.firstName || "John",
-          lastName: vcardData.lastName || "Doe",
-        });
+        const vcardQRData = buildContactPayload(
+          {
+            ...vcardData,
+            firstName: vcardData.firstName || "John",
+            lastName: vcardData.lastName || "Doe",
+          },
+          vcardData.format
+        ).payload;
         updateQRStateAndReset({ data: vcardQRData });
         break;
+      case "event":
+        const newEventData = {
+          ...eventData,
+          title: eventData.title || "Team Meeting",
+          start: eventData.start || getDefaultEventTime(1),
+          end: eventData.end || getDefaultEventTime(2),
+          timeZone:
+            eventData.timeZone ||
+            Intl.DateTimeFormat().resolvedOptions().timeZone,
+        };
+        setEventData(newEventData);
+        updateQRStateAndReset({ data: generateEventQR(newEventData) });
+        break;
       case "crypto":
         const cryptoQRData = generateCryptoQR({
           ...cryptoData,
@@ -378,6 +679,32 @@ export default function QRGenerator() {
         });
         updateQRStateAndReset({ data: paypalQRData });
         break;
+      case "sepa":
+        const sepaQRData = buildSepaPayload({
+          ...sepaData,
+          name: sepaData.name || "Red Cross",
+          iban: sepaData.iban || "DE89370400440532013000",
+        }).payload;
+        updateQRStateAndReset({ data: sepaQRData });
+        break;
+      case "swissqr":
+        const swissQRBillData = buildSwissQRBillPayload({
+          ...swissQRData,
+          iban: swissQRData.iban || "CH9300762011623852957",
+          creditorName: swissQRData.creditorName || "Muster AG",
+          creditorPostalCode: swissQRData.creditorPostalCode || "8000",
+          creditorTown: swissQRData.creditorTown || "Zurich",
+        }).payload;
+        updateQRStateAndReset({ data: swissQRBillData });
+        break;
+      case "upi":
+        const upiQRData = buildUpiPayload({
+          ...upiData,
+          vpa: upiData.vpa || "merchant@upi",
+          name: upiData.name || "Merchant",
+        }).payload;
+        updateQRStateAndReset({ data: upiQRData });
+        break;
       case "facebook":
         const fbUrl =
           facebookData.url || `https://facebook.com/${facebookData.username}`;
@@ -410,29 +737,91 @@ export default function QRGenerator() {
           youtubeData.url || `https://youtube.com/c/${youtubeData.channel}`;
         updateQRStateAndReset({ data: youtubeUrl });
         break;
+      case "dynamic":
+        const newDynamicData = {
+          ...dynamicData,
+          baseUrl: dynamicData.baseUrl || window.location.origin,
+          slug: dynamicData.slug || generateRedirectSlug(),
+        };
+        setDynamicData(newDynamicData);
+        updateQRStateAndReset({
+          data: buildDynamicQRUrl(newDynamicData.baseUrl, newDynamicData.slug),
+        });
+        break;
       default:
         updateQRStateAndReset({ data: "Hello, World!" });
     }
   };
 
-  const handleWifiUpdate = (field: keyof typeof wifiData, value: string) => {
+  const handleWifiUpdate = <K extends keyof typeof wifiData>(
+    field: K,
+    value: (typeof wifiData)[K]
+  ) => {
     const newWifiData = { ...wifiData, [field]: value };
     setWifiData(newWifiData);
-    updateQRStateAndReset({
-      data: generateWiFiQR(
-        newWifiData.ssid,
-        newWifiData.password,
-        newWifiData.security
-      ),
-    });
+    updateQRStateAndReset({ data: buildWiFiPayload(newWifiData).payload });
   };
 
-  const handleVCardUpdate = (field: keyof typeof vcardData, value: string) => {
+  const handleVCardUpdate = <K extends keyof typeof vcardData>(
+    field: K,
+    value: (typeof vcardData)[K]
+  ) => {
     const newVCardData = { ...vcardData, [field]: value };
     setVcardData(newVCardData);
-    updateQRStateAndReset({ data: generateVCardQR(newVCardData) });
+    updateQRStateAndReset({
+      data: buildContactPayload(newVCardData, newVCardData.format).payload,
+    });
+  };
+
+  const handleAddressUpdate = (
+    index: number,
+    updates: Partial<ContactAddress>
+  ) => {
+    handleVCardUpdate(
+      "addresses",
+      vcardData.addresses.map((address, i) =>
+        i === index ? { ...address, ...updates } : address
+      )
+    );
   };
 
+  // Validation errors are derived from the form state and shown inline
+  const wifiErrors = buildWiFiPayload(wifiData).errors;
+  const contactErrors = buildContactPayload(vcardData, vcardData.format).errors;
+
+  const handleSepaUpdate = <K extends keyof typeof sepaData>(
+    field: K,
+    value: (typeof sepaData)[K]
+  ) => {
+    const newSepaData = { ...sepaData, [field]: value };
+    setSepaData(newSepaData);
+    updateQRStateAndReset({ data: buildSepaPayload(newSepaData).payload });
+  };
+
+  const handleSwissQRUpdate = <K extends keyof typeof swissQRData>(
+    field: K,
+    value: (typeof swissQRData)[K]
+  ) => {
+    const newSwissQRData = { ...swissQRData, [field]: value };
+    setSwissQRData(newSwissQRData);
+    updateQRStateAndReset({
+      data: buildSwissQRBillPayload(newSwissQRData).payload,
+    });
+  };
+
+  const handleUpiUpdate = <K extends keyof typeof upiData>(
+    field: K,
+    value: (typeof upiData)[K]
+  ) => {
+    const newUpiData = { ...upiData, [field]: value };
+    setUpiData(newUpiData);
+    updateQRStateAndReset({ data: buildUpiPayload(newUpiData).payload });
+  };
+
+  const sepaResult = buildSepaPayload(sepaData);
+  const swissQRResult = buildSwissQRBillPayload(swissQRData);
+  const upiResult = buildUpiPayload(upiData);
+
   const handleCryptoUpdate = (
     field: keyof typeof cryptoData,
     value: string
@@ -492,6 +881,12 @@ export default function QRGenerator() {
     updateQRStateAndReset({ data: url });
   };
 
+  const updateEvent = (updates: Partial<typeof eventData>) => {
+    const newData = { ...eventData, ...updates };
+    setEventData(newData);
+    updateQRStateAndReset({ data: generateEventQR(newData) });
+  };
+
   const updateInstagram = (updates: Partial<typeof instagramData>) => {
     const newData = { ...instagramData, ...updates };
     setInstagramData(newData);
@@ -550,6 +945,56 @@ export default function QRGenerator() {
     updateQRStateAndReset({ data: generatePayPalQR(newData) });
   };
 
+  const updateDynamic = (updates: Partial<typeof dynamicData>) => {
+    const newData = { ...dynamicData, ...updates };
+    setDynamicData(newData);
+    updateQRStateAndReset({
+      data: buildDynamicQRUrl(newData.baseUrl, newData.slug),
+    });
+  };
+
+  const handleSaveRedirect = async () => {
+    if (!isValidRedirectSlug(dynamicData.slug)) {
+      toast.error("Slugs may only contain letters, numbers, - and _");
+      return;
+    }
+    const targetError = validateRedirectTarget(dynamicData.target);
+    if (targetError) {
+      toast.error(targetError);
+      return;
+    }
+    // Saved to the registry of the server the code points at
+    const serverError = validateRedirectServer(
+      dynamicData.baseUrl,
+      window.location.origin
+    );
+    if (serverError) {
+      toast.error(serverError);
+      return;
+    }
+
+    setIsSavingRedirect(true);
+    try {
+      await createRedirectRegistry(dynamicData.baseUrl).save(
+        dynamicData.slug,
+        dynamicData.target
+      );
+      toast.success("Redirect saved - the code now opens the target URL");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save redirect"
+      );
+    } finally {
+      setIsSavingRedirect(false);
+    }
+  };
+
+  // Base URL is only set in the browser, never while prerendering
+  const redirectServerError =
+    dataType === "dynamic" && dynamicData.baseUrl
+      ? validateRedirectServer(dynamicData.baseUrl, window.location.origin)
+      : null;
+
   const handleDownload = async (format: "png" | "jpeg" | "svg") => {
     try {
       await downloadQR(format);
@@ -579,9 +1024,28 @@ export default function QRGenerator() {
     setShowDownloadModal(true);
   };
 
-  const confirmDownload = () => {
-    handleDownload(downloadFormat);
+  const confirmDownload = async () => {
     setShowDownloadModal(false);
+    const isVector = downloadFormat === "pdf" || downloadFormat === "eps";
+    if (qrState.symbology !== "qr" || (!isVector && !isPrintExport)) {
+      await handleDownload(downloadFormat === "svg" ? "svg" : "png");
+      return;
+    }
+    try {
+      const layout = await downloadPrintQR(
+        generateQROptions(),
+        printSettings,
+        downloadFormat,
+        toQRFrame(qrState)
+      );
+      toast.success(
+        `QR code downloaded as ${downloadFormat.toUpperCase()} at ${layout.sizeMm.toFixed(1)} mm`
+      );
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to download QR code"
+      );
+    }
   };
 
   const handleSwapColors = () => {
@@ -596,6 +1060,287 @@ export default function QRGenerator() {
     });
   };
 
+  // Form fields of the selected content type, for design links
+  const getTypeFormData = (): Record<string, unknown> | undefined => {
+    switch (dataType) {
+      case "wifi":
+        return wifiData;
+      case "vcard":
+        return vcardData;
+      case "event":
+        return eventData;
+      case "crypto":
+        return cryptoData;
+      case "sms":
+        return smsData;
+      case "whatsapp":
+        return whatsappData;
+      case "skype":
+        return skypeData;
+      case "zoom":
+        return zoomData;
+      case "paypal":
+        return paypalData;
+      case "sepa":
+        return { ...sepaData };
+      case "swissqr":
+        return { ...swissQRData };
+      case "upi":
+        return { ...upiData };
+      case "facebook":
+        return facebookData;
+      case "twitter":
+        return twitterData;
+      case "instagram":
+        return instagramData;
+      case "linkedin":
+        return linkedinData;
+      case "tiktok":
+        return tiktokData;
+      case "youtube":
+        return youtubeData;
+      case "dynamic":
+        return dynamicData;
+      default:
+        return undefined;
+    }
+  };
+
+  const applyTypeFormData = (type: DataType, data: unknown) => {
+    const restore = <T extends object>(
+      current: T,
+      setter: (value: T) => void
+    ) => setter(mergeKnownFields(current, data).value);
+
+    switch (type) {
+      case "wifi":
+        return restore(wifiData, setWifiData);
+      case "vcard":
+        return restore(vcardData, setVcardData);
+      case "event":
+        return restore(eventData, setEventData);
+      case "crypto":
+        return restore(cryptoData, setCryptoData);
+      case "sms":
+        return restore(smsData, setSmsData);
+      case "whatsapp":
+        return restore(whatsappData, setWhatsappData);
+      case "skype":
+        return restore(skypeData, setSkypeData);
+      case "zoom":
+        return restore(zoomData, setZoomData);
+      case "paypal":
+        return restore(paypalData, setPaypalData);
+      case "sepa":
+        return restore(sepaData, setSepaData);
+      case "swissqr":
+        return restore(swissQRData, setSwissQRData);
+      case "upi":
+        return restore(upiData, setUpiData);
+      case "facebook":
+        return restore(facebookData, setFacebookData);
+      case "twitter":
+        return restore(twitterData, setTwitterData);
+      case "instagram":
+        return restore(instagramData, setInstagramData);
+      case "linkedin":
+        return restore(linkedinData, setLinkedinData);
+      case "tiktok":
+        return restore(tiktokData, setTiktokData);
+      case "youtube":
+        return restore(youtubeData, setYoutubeData);
+      case "dynamic":
+        return restore(dynamicData, setDynamicData);
+    }
+  };
+
+  // Gradients are judged by their least readable spot, over the dots and
+  // both corner elements. Background images cannot be sampled, the scan test
+  // has to judge them. Symbologies other than QR always use the solid colors.
+  const isQRSymbology = qrState.symbology === "qr";
+  const hasSolidColors =
+    !isQRSymbology ||
+    (!qrState.dotsGradient &&
+      !qrState.cornersSquareGradient &&
+      !qrState.cornersDotGradient &&
+      !qrState.backgroundGradient &&
+      !qrState.backgroundImage);
+  const hasUncheckableBackground = isQRSymbology && !!qrState.backgroundImage;
+  const backgroundFill = getColorFill(
+    qrState.backgroundColor,
+    qrState.backgroundGradient
+  );
+  const worstCaseContrast = (
+    isQRSymbology
+      ? [
+          getColorFill(qrState.dotsColor, qrState.dotsGradient),
+          getColorFill(
+            qrState.cornersSquareColor,
+            qrState.cornersSquareGradient
+          ),
+          getColorFill(qrState.cornersDotColor, qrState.cornersDotGradient),
+        ]
+      : [qrState.dotsColor]
+  )
+    .map((foreground) => calculateWorstCaseContrast(foreground, backgroundFill))
+    .reduce((worst, contrast) =>
+      contrast.ratio < worst.ratio ? contrast : worst
+    );
+
+  const renderContrastCheck = (className: string) => {
+    if (hasSolidColors) {
+      return (
+        !lockedKit && (
+          <div className={className}>
+            <InteractiveContrastSlider
+              foregroundColor={qrState.dotsColor}
+              backgroundColor={qrState.backgroundColor}
+              onColorChange={handleContrastColorChange}
+              onSwapColors={handleSwapColors}
+            />
+          </div>
+        )
+      );
+    }
+    if (hasUncheckableBackground) {
+      return (
+        <div
+          className={`${className} bg-gray-50 dark:bg-gray-800 rounded-lg p-3 border`}
+        >
+          <div className="flex items-start gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <Scan className="w-4 h-4 mt-0.5 flex-shrink-0 text-blue-600 dark:text-blue-400" />
+            Contrast cannot be checked over a background image - run the scan
+            test
+          </div>
+        </div>
+      );
+    }
+    return (
+      <SimpleContrastIndicator
+        className={className}
+        label="Worst-case contrast"
+        foregroundColor={worstCaseContrast.foregroundColor}
+        backgroundColor={worstCaseContrast.backgroundColor}
+      />
+    );
+  };
+
+  // Micro QR and rMQR cannot be read by the scan test, exports stay unlocked
+  const canTestScan = getSymbology(qrState.symbology).canTestScan;
+  const isExportUnlocked = hasEverScanned || !canTestScan;
+
+  const getCurrentDesign = (): QRDesign => ({
+    state: qrState,
+    dataType,
+    typeData: getTypeFormData(),
+  });
+
+  const applyDesign = (design: QRDesign) => {
+    updateQRStateAndReset({ ...design.state, logo: design.state.logo });
+    const type = isDataType(design.dataType) ? design.dataType : "text";
+    setDataType(type);
+    applyTypeFormData(type, design.typeData);
+  };
+
+  // Scanned and imported codes keep their exact payload, the form shows
+  // its fields and the current styling is applied to it
+  const openPayloadInEditor = (scanned: ScannedPayload) => {
+    const type = isDataType(scanned.dataType) ? scanned.dataType : "text";
+    setDataType(type);
+    if (scanned.typeData) applyTypeFormData(type, scanned.typeData);
+    updateQRStateAndReset({ data: scanned.data });
+  };
+
+  const handleOpenScannedCode = (scanned: ScannedPayload) => {
+    openPayloadInEditor(scanned);
+    setShowScannerDialog(false);
+    toast.success("Scanned code opened in the editor");
+  };
+
+  const handleImportQRImage = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    if (!file.type.startsWith("image/")) {
+      toast.error("Please select a valid image file");
+      return;
+    }
+
+    const text = await decodeQRImage(file);
+    if (text === null) {
+      toast.error("No QR code found in the image");
+      return;
+    }
+    const scanned = parseScannedPayload(text);
+    openPayloadInEditor(scanned);
+    toast.success(
+      `Imported ${scanned.summary} - apply a preset or brand kit to re-style it`
+    );
+  };
+
+  const handleCopyDesignLink = async () => {
+    const link = buildDesignLink(window.location.href, getCurrentDesign());
+    try {
+      await navigator.clipboard.writeText(link);
+      toast.success(
+        isLogoShareable(qrState.logo) &&
+          isLogoShareable(qrState.backgroundImage)
+          ? "Design link copied to clipboard!"
+          : "Design link copied - uploaded images are not included"
+      );
+    } catch {
+      toast.error("Failed to copy design link");
+    }
+  };
+
+  const restoreDesignFromHash = () => {
+    const decoded = readDesignFromHash(window.location.hash);
+    if (!decoded) return;
+
+    const { design, status } = decoded;
+    applyDesign(design);
+    // Drop the hash so later edits are not mistaken for the shared design
+    window.history.replaceState(
+      null,
+      "",
+      window.location.pathname + window.location.search
+    );
+
+    if (status === "exact") {
+      toast.success("Shared design loaded");
+    } else if (status === "migrated") {
+      toast.success("Shared design loaded and updated to the current version");
+    } else {
+      toast.warning(
+        "This design link was made with a different version - some settings could not be restored"
+      );
+    }
+  };
+
+  const handleApplySavedDesign = (saved: SavedDesign) => {
+    const { design, status } = designLibrary.loadDesign(saved);
+    applyDesign(design);
+    if (status === "partial") {
+      toast.warning(
+        `"${saved.name}" was saved with a different version - some settings could not be restored`
+      );
+    } else {
+      toast.success(`"${saved.name}" applied`);
+    }
+  };
+
+  // Restore shared designs on load and when a link is opened in this tab
+  const restoreDesignRef = useRef(restoreDesignFromHash);
+  restoreDesignRef.current = restoreDesignFromHash;
+  useEffect(() => {
+    const handleHashChange = () => restoreDesignRef.current();
+    handleHashChange();
+    window.addEventListener("hashchange", handleHashChange);
+    return () => window.removeEventListener("hashchange", handleHashChange);
+  }, []);
+
   // Intersection Observer for floating QR preview on mobile
   useEffect(() => {
     const qrContainer = qrContainerRef.current;
@@ -915,14 +1660,7 @@ export default function QRGenerator() {
         {/* Left Panel - QR Preview */}
         <div className="lg:sticky lg:top-4 space-y-4">
           {/* Interactive Contrast Control - Mobile only */}
-          <div className="lg:hidden">
-            <InteractiveContrastSlider
-              foregroundColor={qrState.dotsColor}
-              backgroundColor={qrState.backgroundColor}
-              onColorChange={handleContrastColorChange}
-              onSwapColors={handleSwapColors}
-            />
-          </div>
+          {renderContrastCheck("lg:hidden")}
 
           {/* QR Code and Quick Actions */}
           <div className="flex flex-col lg:flex-row gap-4">
@@ -930,10 +1668,10 @@ export default function QRGenerator() {
             <Card className="lg:flex-1 order-2 lg:order-1">
               <CardContent className="p-3 relative">
                 <div className="space-y-2">
-                  <div className="grid grid-cols-2 gap-2">
+                  <div className="grid grid-cols-3 gap-2">
                     <Button
                       onClick={() => openDownloadModal("png")}
-                      disabled={isGenerating || !hasEverScanned}
+                      disabled={isGenerating || !isExportUnlocked}
                       size="sm"
                     >
                       <Download className="w-4 h-4 mr-2" />
@@ -942,29 +1680,66 @@ export default function QRGenerator() {
                     <Button
                       onClick={() => openDownloadModal("svg")}
                       variant="outline"
-                      disabled={isGenerating || !hasEverScanned}
+                      disabled={isGenerating || !isExportUnlocked}
                       size="sm"
                     >
                       <Download className="w-4 h-4 mr-2" />
                       SVG
                     </Button>
+                    <Button
+                      onClick={() => setShowAnimationDialog(true)}
+                      variant="outline"
+                      disabled={
+                        isGenerating ||
+                        !isExportUnlocked ||
+                        qrState.symbology !== "qr"
+                      }
+                      size="sm"
+                    >
+                      <Film className="w-4 h-4 mr-2" />
+                      Animated
+                    </Button>
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <Button
+                      onClick={handleCopy}
+                      variant="outline"
+                      disabled={isGenerating || !isExportUnlocked}
+                      size="sm"
+                    >
+                      <Copy className="w-4 h-4 mr-2" />
+                      Copy
+                    </Button>
+                    <Button
+                      onClick={() => setShowSheetDialog(true)}
+                      variant="outline"
+                      disabled={
+                        isGenerating ||
+                        !isExportUnlocked ||
+                        qrState.symbology !== "qr"
+                      }
+                      title={
+                        qrState.symbology !== "qr"
+                          ? "Print sheets are available for QR codes only"
+                          : undefined
+                      }
+                      size="sm"
+                    >
+                      <Printer className="w-4 h-4 mr-2" />
+                      Print Sheet
+                    </Button>
                   </div>
-                  <Button
-                    onClick={handleCopy}
-                    variant="outline"
-                    className="w-full"
-                    disabled={isGenerating || !hasEverScanned}
-                    size="sm"
-                  >
-                    <Copy className="w-4 h-4 mr-2" />
-                    Copy to Clipboard
-                  </Button>
                   <div className="grid grid-cols-2 gap-2">
                     <Button
                       onClick={handleRandomize}
                       variant="outline"
                       size="sm"
-                      disabled={isGenerating}
+                      disabled={isGenerating || !!lockedKit}
+                      title={
+                        lockedKit
+                          ? "Randomize is off while brand lock is on"
+                          : undefined
+                      }
                     >
                       <RefreshCw className="w-4 h-4 mr-2" />
                       Randomize
@@ -982,7 +1757,7 @@ export default function QRGenerator() {
                 </div>
 
                 {/* Scan to Unlock Overlay */}
-                {!hasEverScanned && (
+                {!isExportUnlocked && (
                   <div className="absolute inset-0 bg-white/50 dark:bg-gray-900/50 backdrop-blur-sm rounded-lg flex items-center justify-center">
                     <div className="text-center p-4">
                       <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
@@ -1011,11 +1786,8 @@ export default function QRGenerator() {
               <QRWithFrame
                 ref={qrRef}
                 {...generateQROptions()}
-                hasFrame={qrState.hasFrame}
-                frameColor={qrState.frameColor}
-                textColor={qrState.textColor}
-                frameText={qrState.frameText}
-                textPosition={qrState.textPosition}
+                symbology={qrState.symbology}
+                frame={toQRFrame(qrState)}
                 className="drop-shadow-sm"
                 onQRCodeReady={handleQRReady}
               />
@@ -1052,15 +1824,32 @@ export default function QRGenerator() {
             </div>
           </div>
 
-          {/* Interactive Contrast Control - Desktop only */}
-          <div className="hidden lg:block">
-            <InteractiveContrastSlider
-              foregroundColor={qrState.dotsColor}
-              backgroundColor={qrState.backgroundColor}
-              onColorChange={handleContrastColorChange}
-              onSwapColors={handleSwapColors}
+          {/* Automatic Decode Verification */}
+          {qrState.symbology === "qr" && (
+            <QRVerificationBadge
+              result={verification}
+              isVerifying={isVerifying}
             />
-          </div>
+          )}
+
+          {/* Print Size and Distance Check */}
+          {qrState.symbology === "qr" && (
+            <ScannabilityScore
+              data={qrState.data}
+              errorCorrectionLevel={qrState.errorCorrectionLevel}
+              dotsType={qrState.dotsType}
+              width={qrState.width}
+              height={qrState.height}
+              margin={qrState.margin}
+              foreground={worstCaseContrast.foregroundColor}
+              background={worstCaseContrast.backgroundColor}
+              hasLogo={!!qrState.logo}
+              logoSize={qrState.logoSize}
+            />
+          )}
+
+          {/* Interactive Contrast Control - Desktop only */}
+          {renderContrastCheck("hidden lg:block")}
         </div>
 
         {/* Right Panel - All Configuration Options */}
@@ -1076,17 +1865,77 @@ export default function QRGenerator() {
             <CardContent className="space-y-4">
               {/* Data Type Selector */}
               <div className="space-y-2">
-                <Label htmlFor="content-type">Content Type</Label>
-                <Select
-                  value={dataType}
-                  onValueChange={(value) =>
-                    handleDataTypeChange(value as typeof dataType)
-                  }
-                >
-                  <SelectTrigger id="content-type" className="w-full h-10">
-                    <SelectValue placeholder="Choose content type" />
-                  </SelectTrigger>
-                  <SelectContent>
+                <div className="flex items-start justify-between gap-2">
+                  <Label htmlFor="content-type">Content Type</Label>
+                  <div className="flex flex-wrap justify-end gap-2">
+                    <Button
+                      onClick={handleCopyDesignLink}
+                      variant="outline"
+                      size="sm"
+                      className="h-7 text-xs"
+                      title="Copy a link that opens this exact design"
+                    >
+                      <Share2 className="w-3 h-3 mr-1" />
+                      Copy Design Link
+                    </Button>
+                    <Button
+                      onClick={() => setShowBatchDialog(true)}
+                      variant="outline"
+                      size="sm"
+                      className="h-7 text-xs"
+                    >
+                      <FileSpreadsheet className="w-3 h-3 mr-1" />
+                      Batch from CSV
+                    </Button>
+                    <Button
+                      onClick={() => setShowScannerDialog(true)}
+                      variant="outline"
+                      size="sm"
+                      className="h-7 text-xs"
+                      title="Decode an existing QR code and edit it"
+                    >
+                      <Scan className="w-3 h-3 mr-1" />
+                      Scan Code
+                    </Button>
+                    <Button
+                      onClick={() => setShowBarcodeDialog(true)}
+                      variant="outline"
+                      size="sm"
+                      className="h-7 text-xs"
+                      title="Create Code 128, EAN-13, UPC-A or ITF-14 barcodes"
+                    >
+                      <Barcode className="w-3 h-3 mr-1" />
+                      Barcode
+                    </Button>
+                    <Button
+                      onClick={() => importQRInputRef.current?.click()}
+                      variant="outline"
+                      size="sm"
+                      className="h-7 text-xs"
+                      title="Load the content of a QR code image to re-style it"
+                    >
+                      <Upload className="w-3 h-3 mr-1" />
+                      Import QR Image
+                    </Button>
+                    <input
+                      ref={importQRInputRef}
+                      type="file"
+                      accept="image/*"
+                      onChange={handleImportQRImage}
+                      className="hidden"
+                    />
+                  </div>
+                </div>
+                <Select
+                  value={dataType}
+                  onValueChange={(value) =>
+                    handleDataTypeChange(value as typeof dataType)
+                  }
+                >
+                  <SelectTrigger id="content-type" className="w-full h-10">
+                    <SelectValue placeholder="Choose content type" />
+                  </SelectTrigger>
+                  <SelectContent>
                     <SelectItem value="url">
                       <div className="flex items-center gap-2">
                         <Link className="w-4 h-4" />
@@ -1123,6 +1972,12 @@ export default function QRGenerator() {
                         <span>Contact - Business Card</span>
                       </div>
                     </SelectItem>
+                    <SelectItem value="event">
+                      <div className="flex items-center gap-2">
+                        <Calendar className="w-4 h-4" />
+                        <span>Event - Calendar Entry</span>
+                      </div>
+                    </SelectItem>
                     <SelectItem value="crypto">
                       <div className="flex items-center gap-2">
                         <DollarSign className="w-4 h-4" />
@@ -1159,6 +2014,24 @@ export default function QRGenerator() {
                         <span>PayPal - Payment Link</span>
                       </div>
                     </SelectItem>
+                    <SelectItem value="sepa">
+                      <div className="flex items-center gap-2">
+                        <Landmark className="w-4 h-4" />
+                        <span>SEPA - Bank Transfer</span>
+                      </div>
+                    </SelectItem>
+                    <SelectItem value="swissqr">
+                      <div className="flex items-center gap-2">
+                        <Landmark className="w-4 h-4" />
+                        <span>Swiss QR-bill - Payment Part</span>
+                      </div>
+                    </SelectItem>
+                    <SelectItem value="upi">
+                      <div className="flex items-center gap-2">
+                        <IndianRupee className="w-4 h-4" />
+                        <span>UPI - Payment Request</span>
+                      </div>
+                    </SelectItem>
                     <SelectItem value="facebook">
                       <div className="flex items-center gap-2">
                         <Facebook className="w-4 h-4" />
@@ -1195,6 +2068,12 @@ export default function QRGenerator() {
                         <span>YouTube - Channel/Video</span>
                       </div>
                     </SelectItem>
+                    <SelectItem value="dynamic">
+                      <div className="flex items-center gap-2">
+                        <Repeat className="w-4 h-4" />
+                        <span>Dynamic - Editable Redirect</span>
+                      </div>
+                    </SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -1215,13 +2094,14 @@ export default function QRGenerator() {
                         }
                         placeholder="My WiFi Network"
                       />
+                      <FieldError message={wifiErrors.ssid} />
                     </div>
                     <div>
                       <Label htmlFor="security">Security</Label>
                       <Select
                         value={wifiData.security}
                         onValueChange={(value) =>
-                          handleWifiUpdate("security", value)
+                          handleWifiUpdate("security", value as WiFiSecurity)
                         }
                       >
                         <SelectTrigger>
@@ -1229,12 +2109,96 @@ export default function QRGenerator() {
                         </SelectTrigger>
                         <SelectContent>
                           <SelectItem value="WPA">WPA/WPA2</SelectItem>
+                          <SelectItem value="WPA3">WPA3 (SAE)</SelectItem>
+                          <SelectItem value="WPA2-EAP">
+                            WPA2-Enterprise (EAP)
+                          </SelectItem>
                           <SelectItem value="WEP">WEP</SelectItem>
                           <SelectItem value="nopass">No Password</SelectItem>
                         </SelectContent>
                       </Select>
                     </div>
                   </div>
+                  {wifiData.security === "WPA2-EAP" && (
+                    <>
+                      <div className="grid grid-cols-2 gap-4">
+                        <div>
+                          <Label>EAP Method</Label>
+                          <Select
+                            value={wifiData.eapMethod}
+                            onValueChange={(value) =>
+                              handleWifiUpdate(
+                                "eapMethod",
+                                value as WiFiEapMethod
+                              )
+                            }
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="PEAP">PEAP</SelectItem>
+                              <SelectItem value="TTLS">TTLS</SelectItem>
+                              <SelectItem value="TLS">TLS</SelectItem>
+                              <SelectItem value="PWD">PWD</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div>
+                          <Label>Phase 2 Authentication</Label>
+                          <Select
+                            value={wifiData.phase2 || "none"}
+                            onValueChange={(value) =>
+                              handleWifiUpdate(
+                                "phase2",
+                                (value === "none" ? "" : value) as WiFiPhase2
+                              )
+                            }
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="none">None</SelectItem>
+                              <SelectItem value="MSCHAPV2">MSCHAPv2</SelectItem>
+                              <SelectItem value="GTC">GTC</SelectItem>
+                              <SelectItem value="PAP">PAP</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      </div>
+                      <div className="grid grid-cols-2 gap-4">
+                        <div>
+                          <Label htmlFor="wifiIdentity">Identity</Label>
+                          <Input
+                            id="wifiIdentity"
+                            value={wifiData.identity}
+                            onChange={(e) =>
+                              handleWifiUpdate("identity", e.target.value)
+                            }
+                            placeholder="user@example.com"
+                          />
+                          <FieldError message={wifiErrors.identity} />
+                        </div>
+                        <div>
+                          <Label htmlFor="wifiAnonymousIdentity">
+                            Anonymous Identity (Optional)
+                          </Label>
+                          <Input
+                            id="wifiAnonymousIdentity"
+                            value={wifiData.anonymousIdentity}
+                            onChange={(e) =>
+                              handleWifiUpdate(
+                                "anonymousIdentity",
+                                e.target.value
+                              )
+                            }
+                            placeholder="anonymous@example.com"
+                          />
+                        </div>
+                      </div>
+                    </>
+                  )}
                   <div>
                     <Label htmlFor="password">Password</Label>
                     <Input
@@ -1247,12 +2211,50 @@ export default function QRGenerator() {
                       placeholder="WiFi password"
                       disabled={wifiData.security === "nopass"}
                     />
+                    <FieldError message={wifiErrors.password} />
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      id="wifiHidden"
+                      checked={wifiData.hidden}
+                      onChange={(e) =>
+                        handleWifiUpdate("hidden", e.target.checked)
+                      }
+                      className="w-4 h-4"
+                    />
+                    <Label htmlFor="wifiHidden" className="text-sm">
+                      Hidden network
+                    </Label>
                   </div>
                 </div>
               )}
 
               {dataType === "vcard" && (
                 <div className="space-y-4">
+                  <div>
+                    <Label>Format</Label>
+                    <Select
+                      value={vcardData.format}
+                      onValueChange={(value) =>
+                        handleVCardUpdate("format", value as ContactFormat)
+                      }
+                    >
+                      <SelectTrigger className="h-9">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="vcard3">
+                          vCard 3.0 - widest support
+                        </SelectItem>
+                        <SelectItem value="vcard4">vCard 4.0</SelectItem>
+                        <SelectItem value="mecard">
+                          MECARD - most compact
+                        </SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
                   {/* Name Fields */}
                   <div className="grid grid-cols-2 gap-4">
                     <div>
@@ -1265,21 +2267,8 @@ export default function QRGenerator() {
                         }
                         placeholder="John"
                       />
+                      <FieldError message={contactErrors.name} />
                     </div>
-                    <div>
-                      <Label htmlFor="organization">Company/Organisation</Label>
-                      <Input
-                        id="organization"
-                        value={vcardData.organization}
-                        onChange={(e) =>
-                          handleVCardUpdate("organization", e.target.value)
-                        }
-                        placeholder="Company Name"
-                      />
-                    </div>
-                  </div>
-
-                  <div className="grid grid-cols-2 gap-4">
                     <div>
                       <Label htmlFor="lastName">Last name</Label>
                       <Input
@@ -1291,21 +2280,20 @@ export default function QRGenerator() {
                         placeholder="Doe"
                       />
                     </div>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-4">
                     <div>
-                      <Label htmlFor="emailPersonal">Email (personal)</Label>
+                      <Label htmlFor="organization">Company/Organisation</Label>
                       <Input
-                        id="emailPersonal"
-                        type="email"
-                        value={vcardData.emailPersonal}
+                        id="organization"
+                        value={vcardData.organization}
                         onChange={(e) =>
-                          handleVCardUpdate("emailPersonal", e.target.value)
+                          handleVCardUpdate("organization", e.target.value)
                         }
-                        placeholder="john@personal.com"
+                        placeholder="Company Name"
                       />
                     </div>
-                  </div>
-
-                  <div className="grid grid-cols-2 gap-4">
                     <div>
                       <Label htmlFor="title">Title</Label>
                       <Input
@@ -1317,130 +2305,418 @@ export default function QRGenerator() {
                         placeholder="Software Engineer"
                       />
                     </div>
-                    <div>
-                      <Label htmlFor="emailBusiness">Email (business)</Label>
-                      <Input
-                        id="emailBusiness"
-                        type="email"
-                        value={vcardData.emailBusiness}
-                        onChange={(e) =>
-                          handleVCardUpdate("emailBusiness", e.target.value)
-                        }
-                        placeholder="john@company.com"
-                      />
-                    </div>
                   </div>
 
-                  {/* Address Fields */}
+                  {/* Contact Fields */}
                   <div className="grid grid-cols-2 gap-4">
-                    <div>
-                      <Label htmlFor="street">Street</Label>
-                      <Input
-                        id="street"
-                        value={vcardData.street}
-                        onChange={(e) =>
-                          handleVCardUpdate("street", e.target.value)
-                        }
-                        placeholder="123 Main Street"
-                      />
-                    </div>
-                    <div>
-                      <Label htmlFor="phonePersonal">Phone (personal)</Label>
-                      <Input
-                        id="phonePersonal"
-                        value={vcardData.phonePersonal}
-                        onChange={(e) =>
-                          handleVCardUpdate("phonePersonal", e.target.value)
+                    {(
+                      [
+                        {
+                          field: "emailPersonal",
+                          label: "Email (personal)",
+                          placeholder: "john@personal.com",
+                        },
+                        {
+                          field: "emailBusiness",
+                          label: "Email (business)",
+                          placeholder: "john@company.com",
+                        },
+                        {
+                          field: "phonePersonal",
+                          label: "Phone (personal)",
+                          placeholder: "+1234567890",
+                        },
+                        {
+                          field: "phoneMobile",
+                          label: "Phone (mobile)",
+                          placeholder: "+1234567890",
+                        },
+                        {
+                          field: "phoneBusiness",
+                          label: "Phone (business)",
+                          placeholder: "+1234567890",
+                        },
+                        {
+                          field: "website",
+                          label: "Website",
+                          placeholder: "https://example.com",
+                        },
+                      ] as const
+                    ).map(({ field, label, placeholder }) => (
+                      <div key={field}>
+                        <Label htmlFor={field}>{label}</Label>
+                        <Input
+                          id={field}
+                          type={field.startsWith("email") ? "email" : "text"}
+                          value={vcardData[field]}
+                          onChange={(e) =>
+                            handleVCardUpdate(field, e.target.value)
+                          }
+                          placeholder={placeholder}
+                        />
+                        <FieldError message={contactErrors[field]} />
+                      </div>
+                    ))}
+                  </div>
+
+                  {/* Address Fields */}
+                  <div className="space-y-3">
+                    <div className="flex items-center justify-between">
+                      <Label className="text-sm font-medium">Addresses</Label>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-7 text-xs"
+                        onClick={() =>
+                          handleVCardUpdate("addresses", [
+                            ...vcardData.addresses,
+                            createEmptyAddress(
+                              vcardData.addresses.some((a) => a.type === "home")
+                                ? "work"
+                                : "home"
+                            ),
+                          ])
                         }
-                        placeholder="+1234567890"
-                      />
+                      >
+                        <Plus className="w-3 h-3 mr-1" />
+                        Add Address
+                      </Button>
                     </div>
+                    {vcardData.addresses.map((address, index) => (
+                      <div
+                        key={index}
+                        className="p-3 border rounded-lg space-y-2"
+                      >
+                        <div className="flex items-center gap-2">
+                          <Select
+                            value={address.type}
+                            onValueChange={(value) =>
+                              handleAddressUpdate(index, {
+                                type: value as ContactAddress["type"],
+                              })
+                            }
+                          >
+                            <SelectTrigger className="h-8 w-28 text-xs">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="home">Home</SelectItem>
+                              <SelectItem value="work">Work</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <div className="flex-1" />
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-8"
+                            onClick={() =>
+                              handleVCardUpdate(
+                                "addresses",
+                                vcardData.addresses.filter(
+                                  (_, i) => i !== index
+                                )
+                              )
+                            }
+                            title="Remove address"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                        <Input
+                          value={address.street}
+                          onChange={(e) =>
+                            handleAddressUpdate(index, {
+                              street: e.target.value,
+                            })
+                          }
+                          placeholder="123 Main Street"
+                        />
+                        <div className="grid grid-cols-2 gap-2">
+                          <Input
+                            value={address.city}
+                            onChange={(e) =>
+                              handleAddressUpdate(index, {
+                                city: e.target.value,
+                              })
+                            }
+                            placeholder="City"
+                          />
+                          <Input
+                            value={address.region}
+                            onChange={(e) =>
+                              handleAddressUpdate(index, {
+                                region: e.target.value,
+                              })
+                            }
+                            placeholder="State/Region"
+                          />
+                          <Input
+                            value={address.zipCode}
+                            onChange={(e) =>
+                              handleAddressUpdate(index, {
+                                zipCode: e.target.value,
+                              })
+                            }
+                            placeholder="Zip code"
+                          />
+                          <Input
+                            value={address.country}
+                            onChange={(e) =>
+                              handleAddressUpdate(index, {
+                                country: e.target.value,
+                              })
+                            }
+                            placeholder="Country"
+                          />
+                        </div>
+                      </div>
+                    ))}
                   </div>
 
                   <div className="grid grid-cols-2 gap-4">
                     <div>
-                      <Label htmlFor="zipCode">Zip code</Label>
+                      <Label htmlFor="birthday">Birthday (Optional)</Label>
                       <Input
-                        id="zipCode"
-                        value={vcardData.zipCode}
+                        id="birthday"
+                        type="date"
+                        value={vcardData.birthday}
                         onChange={(e) =>
-                          handleVCardUpdate("zipCode", e.target.value)
+                          handleVCardUpdate("birthday", e.target.value)
                         }
-                        placeholder="12345"
                       />
+                      <FieldError message={contactErrors.birthday} />
                     </div>
                     <div>
-                      <Label htmlFor="phoneMobile">Phone (mobile)</Label>
+                      <Label htmlFor="photo">Photo URL (Optional)</Label>
                       <Input
-                        id="phoneMobile"
-                        value={vcardData.phoneMobile}
+                        id="photo"
+                        value={vcardData.photo}
                         onChange={(e) =>
-                          handleVCardUpdate("phoneMobile", e.target.value)
+                          handleVCardUpdate("photo", e.target.value)
                         }
-                        placeholder="+1234567890"
+                        placeholder="https://example.com/me.jpg"
+                        disabled={vcardData.format === "mecard"}
                       />
+                      <FieldError message={contactErrors.photo} />
                     </div>
                   </div>
 
+                  <div>
+                    <Label htmlFor="note">Notes (Optional)</Label>
+                    <Textarea
+                      id="note"
+                      value={vcardData.note}
+                      onChange={(e) =>
+                        handleVCardUpdate("note", e.target.value)
+                      }
+                      placeholder="Met at the 2026 conference"
+                      className="min-h-[60px]"
+                    />
+                  </div>
+
+                  <FieldError message={contactErrors.payload} />
+                </div>
+              )}
+
+              {/* Calendar Event Form */}
+              {dataType === "event" && (
+                <div className="space-y-4">
+                  <div>
+                    <Label htmlFor="eventTitle">Event Title</Label>
+                    <Input
+                      id="eventTitle"
+                      value={eventData.title}
+                      onChange={(e) => updateEvent({ title: e.target.value })}
+                      placeholder="Team Meeting"
+                    />
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      id="eventAllDay"
+                      checked={eventData.allDay}
+                      onChange={(e) =>
+                        updateEvent({
+                          allDay: e.target.checked,
+                          start: toEventInputValue(
+                            eventData.start,
+                            e.target.checked,
+                            "09:00"
+                          ),
+                          end: toEventInputValue(
+                            eventData.end,
+                            e.target.checked,
+                            "10:00"
+                          ),
+                        })
+                      }
+                      className="w-4 h-4"
+                    />
+                    <Label htmlFor="eventAllDay" className="text-sm">
+                      All-day event
+                    </Label>
+                  </div>
                   <div className="grid grid-cols-2 gap-4">
                     <div>
-                      <Label htmlFor="city">City</Label>
+                      <Label htmlFor="eventStart">Start</Label>
                       <Input
-                        id="city"
-                        value={vcardData.city}
-                        onChange={(e) =>
-                          handleVCardUpdate("city", e.target.value)
-                        }
-                        placeholder="New York"
+                        id="eventStart"
+                        type={eventData.allDay ? "date" : "datetime-local"}
+                        value={eventData.start}
+                        onChange={(e) => updateEvent({ start: e.target.value })}
                       />
                     </div>
                     <div>
-                      <Label htmlFor="phoneBusiness">Phone (business)</Label>
+                      <Label htmlFor="eventEnd">End</Label>
                       <Input
-                        id="phoneBusiness"
-                        value={vcardData.phoneBusiness}
-                        onChange={(e) =>
-                          handleVCardUpdate("phoneBusiness", e.target.value)
-                        }
-                        placeholder="+1234567890"
+                        id="eventEnd"
+                        type={eventData.allDay ? "date" : "datetime-local"}
+                        value={eventData.end}
+                        min={eventData.start}
+                        onChange={(e) => updateEvent({ end: e.target.value })}
                       />
                     </div>
                   </div>
-
-                  <div className="grid grid-cols-2 gap-4">
+                  {!eventData.allDay && (
                     <div>
-                      <Label htmlFor="country">Country</Label>
-                      <Input
-                        id="country"
-                        value={vcardData.country}
-                        onChange={(e) =>
-                          handleVCardUpdate("country", e.target.value)
+                      <Label>Time Zone</Label>
+                      <Select
+                        value={eventData.timeZone || FLOATING_TIME_ZONE}
+                        onValueChange={(value) =>
+                          updateEvent({
+                            timeZone: value === FLOATING_TIME_ZONE ? "" : value,
+                          })
                         }
-                        placeholder="United States"
-                      />
+                      >
+                        <SelectTrigger className="h-9">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={FLOATING_TIME_ZONE}>
+                            Floating - scanner&apos;s local time
+                          </SelectItem>
+                          {getTimeZones().map((zone) => (
+                            <SelectItem key={zone} value={zone}>
+                              {zone.replace(/_/g, " ")}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
                     </div>
+                  )}
+                  <div>
+                    <Label htmlFor="eventLocation">Location (Optional)</Label>
+                    <Input
+                      id="eventLocation"
+                      value={eventData.location}
+                      onChange={(e) =>
+                        updateEvent({ location: e.target.value })
+                      }
+                      placeholder="Conference Room A, 123 Main St"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="eventDescription">
+                      Description (Optional)
+                    </Label>
+                    <Textarea
+                      id="eventDescription"
+                      value={eventData.description}
+                      onChange={(e) =>
+                        updateEvent({ description: e.target.value })
+                      }
+                      placeholder="Agenda, dial-in details..."
+                      className="min-h-[80px]"
+                    />
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
                     <div>
-                      <Label htmlFor="website">Website</Label>
-                      <Input
-                        id="website"
-                        value={vcardData.website}
-                        onChange={(e) =>
-                          handleVCardUpdate("website", e.target.value)
+                      <Label>Repeats</Label>
+                      <Select
+                        value={eventData.recurrence || "none"}
+                        onValueChange={(value) =>
+                          updateEvent({
+                            recurrence: (value === "none"
+                              ? ""
+                              : value) as EventRecurrence,
+                          })
                         }
-                        placeholder="https://example.com"
-                      />
+                      >
+                        <SelectTrigger className="h-9">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">Does not repeat</SelectItem>
+                          <SelectItem value="DAILY">Daily</SelectItem>
+                          <SelectItem value="WEEKLY">Weekly</SelectItem>
+                          <SelectItem value="MONTHLY">Monthly</SelectItem>
+                          <SelectItem value="YEARLY">Yearly</SelectItem>
+                        </SelectContent>
+                      </Select>
                     </div>
+                    {eventData.recurrence && (
+                      <div>
+                        <Label htmlFor="eventInterval">Every</Label>
+                        <Input
+                          id="eventInterval"
+                          type="number"
+                          min={1}
+                          value={eventData.interval}
+                          onChange={(e) =>
+                            updateEvent({
+                              interval: Math.max(
+                                1,
+                                parseInt(e.target.value) || 1
+                              ),
+                            })
+                          }
+                        />
+                      </div>
+                    )}
                   </div>
-                </div>
-              )}
-
-              {dataType === "crypto" && (
-                <div className="space-y-4">
-                  {/* Cryptocurrency Type Selector */}
-                  <div>
-                    <Label className="text-sm font-medium mb-3 block">
-                      Cryptocurrency Type
-                    </Label>
+                  {eventData.recurrence && (
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <Label htmlFor="eventCount">
+                          Occurrences (Optional)
+                        </Label>
+                        <Input
+                          id="eventCount"
+                          type="number"
+                          min={0}
+                          value={eventData.count || ""}
+                          onChange={(e) =>
+                            updateEvent({
+                              count: Math.max(0, parseInt(e.target.value) || 0),
+                            })
+                          }
+                          placeholder="Unlimited"
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor="eventUntil">Until (Optional)</Label>
+                        <Input
+                          id="eventUntil"
+                          type="date"
+                          value={eventData.until}
+                          disabled={eventData.count > 0}
+                          onChange={(e) =>
+                            updateEvent({ until: e.target.value })
+                          }
+                        />
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {dataType === "crypto" && (
+                <div className="space-y-4">
+                  {/* Cryptocurrency Type Selector */}
+                  <div>
+                    <Label className="text-sm font-medium mb-3 block">
+                      Cryptocurrency Type
+                    </Label>
                     <div className="grid grid-cols-2 gap-2">
                       {[
                         { value: "bitcoin", label: "Bitcoin" },
@@ -1759,6 +3035,469 @@ export default function QRGenerator() {
                 </div>
               )}
 
+              {/* SEPA Form */}
+              {dataType === "sepa" && (
+                <div className="space-y-4">
+                  <div>
+                    <Label htmlFor="sepaName">Beneficiary Name</Label>
+                    <Input
+                      id="sepaName"
+                      value={sepaData.name}
+                      onChange={(e) => handleSepaUpdate("name", e.target.value)}
+                      placeholder="Red Cross"
+                    />
+                    <FieldError message={sepaResult.errors.name} />
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <Label htmlFor="sepaIban">IBAN</Label>
+                      <Input
+                        id="sepaIban"
+                        value={sepaData.iban}
+                        onChange={(e) =>
+                          handleSepaUpdate("iban", e.target.value)
+                        }
+                        placeholder="DE89 3704 0044 0532 0130 00"
+                        className="font-mono text-sm"
+                      />
+                      <FieldError message={sepaResult.errors.iban} />
+                    </div>
+                    <div>
+                      <Label htmlFor="sepaBic">BIC (Optional)</Label>
+                      <Input
+                        id="sepaBic"
+                        value={sepaData.bic}
+                        onChange={(e) =>
+                          handleSepaUpdate("bic", e.target.value)
+                        }
+                        placeholder="COBADEFFXXX"
+                        className="font-mono text-sm"
+                      />
+                      <FieldError message={sepaResult.errors.bic} />
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <Label htmlFor="sepaAmount">Amount (Optional)</Label>
+                      <Input
+                        id="sepaAmount"
+                        inputMode="decimal"
+                        value={sepaData.amount}
+                        onChange={(e) =>
+                          handleSepaUpdate("amount", e.target.value)
+                        }
+                        placeholder="0.00"
+                      />
+                      <p className="text-xs text-gray-500 mt-1">EUR</p>
+                      <FieldError message={sepaResult.errors.amount} />
+                    </div>
+                    <div>
+                      <Label htmlFor="sepaPurpose">
+                        Purpose Code (Optional)
+                      </Label>
+                      <Input
+                        id="sepaPurpose"
+                        value={sepaData.purpose}
+                        onChange={(e) =>
+                          handleSepaUpdate("purpose", e.target.value)
+                        }
+                        placeholder="CHAR"
+                        maxLength={4}
+                      />
+                      <FieldError message={sepaResult.errors.purpose} />
+                    </div>
+                  </div>
+                  <div>
+                    <Label htmlFor="sepaReference">
+                      Creditor Reference (Optional)
+                    </Label>
+                    <Input
+                      id="sepaReference"
+                      value={sepaData.reference}
+                      onChange={(e) =>
+                        handleSepaUpdate("reference", e.target.value)
+                      }
+                      placeholder="RF18 5390 0754 7034"
+                      className="font-mono text-sm"
+                    />
+                    <FieldError message={sepaResult.errors.reference} />
+                  </div>
+                  <div>
+                    <Label htmlFor="sepaText">Remittance Text (Optional)</Label>
+                    <Input
+                      id="sepaText"
+                      value={sepaData.text}
+                      onChange={(e) => handleSepaUpdate("text", e.target.value)}
+                      placeholder="Invoice 2024-001"
+                    />
+                    <FieldError message={sepaResult.errors.text} />
+                  </div>
+                  <div>
+                    <Label htmlFor="sepaInformation">
+                      Note to Payer (Optional)
+                    </Label>
+                    <Input
+                      id="sepaInformation"
+                      value={sepaData.information}
+                      onChange={(e) =>
+                        handleSepaUpdate("information", e.target.value)
+                      }
+                      placeholder="Thank you for your donation"
+                    />
+                    <FieldError message={sepaResult.errors.information} />
+                  </div>
+
+                  {/* Raw Text Preview */}
+                  <div>
+                    <Label className="text-sm font-medium text-gray-700 dark:text-gray-300 block mb-2">
+                      Raw Text Check:
+                    </Label>
+                    <div className="bg-gray-100 dark:bg-gray-700 p-3 rounded-lg border">
+                      <code className="text-sm font-mono whitespace-pre-wrap break-all text-gray-900 dark:text-gray-100">
+                        {sepaResult.payload}
+                      </code>
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {/* Swiss QR-bill Form */}
+              {dataType === "swissqr" && (
+                <div className="space-y-4">
+                  <div>
+                    <Label htmlFor="swissIban">IBAN or QR-IBAN</Label>
+                    <Input
+                      id="swissIban"
+                      value={swissQRData.iban}
+                      onChange={(e) =>
+                        handleSwissQRUpdate("iban", e.target.value)
+                      }
+                      placeholder="CH93 0076 2011 6238 5295 7"
+                      className="font-mono text-sm"
+                    />
+                    <FieldError message={swissQRResult.errors.iban} />
+                    {isQRIban(swissQRData.iban) &&
+                      !swissQRResult.errors.iban && (
+                        <p className="text-xs text-gray-500 mt-1">
+                          QR-IBAN: payments need a 27-digit QR reference
+                        </p>
+                      )}
+                  </div>
+
+                  {(["creditor", "debtor"] as const).map((party) => (
+                    <div key={party} className="space-y-2">
+                      <Label className="text-sm font-medium">
+                        {party === "creditor" ? "Payee" : "Payer (Optional)"}
+                      </Label>
+                      <div>
+                        <Input
+                          aria-label="Name"
+                          value={swissQRData[`${party}Name`]}
+                          onChange={(e) =>
+                            handleSwissQRUpdate(
+                              `${party}Name` as const,
+                              e.target.value
+                            )
+                          }
+                          placeholder="Name or company"
+                        />
+                        <FieldError
+                          message={swissQRResult.errors[`${party}Name`]}
+                        />
+                      </div>
+                      <div className="grid grid-cols-3 gap-2">
+                        <div className="col-span-2">
+                          <Input
+                            aria-label="Street"
+                            value={swissQRData[`${party}Street`]}
+                            onChange={(e) =>
+                              handleSwissQRUpdate(
+                                `${party}Street` as const,
+                                e.target.value
+                              )
+                            }
+                            placeholder="Street"
+                          />
+                          <FieldError
+                            message={swissQRResult.errors[`${party}Street`]}
+                          />
+                        </div>
+                        <div>
+                          <Input
+                            aria-label="Building number"
+                            value={swissQRData[`${party}BuildingNumber`]}
+                            onChange={(e) =>
+                              handleSwissQRUpdate(
+                                `${party}BuildingNumber` as const,
+                                e.target.value
+                              )
+                            }
+                            placeholder="No."
+                          />
+                          <FieldError
+                            message={
+                              swissQRResult.errors[`${party}BuildingNumber`]
+                            }
+                          />
+                        </div>
+                      </div>
+                      <div className="grid grid-cols-3 gap-2">
+                        <div>
+                          <Input
+                            aria-label="Postal code"
+                            value={swissQRData[`${party}PostalCode`]}
+                            onChange={(e) =>
+                              handleSwissQRUpdate(
+                                `${party}PostalCode` as const,
+                                e.target.value
+                              )
+                            }
+                            placeholder="Postal code"
+                          />
+                          <FieldError
+                            message={swissQRResult.errors[`${party}PostalCode`]}
+                          />
+                        </div>
+                        <div>
+                          <Input
+                            aria-label="Town"
+                            value={swissQRData[`${party}Town`]}
+                            onChange={(e) =>
+                              handleSwissQRUpdate(
+                                `${party}Town` as const,
+                                e.target.value
+                              )
+                            }
+                            placeholder="Town"
+                          />
+                          <FieldError
+                            message={swissQRResult.errors[`${party}Town`]}
+                          />
+                        </div>
+                        <div>
+                          <Input
+                            aria-label="Country"
+                            value={swissQRData[`${party}Country`]}
+                            onChange={(e) =>
+                              handleSwissQRUpdate(
+                                `${party}Country` as const,
+                                e.target.value.toUpperCase()
+                              )
+                            }
+                            placeholder="CH"
+                            maxLength={2}
+                          />
+                          <FieldError
+                            message={swissQRResult.errors[`${party}Country`]}
+                          />
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <Label htmlFor="swissAmount">Amount (Optional)</Label>
+                      <Input
+                        id="swissAmount"
+                        inputMode="decimal"
+                        value={swissQRData.amount}
+                        onChange={(e) =>
+                          handleSwissQRUpdate("amount", e.target.value)
+                        }
+                        placeholder="0.00"
+                      />
+                      <FieldError message={swissQRResult.errors.amount} />
+                    </div>
+                    <div>
+                      <Label htmlFor="swissCurrency">Currency</Label>
+                      <Select
+                        value={swissQRData.currency}
+                        onValueChange={(value) =>
+                          handleSwissQRUpdate(
+                            "currency",
+                            value as SwissQRBillInput["currency"]
+                          )
+                        }
+                      >
+                        <SelectTrigger id="swissCurrency">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="CHF">Swiss Franc</SelectItem>
+                          <SelectItem value="EUR">Euro</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                  <div>
+                    <Label htmlFor="swissReference">
+                      {isQRIban(swissQRData.iban)
+                        ? "QR Reference"
+                        : "Creditor Reference (Optional)"}
+                    </Label>
+                    <Input
+                      id="swissReference"
+                      value={swissQRData.reference}
+                      onChange={(e) =>
+                        handleSwissQRUpdate("reference", e.target.value)
+                      }
+                      placeholder={
+                        isQRIban(swissQRData.iban)
+                          ? "21 00000 00003 13947 14300 09017"
+                          : "RF18 5390 0754 7034"
+                      }
+                      className="font-mono text-sm"
+                    />
+                    <FieldError message={swissQRResult.errors.reference} />
+                  </div>
+                  <div>
+                    <Label htmlFor="swissMessage">Message (Optional)</Label>
+                    <Input
+                      id="swissMessage"
+                      value={swissQRData.message}
+                      onChange={(e) =>
+                        handleSwissQRUpdate("message", e.target.value)
+                      }
+                      placeholder="Order of 15 June 2024"
+                    />
+                    <FieldError message={swissQRResult.errors.message} />
+                  </div>
+                  <div>
+                    <Label htmlFor="swissBilling">
+                      Billing Information (Optional)
+                    </Label>
+                    <Input
+                      id="swissBilling"
+                      value={swissQRData.billingInformation}
+                      onChange={(e) =>
+                        handleSwissQRUpdate(
+                          "billingInformation",
+                          e.target.value
+                        )
+                      }
+                      placeholder="//S1/10/10201409/11/200701"
+                      className="font-mono text-sm"
+                    />
+                    <FieldError
+                      message={swissQRResult.errors.billingInformation}
+                    />
+                  </div>
+
+                  {/* Raw Text Preview */}
+                  <div>
+                    <Label className="text-sm font-medium text-gray-700 dark:text-gray-300 block mb-2">
+                      Raw Text Check:
+                    </Label>
+                    <div className="bg-gray-100 dark:bg-gray-700 p-3 rounded-lg border max-h-48 overflow-y-auto">
+                      <code className="text-sm font-mono whitespace-pre-wrap break-all text-gray-900 dark:text-gray-100">
+                        {swissQRResult.payload}
+                      </code>
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {/* UPI Form */}
+              {dataType === "upi" && (
+                <div className="space-y-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <Label htmlFor="upiVpa">UPI ID</Label>
+                      <Input
+                        id="upiVpa"
+                        value={upiData.vpa}
+                        onChange={(e) => handleUpiUpdate("vpa", e.target.value)}
+                        placeholder="merchant@upi"
+                      />
+                      <FieldError message={upiResult.errors.vpa} />
+                    </div>
+                    <div>
+                      <Label htmlFor="upiName">Payee Name</Label>
+                      <Input
+                        id="upiName"
+                        value={upiData.name}
+                        onChange={(e) =>
+                          handleUpiUpdate("name", e.target.value)
+                        }
+                        placeholder="My Shop"
+                      />
+                      <FieldError message={upiResult.errors.name} />
+                    </div>
+                  </div>
+                  <div>
+                    <Label htmlFor="upiAmount">Amount (Optional)</Label>
+                    <Input
+                      id="upiAmount"
+                      inputMode="decimal"
+                      value={upiData.amount}
+                      onChange={(e) =>
+                        handleUpiUpdate("amount", e.target.value)
+                      }
+                      placeholder="0.00"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      INR, leave empty to let the payer enter it
+                    </p>
+                    <FieldError message={upiResult.errors.amount} />
+                  </div>
+                  <div>
+                    <Label htmlFor="upiNote">Note (Optional)</Label>
+                    <Input
+                      id="upiNote"
+                      value={upiData.note}
+                      onChange={(e) => handleUpiUpdate("note", e.target.value)}
+                      placeholder="Order 42"
+                    />
+                    <FieldError message={upiResult.errors.note} />
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <Label htmlFor="upiReference">
+                        Transaction Reference (Optional)
+                      </Label>
+                      <Input
+                        id="upiReference"
+                        value={upiData.reference}
+                        onChange={(e) =>
+                          handleUpiUpdate("reference", e.target.value)
+                        }
+                        placeholder="INV-2024-001"
+                      />
+                      <FieldError message={upiResult.errors.reference} />
+                    </div>
+                    <div>
+                      <Label htmlFor="upiMerchantCode">
+                        Merchant Code (Optional)
+                      </Label>
+                      <Input
+                        id="upiMerchantCode"
+                        inputMode="numeric"
+                        value={upiData.merchantCode}
+                        onChange={(e) =>
+                          handleUpiUpdate("merchantCode", e.target.value)
+                        }
+                        placeholder="5411"
+                        maxLength={4}
+                      />
+                      <FieldError message={upiResult.errors.merchantCode} />
+                    </div>
+                  </div>
+
+                  {/* Raw Text Preview */}
+                  <div>
+                    <Label className="text-sm font-medium text-gray-700 dark:text-gray-300 block mb-2">
+                      Raw Text Check:
+                    </Label>
+                    <div className="bg-gray-100 dark:bg-gray-700 p-3 rounded-lg border">
+                      <code className="text-sm font-mono break-all text-gray-900 dark:text-gray-100">
+                        {upiResult.payload}
+                      </code>
+                    </div>
+                  </div>
+                </div>
+              )}
+
               {/* Facebook Form */}
               {dataType === "facebook" && (
                 <div className="space-y-4">
@@ -1888,50 +3627,158 @@ export default function QRGenerator() {
                       placeholder="yourusername"
                     />
                   </div>
-                </div>
-              )}
-
-              {/* YouTube Form */}
-              {dataType === "youtube" && (
-                <div className="space-y-4">
-                  <div>
-                    <Label htmlFor="youtubeUrl">YouTube URL (Optional)</Label>
-                    <Input
-                      id="youtubeUrl"
-                      value={youtubeData.url}
-                      onChange={(e) => updateYouTube({ url: e.target.value })}
-                      placeholder="https://youtube.com/c/yourchannel"
-                    />
+                </div>
+              )}
+
+              {/* YouTube Form */}
+              {dataType === "youtube" && (
+                <div className="space-y-4">
+                  <div>
+                    <Label htmlFor="youtubeUrl">YouTube URL (Optional)</Label>
+                    <Input
+                      id="youtubeUrl"
+                      value={youtubeData.url}
+                      onChange={(e) => updateYouTube({ url: e.target.value })}
+                      placeholder="https://youtube.com/c/yourchannel"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="youtubeChannel">Channel Name</Label>
+                    <Input
+                      id="youtubeChannel"
+                      value={youtubeData.channel}
+                      onChange={(e) =>
+                        updateYouTube({ channel: e.target.value })
+                      }
+                      placeholder="yourchannel"
+                    />
+                  </div>
+                </div>
+              )}
+
+              {/* Dynamic Redirect Form */}
+              {dataType === "dynamic" && (
+                <div className="space-y-4">
+                  <div>
+                    <Label htmlFor="dynamicTarget">Target URL</Label>
+                    <Input
+                      id="dynamicTarget"
+                      value={dynamicData.target}
+                      onChange={(e) =>
+                        setDynamicData({
+                          ...dynamicData,
+                          target: e.target.value,
+                        })
+                      }
+                      placeholder="https://example.com/spring-menu"
+                    />
+                    <div className="text-xs text-gray-500 mt-1">
+                      Can be changed any time without reprinting the code
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <Label htmlFor="dynamicBaseUrl">Redirect Server</Label>
+                      <Input
+                        id="dynamicBaseUrl"
+                        value={dynamicData.baseUrl}
+                        onChange={(e) =>
+                          updateDynamic({ baseUrl: e.target.value })
+                        }
+                        placeholder="https://freetools.now"
+                      />
+                      {redirectServerError && (
+                        <div className="text-xs text-amber-600 mt-1">
+                          {redirectServerError}
+                        </div>
+                      )}
+                    </div>
+                    <div>
+                      <Label htmlFor="dynamicSlug">Short Code</Label>
+                      <div className="flex gap-2">
+                        <Input
+                          id="dynamicSlug"
+                          value={dynamicData.slug}
+                          onChange={(e) =>
+                            updateDynamic({ slug: e.target.value })
+                          }
+                          placeholder="spring-menu"
+                        />
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="h-10"
+                          onClick={() =>
+                            updateDynamic({ slug: generateRedirectSlug() })
+                          }
+                          title="Generate a random short code"
+                        >
+                          <RefreshCw className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  </div>
+                  {dynamicData.slug &&
+                    !isValidRedirectSlug(dynamicData.slug) && (
+                      <div className="text-xs text-red-600">
+                        Use only letters, numbers, - and _ (max 64 characters)
+                      </div>
+                    )}
+                  <div className="bg-gray-100 dark:bg-gray-700 p-3 rounded-lg border text-xs font-mono break-all">
+                    {qrState.data}
                   </div>
                   <div>
-                    <Label htmlFor="youtubeChannel">Channel Name</Label>
+                    <Label htmlFor="dynamicAdminToken">
+                      Registry Admin Token
+                    </Label>
                     <Input
-                      id="youtubeChannel"
-                      value={youtubeData.channel}
-                      onChange={(e) =>
-                        updateYouTube({ channel: e.target.value })
-                      }
-                      placeholder="yourchannel"
+                      id="dynamicAdminToken"
+                      type="password"
+                      autoComplete="off"
+                      value={registryToken}
+                      onChange={(e) => {
+                        setRegistryToken(e.target.value);
+                        saveRegistryToken(e.target.value);
+                      }}
+                      placeholder="REDIRECT_ADMIN_TOKEN of the server"
                     />
+                    <div className="text-xs text-gray-500 mt-1">
+                      Needed to save redirects, kept in this browser only
+                    </div>
                   </div>
+                  <Button
+                    onClick={handleSaveRedirect}
+                    disabled={isSavingRedirect}
+                    className="w-full"
+                  >
+                    <Save className="w-4 h-4 mr-2" />
+                    {isSavingRedirect
+                      ? "Saving..."
+                      : "Save to Redirect Registry"}
+                  </Button>
                 </div>
               )}
 
               {![
                 "wifi",
                 "vcard",
+                "event",
                 "crypto",
                 "sms",
                 "whatsapp",
                 "skype",
                 "zoom",
                 "paypal",
+                "sepa",
+                "swissqr",
+                "upi",
                 "facebook",
                 "twitter",
                 "instagram",
                 "linkedin",
                 "tiktok",
                 "youtube",
+                "dynamic",
               ].includes(dataType) && (
                 <div>
                   <Label htmlFor="qrData">
@@ -1971,6 +3818,21 @@ export default function QRGenerator() {
             </CardContent>
           </Card>
 
+          {/* Brand Kit */}
+          <BrandKitPanel
+            kits={brandKit.kits}
+            activeKit={brandKit.activeKit}
+            isLocked={brandKit.isLocked}
+            onSelectKit={brandKit.selectKit}
+            onLockChange={brandKit.setLocked}
+            onSaveKit={brandKit.saveKit}
+            onDeleteKit={brandKit.deleteKit}
+            qrState={qrState}
+            contrastIssues={
+              brandKit.activeKit ? getDesignContrastIssues(qrState) : []
+            }
+          />
+
           {/* Emoji Style Presets */}
           <Card>
             <CardHeader>
@@ -1984,72 +3846,124 @@ export default function QRGenerator() {
             </CardHeader>
             <CardContent className="space-y-4">
               {/* Custom Logo/Emoji Input */}
-              <div>
-                <Label htmlFor="logoText">Custom Logo Text or Emoji</Label>
-                <div className="flex gap-2">
-                  <Input
-                    id="logoText"
-                    value={
-                      qrState.logo?.startsWith("data:")
-                        ? ""
-                        : qrState.logo || ""
-                    }
-                    onChange={(e) =>
-                      updateQRStateAndReset({
-                        logo: e.target.value || undefined,
-                      })
-                    }
-                    placeholder="🚀 or MyLogo or 🔥"
-                    className="flex-1"
-                    maxLength={10}
-                  />
-                  <Button
-                    onClick={handleUploadClick}
-                    variant="outline"
-                    size="sm"
-                    className="px-3"
-                  >
-                    <Upload className="w-4 h-4 mr-2" />
-                    Upload
-                  </Button>
+              {lockedKit && lockedKit.logos.length > 0 ? (
+                <div>
+                  <Label>Brand Logo</Label>
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    <Button
+                      variant={!qrState.logo ? "default" : "outline"}
+                      size="sm"
+                      onClick={() => updateQRStateAndReset({ logo: undefined })}
+                    >
+                      None
+                    </Button>
+                    {lockedKit.logos.map((logo) => (
+                      <Button
+                        key={logo}
+                        variant={qrState.logo === logo ? "default" : "outline"}
+                        size="sm"
+                        onClick={() => updateQRStateAndReset({ logo })}
+                        className="max-w-32"
+                      >
+                        {logo.startsWith("data:image/") ||
+                        logo.startsWith("http") ? (
+                          <span
+                            role="img"
+                            aria-label="Brand logo"
+                            className="w-5 h-5 bg-contain bg-center bg-no-repeat"
+                            style={{ backgroundImage: `url(${logo})` }}
+                          />
+                        ) : (
+                          <span className="truncate">{logo}</span>
+                        )}
+                      </Button>
+                    ))}
+                  </div>
                 </div>
-                <div className="text-xs text-gray-500 mt-1">
-                  Enter text, emoji, or upload an image
+              ) : (
+                <div>
+                  <Label htmlFor="logoText">Custom Logo Text or Emoji</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="logoText"
+                      value={
+                        qrState.logo?.startsWith("data:")
+                          ? ""
+                          : qrState.logo || ""
+                      }
+                      onChange={(e) =>
+                        updateQRStateAndReset({
+                          logo: e.target.value || undefined,
+                        })
+                      }
+                      placeholder="🚀 or MyLogo or 🔥"
+                      className="flex-1"
+                      maxLength={10}
+                    />
+                    <Button
+                      onClick={handleUploadClick}
+                      variant="outline"
+                      size="sm"
+                      className="px-3"
+                    >
+                      <Upload className="w-4 h-4 mr-2" />
+                      Upload
+                    </Button>
+                  </div>
+                  <div className="text-xs text-gray-500 mt-1">
+                    Enter text, emoji, or upload an image
+                  </div>
                 </div>
-              </div>
+              )}
 
               {/* Upload status indicator */}
-              {qrState.logo?.startsWith("data:") && (
+              {!lockedKit && qrState.logo?.startsWith("data:") && (
                 <div className="text-sm text-green-600 bg-green-50 p-2 rounded border border-green-200">
                   ✓ Image uploaded successfully
                 </div>
               )}
 
               {/* Emoji Presets */}
-              <div>
-                <Label>Emoji Presets</Label>
-                <div className="flex flex-wrap gap-0.5 mt-2">
-                  {emojiPresets.map((preset) => (
-                    <Button
-                      key={preset.id}
-                      variant="outline"
-                      onClick={() => {
-                        // Preserve current frame state when applying emoji preset
-                        const currentFrameState = qrState.hasFrame;
-                        applyEmojiPreset(preset);
-                        updateQRStateAndReset({ hasFrame: currentFrameState });
-                        setHasEverScanned(false);
-                      }}
-                      className="h-8 w-8 p-0 text-center group hover:scale-110 transition-transform border-0"
-                      title={`${preset.name} - ${preset.description}`}
-                    >
-                      <span className="text-base group-hover:scale-110 transition-transform">
-                        {preset.emoji}
-                      </span>
-                    </Button>
-                  ))}
+              {lockedKit ? (
+                <p className="text-xs text-muted-foreground">
+                  Emoji presets are off while brand lock is on
+                </p>
+              ) : (
+                <div>
+                  <Label>Emoji Presets</Label>
+                  <div className="flex flex-wrap gap-0.5 mt-2">
+                    {emojiPresets.map((preset) => (
+                      <Button
+                        key={preset.id}
+                        variant="outline"
+                        onClick={() => {
+                          // Preserve current frame state when applying emoji preset
+                          const currentFrameState = qrState.hasFrame;
+                          applyEmojiPreset(preset);
+                          updateQRStateAndReset({
+                            hasFrame: currentFrameState,
+                          });
+                          setHasEverScanned(false);
+                        }}
+                        className="h-8 w-8 p-0 text-center group hover:scale-110 transition-transform border-0"
+                        title={`${preset.name} - ${preset.description}`}
+                      >
+                        <span className="text-base group-hover:scale-110 transition-transform">
+                          {preset.emoji}
+                        </span>
+                      </Button>
+                    ))}
+                  </div>
                 </div>
-              </div>
+              )}
+
+              {/* Saved Design Library */}
+              <Separator />
+              <DesignLibrary
+                getCurrentDesign={getCurrentDesign}
+                qrOptions={generateQROptions()}
+                onApply={handleApplySavedDesign}
+              />
 
               {/* Logo size controls */}
               {qrState.logo && (
@@ -2097,6 +4011,48 @@ export default function QRGenerator() {
                 </>
               )}
 
+              {/* Symbol Format */}
+              <div className="border-t pt-4">
+                <Label
+                  htmlFor="symbology"
+                  className="text-sm font-medium mb-2 block"
+                >
+                  Symbol Format
+                </Label>
+                <Select
+                  value={qrState.symbology}
+                  onValueChange={(value) =>
+                    updateQRStateAndReset({ symbology: value as Symbology })
+                  }
+                >
+                  <SelectTrigger id="symbology" className="h-8">
+                    <SelectValue>
+                      {getSymbology(qrState.symbology).label}
+                    </SelectValue>
+                  </SelectTrigger>
+                  <SelectContent>
+                    {symbologies.map((symbology) => (
+                      <SelectItem key={symbology.id} value={symbology.id}>
+                        <div className="space-y-1">
+                          <div className="font-medium">{symbology.label}</div>
+                          <div className="text-xs text-gray-500">
+                            {symbology.description}
+                          </div>
+                        </div>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {qrState.symbology !== "qr" && (
+                  <p className="text-xs text-muted-foreground mt-2">
+                    Only the dots and background colors apply. Shapes,
+                    gradients, logos and background images are QR code styling.
+                    {!canTestScan &&
+                      " The built-in scan test cannot read this format, check it with a scanner app that supports it."}
+                  </p>
+                )}
+              </div>
+
               {/* Error Correction Level */}
               <div className="border-t pt-4">
                 <Label className="text-sm font-medium mb-2 block">
@@ -2169,29 +4125,84 @@ export default function QRGenerator() {
                     <Label htmlFor="backgroundColor" className="text-xs">
                       Background color
                     </Label>
-                    <div className="flex gap-2">
-                      <Input
-                        id="backgroundColor"
-                        type="color"
-                        value={qrState.backgroundColor}
-                        onChange={(e) =>
-                          updateQRStateAndReset({
-                            backgroundColor: e.target.value,
-                          })
+                    <ColorInput
+                      id="backgroundColor"
+                      value={qrState.backgroundColor}
+                      onChange={(backgroundColor) =>
+                        updateQRStateAndReset({ backgroundColor })
+                      }
+                      placeholder="#ffffff"
+                      palette={lockedKit?.colors}
+                    />
+                    <div className="mt-2">
+                      <GradientEditor
+                        id="backgroundFill"
+                        value={qrState.backgroundGradient}
+                        color={qrState.backgroundColor}
+                        onChange={(backgroundGradient) =>
+                          updateQRStateAndReset({ backgroundGradient })
                         }
-                        className="w-12 h-8 p-1 border rounded"
+                        palette={lockedKit?.colors}
                       />
-                      <Input
-                        value={qrState.backgroundColor}
-                        onChange={(e) =>
-                          updateQRStateAndReset({
-                            backgroundColor: e.target.value,
-                          })
-                        }
-                        placeholder="#ffffff"
-                        className="flex-1 text-xs"
+                    </div>
+                  </div>
+
+                  {/* Background Image */}
+                  <div>
+                    <Label className="text-xs">Background image</Label>
+                    <div className="flex gap-2 mt-1">
+                      <Button
+                        onClick={() => backgroundImageInputRef.current?.click()}
+                        variant="outline"
+                        size="sm"
+                        className="h-8 text-xs"
+                      >
+                        <Upload className="w-3 h-3 mr-1" />
+                        {qrState.backgroundImage ? "Replace" : "Upload"}
+                      </Button>
+                      {qrState.backgroundImage && (
+                        <Button
+                          onClick={() =>
+                            updateQRStateAndReset({ backgroundImage: "" })
+                          }
+                          variant="outline"
+                          size="sm"
+                          className="h-8 text-xs"
+                        >
+                          <Trash2 className="w-3 h-3 mr-1" />
+                          Remove
+                        </Button>
+                      )}
+                      <input
+                        ref={backgroundImageInputRef}
+                        type="file"
+                        accept="image/*"
+                        onChange={handleBackgroundImageUpload}
+                        className="hidden"
                       />
                     </div>
+                    {qrState.backgroundImage && (
+                      <div className="mt-2">
+                        <Label className="text-xs">
+                          Image opacity:{" "}
+                          {Math.round(qrState.backgroundImageOpacity * 100)}%
+                        </Label>
+                        <Slider
+                          value={[qrState.backgroundImageOpacity]}
+                          onValueChange={([backgroundImageOpacity]) =>
+                            updateQRStateAndReset({ backgroundImageOpacity })
+                          }
+                          max={1}
+                          min={0.05}
+                          step={0.05}
+                          className="mt-2"
+                        />
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Busy images make codes harder to scan, keep the
+                          opacity low
+                        </p>
+                      </div>
+                    )}
                   </div>
 
                   {/* Dots Color & Type */}
@@ -2200,25 +4211,15 @@ export default function QRGenerator() {
                       Dots color & type
                     </Label>
                     <div className="grid grid-cols-2 gap-2">
-                      <div className="flex gap-2">
-                        <Input
-                          id="dotsColor"
-                          type="color"
-                          value={qrState.dotsColor}
-                          onChange={(e) =>
-                            updateQRStateAndReset({ dotsColor: e.target.value })
-                          }
-                          className="w-12 h-8 p-1 border rounded"
-                        />
-                        <Input
-                          value={qrState.dotsColor}
-                          onChange={(e) =>
-                            updateQRStateAndReset({ dotsColor: e.target.value })
-                          }
-                          placeholder="#000000"
-                          className="flex-1 text-xs"
-                        />
-                      </div>
+                      <ColorInput
+                        id="dotsColor"
+                        value={qrState.dotsColor}
+                        onChange={(dotsColor) =>
+                          updateQRStateAndReset({ dotsColor })
+                        }
+                        placeholder="#000000"
+                        palette={lockedKit?.colors}
+                      />
                       <Select
                         value={qrState.dotsType}
                         onValueChange={(value) =>
@@ -2242,6 +4243,17 @@ export default function QRGenerator() {
                         </SelectContent>
                       </Select>
                     </div>
+                    <div className="mt-2">
+                      <GradientEditor
+                        id="dotsFill"
+                        value={qrState.dotsGradient}
+                        color={qrState.dotsColor}
+                        onChange={(dotsGradient) =>
+                          updateQRStateAndReset({ dotsGradient })
+                        }
+                        palette={lockedKit?.colors}
+                      />
+                    </div>
                   </div>
 
                   {/* Corner Square Color & Type */}
@@ -2250,29 +4262,15 @@ export default function QRGenerator() {
                       Corner Square color & type
                     </Label>
                     <div className="grid grid-cols-2 gap-2">
-                      <div className="flex gap-2">
-                        <Input
-                          id="cornersSquareColor"
-                          type="color"
-                          value={qrState.cornersSquareColor}
-                          onChange={(e) =>
-                            updateQRStateAndReset({
-                              cornersSquareColor: e.target.value,
-                            })
-                          }
-                          className="w-12 h-8 p-1 border rounded"
-                        />
-                        <Input
-                          value={qrState.cornersSquareColor}
-                          onChange={(e) =>
-                            updateQRStateAndReset({
-                              cornersSquareColor: e.target.value,
-                            })
-                          }
-                          placeholder="#000000"
-                          className="flex-1 text-xs"
-                        />
-                      </div>
+                      <ColorInput
+                        id="cornersSquareColor"
+                        value={qrState.cornersSquareColor}
+                        onChange={(cornersSquareColor) =>
+                          updateQRStateAndReset({ cornersSquareColor })
+                        }
+                        placeholder="#000000"
+                        palette={lockedKit?.colors}
+                      />
                       <Select
                         value={qrState.cornersSquareType}
                         onValueChange={(value) =>
@@ -2293,6 +4291,17 @@ export default function QRGenerator() {
                         </SelectContent>
                       </Select>
                     </div>
+                    <div className="mt-2">
+                      <GradientEditor
+                        id="cornersSquareFill"
+                        value={qrState.cornersSquareGradient}
+                        color={qrState.cornersSquareColor}
+                        onChange={(cornersSquareGradient) =>
+                          updateQRStateAndReset({ cornersSquareGradient })
+                        }
+                        palette={lockedKit?.colors}
+                      />
+                    </div>
                   </div>
 
                   {/* Corner Dot Color & Type */}
@@ -2301,29 +4310,15 @@ export default function QRGenerator() {
                       Corner Dot color & type
                     </Label>
                     <div className="grid grid-cols-2 gap-2">
-                      <div className="flex gap-2">
-                        <Input
-                          id="cornersDotColor"
-                          type="color"
-                          value={qrState.cornersDotColor}
-                          onChange={(e) =>
-                            updateQRStateAndReset({
-                              cornersDotColor: e.target.value,
-                            })
-                          }
-                          className="w-12 h-8 p-1 border rounded"
-                        />
-                        <Input
-                          value={qrState.cornersDotColor}
-                          onChange={(e) =>
-                            updateQRStateAndReset({
-                              cornersDotColor: e.target.value,
-                            })
-                          }
-                          placeholder="#000000"
-                          className="flex-1 text-xs"
-                        />
-                      </div>
+                      <ColorInput
+                        id="cornersDotColor"
+                        value={qrState.cornersDotColor}
+                        onChange={(cornersDotColor) =>
+                          updateQRStateAndReset({ cornersDotColor })
+                        }
+                        placeholder="#000000"
+                        palette={lockedKit?.colors}
+                      />
                       <Select
                         value={qrState.cornersDotType}
                         onValueChange={(value) =>
@@ -2341,6 +4336,17 @@ export default function QRGenerator() {
                         </SelectContent>
                       </Select>
                     </div>
+                    <div className="mt-2">
+                      <GradientEditor
+                        id="cornersDotFill"
+                        value={qrState.cornersDotGradient}
+                        color={qrState.cornersDotColor}
+                        onChange={(cornersDotGradient) =>
+                          updateQRStateAndReset({ cornersDotGradient })
+                        }
+                        palette={lockedKit?.colors}
+                      />
+                    </div>
                   </div>
                 </div>
               </div>
@@ -2363,7 +4369,8 @@ export default function QRGenerator() {
                 Frame settings
               </CardTitle>
               <CardDescription>
-                Add a frame around your QR code with custom text
+                Add a frame with text lines, icons and an arrow around your QR
+                code
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-6">
@@ -2384,110 +4391,14 @@ export default function QRGenerator() {
               </div>
 
               {qrState.hasFrame && (
-                <div className="space-y-4">
-                  {/* Frame and text colors */}
-                  <div className="grid grid-cols-2 gap-4">
-                    <div>
-                      <Label htmlFor="frameColor">Frame color</Label>
-                      <div className="flex gap-2">
-                        <Input
-                          id="frameColor"
-                          type="color"
-                          value={qrState.frameColor}
-                          onChange={(e) =>
-                            updateQRStateAndReset({
-                              frameColor: e.target.value,
-                            })
-                          }
-                          className="w-16 h-10 p-1 border rounded"
-                        />
-                        <Input
-                          value={qrState.frameColor}
-                          onChange={(e) =>
-                            updateQRStateAndReset({
-                              frameColor: e.target.value,
-                            })
-                          }
-                          placeholder="#000000"
-                          className="flex-1"
-                        />
-                      </div>
-                    </div>
-                    <div>
-                      <Label htmlFor="textColor">Text color</Label>
-                      <div className="flex gap-2">
-                        <Input
-                          id="textColor"
-                          type="color"
-                          value={qrState.textColor}
-                          onChange={(e) =>
-                            updateQRStateAndReset({ textColor: e.target.value })
-                          }
-                          className="w-16 h-10 p-1 border rounded"
-                        />
-                        <Input
-                          value={qrState.textColor}
-                          onChange={(e) =>
-                            updateQRStateAndReset({ textColor: e.target.value })
-                          }
-                          placeholder="#ffffff"
-                          className="flex-1"
-                        />
-                      </div>
-                    </div>
-                  </div>
-
-                  {/* Text position */}
-                  <div>
-                    <Label className="text-sm font-medium mb-3 block">
-                      Text position
-                    </Label>
-                    <div className="grid grid-cols-2 gap-2">
-                      {[
-                        { value: "top", label: "top" },
-                        { value: "bottom", label: "bottom" },
-                      ].map(({ value, label }) => (
-                        <div
-                          key={value}
-                          className="flex items-center space-x-2"
-                        >
-                          <input
-                            type="radio"
-                            id={`text-position-${value}`}
-                            name="textPosition"
-                            value={value}
-                            checked={qrState.textPosition === value}
-                            onChange={(e) =>
-                              updateQRStateAndReset({
-                                textPosition: e.target.value as any,
-                              })
-                            }
-                            className="w-4 h-4"
-                          />
-                          <Label
-                            htmlFor={`text-position-${value}`}
-                            className="text-sm cursor-pointer"
-                          >
-                            {label}
-                          </Label>
-                        </div>
-                      ))}
-                    </div>
-                  </div>
-
-                  {/* Frame text */}
-                  <div>
-                    <Label htmlFor="frameText">Frame text</Label>
-                    <Input
-                      id="frameText"
-                      value={qrState.frameText}
-                      onChange={(e) =>
-                        updateQRStateAndReset({ frameText: e.target.value })
-                      }
-                      placeholder="Scan for more info"
-                    />
-                  </div>
-                </div>
+                <FrameDesigner
+                  state={qrState}
+                  onChange={updateQRStateAndReset}
+                  presets={availableFramePresets}
+                  fonts={availableFrameFonts}
+                  palette={lockedKit?.colors}
+                  frameTexts={lockedKit?.frameTexts}
+                />
               )}
             </CardContent>
           </Card>
@@ -2510,16 +4421,68 @@ export default function QRGenerator() {
               <div className="qr-code-container">
                 <QRWithFrame
                   {...generateQROptions()}
-                  hasFrame={qrState.hasFrame}
-                  frameColor={qrState.frameColor}
-                  textColor={qrState.textColor}
-                  frameText={qrState.frameText}
-                  textPosition={qrState.textPosition}
+                  symbology={qrState.symbology}
+                  frame={toQRFrame(qrState)}
                   className="drop-shadow-sm"
                 />
               </div>
             </div>
 
+            {/* Format */}
+            <div>
+              <Label>Format</Label>
+              <div className="grid grid-cols-4 gap-2 mt-1">
+                {(["png", "svg", "pdf", "eps"] as const).map((format) => (
+                  <Button
+                    key={format}
+                    variant={downloadFormat === format ? "default" : "outline"}
+                    size="sm"
+                    disabled={
+                      (format === "pdf" || format === "eps") &&
+                      qrState.symbology !== "qr"
+                    }
+                    onClick={() => setDownloadFormat(format)}
+                  >
+                    {format.toUpperCase()}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            {qrState.symbology === "qr" && (
+              <PrintExportSettings
+                options={generateQROptions()}
+                format={downloadFormat}
+                enabled={isPrintExport}
+                onEnabledChange={setIsPrintExport}
+                settings={printSettings}
+                onSettingsChange={setPrintSettings}
+                colors={[
+                  { id: "dotsColor", label: "Dots", value: qrState.dotsColor },
+                  {
+                    id: "cornersSquareColor",
+                    label: "Corner squares",
+                    value: qrState.cornersSquareColor,
+                  },
+                  {
+                    id: "cornersDotColor",
+                    label: "Corner dots",
+                    value: qrState.cornersDotColor,
+                  },
+                  {
+                    id: "backgroundColor",
+                    label: "Background",
+                    value: qrState.backgroundColor,
+                  },
+                ]}
+                onApplySuggestion={
+                  lockedKit
+                    ? undefined
+                    : (id, color) => updateQRStateAndReset({ [id]: color })
+                }
+              />
+            )}
+
             {/* Size Options */}
             <div className="space-y-3">
               <div>
@@ -2613,6 +4576,42 @@ export default function QRGenerator() {
         </DialogContent>
       </Dialog>
 
+      {/* Batch Generation Modal */}
+      <BatchQRDialog
+        open={showBatchDialog}
+        onOpenChange={setShowBatchDialog}
+        qrOptions={generateQROptions()}
+        frame={toQRFrame(qrState)}
+      />
+
+      {/* Scanner Modal */}
+      <QRScannerDialog
+        open={showScannerDialog}
+        onOpenChange={setShowScannerDialog}
+        onOpenInEditor={handleOpenScannedCode}
+      />
+
+      {/* Barcode Modal */}
+      <BarcodeDialog
+        open={showBarcodeDialog}
+        onOpenChange={setShowBarcodeDialog}
+        palette={lockedKit?.colors}
+      />
+
+      {/* Printable Sheet Modal */}
+      <PrintSheetDialog
+        open={showSheetDialog}
+        onOpenChange={setShowSheetDialog}
+        qrOptions={generateQROptions()}
+      />
+
+      {/* Animated QR Modal */}
+      <AnimatedQRDialog
+        open={showAnimationDialog}
+        onOpenChange={setShowAnimationDialog}
+        qrOptions={generateQROptions()}
+      />
+
       {/* Floating QR Preview - Mobile Only */}
       {showFloatingPreview && (
         <div
@@ -2623,11 +4622,8 @@ export default function QRGenerator() {
             <div className="w-25 h-25 flex items-center justify-center">
               <QRWithFrame
                 {...generateQROptions()}
-                hasFrame={false} // No frame in preview for simplicity
-                frameColor={qrState.frameColor}
-                textColor={qrState.textColor}
-                frameText={qrState.frameText}
-                textPosition={qrState.textPosition}
+                symbology={qrState.symbology}
+                // No frame in preview for simplicity
                 width={120}
                 height={120}
                 className="pointer-events-none w-full h-full"
@@ -0,0 +1,21 @@
+import { getRedirectStore } from "@/lib/redirect-store";
+import { NextResponse } from "next/server";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const { slug } = await params;
+  const store = getRedirectStore();
+  const entry = await store.get(slug);
+
+  if (!entry) {
+    return new NextResponse("Unknown QR code link", { status: 404 });
+  }
+
+  await store.recordHit(slug);
+  // 302 so browsers and scanners never cache a target that may change
+  return NextResponse.redirect(entry.target, 302);
+}
@@ -1,212 +1,42 @@
 "use client";
 
+import { PatchApplyPanel } from "@/components/text-compare/PatchApplyPanel";
+import { StructuredDiffView } from "@/components/text-compare/StructuredDiffView";
+import { ThreeWayMerge } from "@/components/text-compare/ThreeWayMerge";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Textarea } from "@/components/ui/textarea";
+import {
+  diffStructured,
+  type StructuredDiffResult,
+} from "@/lib/structured-diff";
+import {
+  type DiffLine,
+  type DiffMode,
+  diffLines,
+  diffModes,
+  type DiffResult,
+} from "@/lib/text-diff";
+import {
+  DEFAULT_CONTEXT_LINES,
+  MAX_CONTEXT_LINES,
+  toHtmlReport,
+  toUnifiedDiff,
+} from "@/lib/text-patch";
 import { cn } from "@/lib/utils";
+import { saveAs } from "file-saver";
+import { Download, FileCode } from "lucide-react";
 import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
 
-// Import difflib
-import difflib from "difflib";
-
-// Types for the improved algorithm
-type DiffSegment = {
-  type: "unchanged" | "added" | "deleted";
-  text: string;
-};
-
-type DiffLine = {
-  type: "unchanged" | "modified" | "added" | "deleted";
-  leftLine: number | null;
-  rightLine: number | null;
-  leftSegments: DiffSegment[];
-  rightSegments: DiffSegment[];
-};
-
-type DiffResult = {
-  lines: DiffLine[];
-  stats: {
-    additions: number;
-    deletions: number;
-    modifications: number;
-  };
-};
-
-// Normalize lines by collapsing whitespace and trimming trailing spaces
-function normalizeLine(s: string): string {
-  const collapsed = s.replace(/[\t ]+/g, " ");
-  return collapsed.trimEnd();
-}
-
-// Character-level diff for a single line pair
-function charDiff(
-  left: string,
-  right: string
-): {
-  leftSeg: DiffSegment[];
-  rightSeg: DiffSegment[];
-} {
-  // Use SequenceMatcher on arrays of characters
-  const sm = new difflib.SequenceMatcher(null, left.split(""), right.split(""));
-
-  // If similarity is 50% or less, treat the whole strings as different
-  if (sm.ratio() <= 0.5) {
-    return {
-      leftSeg: left ? [{ type: "deleted", text: left }] : [],
-      rightSeg: right ? [{ type: "added", text: right }] : [],
-    };
-  }
-
-  const leftSeg: DiffSegment[] = [];
-  const rightSeg: DiffSegment[] = [];
-  const opcodes = sm.getOpcodes();
-
-  for (const [tag, i1, i2, j1, j2] of opcodes) {
-    if (tag === "equal") {
-      const text = left.substring(i1, i2);
-      leftSeg.push({ type: "unchanged", text });
-      rightSeg.push({ type: "unchanged", text });
-    } else if (tag === "delete") {
-      const delText = left.substring(i1, i2);
-      leftSeg.push({ type: "deleted", text: delText });
-    } else if (tag === "insert") {
-      const insText = right.substring(j1, j2);
-      rightSeg.push({ type: "added", text: insText });
-    } else if (tag === "replace") {
-      const repL = left.substring(i1, i2);
-      const repR = right.substring(j1, j2);
-      if (repL) leftSeg.push({ type: "deleted", text: repL });
-      if (repR) rightSeg.push({ type: "added", text: repR });
-    }
-  }
-
-  // Merge consecutive segments of the same type
-  function mergeSegments(segs: DiffSegment[]): DiffSegment[] {
-    if (!segs.length) return segs;
-    const merged = [{ ...segs[0] }];
-    for (let i = 1; i < segs.length; i++) {
-      const prev = merged[merged.length - 1];
-      const curr = segs[i];
-      if (prev.type === curr.type) {
-        prev.text += curr.text;
-      } else {
-        merged.push({ ...curr });
-      }
-    }
-    return merged;
-  }
-
-  return { leftSeg: mergeSegments(leftSeg), rightSeg: mergeSegments(rightSeg) };
-}
-
-// Main line-level diff using the new algorithm
-function diffLines(leftText: string, rightText: string): DiffResult {
-  const leftLines = leftText.split("\n");
-  const rightLines = rightText.split("\n");
-
-  // Build normalised keys for aligning lines
-  const leftKeys = leftLines.map(normalizeLine);
-  const rightKeys = rightLines.map(normalizeLine);
-
-  const sm = new difflib.SequenceMatcher(null, leftKeys, rightKeys);
-  const opcodes = sm.getOpcodes();
-
-  const result: DiffLine[] = [];
-  const stats = { additions: 0, deletions: 0, modifications: 0 };
-
-  for (const [tag, i1, i2, j1, j2] of opcodes) {
-    if (tag === "equal") {
-      // If the original lines differ (e.g. whitespace), treat as modified
-      for (let k = 0; k < i2 - i1; k++) {
-        const li = i1 + k;
-        const ri = j1 + k;
-        const leftTextLine = leftLines[li];
-        const rightTextLine = rightLines[ri];
-        const lNum = li + 1;
-        const rNum = ri + 1;
-
-        if (leftTextLine === rightTextLine) {
-          result.push({
-            type: "unchanged",
-            leftLine: lNum,
-            rightLine: rNum,
-            leftSegments: [{ type: "unchanged", text: leftTextLine }],
-            rightSegments: [{ type: "unchanged", text: rightTextLine }],
-          });
-        } else {
-          const segs = charDiff(leftTextLine, rightTextLine);
-          result.push({
-            type: "modified",
-            leftLine: lNum,
-            rightLine: rNum,
-            leftSegments: segs.leftSeg,
-            rightSegments: segs.rightSeg,
-          });
-          stats.modifications++;
-        }
-      }
-    } else if (tag === "replace") {
-      // In a replace block, emit one modified row per line on either side;
-      // if counts differ, continue pairing with a blank line
-      const delCount = i2 - i1;
-      const insCount = j2 - j1;
-      const maxCount = Math.max(delCount, insCount);
-
-      for (let p = 0; p < maxCount; p++) {
-        const li = p < delCount ? i1 + p : null;
-        const ri = p < insCount ? j1 + p : null;
-        const lNum = li !== null ? li + 1 : null;
-        const rNum = ri !== null ? ri + 1 : null;
-        const leftLineText = li !== null ? leftLines[li] : "";
-        const rightLineText = ri !== null ? rightLines[ri] : "";
-
-        const segs = charDiff(leftLineText, rightLineText);
-        result.push({
-          type: "modified",
-          leftLine: lNum,
-          rightLine: rNum,
-          leftSegments: segs.leftSeg,
-          rightSegments: segs.rightSeg,
-        });
-        stats.modifications++;
-      }
-    } else if (tag === "delete") {
-      // Lines present only in the left text
-      for (let d = 0; d < i2 - i1; d++) {
-        const li = i1 + d;
-        const lNum = li + 1;
-        const delText = leftLines[li];
-        result.push({
-          type: "deleted",
-          leftLine: lNum,
-          rightLine: null,
-          leftSegments: [{ type: "deleted", text: delText }],
-          rightSegments: [],
-        });
-        stats.deletions++;
-      }
-    } else if (tag === "insert") {
-      // Lines present only in the right text
-      for (let a = 0; a < j2 - j1; a++) {
-        const ri = j1 + a;
-        const rNum = ri + 1;
-        const insText = rightLines[ri];
-        result.push({
-          type: "added",
-          leftLine: null,
-          rightLine: rNum,
-          leftSegments: [],
-          rightSegments: [{ type: "added", text: insText }],
-        });
-        stats.additions++;
-      }
-    }
-  }
-
-  return { lines: result, stats };
-}
+// Line-level diff modes, or parsed JSON/YAML compared path by path
+type CompareMode = DiffMode | "structure";
 
 // Styling functions
 const getLineClassName = (type: string): string => {
@@ -221,6 +51,8 @@ const getLineNumberClassName = (type: string): string => {
       return "border-l-4 border-red-500 bg-red-50 dark:bg-red-900/30";
     case "modified":
       return "border-l-4 border-blue-500 bg-blue-50 dark:bg-blue-900/30";
+    case "moved":
+      return "border-l-4 border-purple-500 bg-purple-50 dark:bg-purple-900/30";
     default:
       return "border-l-4 border-transparent";
   }
@@ -232,6 +64,8 @@ const getSegmentClassName = (type: string): string => {
       return "bg-green-200 dark:bg-green-800/60";
     case "deleted":
       return "bg-red-200 dark:bg-red-800/60";
+    case "moved":
+      return "bg-purple-200 dark:bg-purple-800/60";
     default:
       return "";
   }
@@ -271,15 +105,29 @@ export default function TextCompare() {
   const [leftText, setLeftText] = useState("");
   const [rightText, setRightText] = useState("");
   const [diffResult, setDiffResult] = useState<DiffResult | null>(null);
+  const [structuredResult, setStructuredResult] =
+    useState<StructuredDiffResult | null>(null);
+  const [ignoreArrayOrder, setIgnoreArrayOrder] = useState(false);
   const [isComparing, setIsComparing] = useState(false);
   const [showWhitespace, setShowWhitespace] = useState(false);
+  const [mode, setMode] = useState<CompareMode>("line");
+  // Move whose ends are highlighted after following a link
+  const [focusedMove, setFocusedMove] = useState<number | null>(null);
+  const [contextLines, setContextLines] = useState(DEFAULT_CONTEXT_LINES);
 
   // Load from localStorage on mount
   useEffect(() => {
     const savedLeft = localStorage.getItem("text-compare-left");
     const savedRight = localStorage.getItem("text-compare-right");
+    const savedMode = localStorage.getItem("text-compare-mode");
     if (savedLeft) setLeftText(savedLeft);
     if (savedRight) setRightText(savedRight);
+    if (
+      savedMode === "structure" ||
+      diffModes.some((item) => item.id === savedMode)
+    ) {
+      setMode(savedMode as CompareMode);
+    }
   }, []);
 
   // Save to localStorage when text changes
@@ -291,21 +139,130 @@ export default function TextCompare() {
     localStorage.setItem("text-compare-right", rightText);
   }, [rightText]);
 
-  const handleCompare = useCallback(() => {
-    setIsComparing(true);
+  // Shows the comparison of two texts, structure errors are toasted
+  const compareTexts = useCallback(
+    (
+      left: string,
+      right: string,
+      compareMode: CompareMode,
+      ignoreOrder: boolean = ignoreArrayOrder
+    ) => {
+      setFocusedMove(null);
+      if (compareMode !== "structure") {
+        setDiffResult(diffLines(left, right, compareMode));
+        setStructuredResult(null);
+        return;
+      }
+      setDiffResult(null);
+      try {
+        setStructuredResult(
+          diffStructured(left, right, { ignoreArrayOrder: ignoreOrder })
+        );
+      } catch (error) {
+        setStructuredResult(null);
+        toast.error(
+          error instanceof Error ? error.message : "Unable to parse the texts"
+        );
+      }
+    },
+    [ignoreArrayOrder]
+  );
 
-    // Add small delay for better UX
-    setTimeout(() => {
-      const result = diffLines(leftText, rightText);
-      setDiffResult(result);
-      setIsComparing(false);
-    }, 100);
-  }, [leftText, rightText]);
+  const handleCompare = useCallback(
+    (compareMode: CompareMode = mode) => {
+      setIsComparing(true);
+
+      // Add small delay for better UX
+      setTimeout(() => {
+        compareTexts(leftText, rightText, compareMode);
+        setIsComparing(false);
+      }, 100);
+    },
+    [leftText, rightText, mode, compareTexts]
+  );
+
+  const handleModeChange = useCallback(
+    (newMode: CompareMode) => {
+      setMode(newMode);
+      localStorage.setItem("text-compare-mode", newMode);
+      // Refresh results that are on screen
+      if (diffResult || structuredResult) handleCompare(newMode);
+    },
+    [diffResult, structuredResult, handleCompare]
+  );
+
+  const handleIgnoreArrayOrderChange = (checked: boolean) => {
+    setIgnoreArrayOrder(checked);
+    if (structuredResult) compareTexts(leftText, rightText, mode, checked);
+  };
+
+  // Shown on the empty side of a row, links the first row of a moved block
+  // to the other end of the move in the same panel
+  const renderMissingLine = (line: DiffLine, side: "left" | "right") => {
+    const move = line.move;
+    if (!move?.isStart) {
+      return (
+        <span className="text-muted-foreground italic text-xs select-none py-1">
+          (line not present)
+        </span>
+      );
+    }
+    return (
+      <button
+        type="button"
+        className="text-purple-700 dark:text-purple-300 italic text-xs select-none py-1 hover:underline"
+        onClick={() => {
+          document
+            .getElementById(`text-compare-${side}-row-${move.targetRow}`)
+            ?.scrollIntoView({ block: "center", behavior: "smooth" });
+          setFocusedMove(move.id);
+        }}
+      >
+        {move.side === "from" ? "Moved to" : "Moved from"} line{" "}
+        {move.targetLine} ⇄
+      </button>
+    );
+  };
+
+  const exportPatch = () => {
+    if (!diffResult) return;
+    const patch = toUnifiedDiff(diffResult, {
+      context: contextLines,
+      leftName: "original.txt",
+      rightName: "modified.txt",
+    });
+    saveAs(
+      new Blob([patch], { type: "text/x-patch;charset=utf-8" }),
+      "comparison.patch"
+    );
+  };
+
+  const exportHtmlReport = () => {
+    if (!diffResult) return;
+    const html = toHtmlReport(diffResult, {
+      leftName: "Original Text",
+      rightName: "Modified Text",
+    });
+    saveAs(
+      new Blob([html], { type: "text/html;charset=utf-8" }),
+      "comparison.html"
+    );
+  };
+
+  // Compares the original text with the result of a patch
+  const handleUsePatched = useCallback(
+    (patchedText: string) => {
+      setRightText(patchedText);
+      compareTexts(leftText, patchedText, mode);
+    },
+    [leftText, mode, compareTexts]
+  );
 
   const handleClear = useCallback(() => {
     setLeftText("");
     setRightText("");
     setDiffResult(null);
+    setStructuredResult(null);
     localStorage.removeItem("text-compare-left");
     localStorage.removeItem("text-compare-right");
   }, []);
@@ -315,12 +272,14 @@ export default function TextCompare() {
     setLeftText(rightText);
     setRightText(temp);
     setDiffResult(null);
+    setStructuredResult(null);
   }, [leftText, rightText]);
 
   const loadSampleTexts = useCallback(() => {
     setLeftText(SAMPLE_TEXT_LEFT);
     setRightText(SAMPLE_TEXT_RIGHT);
     setDiffResult(null);
+    setStructuredResult(null);
   }, []);
 
   return (
@@ -329,213 +288,344 @@ export default function TextCompare() {
         <div className="mb-8">
           <h1 className="text-3xl font-bold mb-2">Text Compare</h1>
           <p className="text-muted-foreground">
-            Compare two texts and find differences line by line
+            Compare two texts and find differences by line, word, code token or
+            JSON/YAML structure, including moved blocks, export and apply
+            patches, or merge two versions of a common base
           </p>
         </div>
 
-        {/* Input Section */}
-        <Card className="p-6 mb-6">
-          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-            <div className="space-y-2">
-              <div className="flex items-center justify-between">
-                <h3 className="font-medium">Original Text</h3>
-                <Badge variant="outline">
-                  {leftText.split("\n").length} lines
-                </Badge>
-              </div>
-              <Textarea
-                placeholder="Enter your original text here..."
-                value={leftText}
-                onChange={(e) => setLeftText(e.target.value)}
-                className="min-h-[200px] font-mono text-sm"
-              />
-            </div>
-
-            <div className="space-y-2">
-              <div className="flex items-center justify-between">
-                <h3 className="font-medium">Modified Text</h3>
-                <Badge variant="outline">
-                  {rightText.split("\n").length} lines
-                </Badge>
+        <Tabs defaultValue="compare">
+          <TabsList className="mb-6">
+            <TabsTrigger value="compare">Compare</TabsTrigger>
+            <TabsTrigger value="merge">Three-way merge</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="merge">
+            <ThreeWayMerge />
+          </TabsContent>
+
+          <TabsContent value="compare">
+            {/* Input Section */}
+            <Card className="p-6 mb-6">
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <h3 className="font-medium">Original Text</h3>
+                    <Badge variant="outline">
+                      {leftText.split("\n").length} lines
+                    </Badge>
+                  </div>
+                  <Textarea
+                    placeholder="Enter your original text here..."
+                    value={leftText}
+                    onChange={(e) => setLeftText(e.target.value)}
+                    className="min-h-[200px] font-mono text-sm"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <h3 className="font-medium">Modified Text</h3>
+                    <Badge variant="outline">
+                      {rightText.split("\n").length} lines
+                    </Badge>
+                  </div>
+                  <Textarea
+                    placeholder="Enter your modified text here..."
+                    value={rightText}
+                    onChange={(e) => setRightText(e.target.value)}
+                    className="min-h-[200px] font-mono text-sm"
+                  />
+                </div>
               </div>
-              <Textarea
-                placeholder="Enter your modified text here..."
-                value={rightText}
-                onChange={(e) => setRightText(e.target.value)}
-                className="min-h-[200px] font-mono text-sm"
-              />
-            </div>
-          </div>
-
-          <div className="flex flex-wrap gap-3 mt-6">
-            <Button
-              onClick={handleCompare}
-              disabled={!leftText.trim() || !rightText.trim() || isComparing}
-              className="bg-gradient-to-r from-orange-500 to-red-500 hover:from-orange-600 hover:to-red-600"
-            >
-              {isComparing ? "Comparing..." : "Compare!"}
-            </Button>
-            <Button variant="outline" onClick={handleSwitchTexts}>
-              Switch Texts
-            </Button>
-            <Button variant="outline" onClick={loadSampleTexts}>
-              Load Sample
-            </Button>
-            <Button variant="outline" onClick={handleClear}>
-              Clear All
-            </Button>
-            <Button
-              variant="outline"
-              onClick={() => setShowWhitespace(!showWhitespace)}
-              className={
-                showWhitespace ? "bg-blue-100 dark:bg-blue-900/30" : ""
-              }
-            >
-              {showWhitespace ? "Hide" : "Show"} Whitespace
-            </Button>
-          </div>
-        </Card>
-
-        {/* Results Section */}
-        {diffResult && (
-          <Card className="p-6">
-            <div className="flex items-center justify-between mb-4">
-              <h3 className="font-medium">Comparison Results</h3>
-              <div className="flex gap-2">
-                {diffResult.stats.additions > 0 && (
-                  <Badge className="bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-200">
-                    +{diffResult.stats.additions} additions
-                  </Badge>
-                )}
-                {diffResult.stats.deletions > 0 && (
-                  <Badge className="bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-200">
-                    -{diffResult.stats.deletions} deletions
-                  </Badge>
-                )}
-                {diffResult.stats.modifications > 0 && (
-                  <Badge className="bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-200">
-                    ~{diffResult.stats.modifications} modified
-                  </Badge>
+
+              <div className="flex flex-wrap items-center gap-2 mt-6">
+                <span className="text-sm font-medium mr-1">Compare by</span>
+                {diffModes.map((item) => (
+                  <Button
+                    key={item.id}
+                    variant={mode === item.id ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => handleModeChange(item.id)}
+                    title={item.description}
+                  >
+                    {item.name}
+                  </Button>
+                ))}
+                <Button
+                  variant={mode === "structure" ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => handleModeChange("structure")}
+                  title="Parse JSON or YAML and compare keys and values, ignoring key order and formatting"
+                >
+                  Structure
+                </Button>
+                {mode === "structure" && (
+                  <div className="flex items-center gap-2 ml-2">
+                    <Checkbox
+                      id="ignoreArrayOrder"
+                      checked={ignoreArrayOrder}
+                      onCheckedChange={(checked) =>
+                        handleIgnoreArrayOrderChange(checked === true)
+                      }
+                    />
+                    <Label htmlFor="ignoreArrayOrder" className="text-sm">
+                      Ignore array order
+                    </Label>
+                  </div>
                 )}
               </div>
-            </div>
-
-            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
-              {/* Left Side - Original */}
-              <div className="space-y-2">
-                <h4 className="text-sm font-medium text-muted-foreground">
-                  Original Text
-                </h4>
-                <ScrollArea className="h-[400px] w-full border rounded-md">
-                  <div className="p-4">
-                    {diffResult.lines.map((line, index) => (
-                      <div
-                        key={index}
-                        className="flex items-start text-sm min-h-[1.5rem]"
-                      >
-                        <span
-                          className={cn(
-                            "text-xs text-muted-foreground min-w-[3rem] text-right flex-shrink-0 py-1 px-2 mr-2 select-none",
-                            getLineNumberClassName(line.type)
-                          )}
-                        >
-                          {line.leftLine || "\u00A0"}
-                        </span>
-                        <div className="font-mono flex-1 whitespace-pre-wrap break-all py-1 select-text">
-                          {line.leftSegments.length > 0 ? (
-                            line.leftSegments.map((segment, segIndex) => (
-                              <span
-                                key={segIndex}
-                                className={getSegmentClassName(segment.type)}
-                              >
-                                {showWhitespace
-                                  ? renderWhitespace(segment.text)
-                                  : segment.text}
-                              </span>
-                            ))
-                          ) : (
-                            <span className="text-muted-foreground italic text-xs select-none py-1">
-                              (line not present)
+
+              <div className="flex flex-wrap gap-3 mt-4">
+                <Button
+                  onClick={() => handleCompare()}
+                  disabled={
+                    !leftText.trim() || !rightText.trim() || isComparing
+                  }
+                  className="bg-gradient-to-r from-orange-500 to-red-500 hover:from-orange-600 hover:to-red-600"
+                >
+                  {isComparing ? "Comparing..." : "Compare!"}
+                </Button>
+                <Button variant="outline" onClick={handleSwitchTexts}>
+                  Switch Texts
+                </Button>
+                <Button variant="outline" onClick={loadSampleTexts}>
+                  Load Sample
+                </Button>
+                <Button variant="outline" onClick={handleClear}>
+                  Clear All
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => setShowWhitespace(!showWhitespace)}
+                  className={
+                    showWhitespace ? "bg-blue-100 dark:bg-blue-900/30" : ""
+                  }
+                >
+                  {showWhitespace ? "Hide" : "Show"} Whitespace
+                </Button>
+              </div>
+            </Card>
+
+            {/* Results Section */}
+            {structuredResult && (
+              <StructuredDiffView result={structuredResult} />
+            )}
+            {diffResult && (
+              <Card className="p-6">
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="font-medium">Comparison Results</h3>
+                  <div className="flex gap-2">
+                    {diffResult.stats.additions > 0 && (
+                      <Badge className="bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-200">
+                        +{diffResult.stats.additions} additions
+                      </Badge>
+                    )}
+                    {diffResult.stats.deletions > 0 && (
+                      <Badge className="bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-200">
+                        -{diffResult.stats.deletions} deletions
+                      </Badge>
+                    )}
+                    {diffResult.stats.modifications > 0 && (
+                      <Badge className="bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-200">
+                        ~{diffResult.stats.modifications} modified
+                      </Badge>
+                    )}
+                    {diffResult.stats.movedWords > 0 && (
+                      <Badge className="bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-200">
+                        ⇄{diffResult.stats.movedWords} moved
+                      </Badge>
+                    )}
+                    {diffResult.stats.movedBlocks > 0 && (
+                      <Badge className="bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-200">
+                        ⇄{diffResult.stats.movedBlocks} moved{" "}
+                        {diffResult.stats.movedBlocks === 1
+                          ? "block"
+                          : "blocks"}
+                      </Badge>
+                    )}
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-2 mb-4">
+                  <Label htmlFor="contextLines" className="text-sm">
+                    Context lines
+                  </Label>
+                  <Input
+                    id="contextLines"
+                    type="number"
+                    min={0}
+                    max={MAX_CONTEXT_LINES}
+                    value={contextLines}
+                    onChange={(e) =>
+                      setContextLines(
+                        Math.min(
+                          MAX_CONTEXT_LINES,
+                          Math.max(0, Math.floor(Number(e.target.value) || 0))
+                        )
+                      )
+                    }
+                    className="w-20 h-8"
+                  />
+                  <Button variant="outline" size="sm" onClick={exportPatch}>
+                    <FileCode className="w-4 h-4 mr-2" />
+                    Export .patch
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={exportHtmlReport}
+                  >
+                    <Download className="w-4 h-4 mr-2" />
+                    HTML Report
+                  </Button>
+                </div>
+
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                  {/* Left Side - Original */}
+                  <div className="space-y-2">
+                    <h4 className="text-sm font-medium text-muted-foreground">
+                      Original Text
+                    </h4>
+                    <ScrollArea className="h-[400px] w-full border rounded-md">
+                      <div className="p-4">
+                        {diffResult.lines.map((line, index) => (
+                          <div
+                            key={index}
+                            id={`text-compare-left-row-${index}`}
+                            className={cn(
+                              "flex items-start text-sm min-h-[1.5rem]",
+                              line.move &&
+                                line.move.id === focusedMove &&
+                                "bg-purple-100 dark:bg-purple-900/40"
+                            )}
+                          >
+                            <span
+                              className={cn(
+                                "text-xs text-muted-foreground min-w-[3rem] text-right flex-shrink-0 py-1 px-2 mr-2 select-none",
+                                getLineNumberClassName(line.type)
+                              )}
+                            >
+                              {line.leftLine || "\u00A0"}
                             </span>
-                          )}
-                        </div>
+                            <div className="font-mono flex-1 whitespace-pre-wrap break-all py-1 select-text">
+                              {line.leftLine !== null
+                                ? line.leftSegments.map((segment, segIndex) => (
+                                    <span
+                                      key={segIndex}
+                                      className={getSegmentClassName(
+                                        segment.type
+                                      )}
+                                    >
+                                      {showWhitespace
+                                        ? renderWhitespace(segment.text)
+                                        : segment.text}
+                                    </span>
+                                  ))
+                                : renderMissingLine(line, "left")}
+                            </div>
+                          </div>
+                        ))}
                       </div>
-                    ))}
+                    </ScrollArea>
                   </div>
-                </ScrollArea>
-              </div>
 
-              {/* Right Side - Modified */}
-              <div className="space-y-2">
-                <h4 className="text-sm font-medium text-muted-foreground">
-                  Modified Text
-                </h4>
-                <ScrollArea className="h-[400px] w-full border rounded-md">
-                  <div className="p-4">
-                    {diffResult.lines.map((line, index) => (
-                      <div
-                        key={index}
-                        className="flex items-start text-sm min-h-[1.5rem]"
-                      >
-                        <span
-                          className={cn(
-                            "text-xs text-muted-foreground min-w-[3rem] text-right flex-shrink-0 py-1 px-2 mr-2 select-none",
-                            getLineNumberClassName(line.type)
-                          )}
-                        >
-                          {line.rightLine || "\u00A0"}
-                        </span>
-                        <div className="font-mono flex-1 whitespace-pre-wrap break-all py-1 select-text">
-                          {line.rightSegments.length > 0 ? (
-                            line.rightSegments.map((segment, segIndex) => (
-                              <span
-                                key={segIndex}
-                                className={getSegmentClassName(segment.type)}
-                              >
-                                {showWhitespace
-                                  ? renderWhitespace(segment.text)
-                                  : segment.text}
-                              </span>
-                            ))
-                          ) : (
-                            <span className="text-muted-foreground italic text-xs select-none py-1">
-                              (line not present)
+                  {/* Right Side - Modified */}
+                  <div className="space-y-2">
+                    <h4 className="text-sm font-medium text-muted-foreground">
+                      Modified Text
+                    </h4>
+                    <ScrollArea className="h-[400px] w-full border rounded-md">
+                      <div className="p-4">
+                        {diffResult.lines.map((line, index) => (
+                          <div
+                            key={index}
+                            id={`text-compare-right-row-${index}`}
+                            className={cn(
+                              "flex items-start text-sm min-h-[1.5rem]",
+                              line.move &&
+                                line.move.id === focusedMove &&
+                                "bg-purple-100 dark:bg-purple-900/40"
+                            )}
+                          >
+                            <span
+                              className={cn(
+                                "text-xs text-muted-foreground min-w-[3rem] text-right flex-shrink-0 py-1 px-2 mr-2 select-none",
+                                getLineNumberClassName(line.type)
+                              )}
+                            >
+                              {line.rightLine || "\u00A0"}
                             </span>
-                          )}
-                        </div>
+                            <div className="font-mono flex-1 whitespace-pre-wrap break-all py-1 select-text">
+                              {line.rightLine !== null
+                                ? line.rightSegments.map(
+                                    (segment, segIndex) => (
+                                      <span
+                                        key={segIndex}
+                                        className={getSegmentClassName(
+                                          segment.type
+                                        )}
+                                      >
+                                        {showWhitespace
+                                          ? renderWhitespace(segment.text)
+                                          : segment.text}
+                                      </span>
+                                    )
+                                  )
+                                : renderMissingLine(line, "right")}
+                            </div>
+                          </div>
+                        ))}
                       </div>
-                    ))}
+                    </ScrollArea>
                   </div>
-                </ScrollArea>
-              </div>
-            </div>
-
-            {/* Legend */}
-            <div className="mt-4 pt-4 border-t">
-              <h4 className="text-sm font-medium mb-2">Legend:</h4>
-              <div className="flex flex-wrap gap-4 text-xs">
-                <div className="flex items-center gap-2">
-                  <div className="w-3 h-3 bg-red-200 dark:bg-red-800/60 rounded"></div>
-                  <span>Deleted text</span>
                 </div>
-                <div className="flex items-center gap-2">
-                  <div className="w-3 h-3 bg-green-200 dark:bg-green-800/60 rounded"></div>
-                  <span>Added text</span>
-                </div>
-                <div className="flex items-center gap-2">
-                  <div className="w-3 h-3 bg-blue-50 dark:bg-blue-900/20 border border-blue-500 rounded"></div>
-                  <span>Modified line</span>
-                </div>
-                {showWhitespace && (
-                  <div className="flex items-center gap-2">
-                    <span className="font-mono">·→</span>
-                    <span>Spaces & tabs visible</span>
+
+                {/* Legend */}
+                <div className="mt-4 pt-4 border-t">
+                  <h4 className="text-sm font-medium mb-2">Legend:</h4>
+                  <div className="flex flex-wrap gap-4 text-xs">
+                    <div className="flex items-center gap-2">
+                      <div className="w-3 h-3 bg-red-200 dark:bg-red-800/60 rounded"></div>
+                      <span>Deleted text</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <div className="w-3 h-3 bg-green-200 dark:bg-green-800/60 rounded"></div>
+                      <span>Added text</span>
+                    </div>
+                    {(mode !== "line" || diffResult.stats.movedBlocks > 0) && (
+                      <div className="flex items-center gap-2">
+                        <div className="w-3 h-3 bg-purple-200 dark:bg-purple-800/60 rounded"></div>
+                        <span>Moved text</span>
+                      </div>
+                    )}
+                    <div className="flex items-center gap-2">
+                      <div className="w-3 h-3 bg-blue-50 dark:bg-blue-900/20 border border-blue-500 rounded"></div>
+                      <span>Modified line</span>
+                    </div>
+                    {diffResult.stats.movedBlocks > 0 && (
+                      <div className="flex items-center gap-2">
+                        <div className="w-3 h-3 bg-purple-50 dark:bg-purple-900/20 border border-purple-500 rounded"></div>
+                        <span>Moved block</span>
+                      </div>
+                    )}
+                    {showWhitespace && (
+                      <div className="flex items-center gap-2">
+                        <span className="font-mono">·→</span>
+                        <span>Spaces & tabs visible</span>
+                      </div>
+                    )}
                   </div>
-                )}
-              </div>
-            </div>
-          </Card>
-        )}
+                </div>
+              </Card>
+            )}
+
+            <PatchApplyPanel
+              originalText={leftText}
+              onUseResult={handleUsePatched}
+            />
+          </TabsContent>
+        </Tabs>
       </div>
     </div>
   );
@@ -1,14 +1,357 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  buildDynamicQRUrl,
+  generateRedirectSlug,
+  isValidRedirectSlug,
+  loadRegistryToken,
+  type RedirectEntry,
+  redirectRegistry,
+  saveRegistryToken,
+  validateRedirectTarget,
+} from "@/lib/dynamic-qr";
+import {
+  Check,
+  Copy,
+  KeyRound,
+  Link2,
+  Pencil,
+  Plus,
+  RefreshCw,
+  Trash2,
+  X,
+} from "lucide-react";
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+
 export default function URLShortener() {
+  const [entries, setEntries] = useState<RedirectEntry[]>([]);
+  const [registryError, setRegistryError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [origin, setOrigin] = useState("");
+  const [target, setTarget] = useState("");
+  const [slug, setSlug] = useState("");
+  const [editingSlug, setEditingSlug] = useState<string | null>(null);
+  const [editTarget, setEditTarget] = useState("");
+  const [registryToken, setRegistryToken] = useState("");
+
+  const loadEntries = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setEntries(await redirectRegistry.list());
+      setRegistryError(null);
+    } catch (error) {
+      setRegistryError(
+        error instanceof Error ? error.message : "Failed to load redirects"
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    setOrigin(window.location.origin);
+    setRegistryToken(loadRegistryToken());
+    setSlug(generateRedirectSlug());
+    loadEntries();
+  }, [loadEntries]);
+
+  const saveEntry = async (entrySlug: string, entryTarget: string) => {
+    if (!isValidRedirectSlug(entrySlug)) {
+      toast.error("Slugs may only contain letters, numbers, - and _");
+      return false;
+    }
+    const targetError = validateRedirectTarget(entryTarget);
+    if (targetError) {
+      toast.error(targetError);
+      return false;
+    }
+
+    try {
+      const entry = await redirectRegistry.save(entrySlug, entryTarget);
+      setEntries((prev) => [
+        entry,
+        ...prev.filter((e) => e.slug !== entry.slug),
+      ]);
+      return true;
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save redirect"
+      );
+      return false;
+    }
+  };
+
+  const handleCreate = async () => {
+    if (entries.some((e) => e.slug === slug)) {
+      toast.error("That short code is already in use");
+      return;
+    }
+    if (await saveEntry(slug, target.trim())) {
+      toast.success("Short link created");
+      setTarget("");
+      setSlug(generateRedirectSlug());
+    }
+  };
+
+  const handleUpdate = async (entrySlug: string) => {
+    if (await saveEntry(entrySlug, editTarget.trim())) {
+      toast.success("Target updated");
+      setEditingSlug(null);
+    }
+  };
+
+  const handleDelete = async (entrySlug: string) => {
+    try {
+      await redirectRegistry.remove(entrySlug);
+      setEntries((prev) => prev.filter((e) => e.slug !== entrySlug));
+      toast.success("Short link deleted");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to delete redirect"
+      );
+    }
+  };
+
+  const copyLink = async (entrySlug: string) => {
+    try {
+      await navigator.clipboard.writeText(buildDynamicQRUrl(origin, entrySlug));
+      toast.success("Link copied to clipboard!");
+    } catch {
+      toast.error("Failed to copy link");
+    }
+  };
+
   return (
-    <div className="max-w-4xl mx-auto p-6">
-      <h1 className="text-3xl font-bold mb-6">URL Shortener</h1>
-      <div className="bg-white rounded-lg shadow-md p-6">
-        <p className="text-gray-600 mb-4">Shorten long URLs and track click analytics.</p>
-        <div className="text-center py-12 bg-gray-50 rounded-lg">
-          <div className="text-6xl mb-4">🔗</div>
-          <p className="text-gray-500">URL Shortener coming soon...</p>
-        </div>
+    <div className="w-full max-w-5xl mx-auto space-y-6 p-4 sm:p-6">
+      <div className="space-y-2">
+        <h1 className="text-3xl font-bold tracking-tight">URL Shortener</h1>
+        <p className="text-muted-foreground">
+          Short links for dynamic QR codes - change the target any time without
+          reprinting
+        </p>
       </div>
+
+      {registryError && (
+        <div className="text-sm p-3 rounded-md border border-yellow-300 bg-yellow-50 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-200">
+          {registryError}. Run the server build (
+          <code>npm run build:server</code>) with REDIRECT_ADMIN_TOKEN set to
+          store redirects.
+        </div>
+      )}
+
+      {/* Admin Token Section */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            Registry Access
+          </CardTitle>
+          <CardDescription>
+            Listing and changing short links needs the REDIRECT_ADMIN_TOKEN of
+            the server. It is kept in this browser only.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex gap-2">
+            <Input
+              type="password"
+              autoComplete="off"
+              value={registryToken}
+              onChange={(e) => setRegistryToken(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  saveRegistryToken(registryToken);
+                  loadEntries();
+                }
+              }}
+              placeholder="Admin token"
+              aria-label="Admin token"
+            />
+            <Button
+              variant="outline"
+              onClick={() => {
+                saveRegistryToken(registryToken);
+                loadEntries();
+              }}
+            >
+              Unlock
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Create Section */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Link2 className="h-5 w-5" />
+            New Short Link
+          </CardTitle>
+          <CardDescription>
+            Visitors opening the short link are redirected to the target URL
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="shortener-target">Target URL</Label>
+            <Input
+              id="shortener-target"
+              value={target}
+              onChange={(e) => setTarget(e.target.value)}
+              placeholder="https://example.com/a/very/long/link"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="shortener-slug">Short Code</Label>
+            <div className="flex gap-2">
+              <Input
+                id="shortener-slug"
+                value={slug}
+                onChange={(e) => setSlug(e.target.value)}
+                className={
+                  slug && !isValidRedirectSlug(slug) ? "border-destructive" : ""
+                }
+              />
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => setSlug(generateRedirectSlug())}
+                title="Generate a random short code"
+              >
+                <RefreshCw className="h-4 w-4" />
+              </Button>
+            </div>
+            {slug && (
+              <p className="text-sm text-muted-foreground font-mono break-all">
+                {buildDynamicQRUrl(origin, slug)}
+              </p>
+            )}
+          </div>
+          <Button onClick={handleCreate} disabled={!!registryError}>
+            <Plus className="h-4 w-4 mr-2" />
+            Create Short Link
+          </Button>
+        </CardContent>
+      </Card>
+
+      {/* Registry Section */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Short Links ({entries.length})</CardTitle>
+              <CardDescription>
+                Hit counts increase every time a link or QR code is opened
+              </CardDescription>
+            </div>
+            <Button onClick={loadEntries} size="sm" variant="outline">
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Refresh
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : entries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No short links yet</p>
+          ) : (
+            <div className="space-y-2">
+              {entries.map((entry) => (
+                <div
+                  key={entry.slug}
+                  className="flex flex-col sm:flex-row sm:items-center gap-2 p-3 border rounded-md"
+                >
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="font-mono text-sm font-medium">
+                      /r/{entry.slug}/
+                    </div>
+                    {editingSlug === entry.slug ? (
+                      <Input
+                        value={editTarget}
+                        onChange={(e) => setEditTarget(e.target.value)}
+                        onKeyDown={(e) =>
+                          e.key === "Enter" && handleUpdate(entry.slug)
+                        }
+                        className="h-8"
+                        autoFocus
+                      />
+                    ) : (
+                      <div className="text-sm text-muted-foreground truncate">
+                        {entry.target}
+                      </div>
+                    )}
+                  </div>
+                  <div className="text-sm text-muted-foreground whitespace-nowrap">
+                    {entry.hits} hit{entry.hits === 1 ? "" : "s"}
+                  </div>
+                  <div className="flex gap-1">
+                    {editingSlug === entry.slug ? (
+                      <>
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          onClick={() => handleUpdate(entry.slug)}
+                          title="Save target"
+                        >
+                          <Check className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          onClick={() => setEditingSlug(null)}
+                          title="Cancel"
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </>
+                    ) : (
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        onClick={() => {
+                          setEditingSlug(entry.slug);
+                          setEditTarget(entry.target);
+                        }}
+                        title="Change target"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => copyLink(entry.slug)}
+                      title="Copy short link"
+                    >
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => handleDelete(entry.slug)}
+                      title="Delete"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
     </div>
-  )
-}
\ No newline at end of file
+  );
+}
@@ -0,0 +1,287 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ANIMATION_LIMITS,
+  createQRAnimation,
+  defaultAnimationEmojis,
+  downloadQRAnimation,
+  type QRAnimationFormat,
+  type QRAnimationResult,
+  qrAnimations,
+  type QRAnimationType,
+} from "@/lib/qr-animation";
+import { type StyledQROptions } from "@/lib/qr-utils";
+import {
+  AlertTriangle,
+  CheckCircle,
+  Download,
+  Film,
+  Loader2,
+} from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
+import { toast } from "sonner";
+
+interface AnimatedQRDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  qrOptions: StyledQROptions;
+}
+
+export function AnimatedQRDialog({
+  open,
+  onOpenChange,
+  qrOptions,
+}: AnimatedQRDialogProps) {
+  const hasLogo = !!qrOptions.image;
+  const [type, setType] = useState<QRAnimationType>("emoji");
+  const [format, setFormat] = useState<QRAnimationFormat>("gif");
+  const [frameCount, setFrameCount] = useState(24);
+  const [duration, setDuration] = useState(2);
+  const [emojiText, setEmojiText] = useState(defaultAnimationEmojis.join(" "));
+  const [progress, setProgress] = useState<number | null>(null);
+  const [result, setResult] = useState<QRAnimationResult | null>(null);
+
+  const previewUrl = useMemo(
+    () => (result ? URL.createObjectURL(result.blob) : null),
+    [result]
+  );
+  useEffect(
+    () => () => {
+      if (previewUrl) URL.revokeObjectURL(previewUrl);
+    },
+    [previewUrl]
+  );
+
+  // A new design or new settings make the last render stale
+  const optionsKey = JSON.stringify(qrOptions);
+  useEffect(() => {
+    setResult(null);
+  }, [optionsKey, type, format, frameCount, duration, emojiText]);
+
+  const animation = qrAnimations.find((item) => item.id === type)!;
+  const isUnavailable = animation.needsLogo && !hasLogo;
+
+  const handleGenerate = async () => {
+    setProgress(0);
+    try {
+      const rendered = await createQRAnimation(
+        qrOptions,
+        {
+          type,
+          format,
+          frameCount: Math.max(ANIMATION_LIMITS.minFrames, frameCount),
+          duration: Math.max(0.5, duration) * 1000,
+          emojis: emojiText.split(/\s+/).filter(Boolean),
+        },
+        (completed, total) => setProgress(Math.round((completed / total) * 100))
+      );
+      setResult(rendered);
+    } catch (error) {
+      console.error("Animation rendering failed:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to render animation"
+      );
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleDownload = () => {
+    if (!result) return;
+    downloadQRAnimation(result.blob, format);
+    toast.success(`Animated QR code downloaded as ${format.toUpperCase()}`);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Film className="w-5 h-5" />
+            Animated QR Code
+          </DialogTitle>
+          <DialogDescription>
+            Animate the logo area or background while the modules stay in place
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label>Animation</Label>
+              <Select
+                value={type}
+                onValueChange={(value) => setType(value as QRAnimationType)}
+              >
+                <SelectTrigger className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {qrAnimations.map((item) => (
+                    <SelectItem
+                      key={item.id}
+                      value={item.id}
+                      disabled={item.needsLogo && !hasLogo}
+                    >
+                      {item.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-gray-500 mt-1">
+                {isUnavailable
+                  ? "Add a logo first to animate it"
+                  : animation.description}
+              </p>
+            </div>
+            <div>
+              <Label>Format</Label>
+              <Select
+                value={format}
+                onValueChange={(value) => setFormat(value as QRAnimationFormat)}
+              >
+                <SelectTrigger className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="gif">GIF - plays everywhere</SelectItem>
+                  <SelectItem value="apng">
+                    APNG - full color and transparency
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label htmlFor="animationFrames" className="text-xs">
+                Frames
+              </Label>
+              <Input
+                id="animationFrames"
+                type="number"
+                min={ANIMATION_LIMITS.minFrames}
+                max={ANIMATION_LIMITS.maxFrames}
+                value={frameCount}
+                onChange={(e) =>
+                  setFrameCount(
+                    Math.min(
+                      ANIMATION_LIMITS.maxFrames,
+                      parseInt(e.target.value) || 0
+                    )
+                  )
+                }
+                className="h-8 text-xs"
+              />
+            </div>
+            <div>
+              <Label htmlFor="animationDuration" className="text-xs">
+                Loop length (s)
+              </Label>
+              <Input
+                id="animationDuration"
+                type="number"
+                min={0.5}
+                max={10}
+                step={0.5}
+                value={duration}
+                onChange={(e) =>
+                  setDuration(Math.min(10, parseFloat(e.target.value) || 0))
+                }
+                className="h-8 text-xs"
+              />
+            </div>
+          </div>
+
+          {type === "emoji" && (
+            <div>
+              <Label htmlFor="animationEmojis" className="text-xs">
+                Emoji, separated by spaces
+              </Label>
+              <Input
+                id="animationEmojis"
+                value={emojiText}
+                onChange={(e) => setEmojiText(e.target.value)}
+                className="h-8"
+              />
+            </div>
+          )}
+
+          {previewUrl && result && (
+            <div className="space-y-2">
+              <div className="flex justify-center p-4 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                <span
+                  role="img"
+                  aria-label="Animated QR code preview"
+                  className="block w-[240px] h-[240px] bg-contain bg-center bg-no-repeat"
+                  style={{ backgroundImage: `url(${previewUrl})` }}
+                />
+              </div>
+              <div
+                className={`flex items-center gap-2 text-xs ${
+                  result.scannable
+                    ? "text-green-600 dark:text-green-400"
+                    : "text-orange-600 dark:text-orange-400"
+                }`}
+              >
+                {result.scannable ? (
+                  <CheckCircle className="w-4 h-4" />
+                ) : (
+                  <AlertTriangle className="w-4 h-4" />
+                )}
+                {result.scannable
+                  ? `Sampled frames scan correctly, ${(result.blob.size / 1024).toFixed(0)} KB`
+                  : "A sampled frame did not scan, try a smaller logo or a higher error correction level"}
+              </div>
+            </div>
+          )}
+
+          {progress !== null && <Progress value={progress} className="h-2" />}
+
+          <div className="flex gap-2 pt-2">
+            <Button
+              variant="outline"
+              onClick={handleGenerate}
+              className="flex-1"
+              disabled={isUnavailable || progress !== null}
+            >
+              {progress !== null ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Film className="w-4 h-4 mr-2" />
+              )}
+              {progress !== null ? `Rendering... ${progress}%` : "Preview"}
+            </Button>
+            <Button
+              onClick={handleDownload}
+              className="flex-1"
+              disabled={!result}
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Download {format.toUpperCase()}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,321 @@
+"use client";
+
+import { ColorInput } from "@/components/qr/ColorInput";
+import { SimpleContrastIndicator } from "@/components/qr/SimpleContrastIndicator";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import {
+  type BarcodeFormat,
+  barcodeFormats,
+  type BarcodeOptions,
+  BarcodeRenderer,
+  getBarcodeFormat,
+  renderBarcodeSVG,
+  validateBarcode,
+} from "@/lib/barcode";
+import { copyQRToClipboard, downloadQRCode } from "@/lib/qr-utils";
+import { Barcode, Copy, Download } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+
+interface BarcodeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // When set, only these colors can be picked (brand lock)
+  palette?: string[];
+}
+
+export function BarcodeDialog({
+  open,
+  onOpenChange,
+  palette,
+}: BarcodeDialogProps) {
+  const [format, setFormat] = useState<BarcodeFormat>("code128");
+  const [input, setInput] = useState("");
+  const [barWidth, setBarWidth] = useState(2);
+  const [barHeight, setBarHeight] = useState(80);
+  const [showText, setShowText] = useState(true);
+  const [quietZone, setQuietZone] = useState(true);
+  const [foreground, setForeground] = useState("#000000");
+  const [background, setBackground] = useState("#ffffff");
+  const [isExporting, setIsExporting] = useState(false);
+  const previewRef = useRef<HTMLDivElement>(null);
+
+  const formatInfo = getBarcodeFormat(format);
+  const validation = validateBarcode(format, input);
+  const options: BarcodeOptions = {
+    format,
+    value: validation.value,
+    barWidth,
+    barHeight,
+    showText,
+    quietZone,
+    foreground,
+    background,
+  };
+
+  let preview = "";
+  let renderError: string | null = null;
+  if (!validation.error) {
+    try {
+      preview = renderBarcodeSVG(options).svg;
+    } catch (error) {
+      renderError =
+        error instanceof Error ? error.message : "Failed to render barcode";
+    }
+  }
+  const error = validation.error ?? renderError;
+
+  // The dialog content mounts on open, so the preview depends on it too
+  useEffect(() => {
+    if (previewRef.current) previewRef.current.innerHTML = preview;
+  }, [open, preview]);
+
+  const handleDownload = async (fileFormat: "png" | "svg") => {
+    setIsExporting(true);
+    try {
+      await downloadQRCode(
+        new BarcodeRenderer(options),
+        `barcode-${format}-${validation.value.replace(/[^\w-]+/g, "_")}`,
+        fileFormat
+      );
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to download barcode"
+      );
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    setIsExporting(true);
+    try {
+      if (await copyQRToClipboard(new BarcodeRenderer(options))) {
+        toast.success("Barcode copied to clipboard");
+      } else {
+        toast.error("Failed to copy barcode");
+      }
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Barcode className="w-5 h-5" />
+            Barcode Generator
+          </DialogTitle>
+          <DialogDescription>
+            Create linear barcodes for labels, products and shipping cartons
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {/* Preview */}
+          <div className="flex justify-center p-4 bg-gray-50 dark:bg-gray-800 rounded-lg overflow-x-auto min-h-32">
+            <div ref={previewRef} className="flex items-center" />
+            {error && (
+              <div className="self-center text-sm text-gray-500">
+                Barcode preview appears here
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label htmlFor="barcodeFormat">Format</Label>
+              <Select
+                value={format}
+                onValueChange={(value) => setFormat(value as BarcodeFormat)}
+              >
+                <SelectTrigger id="barcodeFormat" className="h-9">
+                  <SelectValue>{formatInfo.label}</SelectValue>
+                </SelectTrigger>
+                <SelectContent>
+                  {barcodeFormats.map((info) => (
+                    <SelectItem key={info.id} value={info.id}>
+                      <div className="space-y-1">
+                        <div className="font-medium">{info.label}</div>
+                        <div className="text-xs text-gray-500">
+                          {info.description}
+                        </div>
+                      </div>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="barcodeValue">
+                {formatInfo.digits === null ? "Value" : "Number"}
+              </Label>
+              <Input
+                id="barcodeValue"
+                value={input}
+                onChange={(e) => setInput(e.target.value)}
+                placeholder={formatInfo.placeholder}
+                inputMode={formatInfo.digits === null ? "text" : "numeric"}
+              />
+            </div>
+          </div>
+
+          {input && error ? (
+            <div className="text-sm text-red-600 bg-red-50 dark:bg-red-900/20 p-2 rounded border border-red-200">
+              {error}
+            </div>
+          ) : (
+            validation.addedCheckDigit && (
+              <p className="text-xs text-muted-foreground">
+                Check digit {validation.addedCheckDigit} added:{" "}
+                {validation.value}
+              </p>
+            )
+          )}
+
+          {/* Bars */}
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label className="text-xs">Bar width: {barWidth}px</Label>
+              <Slider
+                value={[barWidth]}
+                onValueChange={([value]) => setBarWidth(value)}
+                min={1}
+                max={6}
+                step={1}
+                className="mt-2"
+              />
+            </div>
+            <div>
+              <Label className="text-xs">Bar height: {barHeight}px</Label>
+              <Slider
+                value={[barHeight]}
+                onValueChange={([value]) => setBarHeight(value)}
+                min={20}
+                max={300}
+                step={10}
+                className="mt-2"
+              />
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-4">
+            <div className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                id="barcodeText"
+                checked={showText}
+                onChange={(e) => setShowText(e.target.checked)}
+                className="w-4 h-4"
+              />
+              <Label htmlFor="barcodeText" className="text-sm">
+                Human-readable text
+              </Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                id="barcodeQuietZone"
+                checked={quietZone}
+                onChange={(e) => setQuietZone(e.target.checked)}
+                className="w-4 h-4"
+              />
+              <Label htmlFor="barcodeQuietZone" className="text-sm">
+                Quiet zones
+              </Label>
+            </div>
+          </div>
+          {!quietZone && formatInfo.quietZone[0] > 0 && (
+            <p className="text-xs text-muted-foreground">
+              Leave at least {formatInfo.quietZone[0] * barWidth}px of blank
+              space on each side when placing the barcode, scanners need it to
+              find the bars
+            </p>
+          )}
+
+          {/* Colors */}
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label htmlFor="barcodeForeground" className="text-xs">
+                Bar color
+              </Label>
+              <ColorInput
+                id="barcodeForeground"
+                value={foreground}
+                onChange={setForeground}
+                placeholder="#000000"
+                palette={palette}
+              />
+            </div>
+            <div>
+              <Label htmlFor="barcodeBackground" className="text-xs">
+                Background color
+              </Label>
+              <ColorInput
+                id="barcodeBackground"
+                value={background}
+                onChange={setBackground}
+                placeholder="#ffffff"
+                palette={palette}
+              />
+            </div>
+          </div>
+          <SimpleContrastIndicator
+            foregroundColor={foreground}
+            backgroundColor={background}
+            onSwapColors={() => {
+              setForeground(background);
+              setBackground(foreground);
+            }}
+          />
+
+          {/* Export */}
+          <div className="grid grid-cols-3 gap-2 pt-2">
+            <Button
+              onClick={() => handleDownload("png")}
+              disabled={!!error || isExporting}
+            >
+              <Download className="w-4 h-4 mr-2" />
+              PNG
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => handleDownload("svg")}
+              disabled={!!error || isExporting}
+            >
+              <Download className="w-4 h-4 mr-2" />
+              SVG
+            </Button>
+            <Button
+              variant="outline"
+              onClick={handleCopy}
+              disabled={!!error || isExporting}
+            >
+              <Copy className="w-4 h-4 mr-2" />
+              Copy
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,314 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  type BatchColumnMapping,
+  type BatchTemplate,
+  batchTemplateFields,
+  createBatchItems,
+  type CSVTable,
+  downloadQRBatch,
+  parseCSV,
+  suggestColumnMapping,
+} from "@/lib/qr-batch";
+import { type QRFrame } from "@/lib/qr-frame";
+import { type StyledQROptions } from "@/lib/qr-utils";
+import { Download, FileSpreadsheet, Printer, Upload } from "lucide-react";
+import { useMemo, useRef, useState } from "react";
+import { toast } from "sonner";
+import { PrintSheetDialog } from "./PrintSheetDialog";
+
+const NO_COLUMN = "__none__";
+
+interface BatchQRDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  qrOptions: StyledQROptions;
+  frame?: QRFrame | null;
+}
+
+export function BatchQRDialog({
+  open,
+  onOpenChange,
+  qrOptions,
+  frame = null,
+}: BatchQRDialogProps) {
+  const [table, setTable] = useState<CSVTable | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [template, setTemplate] = useState<BatchTemplate>("url");
+  const [mapping, setMapping] = useState<BatchColumnMapping>({});
+  const [filenamePattern, setFilenamePattern] = useState("qr-{index}");
+  const [format, setFormat] = useState<"png" | "svg">("png");
+  const [progress, setProgress] = useState<number | null>(null);
+  const [showSheetDialog, setShowSheetDialog] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { items, skippedRows } = useMemo(
+    () =>
+      table
+        ? createBatchItems(table, template, mapping, filenamePattern)
+        : { items: [], skippedRows: [] },
+    [table, template, mapping, filenamePattern]
+  );
+
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      const reader = new FileReader();
+      reader.onload = (e) => {
+        const parsed = parseCSV((e.target?.result as string) || "");
+        if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+          toast.error("The CSV file needs a header row and at least one row");
+          return;
+        }
+        setTable(parsed);
+        setFileName(file.name);
+        setMapping(suggestColumnMapping(template, parsed.headers));
+      };
+      reader.readAsText(file);
+    }
+    // Reset input so the same file can be selected again
+    event.target.value = "";
+  };
+
+  const handleTemplateChange = (value: BatchTemplate) => {
+    setTemplate(value);
+    setMapping(table ? suggestColumnMapping(value, table.headers) : {});
+  };
+
+  const handleGenerate = async () => {
+    if (items.length === 0) return;
+
+    setProgress(0);
+    try {
+      await downloadQRBatch(
+        items,
+        qrOptions,
+        format,
+        (completed, total) =>
+          setProgress(Math.round((completed / total) * 100)),
+        frame
+      );
+      toast.success(`Generated ${items.length} QR codes`);
+    } catch (error) {
+      console.error("Batch generation failed:", error);
+      toast.error("Failed to generate QR codes");
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="w-5 h-5" />
+            Batch QR Codes from CSV
+          </DialogTitle>
+          <DialogDescription>
+            Every row is rendered with the current QR style and downloaded as a
+            ZIP file
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {/* CSV Upload */}
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              Upload CSV
+            </Button>
+            <span className="text-sm text-gray-500 truncate">
+              {table
+                ? `${fileName} - ${table.rows.length} rows, ${table.headers.length} columns`
+                : "No file selected"}
+            </span>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,text/csv"
+              onChange={handleFileUpload}
+              className="hidden"
+            />
+          </div>
+
+          {/* Template */}
+          <div>
+            <Label>Data template</Label>
+            <Select
+              value={template}
+              onValueChange={(value) =>
+                handleTemplateChange(value as BatchTemplate)
+              }
+            >
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="url">URL - Website Link</SelectItem>
+                <SelectItem value="text">Text - Plain Text</SelectItem>
+                <SelectItem value="wifi">WiFi - Network Credentials</SelectItem>
+                <SelectItem value="vcard">Contact - Business Card</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Column Mapping */}
+          {table && (
+            <div>
+              <Label className="text-sm font-medium mb-2 block">
+                Column mapping
+              </Label>
+              <div className="grid grid-cols-2 gap-2">
+                {batchTemplateFields[template].map((field) => (
+                  <div key={field.key}>
+                    <Label className="text-xs">
+                      {field.label}
+                      {field.required && " *"}
+                    </Label>
+                    <Select
+                      value={mapping[field.key] || NO_COLUMN}
+                      onValueChange={(value) =>
+                        setMapping((prev) => ({
+                          ...prev,
+                          [field.key]: value === NO_COLUMN ? undefined : value,
+                        }))
+                      }
+                    >
+                      <SelectTrigger className="h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_COLUMN}>Not mapped</SelectItem>
+                        {table.headers.map((header) => (
+                          <SelectItem key={header} value={header}>
+                            {header}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Output Options */}
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label htmlFor="batchFilename">File name</Label>
+              <Input
+                id="batchFilename"
+                value={filenamePattern}
+                onChange={(e) => setFilenamePattern(e.target.value)}
+                placeholder="qr-{index}"
+              />
+              <div className="text-xs text-gray-500 mt-1">
+                Use {"{index}"} or {"{Column Name}"} placeholders
+              </div>
+            </div>
+            <div>
+              <Label>Format</Label>
+              <Select
+                value={format}
+                onValueChange={(value) => setFormat(value as "png" | "svg")}
+              >
+                <SelectTrigger className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="png">PNG</SelectItem>
+                  <SelectItem value="svg">SVG</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {/* Preview */}
+          {table && (
+            <div className="bg-gray-100 dark:bg-gray-700 p-3 rounded-lg border space-y-1">
+              {items.slice(0, 3).map((item) => (
+                <div key={item.index} className="text-xs font-mono break-all">
+                  <span className="font-semibold">
+                    {item.filename}.{format}
+                  </span>
+                  : {item.data.split(/\r?\n/)[0]}
+                  {item.data.includes("\n") && " …"}
+                </div>
+              ))}
+              <div className="text-xs text-gray-500">
+                {items.length} QR codes ready
+                {skippedRows.length > 0 &&
+                  ` - ${skippedRows.length} empty rows skipped`}
+              </div>
+            </div>
+          )}
+
+          {progress !== null && <Progress value={progress} className="h-2" />}
+
+          <div className="flex gap-2 pt-2">
+            <Button
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              className="flex-1"
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => setShowSheetDialog(true)}
+              className="flex-1"
+              disabled={items.length === 0 || progress !== null}
+              title="Captions use the file name of each code"
+            >
+              <Printer className="w-4 h-4 mr-2" />
+              Print Sheet
+            </Button>
+            <Button
+              onClick={handleGenerate}
+              className="flex-1"
+              disabled={items.length === 0 || progress !== null}
+            >
+              <Download className="w-4 h-4 mr-2" />
+              {progress !== null
+                ? `Generating... ${progress}%`
+                : `Download ZIP (${items.length})`}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+
+      <PrintSheetDialog
+        open={showSheetDialog}
+        onOpenChange={setShowSheetDialog}
+        qrOptions={qrOptions}
+        items={items.map((item) => ({
+          data: item.data,
+          caption: item.filename,
+        }))}
+      />
+    </Dialog>
+  );
+}
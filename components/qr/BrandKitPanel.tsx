@@ -0,0 +1,543 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import {
+  BRAND_COLOR_FIELDS,
+  type BrandKit,
+  type BrandKitInput,
+  createEmptyBrandKit,
+  type DesignContrastIssue,
+  getBrandPaletteContrast,
+  normalizeHexColor,
+} from "@/lib/brand-kit";
+import { type QRCodeState } from "@/lib/qr-state";
+import { frameFonts } from "@/lib/qr-utils";
+import {
+  AlertTriangle,
+  Briefcase,
+  Lock,
+  Pencil,
+  Plus,
+  Trash2,
+  Upload,
+  X,
+} from "lucide-react";
+import { useRef, useState } from "react";
+import { toast } from "sonner";
+
+interface BrandKitPanelProps {
+  kits: BrandKit[];
+  activeKit: BrandKit | null;
+  isLocked: boolean;
+  onSelectKit: (id: number | null) => void;
+  onLockChange: (isLocked: boolean) => void;
+  onSaveKit: (kit: BrandKitInput, id?: number) => Promise<number>;
+  onDeleteKit: (id: number) => Promise<void>;
+  // Used to prefill new kits from the current design
+  qrState: QRCodeState;
+  contrastIssues: DesignContrastIssue[];
+}
+
+const formatRatio = (ratio: number) => `${ratio.toFixed(1)}:1`;
+
+interface ListFieldProps {
+  label: string;
+  values: string[];
+  onChange: (values: string[]) => void;
+  placeholder: string;
+  renderValue?: (value: string) => React.ReactNode;
+  children?: React.ReactNode;
+}
+
+// Editable list of strings with removable chips
+function ListField({
+  label,
+  values,
+  onChange,
+  placeholder,
+  renderValue,
+  children,
+}: ListFieldProps) {
+  const [draft, setDraft] = useState("");
+
+  const add = () => {
+    if (draft.trim() && !values.includes(draft.trim())) {
+      onChange([...values, draft.trim()]);
+    }
+    setDraft("");
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-xs">{label}</Label>
+      {values.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {values.map((value) => (
+            <span
+              key={value}
+              className="inline-flex items-center gap-1 rounded border px-2 py-0.5 text-xs max-w-full"
+            >
+              <span className="truncate">
+                {renderValue ? renderValue(value) : value}
+              </span>
+              <button
+                type="button"
+                onClick={() => onChange(values.filter((v) => v !== value))}
+                title="Remove"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      <div className="flex gap-2">
+        <Input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && add()}
+          placeholder={placeholder}
+          className="h-8 text-xs"
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          className="h-8 w-8 shrink-0"
+          onClick={add}
+          title={`Add to ${label.toLowerCase()}`}
+        >
+          <Plus className="w-3 h-3" />
+        </Button>
+        {children}
+      </div>
+    </div>
+  );
+}
+
+const renderLogo = (logo: string) =>
+  logo.startsWith("data:image/") || logo.startsWith("http") ? (
+    <span
+      role="img"
+      aria-label="Logo"
+      className="inline-block w-4 h-4 bg-contain bg-center bg-no-repeat align-middle"
+      style={{ backgroundImage: `url(${logo})` }}
+    />
+  ) : (
+    logo
+  );
+
+export function BrandKitPanel({
+  kits,
+  activeKit,
+  isLocked,
+  onSelectKit,
+  onLockChange,
+  onSaveKit,
+  onDeleteKit,
+  qrState,
+  contrastIssues,
+}: BrandKitPanelProps) {
+  // id is undefined while creating a new kit
+  const [editing, setEditing] = useState<{
+    id?: number;
+    kit: BrandKitInput;
+  } | null>(null);
+  const [colorDraft, setColorDraft] = useState("#000000");
+  const logoInputRef = useRef<HTMLInputElement>(null);
+
+  const startNewKit = () => {
+    const colors = BRAND_COLOR_FIELDS.map((field) =>
+      normalizeHexColor(qrState[field])
+    ).filter((color): color is string => !!color);
+    setEditing({
+      kit: {
+        ...createEmptyBrandKit(),
+        colors: Array.from(new Set(colors)),
+        logos: qrState.logo ? [qrState.logo] : [],
+        frameTexts: Array.from(
+          new Set(qrState.frameLines.map((line) => line.text).filter(Boolean))
+        ),
+      },
+    });
+  };
+
+  const updateDraft = (updates: Partial<BrandKitInput>) =>
+    setEditing((prev) =>
+      prev ? { ...prev, kit: { ...prev.kit, ...updates } } : prev
+    );
+
+  const handleSave = async () => {
+    if (!editing) return;
+    if (!editing.kit.name.trim()) {
+      toast.error("Give the brand kit a name");
+      return;
+    }
+    try {
+      const id = await onSaveKit(editing.kit, editing.id);
+      onSelectKit(id);
+      setEditing(null);
+      toast.success("Brand kit saved");
+    } catch {
+      toast.error("Failed to save brand kit");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!activeKit?.id || !confirm(`Delete brand kit "${activeKit.name}"?`)) {
+      return;
+    }
+    try {
+      await onDeleteKit(activeKit.id);
+      toast.success("Brand kit deleted");
+    } catch {
+      toast.error("Failed to delete brand kit");
+    }
+  };
+
+  const handleLogoUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file || !editing) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      const logo = reader.result as string;
+      if (!editing.kit.logos.includes(logo)) {
+        updateDraft({ logos: [...editing.kit.logos, logo] });
+      }
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const addColor = () => {
+    const color = normalizeHexColor(colorDraft);
+    if (editing && color && !editing.kit.colors.includes(color)) {
+      updateDraft({ colors: [...editing.kit.colors, color] });
+    }
+  };
+
+  const previewKit = editing ? editing.kit : activeKit;
+  const paletteChecks = previewKit ? getBrandPaletteContrast(previewKit) : [];
+  const passingPairs = paletteChecks.filter((check) => check.meetsMinimum);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Briefcase className="w-5 h-5" />
+          Brand Kit
+        </CardTitle>
+        <CardDescription>
+          Approved colors, logos, frame texts and fonts for your QR codes
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!editing && (
+          <>
+            <div className="flex gap-2">
+              <Select
+                value={activeKit?.id !== undefined ? String(activeKit.id) : ""}
+                onValueChange={(value) =>
+                  onSelectKit(value === "none" ? null : Number(value))
+                }
+              >
+                <SelectTrigger className="flex-1">
+                  <SelectValue placeholder="No brand kit" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No brand kit</SelectItem>
+                  {kits.map((kit) => (
+                    <SelectItem key={kit.id} value={String(kit.id)}>
+                      {kit.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={startNewKit}
+                title="New brand kit from the current design"
+              >
+                <Plus className="w-4 h-4" />
+              </Button>
+              {activeKit && (
+                <>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() =>
+                      setEditing({ id: activeKit.id, kit: { ...activeKit } })
+                    }
+                    title="Edit brand kit"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={handleDelete}
+                    title="Delete brand kit"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </>
+              )}
+            </div>
+
+            {activeKit && (
+              <>
+                <div className="flex items-center justify-between gap-2">
+                  <Label
+                    htmlFor="brandLock"
+                    className="flex items-center gap-2 text-sm"
+                  >
+                    <Lock className="w-4 h-4" />
+                    Brand lock
+                  </Label>
+                  <Switch
+                    id="brandLock"
+                    checked={isLocked}
+                    onCheckedChange={onLockChange}
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {isLocked
+                    ? "Only brand values can be picked. Other values are replaced with the closest brand value."
+                    : "Turn on to limit colors, logos, frame texts and fonts to this kit."}
+                </p>
+                {activeKit.colors.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {activeKit.colors.map((color) => (
+                      <span
+                        key={color}
+                        title={color}
+                        className="w-6 h-6 rounded border"
+                        style={{ backgroundColor: color }}
+                      />
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+          </>
+        )}
+
+        {editing && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="brandKitName" className="text-xs">
+                Name
+              </Label>
+              <Input
+                id="brandKitName"
+                value={editing.kit.name}
+                onChange={(e) => updateDraft({ name: e.target.value })}
+                placeholder="Acme Corporate"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-xs">Colors</Label>
+              {editing.kit.colors.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {editing.kit.colors.map((color) => (
+                    <button
+                      key={color}
+                      type="button"
+                      title={`Remove ${color}`}
+                      onClick={() =>
+                        updateDraft({
+                          colors: editing.kit.colors.filter((c) => c !== color),
+                        })
+                      }
+                      className="w-8 h-8 rounded border flex items-center justify-center group"
+                      style={{ backgroundColor: color }}
+                    >
+                      <X className="w-3 h-3 opacity-0 group-hover:opacity-100 mix-blend-difference text-white" />
+                    </button>
+                  ))}
+                </div>
+              )}
+              <div className="flex gap-2">
+                <Input
+                  type="color"
+                  value={normalizeHexColor(colorDraft) || "#000000"}
+                  onChange={(e) => setColorDraft(e.target.value)}
+                  className="w-12 h-8 p-1 border rounded"
+                />
+                <Input
+                  value={colorDraft}
+                  onChange={(e) => setColorDraft(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && addColor()}
+                  placeholder="#0055aa"
+                  className="h-8 text-xs"
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="icon"
+                  className="h-8 w-8 shrink-0"
+                  onClick={addColor}
+                  title="Add color"
+                >
+                  <Plus className="w-3 h-3" />
+                </Button>
+              </div>
+            </div>
+
+            <ListField
+              label="Logos"
+              values={editing.kit.logos}
+              onChange={(logos) => updateDraft({ logos })}
+              placeholder="Emoji, text or image URL"
+              renderValue={renderLogo}
+            >
+              <Button
+                type="button"
+                variant="outline"
+                size="icon"
+                className="h-8 w-8 shrink-0"
+                onClick={() => logoInputRef.current?.click()}
+                title="Upload logo image"
+              >
+                <Upload className="w-3 h-3" />
+              </Button>
+              <input
+                ref={logoInputRef}
+                type="file"
+                accept="image/*"
+                onChange={handleLogoUpload}
+                className="hidden"
+              />
+            </ListField>
+
+            <ListField
+              label="Frame texts"
+              values={editing.kit.frameTexts}
+              onChange={(frameTexts) => updateDraft({ frameTexts })}
+              placeholder="Scan to visit acme.com"
+            />
+
+            <ListField
+              label="Fonts"
+              values={editing.kit.fonts}
+              onChange={(fonts) => updateDraft({ fonts })}
+              placeholder="CSS font-family, e.g. Inter, sans-serif"
+              renderValue={(font) => (
+                <span style={{ fontFamily: font }}>
+                  {frameFonts.find((f) => f.value === font)?.label || font}
+                </span>
+              )}
+            >
+              <Select
+                value=""
+                onValueChange={(font) =>
+                  !editing.kit.fonts.includes(font) &&
+                  updateDraft({ fonts: [...editing.kit.fonts, font] })
+                }
+              >
+                <SelectTrigger className="h-8 w-28 text-xs shrink-0">
+                  <SelectValue placeholder="Common" />
+                </SelectTrigger>
+                <SelectContent>
+                  {frameFonts.map((font) => (
+                    <SelectItem key={font.value} value={font.value}>
+                      {font.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </ListField>
+
+            <p className="text-xs text-muted-foreground">
+              Leave a list empty to keep that setting unrestricted.
+            </p>
+          </div>
+        )}
+
+        {/* Palette contrast against the scanning thresholds */}
+        {previewKit && previewKit.colors.length > 1 && (
+          <div className="space-y-1">
+            <Label className="text-xs">
+              Scannable color pairs: {passingPairs.length} of{" "}
+              {paletteChecks.length}
+            </Label>
+            {passingPairs.length === 0 ? (
+              <div className="flex items-start gap-2 text-xs p-2 rounded border border-red-200 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400">
+                <AlertTriangle className="w-4 h-4 shrink-0" />
+                No dark-on-light pair in this palette reaches 4.5:1 - add a
+                darker or lighter color
+              </div>
+            ) : (
+              <div className="flex flex-wrap gap-1">
+                {paletteChecks.slice(0, 8).map((check) => (
+                  <span
+                    key={`${check.foreground}-${check.background}`}
+                    title={check.description}
+                    className={`inline-flex items-center gap-1 rounded border px-1.5 py-0.5 text-xs ${
+                      check.meetsMinimum
+                        ? "border-green-200 text-green-700 dark:text-green-400"
+                        : "border-yellow-300 text-yellow-700 dark:text-yellow-300"
+                    }`}
+                  >
+                    <span
+                      className="w-3 h-3 rounded-sm border"
+                      style={{ backgroundColor: check.foreground }}
+                    />
+                    <span
+                      className="w-3 h-3 rounded-sm border"
+                      style={{ backgroundColor: check.background }}
+                    />
+                    {formatRatio(check.ratio)}
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {!editing && activeKit && contrastIssues.length > 0 && (
+          <div className="space-y-1 text-xs p-2 rounded border border-yellow-300 bg-yellow-50 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-200">
+            <div className="flex items-center gap-2 font-medium">
+              <AlertTriangle className="w-4 h-4" />
+              This brand combination may not scan reliably
+            </div>
+            {contrastIssues.map((issue) => (
+              <div key={issue.label}>
+                {issue.label}: {issue.foreground} on {issue.background} -{" "}
+                {formatRatio(issue.ratio)} ({issue.description})
+              </div>
+            ))}
+          </div>
+        )}
+
+        {editing && (
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave}>Save Brand Kit</Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,69 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+
+interface ColorInputProps {
+  id?: string;
+  value: string;
+  onChange: (color: string) => void;
+  placeholder?: string;
+  // When set, only these colors can be picked (brand lock)
+  palette?: string[];
+  size?: "sm" | "md";
+}
+
+// Color picker with a hex text field, or a row of swatches under brand lock
+export function ColorInput({
+  id,
+  value,
+  onChange,
+  placeholder,
+  palette,
+  size = "sm",
+}: ColorInputProps) {
+  if (palette && palette.length > 0) {
+    return (
+      <div id={id} className="flex flex-wrap gap-1" role="radiogroup">
+        {palette.map((color) => (
+          <button
+            key={color}
+            type="button"
+            role="radio"
+            aria-checked={value.toLowerCase() === color}
+            title={color}
+            onClick={() => onChange(color)}
+            className={cn(
+              "rounded border",
+              size === "sm" ? "w-8 h-8" : "w-10 h-10",
+              value.toLowerCase() === color &&
+                "ring-2 ring-primary ring-offset-2 ring-offset-background"
+            )}
+            style={{ backgroundColor: color }}
+          />
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex gap-2">
+      <Input
+        id={id}
+        type="color"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className={cn(
+          "p-1 border rounded",
+          size === "sm" ? "w-12 h-8" : "w-16 h-10"
+        )}
+      />
+      <Input
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+        className={cn("flex-1", size === "sm" && "text-xs")}
+      />
+    </div>
+  );
+}
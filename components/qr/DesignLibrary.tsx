@@ -0,0 +1,364 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  createDesignThumbnail,
+  designLibrary,
+  normalizeTags,
+  type SavedDesign,
+} from "@/lib/design-library";
+import { type QRDesign } from "@/lib/qr-design-link";
+import { type StyledQROptions } from "@/lib/qr-utils";
+import { saveAs } from "file-saver";
+import {
+  Check,
+  Copy,
+  Download,
+  Pencil,
+  Save,
+  Trash2,
+  Upload,
+  X,
+} from "lucide-react";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+
+interface DesignLibraryProps {
+  getCurrentDesign: () => QRDesign;
+  qrOptions: StyledQROptions;
+  onApply: (saved: SavedDesign) => void;
+}
+
+export function DesignLibrary({
+  getCurrentDesign,
+  qrOptions,
+  onApply,
+}: DesignLibraryProps) {
+  const [designs, setDesigns] = useState<SavedDesign[]>([]);
+  const [name, setName] = useState("");
+  const [tags, setTags] = useState("");
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editName, setEditName] = useState("");
+  const [editTags, setEditTags] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const loadDesigns = useCallback(async () => {
+    try {
+      setDesigns(await designLibrary.getDesigns());
+    } catch (error) {
+      console.error("Failed to load saved designs:", error);
+      toast.error("Saved designs are not available in this browser");
+    }
+  }, []);
+
+  useEffect(() => {
+    loadDesigns();
+  }, [loadDesigns]);
+
+  const allTags = Array.from(new Set(designs.flatMap((d) => d.tags))).sort();
+  const visibleDesigns = activeTag
+    ? designs.filter((d) => d.tags.includes(activeTag))
+    : designs;
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast.error("Give the design a name");
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const thumbnail = await createDesignThumbnail(qrOptions).catch(() => "");
+      await designLibrary.saveDesign(
+        name,
+        normalizeTags(tags),
+        getCurrentDesign(),
+        thumbnail
+      );
+      toast.success(`Saved "${name.trim()}" to your designs`);
+      setName("");
+      setTags("");
+      await loadDesigns();
+    } catch (error) {
+      console.error("Failed to save design:", error);
+      toast.error("Failed to save design");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRename = async (id: number) => {
+    if (!editName.trim()) {
+      toast.error("Give the design a name");
+      return;
+    }
+    try {
+      await designLibrary.updateDesign(id, {
+        name: editName,
+        tags: normalizeTags(editTags),
+      });
+      setEditingId(null);
+      await loadDesigns();
+    } catch {
+      toast.error("Failed to rename design");
+    }
+  };
+
+  const handleDuplicate = async (id: number) => {
+    try {
+      await designLibrary.duplicateDesign(id);
+      await loadDesigns();
+    } catch {
+      toast.error("Failed to duplicate design");
+    }
+  };
+
+  const handleDelete = async (saved: SavedDesign) => {
+    if (!saved.id || !confirm(`Delete "${saved.name}"?`)) return;
+    try {
+      await designLibrary.deleteDesign(saved.id);
+      await loadDesigns();
+      toast.success("Design deleted");
+    } catch {
+      toast.error("Failed to delete design");
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      const json = await designLibrary.exportDesigns(
+        activeTag ? visibleDesigns.map((d) => d.id!) : undefined
+      );
+      saveAs(
+        new Blob([json], { type: "application/json" }),
+        `qr-designs${activeTag ? `-${activeTag}` : ""}.json`
+      );
+    } catch {
+      toast.error("Failed to export designs");
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      const result = await designLibrary.importDesigns(await file.text());
+      await loadDesigns();
+      const notes = [
+        result.partial > 0 && `${result.partial} with settings dropped`,
+        result.skipped > 0 && `${result.skipped} skipped`,
+      ].filter(Boolean);
+      toast.success(
+        `Imported ${result.imported} design${result.imported === 1 ? "" : "s"}${notes.length ? ` (${notes.join(", ")})` : ""}`
+      );
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to import designs"
+      );
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label>Saved Designs</Label>
+        <div className="flex gap-1">
+          <Button
+            onClick={() => importInputRef.current?.click()}
+            variant="outline"
+            size="sm"
+            className="h-7 text-xs"
+          >
+            <Upload className="w-3 h-3 mr-1" />
+            Import
+          </Button>
+          <Button
+            onClick={handleExport}
+            variant="outline"
+            size="sm"
+            className="h-7 text-xs"
+            disabled={visibleDesigns.length === 0}
+          >
+            <Download className="w-3 h-3 mr-1" />
+            Export
+          </Button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleImport}
+            className="hidden"
+          />
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && handleSave()}
+          placeholder="Design name"
+          className="flex-1"
+        />
+        <Input
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && handleSave()}
+          placeholder="Tags, comma separated"
+          className="flex-1"
+        />
+        <Button
+          onClick={handleSave}
+          variant="outline"
+          size="icon"
+          disabled={isSaving}
+          title="Save current design"
+        >
+          <Save className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {allTags.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {allTags.map((tag) => (
+            <Badge
+              key={tag}
+              variant={activeTag === tag ? "default" : "outline"}
+              className="cursor-pointer"
+              onClick={() => setActiveTag(activeTag === tag ? null : tag)}
+            >
+              {tag}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {visibleDesigns.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Saved designs are kept in this browser and listed here
+        </p>
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+          {visibleDesigns.map((saved) => (
+            <div
+              key={saved.id}
+              className="group border rounded-md p-2 space-y-1"
+            >
+              <button
+                type="button"
+                onClick={() => onApply(saved)}
+                className="block w-full aspect-square rounded bg-muted overflow-hidden"
+                title={`Apply "${saved.name}"`}
+              >
+                {saved.thumbnail && (
+                  <span
+                    role="img"
+                    aria-label={saved.name}
+                    className="block w-full h-full bg-contain bg-center bg-no-repeat"
+                    style={{ backgroundImage: `url(${saved.thumbnail})` }}
+                  />
+                )}
+              </button>
+              {editingId === saved.id ? (
+                <div className="space-y-1">
+                  <Input
+                    value={editName}
+                    onChange={(e) => setEditName(e.target.value)}
+                    onKeyDown={(e) =>
+                      e.key === "Enter" && handleRename(saved.id!)
+                    }
+                    className="h-7 text-xs"
+                    autoFocus
+                  />
+                  <Input
+                    value={editTags}
+                    onChange={(e) => setEditTags(e.target.value)}
+                    onKeyDown={(e) =>
+                      e.key === "Enter" && handleRename(saved.id!)
+                    }
+                    placeholder="Tags"
+                    className="h-7 text-xs"
+                  />
+                </div>
+              ) : (
+                <>
+                  <div className="text-xs font-medium truncate">
+                    {saved.name}
+                  </div>
+                  {saved.tags.length > 0 && (
+                    <div className="text-xs text-muted-foreground truncate">
+                      {saved.tags.join(", ")}
+                    </div>
+                  )}
+                </>
+              )}
+              <div className="flex justify-end gap-1">
+                {editingId === saved.id ? (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={() => handleRename(saved.id!)}
+                      title="Save"
+                    >
+                      <Check className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={() => setEditingId(null)}
+                      title="Cancel"
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={() => {
+                        setEditingId(saved.id!);
+                        setEditName(saved.name);
+                        setEditTags(saved.tags.join(", "));
+                      }}
+                      title="Rename and edit tags"
+                    >
+                      <Pencil className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={() => handleDuplicate(saved.id!)}
+                      title="Duplicate"
+                    >
+                      <Copy className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={() => handleDelete(saved)}
+                      title="Delete"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,361 @@
+"use client";
+
+import { ColorInput } from "@/components/qr/ColorInput";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  FRAME_LIMITS,
+  type FrameArrow,
+  type FrameIcon,
+  frameIcons,
+  type FrameLine,
+  type FramePreset,
+  frameShapes,
+  type FrameTextSize,
+  frameTextSizes,
+} from "@/lib/qr-frame";
+import { type QRCodeState } from "@/lib/qr-state";
+import { Plus, Trash2 } from "lucide-react";
+
+interface FrameDesignerProps {
+  state: QRCodeState;
+  onChange: (updates: Partial<QRCodeState>) => void;
+  presets: FramePreset[];
+  fonts: { label: string; value: string }[];
+  // Brand lock: only these colors and texts can be picked
+  palette?: string[];
+  frameTexts?: string[];
+}
+
+const IconPreview = ({ path }: { path: string }) => (
+  <svg
+    viewBox="0 0 24 24"
+    className="w-4 h-4"
+    fill="none"
+    stroke="currentColor"
+    strokeWidth={2}
+    strokeLinecap="round"
+    strokeLinejoin="round"
+  >
+    <path d={path} />
+  </svg>
+);
+
+export function FrameDesigner({
+  state,
+  onChange,
+  presets,
+  fonts,
+  palette,
+  frameTexts = [],
+}: FrameDesignerProps) {
+  const lines = state.frameLines;
+
+  const updateLine = (index: number, updates: Partial<FrameLine>) =>
+    onChange({
+      frameLines: lines.map((line, i) =>
+        i === index ? { ...line, ...updates } : line
+      ),
+    });
+
+  const addLine = () =>
+    onChange({
+      frameLines: [
+        ...lines,
+        {
+          text: frameTexts[0] ?? "",
+          icon: "none",
+          size: "small",
+          position: "bottom",
+        },
+      ],
+    });
+
+  const removeLine = (index: number) =>
+    onChange({ frameLines: lines.filter((_, i) => i !== index) });
+
+  const applyPreset = (preset: FramePreset) =>
+    onChange({
+      frameColor: preset.frameColor,
+      textColor: preset.textColor,
+      frameShape: preset.shape,
+      frameStyle: preset.style,
+      frameArrow: preset.arrow,
+      ...(preset.lines && { frameLines: preset.lines }),
+    });
+
+  return (
+    <div className="space-y-4">
+      {/* Frame presets */}
+      {presets.length > 0 && (
+        <div>
+          <Label className="text-sm font-medium mb-3 block">
+            Frame presets
+          </Label>
+          <div className="flex flex-wrap gap-2">
+            {presets.map((preset) => (
+              <Button
+                key={preset.id}
+                variant="outline"
+                size="sm"
+                onClick={() => applyPreset(preset)}
+                style={
+                  preset.style === "solid"
+                    ? {
+                        backgroundColor: preset.frameColor,
+                        color: preset.textColor,
+                        borderColor: preset.frameColor,
+                      }
+                    : {
+                        color: preset.textColor,
+                        borderColor: preset.frameColor,
+                      }
+                }
+              >
+                {preset.name}
+              </Button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Shape and style */}
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label className="text-sm font-medium mb-2 block">Shape</Label>
+          <div className="grid grid-cols-3 gap-1">
+            {frameShapes.map((shape) => (
+              <Button
+                key={shape.id}
+                variant={state.frameShape === shape.id ? "default" : "outline"}
+                size="sm"
+                className="px-1 text-xs"
+                onClick={() => onChange({ frameShape: shape.id })}
+              >
+                {shape.name}
+              </Button>
+            ))}
+          </div>
+        </div>
+        <div>
+          <Label className="text-sm font-medium mb-2 block">Style</Label>
+          <div className="grid grid-cols-2 gap-1">
+            {(
+              [
+                { id: "solid", name: "Filled" },
+                { id: "outline", name: "Outline" },
+              ] as const
+            ).map((style) => (
+              <Button
+                key={style.id}
+                variant={state.frameStyle === style.id ? "default" : "outline"}
+                size="sm"
+                className="px-1 text-xs"
+                onClick={() => onChange({ frameStyle: style.id })}
+              >
+                {style.name}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Frame and text colors */}
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="frameColor">
+            {state.frameStyle === "outline" ? "Outline color" : "Frame color"}
+          </Label>
+          <ColorInput
+            id="frameColor"
+            value={state.frameColor}
+            onChange={(frameColor) => onChange({ frameColor })}
+            placeholder="#000000"
+            palette={palette}
+            size="md"
+          />
+        </div>
+        <div>
+          <Label htmlFor="textColor">Text color</Label>
+          <ColorInput
+            id="textColor"
+            value={state.textColor}
+            onChange={(textColor) => onChange({ textColor })}
+            placeholder="#ffffff"
+            palette={palette}
+            size="md"
+          />
+        </div>
+      </div>
+
+      {/* Text lines */}
+      <div>
+        <Label className="text-sm font-medium mb-2 block">Text lines</Label>
+        <div className="space-y-3">
+          {lines.map((line, index) => (
+            <div
+              key={index}
+              className="space-y-2 rounded-lg border p-2 dark:border-gray-700"
+            >
+              <div className="flex gap-2">
+                {frameTexts.length > 0 ? (
+                  <Select
+                    value={line.text}
+                    onValueChange={(text) => updateLine(index, { text })}
+                  >
+                    <SelectTrigger
+                      className="h-8"
+                      aria-label={`Text of line ${index + 1}`}
+                    >
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {frameTexts.map((text) => (
+                        <SelectItem key={text} value={text}>
+                          {text}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Input
+                    value={line.text}
+                    maxLength={FRAME_LIMITS.maxLineLength}
+                    onChange={(e) =>
+                      updateLine(index, { text: e.target.value })
+                    }
+                    placeholder="Scan for more info"
+                    aria-label={`Text of line ${index + 1}`}
+                    className="h-8"
+                  />
+                )}
+                <Button
+                  variant="outline"
+                  size="icon"
+                  className="h-8 w-8 shrink-0"
+                  onClick={() => removeLine(index)}
+                  title="Remove line"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                <Select
+                  value={line.icon}
+                  onValueChange={(icon) =>
+                    updateLine(index, { icon: icon as FrameIcon })
+                  }
+                >
+                  <SelectTrigger className="h-8 text-xs" aria-label="Icon">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {frameIcons.map((icon) => (
+                      <SelectItem key={icon.id} value={icon.id}>
+                        <span className="flex items-center gap-2">
+                          {icon.path && <IconPreview path={icon.path} />}
+                          {icon.name}
+                        </span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={line.size}
+                  onValueChange={(size) =>
+                    updateLine(index, { size: size as FrameTextSize })
+                  }
+                >
+                  <SelectTrigger className="h-8 text-xs" aria-label="Size">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {frameTextSizes.map((size) => (
+                      <SelectItem key={size.id} value={size.id}>
+                        {size.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={line.position}
+                  onValueChange={(position) =>
+                    updateLine(index, {
+                      position: position as FrameLine["position"],
+                    })
+                  }
+                >
+                  <SelectTrigger className="h-8 text-xs" aria-label="Position">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="top">Above code</SelectItem>
+                    <SelectItem value="bottom">Below code</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={addLine}
+            disabled={lines.length >= FRAME_LIMITS.maxLines}
+            className="w-full"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add text line
+          </Button>
+        </div>
+      </div>
+
+      {/* Call-to-action arrow */}
+      <div>
+        <Label htmlFor="frameArrow">Arrow</Label>
+        <Select
+          value={state.frameArrow}
+          onValueChange={(frameArrow) =>
+            onChange({ frameArrow: frameArrow as FrameArrow })
+          }
+        >
+          <SelectTrigger id="frameArrow">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">No arrow</SelectItem>
+            <SelectItem value="top">Above the code, pointing down</SelectItem>
+            <SelectItem value="bottom">Below the code, pointing up</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Frame font */}
+      <div>
+        <Label htmlFor="frameFont">Frame font</Label>
+        <Select
+          value={state.frameFont}
+          onValueChange={(frameFont) => onChange({ frameFont })}
+        >
+          <SelectTrigger id="frameFont">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {fonts.map((font) => (
+              <SelectItem key={font.value} value={font.value}>
+                <span style={{ fontFamily: font.value }}>{font.label}</span>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
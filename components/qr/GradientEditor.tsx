@@ -0,0 +1,166 @@
+"use client";
+
+import { ColorInput } from "@/components/qr/ColorInput";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { createGradient, type QRGradient } from "@/lib/qr-utils";
+import { Plus, X } from "lucide-react";
+
+interface GradientEditorProps {
+  id: string;
+  value: QRGradient | null;
+  // Solid color the gradient starts from when it is switched on
+  color: string;
+  onChange: (gradient: QRGradient | null) => void;
+  palette?: string[];
+}
+
+const MAX_STOPS = 5;
+
+// Fill type selector plus color stops and rotation for gradient fills
+export function GradientEditor({
+  id,
+  value,
+  color,
+  onChange,
+  palette,
+}: GradientEditorProps) {
+  const updateStop = (
+    index: number,
+    updates: Partial<QRGradient["colorStops"][number]>
+  ) => {
+    if (!value) return;
+    onChange({
+      ...value,
+      colorStops: value.colorStops.map((stop, i) =>
+        i === index ? { ...stop, ...updates } : stop
+      ),
+    });
+  };
+
+  const addStop = () => {
+    if (!value) return;
+    const last = value.colorStops[value.colorStops.length - 1];
+    const previous = value.colorStops[value.colorStops.length - 2];
+    onChange({
+      ...value,
+      colorStops: [
+        ...value.colorStops.slice(0, -1),
+        { offset: (previous.offset + last.offset) / 2, color: last.color },
+        last,
+      ],
+    });
+  };
+
+  const removeStop = (index: number) => {
+    if (!value || value.colorStops.length <= 2) return;
+    onChange({
+      ...value,
+      colorStops: value.colorStops.filter((_, i) => i !== index),
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Label htmlFor={id} className="text-xs text-muted-foreground">
+          Fill
+        </Label>
+        <Select
+          value={value?.type ?? "solid"}
+          onValueChange={(type) =>
+            onChange(
+              type === "solid"
+                ? null
+                : value
+                  ? { ...value, type: type as QRGradient["type"] }
+                  : createGradient(color, type as QRGradient["type"])
+            )
+          }
+        >
+          <SelectTrigger id={id} className="h-7 w-28 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="solid">Solid</SelectItem>
+            <SelectItem value="linear">Linear</SelectItem>
+            <SelectItem value="radial">Radial</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {value && (
+        <div className="space-y-2 border rounded-md p-2">
+          {value.colorStops.map((stop, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <div className="flex-1">
+                <ColorInput
+                  value={stop.color}
+                  onChange={(color) => updateStop(index, { color })}
+                  palette={palette}
+                />
+              </div>
+              <Input
+                type="number"
+                min={0}
+                max={100}
+                value={Math.round(stop.offset * 100)}
+                onChange={(e) =>
+                  updateStop(index, {
+                    offset:
+                      Math.min(Math.max(Number(e.target.value) || 0, 0), 100) /
+                      100,
+                  })
+                }
+                className="h-8 w-16 text-xs"
+                title="Stop position (%)"
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                onClick={() => removeStop(index)}
+                disabled={value.colorStops.length <= 2}
+                title="Remove stop"
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={addStop}
+            disabled={value.colorStops.length >= MAX_STOPS}
+          >
+            <Plus className="w-3 h-3 mr-1" />
+            Add stop
+          </Button>
+          {value.type === "linear" && (
+            <div>
+              <Label className="text-xs">Rotation: {value.rotation}°</Label>
+              <Slider
+                value={[value.rotation]}
+                onValueChange={([rotation]) => onChange({ ...value, rotation })}
+                max={360}
+                min={0}
+                step={15}
+                className="mt-2"
+              />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
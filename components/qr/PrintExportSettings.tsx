@@ -0,0 +1,185 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { checkCMYKGamut } from "@/lib/cmyk";
+import {
+  getPrintLayout,
+  type PrintFormat,
+  printDpiOptions,
+  type PrintSettings,
+} from "@/lib/print-export";
+import { type StyledQROptions } from "@/lib/qr-utils";
+import { AlertTriangle, Printer } from "lucide-react";
+
+export interface PrintColor {
+  id: string;
+  label: string;
+  value: string;
+}
+
+interface PrintExportSettingsProps {
+  options: StyledQROptions;
+  format: PrintFormat;
+  // PNG and SVG can still be exported at pixel size, PDF and EPS cannot
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  settings: PrintSettings;
+  onSettingsChange: (settings: PrintSettings) => void;
+  colors: PrintColor[];
+  // Omitted when the colors cannot be changed, e.g. under a brand lock
+  onApplySuggestion?: (id: string, color: string) => void;
+}
+
+export function PrintExportSettings({
+  options,
+  format,
+  enabled,
+  onEnabledChange,
+  settings,
+  onSettingsChange,
+  colors,
+  onApplySuggestion,
+}: PrintExportSettingsProps) {
+  const isVector = format === "pdf" || format === "eps";
+  const isActive = enabled || isVector;
+  const layout = isActive ? getPrintLayout(options, settings) : null;
+  const gamutIssues = colors
+    .filter((color) => /^#[0-9a-f]{6}$/i.test(color.value))
+    .map((color) => ({ ...color, ...checkCMYKGamut(color.value) }))
+    .filter((color) => !color.inGamut);
+
+  return (
+    <div className="p-3 rounded-lg border space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <Label
+          htmlFor="printSize"
+          className="flex items-center gap-2 text-sm font-medium"
+        >
+          <Printer className="w-4 h-4" />
+          Export at physical size
+        </Label>
+        <Switch
+          id="printSize"
+          checked={isActive}
+          disabled={isVector}
+          onCheckedChange={onEnabledChange}
+        />
+      </div>
+
+      {isActive && (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label htmlFor="printSizeMm" className="text-xs">
+                Width (mm)
+              </Label>
+              <Input
+                id="printSizeMm"
+                type="number"
+                min={5}
+                max={2000}
+                step={0.5}
+                value={settings.sizeMm}
+                onChange={(e) =>
+                  onSettingsChange({
+                    ...settings,
+                    sizeMm: Number(e.target.value),
+                  })
+                }
+                className="h-8"
+              />
+            </div>
+            <div>
+              <Label className="text-xs">Resolution</Label>
+              <Select
+                value={String(settings.dpi)}
+                onValueChange={(value) =>
+                  onSettingsChange({ ...settings, dpi: Number(value) })
+                }
+              >
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {printDpiOptions.map((dpi) => (
+                    <SelectItem key={dpi} value={String(dpi)}>
+                      {dpi} DPI
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <p className="text-xs text-gray-600 dark:text-gray-400">
+            {layout
+              ? `${layout.sizeMm.toFixed(2)} mm, ${layout.pixels}×${layout.pixels} px: ${layout.moduleCount + 2 * layout.quietZoneModules} modules of ${layout.modulePixels} px (${layout.moduleMm.toFixed(2)} mm), ${layout.quietZoneModules}-module quiet zone`
+              : "Enter content and a width to see the print layout"}
+          </p>
+
+          {isVector && (
+            <>
+              <div className="flex items-center justify-between gap-2">
+                <Label htmlFor="printCmyk" className="text-sm">
+                  CMYK colors
+                </Label>
+                <Switch
+                  id="printCmyk"
+                  checked={settings.cmyk}
+                  onCheckedChange={(cmyk) =>
+                    onSettingsChange({ ...settings, cmyk })
+                  }
+                />
+              </div>
+              <p className="text-xs text-gray-500">
+                Vector files use the solid colors of the design, gradients and
+                background images are not included.
+              </p>
+            </>
+          )}
+        </>
+      )}
+
+      {gamutIssues.length > 0 && (
+        <div className="space-y-2">
+          {gamutIssues.map((issue) => (
+            <div
+              key={issue.id}
+              className="flex items-center justify-between gap-2 text-xs"
+            >
+              <span className="flex items-center gap-2 text-orange-600 dark:text-orange-400">
+                <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                {issue.label} {issue.value} is outside the CMYK gamut and prints
+                duller
+              </span>
+              {onApplySuggestion && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 flex-shrink-0"
+                  onClick={() => onApplySuggestion(issue.id, issue.suggestion)}
+                >
+                  <span
+                    className="w-3 h-3 rounded-sm border mr-1"
+                    style={{ backgroundColor: issue.suggestion }}
+                  />
+                  Use {issue.suggestion}
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,323 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  downloadQRSheet,
+  getLabelsPerPage,
+  type SheetItem,
+  type SheetLayout,
+  sheetLayouts,
+  validateSheetLayout,
+} from "@/lib/qr-sheet";
+import { type StyledQROptions } from "@/lib/qr-utils";
+import { Download, Printer } from "lucide-react";
+import { useMemo, useState } from "react";
+import { toast } from "sonner";
+
+interface PrintSheetDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  qrOptions: StyledQROptions;
+  // When omitted the sheet is filled with copies of the current QR code
+  items?: SheetItem[];
+}
+
+const layoutFields: { key: keyof SheetLayout; label: string; step: number }[] =
+  [
+    { key: "columns", label: "Columns", step: 1 },
+    { key: "rows", label: "Rows", step: 1 },
+    { key: "labelWidth", label: "Label width (mm)", step: 0.1 },
+    { key: "labelHeight", label: "Label height (mm)", step: 0.1 },
+    { key: "marginTop", label: "Top margin (mm)", step: 0.1 },
+    { key: "marginLeft", label: "Left margin (mm)", step: 0.1 },
+    { key: "gapX", label: "Column gap (mm)", step: 0.1 },
+    { key: "gapY", label: "Row gap (mm)", step: 0.1 },
+  ];
+
+export function PrintSheetDialog({
+  open,
+  onOpenChange,
+  qrOptions,
+  items,
+}: PrintSheetDialogProps) {
+  const [layout, setLayout] = useState<SheetLayout>(sheetLayouts[0]);
+  const [copies, setCopies] = useState(getLabelsPerPage(sheetLayouts[0]));
+  const [caption, setCaption] = useState("");
+  const [bleed, setBleed] = useState(0);
+  const [padding, setPadding] = useState(2);
+  const [cutMarks, setCutMarks] = useState(true);
+  const [captions, setCaptions] = useState(true);
+  const [captionSize, setCaptionSize] = useState(8);
+  const [format, setFormat] = useState<"pdf" | "svg">("pdf");
+  const [progress, setProgress] = useState<number | null>(null);
+
+  const sheetItems = useMemo<SheetItem[]>(
+    () =>
+      items ??
+      Array.from({ length: Math.max(0, copies) }, () => ({
+        data: qrOptions.data || "",
+        caption: caption || undefined,
+      })),
+    [items, copies, qrOptions.data, caption]
+  );
+  const layoutError = validateSheetLayout(layout);
+  const pageCount = Math.ceil(sheetItems.length / getLabelsPerPage(layout));
+
+  const handleLayoutChange = (id: string) => {
+    const preset = sheetLayouts.find((l) => l.id === id);
+    if (!preset) return;
+    setLayout(preset);
+    if (!items) setCopies(getLabelsPerPage(preset));
+  };
+
+  const updateLayoutField = (key: keyof SheetLayout, value: string) => {
+    const number = parseFloat(value);
+    setLayout((prev) => ({
+      ...prev,
+      [key]: Number.isFinite(number) ? number : 0,
+    }));
+  };
+
+  const handleDownload = async () => {
+    setProgress(0);
+    try {
+      await downloadQRSheet(
+        sheetItems,
+        qrOptions,
+        {
+          layout,
+          bleed,
+          padding,
+          cutMarks,
+          captions,
+          captionSize,
+          backgroundColor: qrOptions.backgroundOptions?.color || "#ffffff",
+          captionColor: qrOptions.dotsOptions?.color || "#000000",
+        },
+        format,
+        (completed, total) => setProgress(Math.round((completed / total) * 100))
+      );
+      toast.success(
+        `Sheet downloaded as ${format.toUpperCase()} (${pageCount} page${pageCount === 1 ? "" : "s"})`
+      );
+    } catch (error) {
+      console.error("Sheet generation failed:", error);
+      toast.error("Failed to generate QR sheet");
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Printer className="w-5 h-5" />
+            Printable QR Sheet
+          </DialogTitle>
+          <DialogDescription>
+            Tile QR codes onto paper or label sheets for printing
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {/* Layout */}
+          <div>
+            <Label>Sheet layout</Label>
+            <Select value={layout.id} onValueChange={handleLayoutChange}>
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {sheetLayouts.map((preset) => (
+                  <SelectItem key={preset.id} value={preset.id}>
+                    {preset.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-4 gap-2">
+            {layoutFields.map(({ key, label, step }) => (
+              <div key={key}>
+                <Label className="text-xs">{label}</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  step={step}
+                  value={layout[key]}
+                  onChange={(e) => updateLayoutField(key, e.target.value)}
+                  className="h-8 text-xs"
+                />
+              </div>
+            ))}
+          </div>
+
+          {layoutError && (
+            <div className="text-sm text-red-600 bg-red-50 dark:bg-red-900/20 p-2 rounded border border-red-200">
+              {layoutError}
+            </div>
+          )}
+
+          {/* Content */}
+          {!items && (
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <Label htmlFor="sheetCopies">Copies</Label>
+                <Input
+                  id="sheetCopies"
+                  type="number"
+                  min={1}
+                  max={1000}
+                  value={copies}
+                  onChange={(e) =>
+                    setCopies(Math.min(1000, parseInt(e.target.value) || 0))
+                  }
+                />
+              </div>
+              <div>
+                <Label htmlFor="sheetCaption">Caption</Label>
+                <Input
+                  id="sheetCaption"
+                  value={caption}
+                  onChange={(e) => setCaption(e.target.value)}
+                  placeholder="Asset #1234"
+                />
+              </div>
+            </div>
+          )}
+
+          {/* Print Options */}
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <Label className="text-xs">Bleed (mm)</Label>
+              <Input
+                type="number"
+                min={0}
+                step={0.5}
+                value={bleed}
+                onChange={(e) => setBleed(parseFloat(e.target.value) || 0)}
+                className="h-8 text-xs"
+              />
+            </div>
+            <div>
+              <Label className="text-xs">Padding (mm)</Label>
+              <Input
+                type="number"
+                min={0}
+                step={0.5}
+                value={padding}
+                onChange={(e) => setPadding(parseFloat(e.target.value) || 0)}
+                className="h-8 text-xs"
+              />
+            </div>
+            <div>
+              <Label className="text-xs">Caption size (pt)</Label>
+              <Input
+                type="number"
+                min={4}
+                max={24}
+                value={captionSize}
+                onChange={(e) =>
+                  setCaptionSize(parseFloat(e.target.value) || 8)
+                }
+                className="h-8 text-xs"
+              />
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-4">
+            <div className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                id="sheetCutMarks"
+                checked={cutMarks}
+                onChange={(e) => setCutMarks(e.target.checked)}
+                className="w-4 h-4"
+              />
+              <Label htmlFor="sheetCutMarks" className="text-sm">
+                Cut marks
+              </Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                id="sheetCaptions"
+                checked={captions}
+                onChange={(e) => setCaptions(e.target.checked)}
+                className="w-4 h-4"
+              />
+              <Label htmlFor="sheetCaptions" className="text-sm">
+                Captions under codes
+              </Label>
+            </div>
+          </div>
+
+          <div>
+            <Label>Format</Label>
+            <Select
+              value={format}
+              onValueChange={(value) => setFormat(value as "pdf" | "svg")}
+            >
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="pdf">PDF - one page per sheet</SelectItem>
+                <SelectItem value="svg">SVG - all sheets stacked</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="text-xs text-gray-500">
+            {sheetItems.length} codes on {pageCount} page
+            {pageCount === 1 ? "" : "s"} ({getLabelsPerPage(layout)} per page)
+          </div>
+
+          {progress !== null && <Progress value={progress} className="h-2" />}
+
+          <div className="flex gap-2 pt-2">
+            <Button
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              className="flex-1"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleDownload}
+              className="flex-1"
+              disabled={
+                !!layoutError || sheetItems.length === 0 || progress !== null
+              }
+            >
+              <Download className="w-4 h-4 mr-2" />
+              {progress !== null
+                ? `Rendering... ${progress}%`
+                : `Download ${format.toUpperCase()}`}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
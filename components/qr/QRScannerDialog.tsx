@@ -0,0 +1,407 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  parseScannedPayload,
+  readClipboardImage,
+  type ScanHistoryEntry,
+  scanHistory,
+  type ScannedPayload,
+  type ScanSource,
+} from "@/lib/qr-scan";
+import { decodeQRImage } from "@/lib/qr-verify";
+import { Html5Qrcode, Html5QrcodeSupportedFormats } from "html5-qrcode";
+import {
+  Camera,
+  ClipboardPaste,
+  Copy,
+  Pencil,
+  Scan,
+  Trash2,
+  Upload,
+} from "lucide-react";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+
+const CAMERA_ELEMENT_ID = "qr-scanner-camera";
+
+const sourceLabels: Record<ScanSource, string> = {
+  upload: "Image",
+  clipboard: "Clipboard",
+  camera: "Camera",
+};
+
+interface QRScannerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onOpenInEditor: (scanned: ScannedPayload) => void;
+}
+
+export function QRScannerDialog({
+  open,
+  onOpenChange,
+  onOpenInEditor,
+}: QRScannerDialogProps) {
+  const [mode, setMode] = useState<ScanSource>("upload");
+  const [result, setResult] = useState<{
+    text: string;
+    scanned: ScannedPayload;
+  } | null>(null);
+  const [history, setHistory] = useState<ScanHistoryEntry[]>([]);
+  const [isDecoding, setIsDecoding] = useState(false);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadHistory = useCallback(async () => {
+    try {
+      setHistory(await scanHistory.getScans());
+    } catch (error) {
+      console.error("Failed to load scan history:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (open) loadHistory();
+  }, [open, loadHistory]);
+
+  const handleDecoded = async (text: string, source: ScanSource) => {
+    const scanned = parseScannedPayload(text);
+    setResult({ text, scanned });
+    try {
+      await scanHistory.addScan(text, scanned, source);
+      await loadHistory();
+    } catch (error) {
+      console.error("Failed to save scan:", error);
+    }
+  };
+
+  const decodeImage = async (image: Blob, source: ScanSource) => {
+    setIsDecoding(true);
+    try {
+      const text = await decodeQRImage(image);
+      if (text === null) {
+        toast.error("No QR code found in the image");
+        return;
+      }
+      await handleDecoded(text, source);
+    } finally {
+      setIsDecoding(false);
+    }
+  };
+
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (file && file.type.startsWith("image/")) {
+      decodeImage(file, "upload");
+    } else if (file) {
+      toast.error("Please select a valid image file");
+    }
+  };
+
+  const handlePasteClick = async () => {
+    try {
+      const image = await readClipboardImage();
+      if (image) {
+        await decodeImage(image, "clipboard");
+      } else {
+        toast.error("The clipboard holds no image");
+      }
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "Could not read from the clipboard"
+      );
+    }
+  };
+
+  // Ctrl+V / Cmd+V anywhere while the dialog is open
+  const pasteHandlerRef = useRef<(event: ClipboardEvent) => void>(() => {});
+  pasteHandlerRef.current = (event) => {
+    readClipboardImage(event.clipboardData).then((image) => {
+      if (image) {
+        setMode("clipboard");
+        decodeImage(image, "clipboard");
+      }
+    });
+  };
+  useEffect(() => {
+    if (!open) return;
+    const handlePaste = (event: ClipboardEvent) =>
+      pasteHandlerRef.current(event);
+    document.addEventListener("paste", handlePaste);
+    return () => document.removeEventListener("paste", handlePaste);
+  }, [open]);
+
+  // The camera runs while its tab is open and no result is shown
+  const cameraHandlerRef = useRef(handleDecoded);
+  cameraHandlerRef.current = handleDecoded;
+  const isCameraActive = open && mode === "camera" && !result;
+  useEffect(() => {
+    if (!isCameraActive) return;
+    setCameraError(null);
+
+    const scanner = new Html5Qrcode(CAMERA_ELEMENT_ID, {
+      verbose: false,
+      formatsToSupport: [Html5QrcodeSupportedFormats.QR_CODE],
+    });
+    let isDone = false;
+    const started = scanner
+      .start(
+        { facingMode: "environment" },
+        { fps: 10, qrbox: { width: 240, height: 240 } },
+        (text) => {
+          if (isDone) return;
+          isDone = true;
+          cameraHandlerRef.current(text, "camera");
+        },
+        () => {
+          // Frames without a code are expected while aiming
+        }
+      )
+      .catch((error) => {
+        console.error("Failed to start camera:", error);
+        setCameraError(
+          "The camera could not be started. Allow camera access or upload an image instead."
+        );
+      });
+
+    return () => {
+      isDone = true;
+      started
+        .then(() => (scanner.isScanning ? scanner.stop() : undefined))
+        .then(() => scanner.clear())
+        .catch(() => {
+          // Already stopped
+        });
+    };
+  }, [isCameraActive]);
+
+  const handleOpenEntry = (entry: ScanHistoryEntry) => {
+    onOpenInEditor(parseScannedPayload(entry.text));
+  };
+
+  const handleDeleteEntry = async (id: number) => {
+    try {
+      await scanHistory.deleteScan(id);
+      await loadHistory();
+    } catch {
+      toast.error("Failed to delete scan");
+    }
+  };
+
+  const handleClearHistory = async () => {
+    if (!confirm("Clear the whole scan history?")) return;
+    try {
+      await scanHistory.clearScans();
+      await loadHistory();
+    } catch {
+      toast.error("Failed to clear scan history");
+    }
+  };
+
+  const handleCopyResult = async () => {
+    if (!result) return;
+    try {
+      await navigator.clipboard.writeText(result.text);
+      toast.success("Scanned content copied to clipboard");
+    } catch {
+      toast.error("Failed to copy");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Scan className="w-5 h-5" />
+            Scan a QR Code
+          </DialogTitle>
+          <DialogDescription>
+            Decode a QR code from an image, a pasted screenshot or your camera
+            and open it in the editor
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Tabs
+            value={mode}
+            onValueChange={(value) => {
+              setMode(value as ScanSource);
+              setResult(null);
+            }}
+          >
+            <TabsList className="grid w-full grid-cols-3">
+              <TabsTrigger value="upload">
+                <Upload className="w-4 h-4 mr-2" />
+                Upload
+              </TabsTrigger>
+              <TabsTrigger value="clipboard">
+                <ClipboardPaste className="w-4 h-4 mr-2" />
+                Paste
+              </TabsTrigger>
+              <TabsTrigger value="camera">
+                <Camera className="w-4 h-4 mr-2" />
+                Camera
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="upload">
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isDecoding}
+                className="w-full border-2 border-dashed rounded-lg p-8 text-sm text-muted-foreground hover:bg-muted/50"
+              >
+                {isDecoding
+                  ? "Decoding..."
+                  : "Choose an image or photo that contains a QR code"}
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="image/*"
+                onChange={handleFileUpload}
+                className="hidden"
+              />
+            </TabsContent>
+
+            <TabsContent value="clipboard">
+              <div className="border-2 border-dashed rounded-lg p-8 text-center space-y-3">
+                <p className="text-sm text-muted-foreground">
+                  {isDecoding
+                    ? "Decoding..."
+                    : "Press Ctrl+V (Cmd+V on Mac) to paste a screenshot"}
+                </p>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handlePasteClick}
+                  disabled={isDecoding}
+                >
+                  <ClipboardPaste className="w-4 h-4 mr-2" />
+                  Paste from clipboard
+                </Button>
+              </div>
+            </TabsContent>
+
+            <TabsContent value="camera">
+              {cameraError && (
+                <p className="text-sm text-red-600">{cameraError}</p>
+              )}
+              {!result && (
+                <div
+                  id={CAMERA_ELEMENT_ID}
+                  className="w-full rounded-lg overflow-hidden"
+                />
+              )}
+            </TabsContent>
+          </Tabs>
+
+          {/* Result */}
+          {result && (
+            <div className="border rounded-lg p-3 space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <Label>{result.scanned.summary}</Label>
+                <Badge variant="outline">{result.scanned.dataType}</Badge>
+              </div>
+              <pre className="text-xs bg-muted rounded p-2 max-h-40 overflow-auto whitespace-pre-wrap break-all">
+                {result.text}
+              </pre>
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  size="sm"
+                  onClick={() => onOpenInEditor(result.scanned)}
+                >
+                  <Pencil className="w-4 h-4 mr-2" />
+                  Open in editor
+                </Button>
+                <Button variant="outline" size="sm" onClick={handleCopyResult}>
+                  <Copy className="w-4 h-4 mr-2" />
+                  Copy
+                </Button>
+                {mode === "camera" && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setResult(null)}
+                  >
+                    <Camera className="w-4 h-4 mr-2" />
+                    Scan another
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* History */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Scan history</Label>
+              {history.length > 0 && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={handleClearHistory}
+                >
+                  Clear
+                </Button>
+              )}
+            </div>
+            {history.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Scanned codes are kept in this browser and listed here
+              </p>
+            ) : (
+              <div className="border rounded-md divide-y max-h-60 overflow-y-auto">
+                {history.map((entry) => (
+                  <div
+                    key={entry.id}
+                    className="flex items-center gap-2 p-2 text-sm"
+                  >
+                    <button
+                      type="button"
+                      onClick={() => handleOpenEntry(entry)}
+                      className="flex-1 min-w-0 text-left"
+                      title="Open in editor"
+                    >
+                      <div className="truncate font-medium">
+                        {entry.summary}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {sourceLabels[entry.source]} ·{" "}
+                        {entry.scannedAt.toLocaleString()}
+                      </div>
+                    </button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={() => handleDeleteEntry(entry.id!)}
+                      title="Delete"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
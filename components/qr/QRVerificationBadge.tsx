@@ -0,0 +1,84 @@
+"use client";
+
+import { Progress } from "@/components/ui/progress";
+import { type QRVerificationResult } from "@/lib/qr-verify";
+import { CheckCircle, Loader2, XCircle } from "lucide-react";
+
+interface QRVerificationBadgeProps {
+  result: QRVerificationResult | null;
+  isVerifying: boolean;
+  className?: string;
+}
+
+export function QRVerificationBadge({
+  result,
+  isVerifying,
+  className = "",
+}: QRVerificationBadgeProps) {
+  if (!result) {
+    return (
+      <div
+        className={`flex items-center gap-2 text-sm text-gray-500 ${className}`}
+      >
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Verifying QR code...
+      </div>
+    );
+  }
+
+  const passed = result.status === "pass";
+  const headroomPercent = Math.min(100, Math.round(result.headroomUsed * 100));
+  const headroomColor =
+    headroomPercent >= 80
+      ? "[&>div]:bg-red-500"
+      : headroomPercent >= 50
+        ? "[&>div]:bg-orange-500"
+        : "[&>div]:bg-green-500";
+
+  return (
+    <div
+      className={`p-3 rounded-lg border space-y-2 ${
+        passed
+          ? "border-green-200 bg-green-50 dark:bg-green-900/20"
+          : "border-red-200 bg-red-50 dark:bg-red-900/20"
+      } ${isVerifying ? "opacity-60" : ""} ${className}`}
+    >
+      <div
+        className={`flex items-center gap-2 text-sm font-medium ${
+          passed
+            ? "text-green-700 dark:text-green-400"
+            : "text-red-700 dark:text-red-400"
+        }`}
+      >
+        {isVerifying ? (
+          <Loader2 className="w-4 h-4 animate-spin" />
+        ) : passed ? (
+          <CheckCircle className="w-4 h-4" />
+        ) : (
+          <XCircle className="w-4 h-4" />
+        )}
+        {passed ? "Verification passed" : "Verification failed"}
+      </div>
+      <div className="text-xs text-gray-600 dark:text-gray-400">
+        {result.message}
+      </div>
+      <div className="space-y-1">
+        <div className="flex justify-between text-xs text-gray-500">
+          <span>Error correction used</span>
+          <span>
+            {result.damagedModules} of {result.totalModules} modules
+          </span>
+        </div>
+        <Progress
+          value={headroomPercent}
+          className={`h-1.5 ${headroomColor}`}
+        />
+      </div>
+      {result.status === "mismatch" && result.decoded !== null && (
+        <div className="text-xs font-mono break-all text-gray-600 dark:text-gray-400">
+          Decoded: {result.decoded}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,79 +1,138 @@
 "use client";
 
+import {
+  type FrameElement,
+  getFrameLayout,
+  type QRFrame,
+} from "@/lib/qr-frame";
+import { type QRRawDataSource } from "@/lib/qr-utils";
+import { type Symbology } from "@/lib/symbology";
 import { forwardRef } from "react";
+import { SymbolCode } from "./SymbolCode";
 import StyledQRCode, {
   type StyledQRCodeProps,
   type StyledQRCodeRef,
 } from "./StyledQRCode";
 
-interface QRWithFrameProps extends StyledQRCodeProps {
-  hasFrame: boolean;
-  frameColor: string;
-  textColor: string;
-  frameText: string;
-  textPosition: "top" | "bottom";
+interface QRWithFrameProps extends Omit<StyledQRCodeProps, "onQRCodeReady"> {
+  // Symbologies other than QR are drawn by SymbolCode
+  symbology?: Symbology;
+  onQRCodeReady?: (instance: QRRawDataSource) => void;
+  // Drawn around the code when set
+  frame?: QRFrame | null;
 }
 
-export const QRWithFrame = forwardRef<StyledQRCodeRef, QRWithFrameProps>(
-  (
-    {
-      hasFrame,
-      frameColor,
-      textColor,
-      frameText,
-      textPosition,
-      className,
-      ...qrProps
-    },
-    ref
-  ) => {
-    if (!hasFrame) {
-      return <StyledQRCode ref={ref} {...qrProps} className={className} />;
-    }
+const renderFrameElement = (
+  element: FrameElement,
+  index: number,
+  fontFamily: string
+) => {
+  if (element.kind === "icon") {
+    return (
+      <path
+        key={index}
+        d={element.d}
+        transform={`translate(${element.x} ${element.y}) scale(${element.size / 24})`}
+        fill="none"
+        stroke={element.color}
+        strokeWidth={2}
+        strokeLinecap="round"
+        strokeLinejoin="round"
+      />
+    );
+  }
+  if (element.kind === "text") {
+    return (
+      <text
+        key={index}
+        x={element.x}
+        y={element.y}
+        fontFamily={fontFamily}
+        fontSize={element.fontSize}
+        fontWeight={element.fontWeight}
+        fill={element.color}
+        textAnchor={element.anchor}
+        dominantBaseline="central"
+      >
+        {element.text}
+      </text>
+    );
+  }
+  return (
+    <path
+      key={index}
+      d={element.d}
+      fill={element.fill ?? "none"}
+      stroke={element.stroke}
+      strokeWidth={element.strokeWidth}
+      strokeDasharray={element.dash?.join(" ")}
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    />
+  );
+};
 
-    const containerStyle: React.CSSProperties = {
-      display: "flex",
-      flexDirection: "column",
-      alignItems: "center",
-      backgroundColor: frameColor,
-      padding: "20px",
-      borderRadius: "12px",
-      gap: "16px",
-      maxWidth: "fit-content",
-    };
+export const QRWithFrame = forwardRef<StyledQRCodeRef, QRWithFrameProps>(
+  ({ frame, className, symbology = "qr", ...qrProps }, ref) => {
+    const renderCode = (codeClassName?: string) =>
+      symbology === "qr" ? (
+        <StyledQRCode ref={ref} {...qrProps} className={codeClassName} />
+      ) : (
+        <SymbolCode
+          symbology={symbology}
+          data={qrProps.data ?? ""}
+          width={qrProps.width ?? 300}
+          height={qrProps.height ?? 300}
+          margin={qrProps.margin ?? 0}
+          foreground={qrProps.dotsOptions?.color ?? "#000000"}
+          background={qrProps.backgroundOptions?.color ?? "#ffffff"}
+          errorCorrectionLevel={qrProps.qrOptions?.errorCorrectionLevel ?? "Q"}
+          className={codeClassName}
+          onReady={qrProps.onQRCodeReady}
+        />
+      );
 
-    const textStyle: React.CSSProperties = {
-      fontSize: "16px",
-      fontWeight: "500",
-      textAlign: "center",
-      margin: 0,
-      color: textColor,
-      whiteSpace: "nowrap",
-      letterSpacing: "0.025em",
-    };
+    if (!frame) {
+      return renderCode(className);
+    }
 
-    const qrContainerStyle: React.CSSProperties = {
-      backgroundColor: "white",
-      padding: "8px",
-      borderRadius: "8px",
-      display: "flex",
-      justifyContent: "center",
-      alignItems: "center",
-    };
+    const layout = getFrameLayout(
+      frame,
+      qrProps.width ?? 300,
+      qrProps.height ?? 300
+    );
 
     return (
-      <div style={containerStyle} className={className}>
-        {textPosition === "top" && frameText && (
-          <div style={textStyle}>{frameText}</div>
-        )}
-
-        <div style={qrContainerStyle}>
-          <StyledQRCode ref={ref} {...qrProps} />
+      <div
+        className={className}
+        style={{
+          position: "relative",
+          width: layout.width,
+          height: layout.height,
+          flexShrink: 0,
+        }}
+      >
+        <svg
+          width={layout.width}
+          height={layout.height}
+          viewBox={`0 0 ${layout.width} ${layout.height}`}
+          style={{ position: "absolute", inset: 0 }}
+          aria-hidden="true"
+        >
+          {layout.elements.map((element, index) =>
+            renderFrameElement(element, index, layout.fontFamily)
+          )}
+        </svg>
+        <div
+          style={{
+            position: "absolute",
+            left: layout.code.x,
+            top: layout.code.y,
+            lineHeight: 0,
+          }}
+        >
+          {renderCode()}
         </div>
-
-        {textPosition === "bottom" && frameText && (
-          <div style={textStyle}>{frameText}</div>
-        )}
       </div>
     );
   }
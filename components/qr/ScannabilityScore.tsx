@@ -0,0 +1,140 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import {
+  assessScannability,
+  type ScannabilityInput,
+  type ScannabilityStatus,
+} from "@/lib/scannability";
+import { AlertTriangle, CheckCircle, Gauge, XCircle } from "lucide-react";
+import { useState } from "react";
+
+interface ScannabilityScoreProps
+  extends Omit<ScannabilityInput, "printSizeMm" | "scanDistanceCm"> {
+  className?: string;
+}
+
+const statusStyles: Record<
+  ScannabilityStatus,
+  { text: string; progress: string }
+> = {
+  good: {
+    text: "text-green-600 dark:text-green-400",
+    progress: "[&>div]:bg-green-500",
+  },
+  fair: {
+    text: "text-orange-600 dark:text-orange-400",
+    progress: "[&>div]:bg-orange-500",
+  },
+  poor: {
+    text: "text-red-600 dark:text-red-400",
+    progress: "[&>div]:bg-red-500",
+  },
+};
+
+const StatusIcon = ({ status }: { status: ScannabilityStatus }) => {
+  const className = `w-4 h-4 flex-shrink-0 ${statusStyles[status].text}`;
+  if (status === "good") return <CheckCircle className={className} />;
+  if (status === "fair") return <AlertTriangle className={className} />;
+  return <XCircle className={className} />;
+};
+
+// Combined score of contrast, print size, scan distance and logo coverage
+export function ScannabilityScore({
+  className = "",
+  ...input
+}: ScannabilityScoreProps) {
+  const [printSizeMm, setPrintSizeMm] = useState(30);
+  const [scanDistanceCm, setScanDistanceCm] = useState(30);
+
+  const report = assessScannability({ ...input, printSizeMm, scanDistanceCm });
+
+  return (
+    <div className={`p-3 rounded-lg border space-y-3 ${className}`}>
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <Gauge className="w-4 h-4" />
+          Scannability
+        </div>
+        {report && (
+          <span
+            className={`text-sm font-semibold ${statusStyles[report.status].text}`}
+          >
+            {report.score}/100
+          </span>
+        )}
+      </div>
+      {report && (
+        <Progress
+          value={report.score}
+          className={`h-2 ${statusStyles[report.status].progress}`}
+        />
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <Label htmlFor="scanPrintSize" className="text-xs">
+            Print width (mm)
+          </Label>
+          <Input
+            id="scanPrintSize"
+            type="number"
+            min={5}
+            max={2000}
+            value={printSizeMm}
+            onChange={(e) => setPrintSizeMm(Number(e.target.value))}
+            className="h-8"
+          />
+        </div>
+        <div>
+          <Label htmlFor="scanDistance" className="text-xs">
+            Scan distance (cm)
+          </Label>
+          <Input
+            id="scanDistance"
+            type="number"
+            min={5}
+            max={5000}
+            value={scanDistanceCm}
+            onChange={(e) => setScanDistanceCm(Number(e.target.value))}
+            className="h-8"
+          />
+        </div>
+      </div>
+
+      {report ? (
+        <>
+          <ul className="space-y-1">
+            {report.factors.map((factor) => (
+              <li key={factor.id} className="flex items-start gap-2 text-xs">
+                <StatusIcon status={factor.status} />
+                <span>
+                  <span className="font-medium">{factor.label}:</span>{" "}
+                  <span className="text-gray-600 dark:text-gray-400">
+                    {factor.detail}
+                  </span>
+                </span>
+              </li>
+            ))}
+          </ul>
+          {report.fixes.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-xs font-medium">How to improve</p>
+              <ul className="list-disc pl-4 space-y-0.5 text-xs text-gray-600 dark:text-gray-400">
+                {report.fixes.map((fix) => (
+                  <li key={fix}>{fix}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </>
+      ) : (
+        <p className="text-xs text-gray-500">
+          Enter content and a print size to see the score
+        </p>
+      )}
+    </div>
+  );
+}
@@ -26,6 +26,7 @@ interface SimpleContrastIndicatorProps {
   foregroundColor: string;
   backgroundColor: string;
   className?: string;
+  label?: string;
   onSwapColors?: () => void;
 }
 
@@ -33,6 +34,7 @@ export function SimpleContrastIndicator({
   foregroundColor,
   backgroundColor,
   className = "",
+  label = "Contrast",
   onSwapColors,
 }: SimpleContrastIndicatorProps) {
   // Handle transparent background by using white as default
@@ -118,7 +120,7 @@ export function SimpleContrastIndicator({
           <div className="flex items-center gap-2">
             <div className={getTextColor()}>{getIcon()}</div>
             <span className="text-sm font-medium text-gray-900 dark:text-gray-100">
-              Contrast: {contrastRatio.toFixed(2)}:1
+              {label}: {contrastRatio.toFixed(2)}:1
             </span>
           </div>
           <Dialog>
@@ -1,11 +1,17 @@
 "use client";
 
+import {
+  createBackgroundImageExtension,
+  type QRBackgroundImage,
+  resolveLogoImage,
+} from "@/lib/qr-utils";
 import QRCodeStyling, {
   type CornerDotType,
   type CornerSquareType,
   type DotType,
   type DrawType,
   type ErrorCorrectionLevel,
+  type Gradient,
   type Options as QRCodeOptions,
 } from "qr-code-styling";
 import {
@@ -26,10 +32,13 @@ export interface StyledQRCodeProps {
   dotsOptions?: {
     color?: string;
     type?: DotType;
+    gradient?: Gradient;
   };
   backgroundOptions?: {
     color?: string;
+    gradient?: Gradient;
   };
+  backgroundImage?: QRBackgroundImage;
   imageOptions?: {
     margin?: number;
     crossOrigin?: string;
@@ -39,10 +48,12 @@ export interface StyledQRCodeProps {
   cornersSquareOptions?: {
     color?: string;
     type?: CornerSquareType;
+    gradient?: Gradient;
   };
   cornersDotOptions?: {
     color?: string;
     type?: CornerDotType;
+    gradient?: Gradient;
   };
   qrOptions?: {
     errorCorrectionLevel?: ErrorCorrectionLevel;
@@ -71,6 +82,7 @@ export const StyledQRCode = forwardRef<StyledQRCodeRef, StyledQRCodeProps>(
       backgroundOptions = {
         color: "transparent",
       },
+      backgroundImage,
       imageOptions = {
         margin: 0,
         crossOrigin: "anonymous",
@@ -93,6 +105,7 @@ export const StyledQRCode = forwardRef<StyledQRCodeRef, StyledQRCodeProps>(
   ) => {
     const qrRef = useRef<HTMLDivElement>(null);
     const qrCodeInstance = useRef<QRCodeStyling | null>(null);
+    const backgroundImageKey = useRef("");
     const [isClient, setIsClient] = useState(false);
 
     useImperativeHandle(
@@ -107,43 +120,11 @@ export const StyledQRCode = forwardRef<StyledQRCodeRef, StyledQRCodeProps>(
       setIsClient(true);
     }, []);
 
-    // Helper function to create text/emoji as image
-    const createTextImage = (text: string): string => {
-      const canvas = document.createElement("canvas");
-      const size = Math.min(width, height) * 0.3;
-      canvas.width = size;
-      canvas.height = size;
-      const ctx = canvas.getContext("2d")!;
-
-      // Set canvas background to transparent
-      ctx.clearRect(0, 0, size, size);
-
-      // Configure text styling
-      const fontSize = size * 0.6;
-      ctx.font = `${fontSize}px Arial, sans-serif`;
-      ctx.textAlign = "center";
-      ctx.textBaseline = "middle";
-      ctx.fillStyle = "#000000";
-
-      // Draw the text/emoji
-      ctx.fillText(text, size / 2, size / 2);
-
-      return canvas.toDataURL();
-    };
-
     useEffect(() => {
       if (!isClient || !qrRef.current || !data?.trim()) return;
 
-      // Determine if image is a text/emoji or actual image
-      let logoImage = image;
-      if (
-        image &&
-        !image.startsWith("data:image/") &&
-        !image.startsWith("http")
-      ) {
-        // This is text/emoji, convert it to an image
-        logoImage = createTextImage(image);
-      }
+      // Text/emoji logos are converted to an image, actual images pass through
+      const logoImage = resolveLogoImage(image, width, height);
 
       const qrCodeOptions: QRCodeOptions = {
         width,
@@ -161,13 +142,28 @@ export const StyledQRCode = forwardRef<StyledQRCodeRef, StyledQRCodeProps>(
       };
 
       try {
+        const isNewInstance = !qrCodeInstance.current;
         if (!qrCodeInstance.current) {
           qrCodeInstance.current = new QRCodeStyling(qrCodeOptions);
           qrCodeInstance.current.append(qrRef.current);
           onQRCodeReady?.(qrCodeInstance.current);
-        } else {
-          qrCodeInstance.current.update(qrCodeOptions);
         }
+
+        // Extensions re-render on change, so only swap them when needed
+        const imageKey = backgroundImage?.src
+          ? `${backgroundImage.opacity}:${backgroundImage.src}`
+          : "";
+        if (imageKey !== backgroundImageKey.current) {
+          backgroundImageKey.current = imageKey;
+          if (backgroundImage?.src) {
+            qrCodeInstance.current.applyExtension(
+              createBackgroundImageExtension(backgroundImage)
+            );
+          } else {
+            qrCodeInstance.current.deleteExtension();
+          }
+        }
+        if (!isNewInstance) qrCodeInstance.current.update(qrCodeOptions);
       } catch (error) {
         console.error("QR Code generation error:", error);
         // Clear the container if there's an error
@@ -190,12 +186,12 @@ export const StyledQRCode = forwardRef<StyledQRCodeRef, StyledQRCodeProps>(
       margin,
       dotsOptions,
       backgroundOptions,
+      backgroundImage,
       imageOptions,
       cornersSquareOptions,
       cornersDotOptions,
       qrOptions,
       onQRCodeReady,
-      createTextImage,
     ]);
 
     // Cleanup on unmount
@@ -0,0 +1,90 @@
+"use client";
+
+import {
+  getSymbology,
+  renderSymbolSVG,
+  type SymbolOptions,
+  SymbolRenderer,
+} from "@/lib/symbology";
+import { useEffect, useRef, useState } from "react";
+
+interface SymbolCodeProps extends SymbolOptions {
+  className?: string;
+  onReady?: (renderer: SymbolRenderer) => void;
+}
+
+// Preview of a Micro QR, rMQR, Data Matrix or Aztec symbol
+export function SymbolCode({
+  symbology,
+  data,
+  width,
+  height,
+  margin,
+  foreground,
+  background,
+  errorCorrectionLevel,
+  className = "",
+  onReady,
+}: SymbolCodeProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const rendererRef = useRef<SymbolRenderer | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!containerRef.current || !data.trim()) return;
+    const symbolOptions: SymbolOptions = {
+      symbology,
+      data,
+      width,
+      height,
+      margin,
+      foreground,
+      background,
+      errorCorrectionLevel,
+    };
+
+    try {
+      containerRef.current.innerHTML = renderSymbolSVG(symbolOptions).svg;
+      setError(null);
+    } catch (renderError) {
+      containerRef.current.innerHTML = "";
+      setError(
+        renderError instanceof Error
+          ? renderError.message
+          : "The symbol could not be generated"
+      );
+    }
+
+    if (rendererRef.current) {
+      rendererRef.current.update(symbolOptions);
+    } else {
+      rendererRef.current = new SymbolRenderer(symbolOptions);
+      onReady?.(rendererRef.current);
+    }
+  }, [
+    symbology,
+    data,
+    width,
+    height,
+    margin,
+    foreground,
+    background,
+    errorCorrectionLevel,
+    onReady,
+  ]);
+
+  return (
+    <div className={`flex items-center justify-center ${className}`}>
+      <div ref={containerRef} className="flex items-center justify-center" />
+      {error && (
+        <div
+          className="flex items-center justify-center p-4 text-center text-red-500 text-sm"
+          style={{ width, height }}
+          title={error}
+        >
+          {`${getSymbology(symbology).label} cannot hold this content. Shorten it or pick another format.`}
+        </div>
+      )}
+    </div>
+  );
+}
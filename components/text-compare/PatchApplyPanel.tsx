@@ -0,0 +1,161 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { applyPatch, parsePatch, type PatchResult } from "@/lib/text-patch";
+import { Copy, Upload } from "lucide-react";
+import { useCallback, useState } from "react";
+import { toast } from "sonner";
+
+interface PatchApplyPanelProps {
+  // Text the patch is applied to
+  originalText: string;
+  // Shows the patched text as the modified text of the comparison
+  onUseResult: (patchedText: string) => void;
+}
+
+export function PatchApplyPanel({
+  originalText,
+  onUseResult,
+}: PatchApplyPanelProps) {
+  const [patchText, setPatchText] = useState("");
+  const [result, setResult] = useState<PatchResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileUpload = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      if (!file) return;
+      const reader = new FileReader();
+      reader.onload = () => {
+        setPatchText(String(reader.result ?? ""));
+        setResult(null);
+        setError(null);
+      };
+      reader.readAsText(file);
+      e.target.value = "";
+    },
+    []
+  );
+
+  const handleApply = () => {
+    try {
+      const patchResult = applyPatch(originalText, parsePatch(patchText));
+      setResult(patchResult);
+      setError(null);
+      if (patchResult.failed.length) {
+        toast.error(
+          `${patchResult.failed.length} of ${patchResult.applied + patchResult.failed.length} hunks failed`
+        );
+      } else {
+        toast.success(`Applied ${patchResult.applied} hunks`);
+      }
+    } catch (error) {
+      setResult(null);
+      setError(error instanceof Error ? error.message : "Invalid patch");
+    }
+  };
+
+  const copyResult = async () => {
+    if (!result) return;
+    try {
+      await navigator.clipboard.writeText(result.text);
+      toast.success("Patched text copied to clipboard!");
+    } catch (error) {
+      toast.error("Failed to copy patched text");
+    }
+  };
+
+  return (
+    <Card className="p-6 mt-6">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <div>
+          <h3 className="font-medium">Apply Patch</h3>
+          <p className="text-xs text-muted-foreground">
+            Paste a unified diff, such as a .patch file from code review, to
+            apply it to the original text
+          </p>
+        </div>
+        <div>
+          <input
+            type="file"
+            accept=".patch,.diff,text/x-patch,text/x-diff,text/plain"
+            onChange={handleFileUpload}
+            className="hidden"
+            id="patch-upload"
+          />
+          <Button variant="outline" size="sm" asChild>
+            <label htmlFor="patch-upload" className="cursor-pointer">
+              <Upload className="w-4 h-4 mr-2" />
+              Open .patch file
+            </label>
+          </Button>
+        </div>
+      </div>
+
+      <Textarea
+        placeholder={"--- original.txt\n+++ modified.txt\n@@ -1,3 +1,3 @@"}
+        value={patchText}
+        onChange={(e) => {
+          setPatchText(e.target.value);
+          setError(null);
+        }}
+        className="min-h-[160px] font-mono text-sm"
+        aria-label="Patch"
+      />
+
+      <div className="flex flex-wrap gap-3 mt-4">
+        <Button onClick={handleApply} disabled={!patchText.trim()}>
+          Apply to Original
+        </Button>
+        {result && (
+          <>
+            <Button variant="outline" onClick={() => onUseResult(result.text)}>
+              Compare with Original
+            </Button>
+            <Button variant="outline" onClick={copyResult}>
+              <Copy className="w-4 h-4 mr-2" />
+              Copy Result
+            </Button>
+          </>
+        )}
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400 mt-4">{error}</p>
+      )}
+
+      {result && (
+        <div className="mt-4 space-y-2">
+          <div className="flex gap-2">
+            <Badge className="bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-200">
+              {result.applied} hunks applied
+            </Badge>
+            {result.failed.length > 0 && (
+              <Badge className="bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-200">
+                {result.failed.length} hunks failed
+              </Badge>
+            )}
+          </div>
+          {result.failed.length > 0 && (
+            <ul className="text-sm space-y-1">
+              {result.failed.map((hunk) => (
+                <li
+                  key={hunk.index}
+                  className="border-l-4 border-red-500 bg-red-50 dark:bg-red-900/30 px-2 py-1"
+                >
+                  <span className="font-mono">
+                    Hunk {hunk.index} {hunk.header}
+                  </span>
+                  : {hunk.reason}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,136 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  type StructuredChange,
+  type StructuredDiffResult,
+} from "@/lib/structured-diff";
+import { cn } from "@/lib/utils";
+
+interface StructuredDiffViewProps {
+  result: StructuredDiffResult;
+}
+
+// Longer values are cut, the full value is in the tooltip
+const MAX_VALUE_LENGTH = 120;
+
+const changeStyles: Record<
+  StructuredChange["type"],
+  { label: string; row: string; badge: string }
+> = {
+  added: {
+    label: "Added",
+    row: "border-green-500 bg-green-50 dark:bg-green-900/30",
+    badge:
+      "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-200",
+  },
+  removed: {
+    label: "Removed",
+    row: "border-red-500 bg-red-50 dark:bg-red-900/30",
+    badge: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-200",
+  },
+  changed: {
+    label: "Changed",
+    row: "border-blue-500 bg-blue-50 dark:bg-blue-900/30",
+    badge: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-200",
+  },
+};
+
+const ValueText = ({
+  value,
+  className,
+}: {
+  value: unknown;
+  className: string;
+}) => {
+  const text = JSON.stringify(value) ?? "undefined";
+  return (
+    <span
+      className={cn("font-mono break-all rounded px-1", className)}
+      title={text.length > MAX_VALUE_LENGTH ? text : undefined}
+    >
+      {text.length > MAX_VALUE_LENGTH
+        ? `${text.slice(0, MAX_VALUE_LENGTH)}…`
+        : text}
+    </span>
+  );
+};
+
+export function StructuredDiffView({ result }: StructuredDiffViewProps) {
+  const { stats, formats } = result;
+
+  return (
+    <Card className="p-6">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <div>
+          <h3 className="font-medium">Structure Comparison</h3>
+          <p className="text-xs text-muted-foreground">
+            Original parsed as {formats.left.toUpperCase()}, modified as{" "}
+            {formats.right.toUpperCase()}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {stats.added > 0 && (
+            <Badge className={changeStyles.added.badge}>
+              +{stats.added} added
+            </Badge>
+          )}
+          {stats.removed > 0 && (
+            <Badge className={changeStyles.removed.badge}>
+              -{stats.removed} removed
+            </Badge>
+          )}
+          {stats.changed > 0 && (
+            <Badge className={changeStyles.changed.badge}>
+              ~{stats.changed} changed
+            </Badge>
+          )}
+        </div>
+      </div>
+
+      {result.changes.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Both texts hold the same data.
+        </p>
+      ) : (
+        <ScrollArea className="h-[400px] w-full border rounded-md">
+          <ul className="p-4 space-y-1">
+            {result.changes.map((change, index) => (
+              <li
+                key={index}
+                className={cn(
+                  "flex flex-wrap items-start gap-2 border-l-4 px-2 py-1 text-sm",
+                  changeStyles[change.type].row
+                )}
+              >
+                <span className="text-xs font-medium min-w-[4.5rem]">
+                  {changeStyles[change.type].label}
+                </span>
+                <span className="font-mono font-medium break-all">
+                  {change.jsonPath}
+                </span>
+                {change.type !== "added" && (
+                  <ValueText
+                    value={change.oldValue}
+                    className="bg-red-200 dark:bg-red-800/60"
+                  />
+                )}
+                {change.type === "changed" && (
+                  <span className="text-muted-foreground">→</span>
+                )}
+                {change.type !== "removed" && (
+                  <ValueText
+                    value={change.newValue}
+                    className="bg-green-200 dark:bg-green-800/60"
+                  />
+                )}
+              </li>
+            ))}
+          </ul>
+        </ScrollArea>
+      )}
+    </Card>
+  );
+}
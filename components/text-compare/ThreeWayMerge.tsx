@@ -0,0 +1,422 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Textarea } from "@/components/ui/textarea";
+import { type DiffLine } from "@/lib/text-diff";
+import {
+  buildMergedText,
+  type MergeChunk,
+  type MergeResolution,
+  type MergeResult,
+  mergeTexts,
+  resolveChunk,
+} from "@/lib/text-merge";
+import { cn } from "@/lib/utils";
+import { saveAs } from "file-saver";
+import { Copy, Download } from "lucide-react";
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+
+const SAMPLE_BASE = `name: web-app
+port: 8080
+debug: false
+workers: 4
+log_level: info
+timeout: 30`;
+
+const SAMPLE_OURS = `name: web-app
+port: 9090
+debug: false
+workers: 4
+log_level: warn
+timeout: 30
+retries: 3`;
+
+const SAMPLE_THEIRS = `name: web-app
+port: 8080
+debug: false
+workers: 8
+log_level: error
+timeout: 30`;
+
+const segmentClassNames: Record<string, string> = {
+  added: "bg-green-200 dark:bg-green-800/60",
+  deleted: "bg-red-200 dark:bg-red-800/60",
+  moved: "bg-purple-200 dark:bg-purple-800/60",
+};
+
+const chunkLabels: Record<MergeChunk["status"], string> = {
+  unchanged: "",
+  ours: "From ours",
+  theirs: "From theirs",
+  both: "Same in both",
+  conflict: "Conflict",
+};
+
+const resolutionButtons: { id: MergeResolution; name: string }[] = [
+  { id: "ours", name: "Accept left" },
+  { id: "theirs", name: "Accept right" },
+  { id: "both", name: "Accept both" },
+];
+
+// One side of a conflict row, `side` picks ours (left) or theirs (right)
+const ConflictCell = ({
+  line,
+  side,
+}: {
+  line: DiffLine;
+  side: "left" | "right";
+}) => {
+  const lineNumber = side === "left" ? line.leftLine : line.rightLine;
+  const segments = side === "left" ? line.leftSegments : line.rightSegments;
+  return (
+    <div className="flex items-start text-sm min-h-[1.5rem]">
+      <span className="text-xs text-muted-foreground min-w-[3rem] text-right flex-shrink-0 py-1 px-2 mr-2 select-none">
+        {lineNumber ?? " "}
+      </span>
+      <div className="font-mono flex-1 whitespace-pre-wrap break-all py-1">
+        {segments.map((segment, index) => (
+          <span key={index} className={segmentClassNames[segment.type]}>
+            {segment.text}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export function ThreeWayMerge() {
+  const [baseText, setBaseText] = useState("");
+  const [oursText, setOursText] = useState("");
+  const [theirsText, setTheirsText] = useState("");
+  const [mergeResult, setMergeResult] = useState<MergeResult | null>(null);
+  // Keyed by chunk index
+  const [resolutions, setResolutions] = useState<
+    Record<number, MergeResolution>
+  >({});
+  const [mergedText, setMergedText] = useState("");
+
+  // Load from localStorage on mount
+  useEffect(() => {
+    setBaseText(localStorage.getItem("text-compare-base") ?? "");
+    setOursText(localStorage.getItem("text-compare-ours") ?? "");
+    setTheirsText(localStorage.getItem("text-compare-theirs") ?? "");
+  }, []);
+
+  // Save to localStorage when text changes
+  useEffect(() => {
+    localStorage.setItem("text-compare-base", baseText);
+  }, [baseText]);
+
+  useEffect(() => {
+    localStorage.setItem("text-compare-ours", oursText);
+  }, [oursText]);
+
+  useEffect(() => {
+    localStorage.setItem("text-compare-theirs", theirsText);
+  }, [theirsText]);
+
+  const handleMerge = useCallback(() => {
+    const result = mergeTexts(baseText, oursText, theirsText);
+    setMergeResult(result);
+    setResolutions({});
+    setMergedText(buildMergedText(result.chunks, {}));
+  }, [baseText, oursText, theirsText]);
+
+  // Picking a resolution rebuilds the merged text, dropping manual edits
+  const handleResolve = (index: number, resolution: MergeResolution) => {
+    if (!mergeResult) return;
+    const next = { ...resolutions };
+    if (next[index] === resolution) {
+      delete next[index];
+    } else {
+      next[index] = resolution;
+    }
+    setResolutions(next);
+    setMergedText(buildMergedText(mergeResult.chunks, next));
+  };
+
+  const handleClear = useCallback(() => {
+    setBaseText("");
+    setOursText("");
+    setTheirsText("");
+    setMergeResult(null);
+    localStorage.removeItem("text-compare-base");
+    localStorage.removeItem("text-compare-ours");
+    localStorage.removeItem("text-compare-theirs");
+  }, []);
+
+  const loadSampleTexts = useCallback(() => {
+    setBaseText(SAMPLE_BASE);
+    setOursText(SAMPLE_OURS);
+    setTheirsText(SAMPLE_THEIRS);
+    setMergeResult(null);
+  }, []);
+
+  const copyMergedText = async () => {
+    try {
+      await navigator.clipboard.writeText(mergedText);
+      toast.success("Merged text copied to clipboard!");
+    } catch (error) {
+      toast.error("Failed to copy merged text");
+    }
+  };
+
+  const downloadMergedText = () => {
+    saveAs(
+      new Blob([mergedText], { type: "text/plain;charset=utf-8" }),
+      "merged.txt"
+    );
+  };
+
+  const unresolved = mergeResult
+    ? mergeResult.chunks.filter(
+        (chunk, index) =>
+          chunk.status === "conflict" && resolutions[index] === undefined
+      ).length
+    : 0;
+
+  const inputs = [
+    {
+      title: "Base",
+      placeholder: "Enter the common ancestor here...",
+      value: baseText,
+      onChange: setBaseText,
+    },
+    {
+      title: "Ours (left)",
+      placeholder: "Enter your version here...",
+      value: oursText,
+      onChange: setOursText,
+    },
+    {
+      title: "Theirs (right)",
+      placeholder: "Enter their version here...",
+      value: theirsText,
+      onChange: setTheirsText,
+    },
+  ];
+
+  let conflictNumber = 0;
+
+  return (
+    <>
+      {/* Input Section */}
+      <Card className="p-6 mb-6">
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {inputs.map((input) => (
+            <div key={input.title} className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h3 className="font-medium">{input.title}</h3>
+                <Badge variant="outline">
+                  {input.value.split("\n").length} lines
+                </Badge>
+              </div>
+              <Textarea
+                placeholder={input.placeholder}
+                value={input.value}
+                onChange={(e) => input.onChange(e.target.value)}
+                className="min-h-[200px] font-mono text-sm"
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap gap-3 mt-6">
+          <Button
+            onClick={handleMerge}
+            disabled={!oursText.trim() && !theirsText.trim()}
+            className="bg-gradient-to-r from-orange-500 to-red-500 hover:from-orange-600 hover:to-red-600"
+          >
+            Merge!
+          </Button>
+          <Button variant="outline" onClick={loadSampleTexts}>
+            Load Sample
+          </Button>
+          <Button variant="outline" onClick={handleClear}>
+            Clear All
+          </Button>
+        </div>
+      </Card>
+
+      {/* Results Section */}
+      {mergeResult && (
+        <Card className="p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="font-medium">Merge Results</h3>
+            <div className="flex gap-2">
+              {mergeResult.stats.autoMerged > 0 && (
+                <Badge className="bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-200">
+                  {mergeResult.stats.autoMerged} auto-merged
+                </Badge>
+              )}
+              {mergeResult.stats.conflicts > 0 && (
+                <Badge className="bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-200">
+                  {unresolved} of {mergeResult.stats.conflicts} conflicts
+                  unresolved
+                </Badge>
+              )}
+              {mergeResult.stats.conflicts === 0 && (
+                <Badge className="bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-200">
+                  No conflicts
+                </Badge>
+              )}
+            </div>
+          </div>
+
+          <ScrollArea className="h-[400px] w-full border rounded-md">
+            <div className="p-4 space-y-1">
+              {mergeResult.chunks.map((chunk, index) => {
+                if (chunk.status !== "conflict") {
+                  const lines = resolveChunk(chunk);
+                  if (!lines.length) return null;
+                  return (
+                    <div
+                      key={index}
+                      className={cn(
+                        "border-l-4 pl-2",
+                        chunk.status === "unchanged"
+                          ? "border-transparent"
+                          : "border-green-500 bg-green-50 dark:bg-green-900/30"
+                      )}
+                      title={chunkLabels[chunk.status]}
+                    >
+                      {lines.map((line, lineIndex) => (
+                        <div
+                          key={lineIndex}
+                          className="font-mono text-sm whitespace-pre-wrap break-all py-1 min-h-[1.5rem]"
+                        >
+                          {line}
+                        </div>
+                      ))}
+                    </div>
+                  );
+                }
+
+                conflictNumber++;
+                const resolution = resolutions[index];
+                return (
+                  <div
+                    key={index}
+                    className={cn(
+                      "border-l-4 rounded-r-md my-2",
+                      resolution
+                        ? "border-blue-500 bg-blue-50 dark:bg-blue-900/30"
+                        : "border-red-500 bg-red-50 dark:bg-red-900/30"
+                    )}
+                  >
+                    <div className="flex flex-wrap items-center gap-2 p-2">
+                      <span className="text-sm font-medium mr-auto">
+                        Conflict {conflictNumber}
+                        {resolution && " (resolved)"}
+                      </span>
+                      {resolutionButtons.map((button) => (
+                        <Button
+                          key={button.id}
+                          variant={
+                            resolution === button.id ? "default" : "outline"
+                          }
+                          size="sm"
+                          onClick={() => handleResolve(index, button.id)}
+                        >
+                          {button.name}
+                        </Button>
+                      ))}
+                    </div>
+                    <div className="grid grid-cols-2 gap-2 px-2 pb-2">
+                      <div className="rounded border bg-background">
+                        {chunk.lines
+                          .filter((line) => line.leftLine !== null)
+                          .map((line, lineIndex) => (
+                            <ConflictCell
+                              key={lineIndex}
+                              line={line}
+                              side="left"
+                            />
+                          ))}
+                      </div>
+                      <div className="rounded border bg-background">
+                        {chunk.lines
+                          .filter((line) => line.rightLine !== null)
+                          .map((line, lineIndex) => (
+                            <ConflictCell
+                              key={lineIndex}
+                              line={line}
+                              side="right"
+                            />
+                          ))}
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </ScrollArea>
+
+          {/* Merged result */}
+          <div className="mt-6 space-y-2">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div>
+                <h4 className="text-sm font-medium">Merged Text</h4>
+                <p className="text-xs text-muted-foreground">
+                  Editable. Unresolved conflicts are kept between conflict
+                  markers, picking a resolution rebuilds the text.
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={copyMergedText}>
+                  <Copy className="w-4 h-4 mr-2" />
+                  Copy
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={downloadMergedText}
+                >
+                  <Download className="w-4 h-4 mr-2" />
+                  Download
+                </Button>
+              </div>
+            </div>
+            <Textarea
+              value={mergedText}
+              onChange={(e) => setMergedText(e.target.value)}
+              className="min-h-[200px] font-mono text-sm"
+              aria-label="Merged text"
+            />
+          </div>
+
+          {/* Legend */}
+          <div className="mt-4 pt-4 border-t">
+            <h4 className="text-sm font-medium mb-2">Legend:</h4>
+            <div className="flex flex-wrap gap-4 text-xs">
+              <div className="flex items-center gap-2">
+                <div className="w-3 h-3 bg-green-50 dark:bg-green-900/20 border border-green-500 rounded"></div>
+                <span>Merged automatically</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="w-3 h-3 bg-red-50 dark:bg-red-900/20 border border-red-500 rounded"></div>
+                <span>Conflict</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="w-3 h-3 bg-blue-50 dark:bg-blue-900/20 border border-blue-500 rounded"></div>
+                <span>Resolved conflict</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="w-3 h-3 bg-red-200 dark:bg-red-800/60 rounded"></div>
+                <span>Only in ours</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="w-3 h-3 bg-green-200 dark:bg-green-800/60 rounded"></div>
+                <span>Only in theirs</span>
+              </div>
+            </div>
+          </div>
+        </Card>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,70 @@
+import {
+  type BrandKit,
+  type BrandKitInput,
+  type BrandSettings,
+  brandKitStorage,
+} from "@/lib/brand-kit";
+import { useCallback, useEffect, useState } from "react";
+
+// Stored brand kits plus the active kit and brand lock, which persist across
+// reloads so a locked generator stays locked.
+export function useBrandKit() {
+  const [kits, setKits] = useState<BrandKit[]>([]);
+  const [settings, setSettings] = useState<BrandSettings>({
+    activeKitId: null,
+    isLocked: false,
+  });
+
+  const loadKits = useCallback(async () => {
+    try {
+      setKits(await brandKitStorage.getKits());
+    } catch (error) {
+      console.error("Failed to load brand kits:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    setSettings(brandKitStorage.loadSettings());
+    loadKits();
+  }, [loadKits]);
+
+  const updateSettings = useCallback((updates: Partial<BrandSettings>) => {
+    setSettings((prev) => {
+      const next = { ...prev, ...updates };
+      brandKitStorage.saveSettings(next);
+      return next;
+    });
+  }, []);
+
+  const saveKit = async (kit: BrandKitInput, id?: number) => {
+    const savedId = await brandKitStorage.saveKit(kit, id);
+    await loadKits();
+    return savedId;
+  };
+
+  const deleteKit = async (id: number) => {
+    await brandKitStorage.deleteKit(id);
+    if (settings.activeKitId === id) {
+      updateSettings({ activeKitId: null, isLocked: false });
+    }
+    await loadKits();
+  };
+
+  const activeKit = kits.find((kit) => kit.id === settings.activeKitId) ?? null;
+
+  return {
+    kits,
+    activeKit,
+    // Locking needs a kit to lock to
+    isLocked: settings.isLocked && activeKit !== null,
+    selectKit: (id: number | null) =>
+      updateSettings(
+        id === null
+          ? { activeKitId: null, isLocked: false }
+          : { activeKitId: id }
+      ),
+    setLocked: (isLocked: boolean) => updateSettings({ isLocked }),
+    saveKit,
+    deleteKit,
+  };
+}
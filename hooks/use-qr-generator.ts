@@ -1,3 +1,10 @@
+import { FramedRenderer } from "@/lib/qr-frame";
+import {
+  initialQRState,
+  type QRCodeState,
+  toQRFrame,
+  toStyledQROptions,
+} from "@/lib/qr-state";
 import {
   copyQRToClipboard,
   downloadQRCode,
@@ -6,112 +13,40 @@ import {
   generateRandomColor,
   generateRandomShapes,
   type QRPreset,
+  type QRRawDataSource,
+  type StyledQROptions,
 } from "@/lib/qr-utils";
-import QRCodeStyling, {
+import {
   type CornerDotType,
   type CornerSquareType,
   type DotType,
-  type ErrorCorrectionLevel,
-  type Options as QRCodeOptions,
 } from "qr-code-styling";
 import { useCallback, useRef, useState } from "react";
 
-export interface QRCodeState {
-  data: string;
-  width: number;
-  height: number;
-  margin: number;
-  borderRadius: number;
-  errorCorrectionLevel: ErrorCorrectionLevel;
-  dotsColor: string;
-  dotsType: DotType;
-  cornersSquareColor: string;
-  cornersSquareType: CornerSquareType;
-  cornersDotColor: string;
-  cornersDotType: CornerDotType;
-  backgroundColor: string;
-  logo?: string;
-  logoSize: number;
-  logoMargin: number;
-  // Frame settings
-  hasFrame: boolean;
-  frameColor: string;
-  textColor: string;
-  frameText: string;
-  textPosition: "top" | "bottom";
-}
-
-const initialState: QRCodeState = {
-  data: "https://freetools.now",
-  width: 300,
-  height: 300,
-  margin: 10,
-  borderRadius: 0,
-  errorCorrectionLevel: "Q",
-  dotsColor: "#000000",
-  dotsType: "rounded",
-  cornersSquareColor: "#000000",
-  cornersSquareType: "extra-rounded",
-  cornersDotColor: "#000000",
-  cornersDotType: "dot",
-  backgroundColor: "#ffffff",
-  logoSize: 0.4,
-  logoMargin: 0,
-  // Frame settings
-  hasFrame: false,
-  frameColor: "#000000",
-  textColor: "#ffffff",
-  frameText: "Scan for more info",
-  textPosition: "bottom",
+const solidFills: Partial<QRCodeState> = {
+  dotsGradient: null,
+  cornersSquareGradient: null,
+  cornersDotGradient: null,
+  backgroundGradient: null,
 };
 
 export const useQRGenerator = () => {
-  const [qrState, setQrState] = useState<QRCodeState>(initialState);
+  const [qrState, setQrState] = useState<QRCodeState>(initialQRState);
   const [isGenerating, setIsGenerating] = useState(false);
-  const qrInstanceRef = useRef<QRCodeStyling | null>(null);
+  const qrInstanceRef = useRef<QRRawDataSource | null>(null);
 
   const updateQRState = useCallback((updates: Partial<QRCodeState>) => {
     setQrState((prev) => ({ ...prev, ...updates }));
   }, []);
 
-  const setQRInstance = useCallback((instance: QRCodeStyling | null) => {
+  const setQRInstance = useCallback((instance: QRRawDataSource | null) => {
     qrInstanceRef.current = instance;
   }, []);
 
-  const generateQROptions = useCallback((): QRCodeOptions => {
-    return {
-      width: qrState.width,
-      height: qrState.height,
-      type: "svg",
-      data: qrState.data,
-      image: qrState.logo,
-      margin: qrState.margin,
-      dotsOptions: {
-        color: qrState.dotsColor,
-        type: qrState.dotsType,
-      },
-      backgroundOptions: {
-        color: qrState.backgroundColor,
-      },
-      imageOptions: {
-        margin: qrState.logoMargin,
-        imageSize: qrState.logoSize,
-        crossOrigin: "anonymous",
-        hideBackgroundDots: true,
-      },
-      cornersSquareOptions: {
-        color: qrState.cornersSquareColor,
-        type: qrState.cornersSquareType,
-      },
-      cornersDotOptions: {
-        color: qrState.cornersDotColor,
-        type: qrState.cornersDotType,
-      },
-      qrOptions: {
-        errorCorrectionLevel: qrState.errorCorrectionLevel,
-      },
-    };
-  }, [qrState]);
+  const generateQROptions = useCallback(
+    (): StyledQROptions => toStyledQROptions(qrState),
+    [qrState]
+  );
 
   const applyPreset = useCallback(
     (preset: QRPreset) => {
@@ -157,6 +92,8 @@ export const useQRGenerator = () => {
         cornersSquareType: preset.config.cornersSquareType as CornerSquareType,
         cornersDotType: preset.config.cornersDotType as CornerDotType,
         logo: preset.config.logo,
+        // Presets are solid color themes
+        ...solidFills,
         // Don't automatically enable frames - let the user decide
         // hasFrame: true
       });
@@ -180,6 +117,7 @@ export const useQRGenerator = () => {
       dotsType: shapes.dotsType as DotType,
       cornersSquareType: shapes.cornersSquareType as CornerSquareType,
       cornersDotType: shapes.cornersDotType as CornerDotType,
+      ...solidFills,
       // Reset dimensions and spacing to defaults
       width: 300,
       height: 300,
@@ -189,19 +127,34 @@ export const useQRGenerator = () => {
       hasFrame: false,
       frameColor: "#000000",
       textColor: "#ffffff",
-      frameText: "Scan for more info",
-      textPosition: "bottom",
+      frameShape: initialQRState.frameShape,
+      frameStyle: initialQRState.frameStyle,
+      frameLines: initialQRState.frameLines,
+      frameArrow: initialQRState.frameArrow,
     });
   }, [updateQRState]);
 
+  // Downloads and copies include the frame when it is on
+  const getExportSource = useCallback((): QRRawDataSource | null => {
+    const frame = toQRFrame(qrState);
+    if (!qrInstanceRef.current || !frame) return qrInstanceRef.current;
+    return new FramedRenderer(
+      qrInstanceRef.current,
+      frame,
+      qrState.width,
+      qrState.height
+    );
+  }, [qrState]);
+
   const downloadQR = useCallback(
     async (format: "png" | "jpeg" | "svg" = "png") => {
-      if (!qrInstanceRef.current) return;
+      const source = getExportSource();
+      if (!source) return;
 
       setIsGenerating(true);
       try {
         const filename = `qr-code-${Date.now()}`;
-        await downloadQRCode(qrInstanceRef.current, filename, format);
+        await downloadQRCode(source, filename, format);
       } catch (error) {
         console.error("Download failed:", error);
         throw error;
@@ -209,15 +162,16 @@ export const useQRGenerator = () => {
         setIsGenerating(false);
       }
     },
-    []
+    [getExportSource]
   );
 
   const copyToClipboard = useCallback(async () => {
-    if (!qrInstanceRef.current) return false;
+    const source = getExportSource();
+    if (!source) return false;
 
     setIsGenerating(true);
     try {
-      const success = await copyQRToClipboard(qrInstanceRef.current);
+      const success = await copyQRToClipboard(source);
       return success;
     } catch (error) {
       console.error("Copy failed:", error);
@@ -225,7 +179,7 @@ export const useQRGenerator = () => {
     } finally {
       setIsGenerating(false);
     }
-  }, []);
+  }, [getExportSource]);
 
   return {
     qrState,
@@ -0,0 +1,44 @@
+import { type StyledQROptions } from "@/lib/qr-utils";
+import { type QRVerificationResult, verifyQRCode } from "@/lib/qr-verify";
+import { useEffect, useState } from "react";
+
+// Re-verifies the QR code whenever its options change. Rapid edits (typing,
+// dragging sliders) are debounced and results for stale options are dropped.
+// Nothing is rendered or decoded while `enabled` is false.
+export function useQRVerification(
+  getOptions: () => StyledQROptions,
+  { enabled = true, delay = 400 }: { enabled?: boolean; delay?: number } = {}
+) {
+  const [result, setResult] = useState<QRVerificationResult | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  useEffect(() => {
+    if (!enabled) {
+      setResult(null);
+      setIsVerifying(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsVerifying(true);
+
+    const timeout = setTimeout(async () => {
+      try {
+        const verification = await verifyQRCode(getOptions());
+        if (!cancelled) setResult(verification);
+      } catch (error) {
+        console.error("QR verification failed:", error);
+        if (!cancelled) setResult(null);
+      } finally {
+        if (!cancelled) setIsVerifying(false);
+      }
+    }, delay);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [getOptions, enabled, delay]);
+
+  return { result, isVerifying };
+}
@@ -0,0 +1,304 @@
+import { createPngChunk, PNG_SIGNATURE } from "./png-chunks";
+
+/**
+ * Animated image encoders
+ *
+ * Encodes RGBA frames of equal size to animated GIF or APNG in the browser,
+ * without a worker or third-party encoder. GIF frames share one palette of
+ * up to 255 colors picked with median cut, plus one transparent index; APNG
+ * keeps full color and alpha and is compressed with the built-in
+ * CompressionStream. Both loop forever.
+ */
+
+export interface AnimationFrame {
+  width: number;
+  height: number;
+  // RGBA, 4 bytes per pixel as in ImageData
+  data: Uint8ClampedArray;
+}
+
+type ColorBox = { r: number; g: number; b: number; count: number }[];
+
+const MAX_GIF_COLORS = 255;
+// Pixels below this alpha become transparent in GIF files
+const ALPHA_THRESHOLD = 128;
+
+// ---------------------------------------------------------------------------
+// GIF
+// ---------------------------------------------------------------------------
+
+function collectColors(frames: AnimationFrame[]) {
+  const counts = new Map<number, number>();
+  let hasTransparency = false;
+  for (const { data } of frames) {
+    for (let i = 0; i < data.length; i += 4) {
+      if (data[i + 3] < ALPHA_THRESHOLD) {
+        hasTransparency = true;
+        continue;
+      }
+      const key = (data[i] << 16) | (data[i + 1] << 8) | data[i + 2];
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+  }
+  const colors: ColorBox = [...counts].map(([key, count]) => ({
+    r: key >> 16,
+    g: (key >> 8) & 255,
+    b: key & 255,
+    count,
+  }));
+  return { colors, hasTransparency };
+}
+
+const channelRange = (box: ColorBox, channel: "r" | "g" | "b") => {
+  let min = 255;
+  let max = 0;
+  for (const color of box) {
+    min = Math.min(min, color[channel]);
+    max = Math.max(max, color[channel]);
+  }
+  return max - min;
+};
+
+// Median cut: split the box with the widest channel at its weighted median
+// until there are enough boxes, then average each box
+function buildPalette(colors: ColorBox, maxColors: number): number[][] {
+  if (colors.length <= maxColors) {
+    return colors.map(({ r, g, b }) => [r, g, b]);
+  }
+  const boxes: ColorBox[] = [colors];
+  while (boxes.length < maxColors) {
+    let widest = { index: -1, channel: "r" as "r" | "g" | "b", range: 0 };
+    boxes.forEach((box, index) => {
+      if (box.length < 2) return;
+      for (const channel of ["r", "g", "b"] as const) {
+        const range = channelRange(box, channel);
+        if (range > widest.range) widest = { index, channel, range };
+      }
+    });
+    if (widest.index < 0) break;
+
+    const box = boxes[widest.index].sort(
+      (a, b) => a[widest.channel] - b[widest.channel]
+    );
+    const half = box.reduce((total, color) => total + color.count, 0) / 2;
+    let split = 0;
+    for (let seen = 0; split < box.length - 1; split++) {
+      seen += box[split].count;
+      if (seen >= half) break;
+    }
+    boxes.splice(
+      widest.index,
+      1,
+      box.slice(0, split + 1),
+      box.slice(split + 1)
+    );
+  }
+  return boxes.map((box) => {
+    const total = box.reduce((sum, color) => sum + color.count, 0);
+    return (["r", "g", "b"] as const).map((channel) =>
+      Math.round(
+        box.reduce((sum, color) => sum + color[channel] * color.count, 0) /
+          total
+      )
+    );
+  });
+}
+
+// Variable-length LZW codes packed into 255-byte sub-blocks
+function writeLzw(indices: Uint8Array, minCodeSize: number, out: number[]) {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+
+  const block: number[] = [];
+  let buffer = 0;
+  let bufferBits = 0;
+  const emit = (code: number) => {
+    buffer |= code << bufferBits;
+    bufferBits += codeSize;
+    while (bufferBits >= 8) {
+      block.push(buffer & 255);
+      buffer >>>= 8;
+      bufferBits -= 8;
+      if (block.length === 255) {
+        out.push(255, ...block);
+        block.length = 0;
+      }
+    }
+  };
+
+  out.push(minCodeSize);
+  emit(clearCode);
+  let current = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const key = (current << 8) | indices[i];
+    const code = table.get(key);
+    if (code !== undefined) {
+      current = code;
+      continue;
+    }
+    emit(current);
+    if (nextCode === 4096) {
+      emit(clearCode);
+      table = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    current = indices[i];
+  }
+  emit(current);
+  emit(endCode);
+  if (bufferBits > 0) block.push(buffer & 255);
+  if (block.length > 0) out.push(block.length, ...block);
+  out.push(0);
+}
+
+const writeUint16 = (out: number[], value: number) =>
+  out.push(value & 255, (value >> 8) & 255);
+
+export function encodeGif(frames: AnimationFrame[], delayMs: number): Blob {
+  const { width, height } = frames[0];
+  const { colors, hasTransparency } = collectColors(frames);
+  const palette = buildPalette(colors, MAX_GIF_COLORS);
+  // Index 0 is transparent when needed, the palette follows
+  const firstColor = hasTransparency ? 1 : 0;
+  const paletteBits = Math.max(
+    1,
+    Math.ceil(Math.log2(palette.length + firstColor))
+  );
+
+  const out: number[] = [];
+  for (const char of "GIF89a") out.push(char.charCodeAt(0));
+  writeUint16(out, width);
+  writeUint16(out, height);
+  out.push(0xf0 | (paletteBits - 1), 0, 0);
+  for (let i = 0; i < 1 << paletteBits; i++) {
+    const color = palette[i - firstColor] ?? [0, 0, 0];
+    out.push(...color);
+  }
+  // Netscape extension: loop forever
+  out.push(0x21, 0xff, 0x0b);
+  for (const char of "NETSCAPE2.0") out.push(char.charCodeAt(0));
+  out.push(3, 1, 0, 0, 0);
+
+  const nearest = new Map<number, number>();
+  const getIndex = (r: number, g: number, b: number) => {
+    const key = (r << 16) | (g << 8) | b;
+    let index = nearest.get(key);
+    if (index === undefined) {
+      let best = Infinity;
+      index = 0;
+      palette.forEach(([pr, pg, pb], i) => {
+        const distance = (r - pr) ** 2 + (g - pg) ** 2 + (b - pb) ** 2;
+        if (distance < best) {
+          best = distance;
+          index = i;
+        }
+      });
+      index += firstColor;
+      nearest.set(key, index);
+    }
+    return index;
+  };
+
+  const delay = Math.max(2, Math.round(delayMs / 10));
+  for (const { data } of frames) {
+    // Graphic control: delay, restore to background so transparent pixels
+    // never show the previous frame
+    out.push(0x21, 0xf9, 4, hasTransparency ? 0x09 : 0x04);
+    writeUint16(out, delay);
+    out.push(0, 0);
+
+    out.push(0x2c);
+    writeUint16(out, 0);
+    writeUint16(out, 0);
+    writeUint16(out, width);
+    writeUint16(out, height);
+    out.push(0);
+
+    const indices = new Uint8Array(width * height);
+    for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+      indices[p] =
+        data[i + 3] < ALPHA_THRESHOLD
+          ? 0
+          : getIndex(data[i], data[i + 1], data[i + 2]);
+    }
+    writeLzw(indices, Math.max(2, paletteBits), out);
+  }
+  out.push(0x3b);
+  return new Blob([new Uint8Array(out)], { type: "image/gif" });
+}
+
+// ---------------------------------------------------------------------------
+// APNG
+// ---------------------------------------------------------------------------
+
+async function deflate(bytes: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([bytes as BlobPart])
+    .stream()
+    .pipeThrough(new CompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// Scanlines with the "up" filter, which suits flat QR artwork
+function filterScanlines({ width, height, data }: AnimationFrame) {
+  const stride = width * 4;
+  const filtered = new Uint8Array((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    const row = y * (stride + 1);
+    filtered[row] = 2;
+    for (let x = 0; x < stride; x++) {
+      const above = y > 0 ? data[(y - 1) * stride + x] : 0;
+      filtered[row + 1 + x] = (data[y * stride + x] - above) & 255;
+    }
+  }
+  return filtered;
+}
+
+export async function encodeApng(
+  frames: AnimationFrame[],
+  delayMs: number
+): Promise<Blob> {
+  const { width, height } = frames[0];
+  const chunks: Uint8Array[] = [PNG_SIGNATURE];
+
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header.set([8, 6, 0, 0, 0], 8);
+  chunks.push(createPngChunk("IHDR", header));
+
+  const animation = new Uint8Array(8);
+  new DataView(animation.buffer).setUint32(0, frames.length);
+  chunks.push(createPngChunk("acTL", animation));
+
+  let sequence = 0;
+  for (const [index, frame] of frames.entries()) {
+    const control = new Uint8Array(26);
+    const controlView = new DataView(control.buffer);
+    controlView.setUint32(0, sequence++);
+    controlView.setUint32(4, width);
+    controlView.setUint32(8, height);
+    controlView.setUint16(20, Math.round(delayMs));
+    controlView.setUint16(22, 1000);
+    chunks.push(createPngChunk("fcTL", control));
+
+    const compressed = await deflate(filterScanlines(frame));
+    if (index === 0) {
+      chunks.push(createPngChunk("IDAT", compressed));
+    } else {
+      const data = new Uint8Array(4 + compressed.length);
+      new DataView(data.buffer).setUint32(0, sequence++);
+      data.set(compressed, 4);
+      chunks.push(createPngChunk("fdAT", data));
+    }
+  }
+  chunks.push(createPngChunk("IEND", new Uint8Array(0)));
+  return new Blob(chunks as BlobPart[], { type: "image/png" });
+}
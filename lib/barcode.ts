@@ -0,0 +1,231 @@
+import { toSVG } from "bwip-js/browser";
+import { type FileExtension } from "qr-code-styling";
+import { rasterizeSVG } from "./symbology";
+
+/**
+ * Linear barcodes
+ *
+ * Code 128, EAN-13, UPC-A and ITF-14 are encoded with bwip-js. Numeric
+ * formats end in a GS1 check digit: it is appended when the value is one digit
+ * short and verified when it is complete. A BarcodeRenderer offers the same
+ * getRawData method as QRCodeStyling, so barcodes are exported with
+ * downloadQRCode and copyQRToClipboard like QR codes.
+ */
+
+export type BarcodeFormat = "code128" | "ean13" | "upca" | "itf14";
+
+export interface BarcodeFormatInfo {
+  id: BarcodeFormat;
+  label: string;
+  description: string;
+  placeholder: string;
+  // Number of digits including the check digit, null for free text
+  digits: number | null;
+  // Minimum quiet zone on each side, in modules
+  quietZone: [number, number];
+}
+
+export const barcodeFormats: BarcodeFormatInfo[] = [
+  {
+    id: "code128",
+    label: "Code 128",
+    description: "Letters, digits and symbols, for shipping and inventory",
+    placeholder: "SKU-10042",
+    digits: null,
+    quietZone: [10, 10],
+  },
+  {
+    id: "ean13",
+    label: "EAN-13",
+    description: "Retail products outside North America",
+    placeholder: "590123412345",
+    digits: 13,
+    quietZone: [11, 7],
+  },
+  {
+    id: "upca",
+    label: "UPC-A",
+    description: "Retail products in North America",
+    placeholder: "03600029145",
+    digits: 12,
+    quietZone: [9, 9],
+  },
+  {
+    id: "itf14",
+    label: "ITF-14",
+    description: "Shipping cartons of trade items",
+    placeholder: "1540014128876",
+    digits: 14,
+    // bwip-js keeps the quiet zones inside the bearer bars
+    quietZone: [0, 0],
+  },
+];
+
+export const getBarcodeFormat = (id: BarcodeFormat): BarcodeFormatInfo =>
+  barcodeFormats.find((format) => format.id === id) ?? barcodeFormats[0];
+
+export interface BarcodeOptions {
+  format: BarcodeFormat;
+  // Complete value as returned by validateBarcode
+  value: string;
+  // Width of the narrowest bar in pixels
+  barWidth: number;
+  // Height of the bars in pixels, without the text
+  barHeight: number;
+  showText: boolean;
+  quietZone: boolean;
+  foreground: string;
+  background: string;
+}
+
+export interface BarcodeValidation {
+  // Value to encode, including the check digit
+  value: string;
+  error: string | null;
+  // Set when the check digit was calculated rather than entered
+  addedCheckDigit?: string;
+}
+
+const MAX_CODE128_LENGTH = 80;
+
+// GS1 modulo 10 check digit of the digits that precede it
+export function calculateCheckDigit(digits: string): number {
+  const sum = Array.from(digits)
+    .reverse()
+    .reduce(
+      (total, digit, index) => total + Number(digit) * (index % 2 ? 1 : 3),
+      0
+    );
+  return (10 - (sum % 10)) % 10;
+}
+
+export function validateBarcode(
+  format: BarcodeFormat,
+  input: string
+): BarcodeValidation {
+  const info = getBarcodeFormat(format);
+
+  if (info.digits === null) {
+    const value = input.trim();
+    if (!value) return { value, error: "Enter a value to encode" };
+    if (!/^[\x20-\x7e]+$/.test(value)) {
+      return {
+        value,
+        error: `${info.label} only encodes letters, digits and ASCII symbols`,
+      };
+    }
+    if (value.length > MAX_CODE128_LENGTH) {
+      return {
+        value,
+        error: `Keep ${info.label} values under ${MAX_CODE128_LENGTH} characters so scanners can read them`,
+      };
+    }
+    return { value, error: null };
+  }
+
+  // Spaces and dashes are common in printed numbers
+  const value = input.replace(/[\s-]/g, "");
+  if (!value) return { value, error: "Enter a value to encode" };
+  if (!/^\d+$/.test(value)) {
+    return { value, error: `${info.label} only encodes digits` };
+  }
+  if (value.length === info.digits - 1) {
+    const checkDigit = String(calculateCheckDigit(value));
+    return {
+      value: value + checkDigit,
+      error: null,
+      addedCheckDigit: checkDigit,
+    };
+  }
+  if (value.length !== info.digits) {
+    return {
+      value,
+      error: `${info.label} needs ${info.digits - 1} digits, or ${info.digits} with the check digit`,
+    };
+  }
+  const checkDigit = calculateCheckDigit(value.slice(0, -1));
+  if (Number(value.slice(-1)) !== checkDigit) {
+    return {
+      value,
+      error: `Invalid check digit: the last digit should be ${checkDigit}`,
+    };
+  }
+  return { value, error: null };
+}
+
+const escapeAttribute = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;");
+
+// bwip-js works in points (1/72 inch) and takes the bar height in mm
+const pixelsToMillimeters = (pixels: number) => (pixels * 25.4) / 72;
+
+/**
+ * Renders the barcode as an SVG document. Bars, text and ITF-14 bearer bars
+ * use the foreground color. Throws when bwip-js rejects the value.
+ */
+export function renderBarcodeSVG(options: BarcodeOptions) {
+  const info = getBarcodeFormat(options.format);
+  const barWidth = Math.max(options.barWidth, 1);
+
+  let symbol: string;
+  try {
+    symbol = toSVG({
+      bcid: options.format,
+      text: options.value,
+      scale: barWidth,
+      height: pixelsToMillimeters(options.barHeight / barWidth),
+      includetext: options.showText,
+      textxalign: "center",
+    });
+  } catch (error) {
+    throw new Error(
+      String(error instanceof Error ? error.message : error).replace(
+        /^bwipp?\.\w+#\d+:\s*/,
+        ""
+      )
+    );
+  }
+
+  const viewBox = symbol.match(/viewBox="0 0 ([\d.]+) ([\d.]+)"/);
+  if (!viewBox) throw new Error("Unexpected barcode output");
+  const foreground = escapeAttribute(options.foreground);
+  const body = symbol
+    .replace(/^[\s\S]*?<svg[^>]*>/, "")
+    .replace(/<\/svg>\s*$/, "")
+    .replace(/"#000000"/g, `"${foreground}"`);
+
+  const [left, right] = options.quietZone
+    ? info.quietZone.map((modules) => modules * barWidth)
+    : [0, 0];
+  // A little room above and below the bars
+  const vertical = options.quietZone ? 2 * barWidth : 0;
+  const width = Number(viewBox[1]) + left + right;
+  const height = Number(viewBox[2]) + 2 * vertical;
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<rect width="${width}" height="${height}" fill="${escapeAttribute(options.background)}"/>`,
+    `<g transform="translate(${left} ${vertical})" fill="${foreground}">`,
+    body,
+    "</g>",
+    "</svg>",
+  ].join("");
+  return { svg, width, height };
+}
+
+// Export source for barcodes, interchangeable with a QRCodeStyling instance
+export class BarcodeRenderer {
+  private options: BarcodeOptions;
+
+  constructor(options: BarcodeOptions) {
+    this.options = options;
+  }
+
+  async getRawData(extension: FileExtension = "png"): Promise<Blob | null> {
+    const { svg, width, height } = renderBarcodeSVG(this.options);
+    if (extension === "svg") {
+      return new Blob([svg], { type: "image/svg+xml" });
+    }
+    return rasterizeSVG(svg, width, height, `image/${extension}`);
+  }
+}
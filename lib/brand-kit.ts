@@ -0,0 +1,381 @@
+import Dexie, { type Table } from "dexie";
+import {
+  calculateContrastRatio,
+  calculateWorstCaseContrast,
+  type ColorFill,
+  getContrastLevel,
+  hexToRgb,
+  isCorrectQRPattern,
+} from "./contrast-utils";
+import { type FramePreset, framePresets } from "./qr-frame";
+import { type QRCodeState } from "./qr-state";
+import { getColorFill, type QRGradient } from "./qr-utils";
+
+/**
+ * Brand kits
+ *
+ * A brand kit lists the colors, logos, frame texts and fonts a company allows
+ * in its QR codes. With brand lock enabled the generator only offers those
+ * values and snaps any other value (presets, randomize, shared designs) to
+ * the closest allowed one. An empty list leaves that setting unrestricted.
+ *
+ * Contrast checks follow the scanning thresholds documented in qr-utils.ts:
+ * dark modules on a light background with a ratio of at least 4.5:1.
+ */
+
+export interface BrandKit {
+  id?: number;
+  name: string;
+  // Lowercase #rrggbb values
+  colors: string[];
+  // Image data URLs, image URLs or text/emoji logos
+  logos: string[];
+  frameTexts: string[];
+  // CSS font-family values
+  fonts: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type BrandKitInput = Omit<BrandKit, "id" | "createdAt" | "updatedAt">;
+
+export interface BrandSettings {
+  activeKitId: number | null;
+  isLocked: boolean;
+}
+
+export interface BrandContrastCheck {
+  foreground: string;
+  background: string;
+  ratio: number;
+  level: ReturnType<typeof getContrastLevel>["level"];
+  description: string;
+  meetsMinimum: boolean;
+}
+
+export interface DesignContrastIssue extends BrandContrastCheck {
+  label: string;
+}
+
+// Color settings of QRCodeState that a brand kit restricts
+export const BRAND_COLOR_FIELDS = [
+  "dotsColor",
+  "cornersSquareColor",
+  "cornersDotColor",
+  "backgroundColor",
+  "frameColor",
+  "textColor",
+] as const;
+
+const BRAND_GRADIENT_FIELDS = [
+  "dotsGradient",
+  "cornersSquareGradient",
+  "cornersDotGradient",
+  "backgroundGradient",
+] as const;
+
+const MIN_CONTRAST_RATIO = 4.5;
+const MAX_BRAND_FRAME_PRESETS = 8;
+const SETTINGS_KEY = "freetools_qr_brand";
+
+export class BrandKitDatabase extends Dexie {
+  kits!: Table<BrandKit>;
+
+  constructor() {
+    super("QRBrandKits");
+    this.version(1).stores({
+      kits: "++id, name, updatedAt",
+    });
+  }
+}
+
+export const brandKitDb = new BrandKitDatabase();
+
+export const createEmptyBrandKit = (): BrandKitInput => ({
+  name: "",
+  colors: [],
+  logos: [],
+  frameTexts: [],
+  fonts: [],
+});
+
+// Expands #rgb and lowercases, returns null for anything else
+export const normalizeHexColor = (color: string): string | null => {
+  const value = color.trim().toLowerCase();
+  if (/^#[0-9a-f]{6}$/.test(value)) return value;
+  if (/^#[0-9a-f]{3}$/.test(value)) {
+    return `#${Array.from(value.slice(1), (c) => c + c).join("")}`;
+  }
+  return null;
+};
+
+const colorDistance = (a: string, b: string) => {
+  const rgbA = hexToRgb(a);
+  const rgbB = hexToRgb(b);
+  if (!rgbA || !rgbB) return Infinity;
+  return Math.hypot(rgbA.r - rgbB.r, rgbA.g - rgbB.g, rgbA.b - rgbB.b);
+};
+
+export const findNearestBrandColor = (color: string, palette: string[]) =>
+  palette.reduce((nearest, candidate) =>
+    colorDistance(color, candidate) < colorDistance(color, nearest)
+      ? candidate
+      : nearest
+  );
+
+const unique = (values: string[]) =>
+  Array.from(new Set(values.map((value) => value.trim()).filter(Boolean)));
+
+// Cleans user input before a kit is stored
+export const sanitizeBrandKit = (kit: BrandKitInput): BrandKitInput => ({
+  name: kit.name.trim(),
+  colors: unique(
+    kit.colors
+      .map(normalizeHexColor)
+      .filter((color): color is string => !!color)
+  ),
+  logos: unique(kit.logos),
+  frameTexts: unique(kit.frameTexts),
+  fonts: unique(kit.fonts),
+});
+
+/**
+ * Returns the state changes needed to bring a design within the kit.
+ * Colors snap to the nearest brand color; logos, frame texts and fonts fall
+ * back to the first allowed value. An empty object means the design complies.
+ */
+export function constrainToBrandKit(
+  state: QRCodeState,
+  kit: BrandKit
+): Partial<QRCodeState> {
+  const updates: Partial<QRCodeState> = {};
+
+  if (kit.colors.length > 0) {
+    const toBrandColor = (value: string) => {
+      const color = normalizeHexColor(value);
+      return color && kit.colors.includes(color)
+        ? color
+        : findNearestBrandColor(color || value, kit.colors);
+    };
+
+    for (const field of BRAND_COLOR_FIELDS) {
+      if (toBrandColor(state[field]) !== normalizeHexColor(state[field])) {
+        updates[field] = toBrandColor(state[field]);
+      }
+    }
+    for (const field of BRAND_GRADIENT_FIELDS) {
+      const gradient = state[field];
+      if (
+        gradient?.colorStops.some(
+          (stop) => toBrandColor(stop.color) !== normalizeHexColor(stop.color)
+        )
+      ) {
+        updates[field] = {
+          ...gradient,
+          colorStops: gradient.colorStops.map((stop) => ({
+            ...stop,
+            color: toBrandColor(stop.color),
+          })),
+        } satisfies QRGradient;
+      }
+    }
+  }
+  if (kit.logos.length > 0 && state.logo && !kit.logos.includes(state.logo)) {
+    updates.logo = kit.logos[0];
+  }
+  if (
+    kit.frameTexts.length > 0 &&
+    state.frameLines.some((line) => !kit.frameTexts.includes(line.text))
+  ) {
+    updates.frameLines = state.frameLines.map((line) =>
+      kit.frameTexts.includes(line.text)
+        ? line
+        : { ...line, text: kit.frameTexts[0] }
+    );
+  }
+  if (kit.fonts.length > 0 && !kit.fonts.includes(state.frameFont)) {
+    updates.frameFont = kit.fonts[0];
+  }
+  return updates;
+}
+
+const checkContrast = (
+  foreground: string,
+  background: string,
+  ratio: number = calculateContrastRatio(foreground, background)
+): BrandContrastCheck => {
+  const { level, description, meetsMinimum } = getContrastLevel(
+    ratio,
+    foreground,
+    background
+  );
+  return { foreground, background, ratio, level, description, meetsMinimum };
+};
+
+/**
+ * Every dark-on-light pairing of the palette that could be used for dots and
+ * background, sorted from best to worst contrast.
+ */
+export function getBrandPaletteContrast(
+  kit: Pick<BrandKit, "colors">
+): BrandContrastCheck[] {
+  const checks: BrandContrastCheck[] = [];
+  for (const foreground of kit.colors) {
+    for (const background of kit.colors) {
+      if (
+        foreground !== background &&
+        isCorrectQRPattern(foreground, background)
+      ) {
+        checks.push(checkContrast(foreground, background));
+      }
+    }
+  }
+  return checks.sort((a, b) => b.ratio - a.ratio);
+}
+
+/**
+ * Color combinations of the current design that fail the scanning
+ * thresholds. Gradients are judged by their worst-case color pair.
+ */
+export function getDesignContrastIssues(
+  state: QRCodeState
+): DesignContrastIssue[] {
+  // Symbologies other than QR are drawn in the solid dots and background
+  // colors only
+  const isQR = state.symbology === "qr";
+  const background = isQR
+    ? getColorFill(state.backgroundColor, state.backgroundGradient)
+    : state.backgroundColor;
+  const pairs: [string, ColorFill][] = isQR
+    ? [
+        ["Dots", getColorFill(state.dotsColor, state.dotsGradient)],
+        [
+          "Corner squares",
+          getColorFill(state.cornersSquareColor, state.cornersSquareGradient),
+        ],
+        [
+          "Corner dots",
+          getColorFill(state.cornersDotColor, state.cornersDotGradient),
+        ],
+      ]
+    : [["Modules", state.dotsColor]];
+  const issues: DesignContrastIssue[] = pairs
+    .map(([label, foreground]) => {
+      const worst = calculateWorstCaseContrast(foreground, background);
+      return {
+        label,
+        ...checkContrast(
+          worst.foregroundColor,
+          worst.backgroundColor,
+          worst.ratio
+        ),
+      };
+    })
+    .filter((issue) => !issue.meetsMinimum);
+
+  // Frame text is not scanned, only its legibility matters. Outline frames
+  // put the text on the code's background
+  if (state.hasFrame) {
+    const textBackground =
+      state.frameStyle === "outline" ? state.backgroundColor : state.frameColor;
+    const ratio = calculateContrastRatio(state.textColor, textBackground);
+    if (ratio < MIN_CONTRAST_RATIO) {
+      issues.push({
+        label: "Frame text",
+        foreground: state.textColor,
+        background: textBackground,
+        ratio,
+        level: ratio >= 3 ? "aa-large" : "fail",
+        description: "Frame text is hard to read",
+        meetsMinimum: false,
+      });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Frame presets that only use brand colors: the built-in presets that fit
+ * the palette, followed by readable frame/text pairs from the palette.
+ */
+export function getBrandFramePresets(
+  kit: Pick<BrandKit, "colors">
+): FramePreset[] {
+  const matching = framePresets.filter(
+    (preset) =>
+      kit.colors.includes(normalizeHexColor(preset.frameColor) || "") &&
+      kit.colors.includes(normalizeHexColor(preset.textColor) || "")
+  );
+
+  const derived: FramePreset[] = [];
+  for (const frame of kit.colors) {
+    for (const text of kit.colors) {
+      if (
+        frame !== text &&
+        calculateContrastRatio(frame, text) >= MIN_CONTRAST_RATIO &&
+        !matching.some(
+          (preset) =>
+            normalizeHexColor(preset.frameColor) === frame &&
+            normalizeHexColor(preset.textColor) === text
+        )
+      ) {
+        derived.push({
+          id: `brand-${frame.slice(1)}-${text.slice(1)}`,
+          name: `${frame} / ${text}`,
+          frameColor: frame,
+          textColor: text,
+          shape: "rounded",
+          style: "solid",
+          arrow: "none",
+        });
+      }
+    }
+  }
+  return [...matching, ...derived].slice(0, MAX_BRAND_FRAME_PRESETS);
+}
+
+// Helper functions for managing brand kits
+export const brandKitStorage = {
+  async getKits(): Promise<BrandKit[]> {
+    return await brandKitDb.kits.orderBy("name").toArray();
+  },
+
+  async saveKit(kit: BrandKitInput, id?: number): Promise<number> {
+    const now = new Date();
+    const data = sanitizeBrandKit(kit);
+    if (id !== undefined) {
+      await brandKitDb.kits.update(id, { ...data, updatedAt: now });
+      return id;
+    }
+    return await brandKitDb.kits.add({
+      ...data,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+
+  async deleteKit(id: number): Promise<void> {
+    await brandKitDb.kits.delete(id);
+  },
+
+  loadSettings(): BrandSettings {
+    try {
+      const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || "{}");
+      return {
+        activeKitId:
+          typeof stored.activeKitId === "number" ? stored.activeKitId : null,
+        isLocked: stored.isLocked === true,
+      };
+    } catch {
+      return { activeKitId: null, isLocked: false };
+    }
+  },
+
+  saveSettings(settings: BrandSettings) {
+    try {
+      localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    } catch {
+      // Storage can be unavailable, the lock then lasts for this visit only
+    }
+  },
+};
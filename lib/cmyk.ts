@@ -0,0 +1,158 @@
+import { hexToRgbValues, rgbToHex } from "./color-adjustment";
+
+/**
+ * CMYK print colors
+ *
+ * Screens mix light, presses mix ink, and saturated screen colors such as
+ * pure green or bright blue have no ink equivalent: they print noticeably
+ * duller. Colors are compared in CIE Lab against an approximation of a coated
+ * offset gamut (FOGRA39 / GRACoL class) and out-of-gamut colors get the
+ * closest printable color of the same hue as a suggestion.
+ */
+
+export interface CMYK {
+  c: number;
+  m: number;
+  y: number;
+  k: number;
+}
+
+export interface GamutCheck {
+  inGamut: boolean;
+  // Closest color of the same hue the press can reach
+  suggestion: string;
+}
+
+interface Lab {
+  l: number;
+  a: number;
+  b: number;
+}
+
+// D65 reference white
+const WHITE = { x: 0.95047, y: 1, z: 1.08883 };
+
+const toLinear = (channel: number) => {
+  const c = channel / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+};
+
+const fromLinear = (value: number) => {
+  const c =
+    value <= 0.0031308
+      ? value * 12.92
+      : 1.055 * Math.pow(value, 1 / 2.4) - 0.055;
+  return Math.round(Math.min(1, Math.max(0, c)) * 255);
+};
+
+function hexToLab(hex: string): Lab | null {
+  const rgb = hexToRgbValues(hex);
+  if (!rgb) return null;
+  const r = toLinear(rgb.r);
+  const g = toLinear(rgb.g);
+  const b = toLinear(rgb.b);
+  const f = (t: number) => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116);
+  const fx = f((0.4124 * r + 0.3576 * g + 0.1805 * b) / WHITE.x);
+  const fy = f((0.2126 * r + 0.7152 * g + 0.0722 * b) / WHITE.y);
+  const fz = f((0.0193 * r + 0.1192 * g + 0.9505 * b) / WHITE.z);
+  return { l: 116 * fy - 16, a: 500 * (fx - fy), b: 200 * (fy - fz) };
+}
+
+function labToHex({ l, a, b }: Lab): string {
+  const fy = (l + 16) / 116;
+  const fx = fy + a / 500;
+  const fz = fy - b / 200;
+  const f = (t: number) => (t > 0.206893 ? t * t * t : (t - 16 / 116) / 7.787);
+  const x = f(fx) * WHITE.x;
+  const y = f(fy) * WHITE.y;
+  const z = f(fz) * WHITE.z;
+  return rgbToHex(
+    fromLinear(3.2406 * x - 1.5372 * y - 0.4986 * z),
+    fromLinear(-0.9689 * x + 1.8758 * y + 0.0415 * z),
+    fromLinear(0.0557 * x - 0.204 * y + 1.057 * z)
+  );
+}
+
+// Most saturated printable color per hue angle: its lightness and chroma,
+// measured from the process inks and their overprints
+const gamutPeaks: { hue: number; lightness: number; chroma: number }[] = [
+  { hue: 0, lightness: 48, chroma: 74 },
+  { hue: 35, lightness: 47, chroma: 83 },
+  { hue: 60, lightness: 62, chroma: 80 },
+  { hue: 93, lightness: 89, chroma: 93 },
+  { hue: 157, lightness: 50, chroma: 70 },
+  { hue: 233, lightness: 55, chroma: 62 },
+  { hue: 296, lightness: 24, chroma: 51 },
+  { hue: 358, lightness: 48, chroma: 74 },
+  { hue: 360, lightness: 48, chroma: 74 },
+];
+
+// Differences below this are not visible in print
+const TOLERANCE = 5;
+
+function getGamutPeak(hue: number) {
+  const index = Math.max(
+    gamutPeaks.findIndex((peak) => peak.hue >= hue),
+    1
+  );
+  const upper = gamutPeaks[index];
+  const lower = gamutPeaks[index - 1];
+  const t = (hue - lower.hue) / (upper.hue - lower.hue || 1);
+  return {
+    lightness: lower.lightness + t * (upper.lightness - lower.lightness),
+    chroma: lower.chroma + t * (upper.chroma - lower.chroma),
+  };
+}
+
+// Chroma falls off from the peak towards paper white and towards black
+function getMaxChroma(lightness: number, hue: number): number {
+  const peak = getGamutPeak(hue);
+  const share =
+    lightness <= peak.lightness
+      ? lightness / peak.lightness
+      : (100 - lightness) / (100 - peak.lightness);
+  return peak.chroma * Math.sqrt(Math.min(1, Math.max(0, share)));
+}
+
+export function checkCMYKGamut(hex: string): GamutCheck {
+  const lab = hexToLab(hex);
+  if (!lab) return { inGamut: true, suggestion: hex };
+  const chroma = Math.hypot(lab.a, lab.b);
+  const hue = ((Math.atan2(lab.b, lab.a) * 180) / Math.PI + 360) % 360;
+  const maxChroma = getMaxChroma(lab.l, hue);
+  if (chroma <= maxChroma + TOLERANCE)
+    return { inGamut: true, suggestion: hex };
+
+  // Closest printable color, darkening towards the hue's peak where needed:
+  // screen yellow or green is lighter than any printed yellow or green
+  const peakLightness = Math.min(lab.l, getGamutPeak(hue).lightness);
+  let best = { distance: Infinity, lab };
+  for (let step = 0; step <= 10; step++) {
+    const l = lab.l + ((peakLightness - lab.l) * step) / 10;
+    const scale = Math.min(chroma, getMaxChroma(l, hue)) / chroma;
+    const candidate = { l, a: lab.a * scale, b: lab.b * scale };
+    const distance = Math.hypot(
+      candidate.l - lab.l,
+      candidate.a - lab.a,
+      candidate.b - lab.b
+    );
+    if (distance < best.distance) best = { distance, lab: candidate };
+  }
+  return { inGamut: false, suggestion: labToHex(best.lab) };
+}
+
+// Device CMYK without an ICC profile, values from 0 to 1
+export function hexToCMYK(hex: string): CMYK {
+  const rgb = hexToRgbValues(hex) ?? { r: 0, g: 0, b: 0 };
+  const r = rgb.r / 255;
+  const g = rgb.g / 255;
+  const b = rgb.b / 255;
+  const k = 1 - Math.max(r, g, b);
+  if (k >= 1) return { c: 0, m: 0, y: 0, k: 1 };
+  return {
+    c: (1 - r - k) / (1 - k),
+    m: (1 - g - k) / (1 - k),
+    y: (1 - b - k) / (1 - k),
+    k,
+  };
+}
@@ -187,3 +187,88 @@ export function suggestBetterColors(
 
   return { suggestions, message };
 }
+
+export interface GradientColorStop {
+  offset: number; // 0-1
+  color: string;
+}
+
+/**
+ * A solid color or the stops of a gradient
+ */
+export type ColorFill = string | GradientColorStop[];
+
+const toHex = (value: number) =>
+  Math.round(value).toString(16).padStart(2, "0");
+
+/**
+ * Samples the colors a gradient passes through. Gradients are interpolated
+ * in sRGB, where luminance is not linear, so points between the stops are
+ * included as well.
+ */
+export function sampleGradientColors(
+  stops: GradientColorStop[],
+  samplesPerSegment: number = 8
+): string[] {
+  const sorted = [...stops].sort((a, b) => a.offset - b.offset);
+  const colors: string[] = [];
+
+  for (let i = 0; i < sorted.length; i++) {
+    colors.push(sorted[i].color);
+    const from = hexToRgb(sorted[i].color);
+    const to = i + 1 < sorted.length ? hexToRgb(sorted[i + 1].color) : null;
+    if (!from || !to) continue;
+
+    for (let step = 1; step < samplesPerSegment; step++) {
+      const t = step / samplesPerSegment;
+      colors.push(
+        `#${toHex(from.r + (to.r - from.r) * t)}${toHex(
+          from.g + (to.g - from.g) * t
+        )}${toHex(from.b + (to.b - from.b) * t)}`
+      );
+    }
+  }
+  return colors;
+}
+
+const getFillColors = (fill: ColorFill) =>
+  typeof fill === "string"
+    ? [fill === "transparent" ? "#ffffff" : fill]
+    : sampleGradientColors(fill);
+
+const getColorLuminance = (color: string) => {
+  const rgb = hexToRgb(color);
+  return rgb ? getLuminance(rgb.r, rgb.g, rgb.b) : 0;
+};
+
+/**
+ * Worst-case contrast between a foreground and a background that may each
+ * be a gradient: the lowest contrast of any foreground color against any
+ * background color, whichever of the two is lighter. Pass the returned
+ * colors to getContrastLevel to also catch inverted patterns.
+ */
+export function calculateWorstCaseContrast(
+  foreground: ColorFill,
+  background: ColorFill
+): { ratio: number; foregroundColor: string; backgroundColor: string } {
+  const withLuminance = (colors: string[]) =>
+    colors.map((color) => ({ color, luminance: getColorLuminance(color) }));
+
+  const backgroundColors = withLuminance(getFillColors(background));
+  let worst = {
+    ratio: Infinity,
+    foregroundColor: "",
+    backgroundColor: "",
+  };
+  for (const fg of withLuminance(getFillColors(foreground))) {
+    for (const bg of backgroundColors) {
+      const ratio =
+        (Math.max(fg.luminance, bg.luminance) + 0.05) /
+        (Math.min(fg.luminance, bg.luminance) + 0.05);
+      if (ratio < worst.ratio) {
+        worst = { ratio, foregroundColor: fg.color, backgroundColor: bg.color };
+      }
+    }
+  }
+  return worst;
+}
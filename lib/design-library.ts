@@ -0,0 +1,251 @@
+import Dexie, { type Table } from "dexie";
+import QRCodeStyling from "qr-code-styling";
+import {
+  DESIGN_SCHEMA_VERSION,
+  type QRDesign,
+  restoreDesign,
+  type UnvalidatedDesign,
+} from "./qr-design-link";
+import {
+  applyBackgroundImage,
+  qrRawDataToBlob,
+  resolveLogoImage,
+  type StyledQROptions,
+} from "./qr-utils";
+
+/**
+ * Saved design library
+ *
+ * Named QR designs kept in IndexedDB so they survive reloads. Each entry
+ * stores the full design (uploaded logos included), a PNG thumbnail and free
+ * form tags. Libraries can be exported to JSON and imported elsewhere;
+ * imported designs go through the same schema migration as design links.
+ */
+
+export interface SavedDesign {
+  id?: number;
+  name: string;
+  tags: string[];
+  design: QRDesign;
+  schemaVersion: number;
+  // PNG data URL, empty when no thumbnail could be rendered
+  thumbnail: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface DesignLibraryExport {
+  format: typeof EXPORT_FORMAT;
+  exportedAt: string;
+  designs: {
+    name: string;
+    tags: string[];
+    schemaVersion: number;
+    design: QRDesign;
+    thumbnail: string;
+    createdAt: string;
+    updatedAt: string;
+  }[];
+}
+
+export interface DesignImportResult {
+  imported: number;
+  // Designs where some settings could not be restored
+  partial: number;
+  skipped: number;
+}
+
+const EXPORT_FORMAT = "freetools-qr-design-library";
+const THUMBNAIL_SIZE = 160;
+
+export class DesignLibraryDatabase extends Dexie {
+  designs!: Table<SavedDesign>;
+
+  constructor() {
+    super("QRDesignLibrary");
+    this.version(1).stores({
+      designs: "++id, name, *tags, createdAt, updatedAt",
+    });
+  }
+}
+
+export const designDb = new DesignLibraryDatabase();
+
+// Trimmed, de-duplicated tags from a comma separated string or a list
+export const normalizeTags = (tags: string | unknown[]): string[] => {
+  const list = typeof tags === "string" ? tags.split(",") : tags;
+  return Array.from(
+    new Set(
+      list
+        .filter((tag): tag is string => typeof tag === "string")
+        .map((tag) => tag.trim().toLowerCase())
+        .filter(Boolean)
+    )
+  );
+};
+
+const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Renders a small PNG of the design off-screen
+export async function createDesignThumbnail(
+  options: StyledQROptions
+): Promise<string> {
+  const scale = THUMBNAIL_SIZE / (options.width || 300);
+  const qrInstance = new QRCodeStyling({
+    ...options,
+    type: "canvas",
+    width: THUMBNAIL_SIZE,
+    height: THUMBNAIL_SIZE,
+    margin: Math.round((options.margin || 0) * scale),
+    image: resolveLogoImage(options.image, THUMBNAIL_SIZE, THUMBNAIL_SIZE),
+  });
+  applyBackgroundImage(qrInstance, options.backgroundImage);
+  const blob = qrRawDataToBlob(await qrInstance.getRawData("png"), "image/png");
+  if (!blob) throw new Error("Failed to render design thumbnail");
+  return blobToDataUrl(blob);
+}
+
+const isImageDataUrl = (value: unknown): value is string =>
+  typeof value === "string" && value.startsWith("data:image/");
+
+const parseDate = (value: unknown, fallback: Date) => {
+  const date = new Date(typeof value === "string" ? value : NaN);
+  return isNaN(date.getTime()) ? fallback : date;
+};
+
+// Helper functions for managing saved designs
+export const designLibrary = {
+  async getDesigns(): Promise<SavedDesign[]> {
+    return await designDb.designs.orderBy("updatedAt").reverse().toArray();
+  },
+
+  async saveDesign(
+    name: string,
+    tags: string[],
+    design: QRDesign,
+    thumbnail: string
+  ): Promise<number> {
+    const now = new Date();
+    return await designDb.designs.add({
+      name: name.trim(),
+      tags: normalizeTags(tags),
+      design,
+      schemaVersion: DESIGN_SCHEMA_VERSION,
+      thumbnail,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+
+  async updateDesign(
+    id: number,
+    updates: Partial<
+      Pick<SavedDesign, "name" | "tags" | "design" | "thumbnail">
+    >
+  ): Promise<void> {
+    await designDb.designs.update(id, {
+      ...updates,
+      ...(updates.name !== undefined && { name: updates.name.trim() }),
+      ...(updates.tags && { tags: normalizeTags(updates.tags) }),
+      ...(updates.design && { schemaVersion: DESIGN_SCHEMA_VERSION }),
+      updatedAt: new Date(),
+    });
+  },
+
+  async duplicateDesign(id: number): Promise<number> {
+    const original = await designDb.designs.get(id);
+    if (!original) throw new Error("Design not found");
+    const now = new Date();
+    return await designDb.designs.add({
+      name: `${original.name} (copy)`,
+      tags: original.tags,
+      design: original.design,
+      schemaVersion: original.schemaVersion,
+      thumbnail: original.thumbnail,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+
+  async deleteDesign(id: number): Promise<void> {
+    await designDb.designs.delete(id);
+  },
+
+  // Migrates designs saved with an older schema before they are applied
+  loadDesign(saved: SavedDesign) {
+    return restoreDesign(saved.design, saved.schemaVersion);
+  },
+
+  async exportDesigns(ids?: number[]): Promise<string> {
+    const designs = ids
+      ? (await designDb.designs.bulkGet(ids)).filter(
+          (design): design is SavedDesign => !!design
+        )
+      : await this.getDesigns();
+    const data: DesignLibraryExport = {
+      format: EXPORT_FORMAT,
+      exportedAt: new Date().toISOString(),
+      designs: designs.map((saved) => ({
+        name: saved.name,
+        tags: saved.tags,
+        schemaVersion: saved.schemaVersion,
+        design: saved.design,
+        thumbnail: saved.thumbnail,
+        createdAt: saved.createdAt.toISOString(),
+        updatedAt: saved.updatedAt.toISOString(),
+      })),
+    };
+    return JSON.stringify(data, null, 2);
+  },
+
+  async importDesigns(json: string): Promise<DesignImportResult> {
+    let data: Partial<DesignLibraryExport>;
+    try {
+      data = JSON.parse(json);
+    } catch {
+      throw new Error("The file is not valid JSON");
+    }
+    if (data?.format !== EXPORT_FORMAT || !Array.isArray(data.designs)) {
+      throw new Error("The file is not a QR design library export");
+    }
+
+    const now = new Date();
+    const result: DesignImportResult = { imported: 0, partial: 0, skipped: 0 };
+    const entries: SavedDesign[] = [];
+    for (const entry of data.designs as unknown[]) {
+      const item = (entry || {}) as Record<string, unknown>;
+      const name = typeof item.name === "string" ? item.name.trim() : "";
+      if (!name || !item.design || typeof item.design !== "object") {
+        result.skipped++;
+        continue;
+      }
+
+      const version =
+        typeof item.schemaVersion === "number" ? item.schemaVersion : 0;
+      const { design, status } = restoreDesign(
+        item.design as UnvalidatedDesign,
+        version
+      );
+      if (status === "partial") result.partial++;
+      entries.push({
+        name,
+        tags: Array.isArray(item.tags) ? normalizeTags(item.tags) : [],
+        design,
+        schemaVersion: DESIGN_SCHEMA_VERSION,
+        thumbnail: isImageDataUrl(item.thumbnail) ? item.thumbnail : "",
+        createdAt: parseDate(item.createdAt, now),
+        updatedAt: parseDate(item.updatedAt, now),
+      });
+    }
+
+    await designDb.designs.bulkAdd(entries);
+    result.imported = entries.length;
+    return result;
+  },
+};
@@ -0,0 +1,156 @@
+/**
+ * Dynamic QR codes
+ *
+ * A dynamic QR code encodes a short path (`/r/<slug>`) instead of the final
+ * URL. The redirect route looks the slug up in the redirect registry, so the
+ * target can change after the code has been printed.
+ *
+ * The registry API only exists in server builds (`npm run build:server`);
+ * static exports can still generate the codes but cannot store targets.
+ * Managing redirects needs the REDIRECT_ADMIN_TOKEN of the server, which
+ * the browser keeps in localStorage once entered.
+ */
+
+export interface RedirectEntry {
+  slug: string;
+  target: string;
+  createdAt: string;
+  updatedAt: string;
+  hits: number;
+}
+
+export const REDIRECT_PATH_PREFIX = "/r/";
+const REDIRECT_API = "/api/redirects/";
+const ADMIN_TOKEN_KEY = "redirect-admin-token";
+const SLUG_ALPHABET =
+  "abcdefghijkmnopqrstuvwxyzABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+export const isValidRedirectSlug = (slug: string) =>
+  /^[A-Za-z0-9_-]{1,64}$/.test(slug);
+
+// Returns an error message, or null when the target can be redirected to
+export const validateRedirectTarget = (target: string): string | null => {
+  if (!target.trim()) return "Enter the URL the code should open";
+  try {
+    const url = new URL(target);
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      return "Only http and https URLs can be redirect targets";
+    }
+    return null;
+  } catch {
+    return "Enter a valid URL including https://";
+  }
+};
+
+// With the trailing slash the URL needs no extra redirect (trailingSlash in
+// next.config.mjs) before the one to the target
+export const buildDynamicQRUrl = (baseUrl: string, slug: string) =>
+  `${baseUrl.replace(/\/+$/, "")}${REDIRECT_PATH_PREFIX}${slug}/`;
+
+// Returns an error message, or null when codes encoding `baseUrl` can be
+// saved from a page on `origin`. The registry API sends no CORS headers,
+// so the redirect server has to be the site the page runs on.
+export const validateRedirectServer = (
+  baseUrl: string,
+  origin: string
+): string | null => {
+  let serverOrigin: string;
+  try {
+    serverOrigin = new URL(baseUrl).origin;
+  } catch {
+    return "Enter the redirect server URL including https://";
+  }
+  if (serverOrigin !== origin) {
+    return `Redirects can only be saved to this site (${origin}). Open the generator on ${serverOrigin} to save codes for that server`;
+  }
+  return null;
+};
+
+// Short random slug without look-alike characters (0/O, 1/l/I)
+export const generateRedirectSlug = (length: number = 6) => {
+  const bytes = new Uint8Array(length);
+  crypto.getRandomValues(bytes);
+  return Array.from(
+    bytes,
+    (byte) => SLUG_ALPHABET[byte % SLUG_ALPHABET.length]
+  ).join("");
+};
+
+export const loadRegistryToken = () =>
+  typeof window === "undefined"
+    ? ""
+    : (localStorage.getItem(ADMIN_TOKEN_KEY) ?? "");
+
+export const saveRegistryToken = (token: string) => {
+  if (token) localStorage.setItem(ADMIN_TOKEN_KEY, token);
+  else localStorage.removeItem(ADMIN_TOKEN_KEY);
+};
+
+async function requestRegistry<T>(
+  baseUrl: string,
+  path: string,
+  init?: RequestInit
+): Promise<T> {
+  const token = loadRegistryToken();
+  let response: Response;
+  try {
+    response = await fetch(
+      `${baseUrl.replace(/\/+$/, "")}${REDIRECT_API}${path}`,
+      {
+        ...init,
+        headers: {
+          "Content-Type": "application/json",
+          ...(token && { Authorization: `Bearer ${token}` }),
+          ...init?.headers,
+        },
+      }
+    );
+  } catch {
+    throw new Error("The redirect registry is not reachable");
+  }
+
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(
+      body?.error ||
+        (response.status === 404
+          ? "The redirect registry is only available in server builds"
+          : `Registry request failed (HTTP ${response.status})`)
+    );
+  }
+  return body as T;
+}
+
+/**
+ * Client for the redirect registry route handlers of the server at
+ * `baseUrl`, the same base the codes encode. Defaults to the current site.
+ */
+export const createRedirectRegistry = (baseUrl: string = "") => ({
+  async list(): Promise<RedirectEntry[]> {
+    const { entries } = await requestRegistry<{ entries: RedirectEntry[] }>(
+      baseUrl,
+      ""
+    );
+    return entries;
+  },
+
+  async save(slug: string, target: string): Promise<RedirectEntry> {
+    const { entry } = await requestRegistry<{ entry: RedirectEntry }>(
+      baseUrl,
+      "",
+      {
+        method: "POST",
+        body: JSON.stringify({ slug, target }),
+      }
+    );
+    return entry;
+  },
+
+  async remove(slug: string): Promise<void> {
+    await requestRegistry(baseUrl, `${encodeURIComponent(slug)}/`, {
+      method: "DELETE",
+    });
+  },
+});
+
+export const redirectRegistry = createRedirectRegistry();
@@ -0,0 +1,618 @@
+import { type FieldErrors, type PayloadResult } from "./qr-payloads";
+
+/**
+ * Bank payment payloads
+ *
+ * Builds EPC069-12 SEPA credit transfers ("GiroCode"), Swiss QR-bill payment
+ * parts and UPI payment URIs. Every field is checked the way banking apps
+ * check it: IBAN checksums, BIC format, amount limits and the check digits of
+ * structured references. Like the builders in qr-payloads.ts each returns the
+ * payload together with per-field errors and still produces the payload while
+ * there are errors.
+ *
+ * The parsers at the end read scanned payloads back into builder input.
+ */
+
+const byteLength = (value: string) => new TextEncoder().encode(value).length;
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+// IBAN length per country, from the SWIFT IBAN registry
+const IBAN_LENGTHS: Record<string, number> = {
+  AD: 24,
+  AE: 23,
+  AL: 28,
+  AT: 20,
+  AZ: 28,
+  BA: 20,
+  BE: 16,
+  BG: 22,
+  BH: 22,
+  BI: 27,
+  BR: 29,
+  BY: 28,
+  CH: 21,
+  CR: 22,
+  CY: 28,
+  CZ: 24,
+  DE: 22,
+  DJ: 27,
+  DK: 18,
+  DO: 28,
+  EE: 20,
+  EG: 29,
+  ES: 24,
+  FI: 18,
+  FK: 18,
+  FO: 18,
+  FR: 27,
+  GB: 22,
+  GE: 22,
+  GI: 23,
+  GL: 18,
+  GR: 27,
+  GT: 28,
+  HR: 21,
+  HU: 28,
+  IE: 22,
+  IL: 23,
+  IQ: 23,
+  IS: 26,
+  IT: 27,
+  JO: 30,
+  KW: 30,
+  KZ: 20,
+  LB: 28,
+  LC: 32,
+  LI: 21,
+  LT: 20,
+  LU: 20,
+  LV: 21,
+  LY: 25,
+  MC: 27,
+  MD: 24,
+  ME: 22,
+  MK: 19,
+  MN: 20,
+  MR: 27,
+  MT: 31,
+  MU: 30,
+  NI: 28,
+  NL: 18,
+  NO: 15,
+  OM: 23,
+  PK: 24,
+  PL: 28,
+  PS: 29,
+  PT: 25,
+  QA: 29,
+  RO: 24,
+  RS: 22,
+  RU: 33,
+  SA: 24,
+  SC: 31,
+  SD: 18,
+  SE: 24,
+  SI: 19,
+  SK: 24,
+  SM: 27,
+  SO: 23,
+  ST: 25,
+  SV: 28,
+  TL: 23,
+  TN: 24,
+  TR: 26,
+  UA: 29,
+  VA: 22,
+  VG: 24,
+  XK: 20,
+  YE: 30,
+};
+
+const MAX_BANK_AMOUNT = 999999999.99;
+
+// ISO 7064 MOD 97-10 over digits and letters, A counts as 10 up to Z as 35
+const mod97 = (value: string) => {
+  let remainder = 0;
+  for (const char of value) {
+    const digits = /[A-Z]/.test(char) ? String(char.charCodeAt(0) - 55) : char;
+    for (const digit of digits) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder;
+};
+
+// Check digits sit after the two-letter prefix and move to the end
+const hasValidMod97 = (value: string) =>
+  mod97(value.slice(4) + value.slice(0, 4)) === 1;
+
+export const normalizeIban = (value: string) =>
+  value.replace(/\s+/g, "").toUpperCase();
+
+// Groups of four, as printed on statements
+export const formatIban = (value: string) =>
+  normalizeIban(value).replace(/(.{4})(?=.)/g, "$1 ");
+
+// Returns why the IBAN is invalid, or null when it is valid
+export function validateIban(value: string): string | null {
+  const iban = normalizeIban(value);
+  if (!iban) return "IBAN is required";
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]+$/.test(iban)) {
+    return "An IBAN starts with a country code and two check digits";
+  }
+  const country = iban.slice(0, 2);
+  const length = IBAN_LENGTHS[country];
+  if (!length) return `${country} is not an IBAN country`;
+  if (iban.length !== length) {
+    return `${country} IBANs have ${length} characters, this one has ${iban.length}`;
+  }
+  if (!hasValidMod97(iban)) {
+    return "The IBAN check digits do not match, look for a typo";
+  }
+  return null;
+}
+
+// Bank code, country code, location code and optional branch code
+export const isValidBic = (value: string) =>
+  /^[A-Z]{4}[A-Z]{2}[A-Z0-9]{2}([A-Z0-9]{3})?$/.test(value.trim());
+
+// ISO 11649 creditor reference: RF, two check digits and up to 21 characters
+export const isValidCreditorReference = (value: string) => {
+  const reference = value.replace(/\s+/g, "").toUpperCase();
+  return /^RF\d{2}[A-Z0-9]{1,21}$/.test(reference) && hasValidMod97(reference);
+};
+
+const MOD10_TABLE = [0, 9, 4, 6, 8, 2, 7, 1, 3, 5];
+
+// Recursive modulo 10 check digit used by Swiss QR references
+export const calculateQRReferenceCheckDigit = (digits: string) => {
+  let carry = 0;
+  for (const digit of digits) {
+    carry = MOD10_TABLE[(carry + Number(digit)) % 10];
+  }
+  return (10 - carry) % 10;
+};
+
+// Swiss QR reference: 26 digits followed by their check digit
+export const isValidQRReference = (value: string) => {
+  const reference = value.replace(/\s+/g, "");
+  return (
+    /^\d{27}$/.test(reference) &&
+    calculateQRReferenceCheckDigit(reference.slice(0, 26)) ===
+      Number(reference[26])
+  );
+};
+
+// QR-IBANs use institution ids 30000-31999 and only take QR references
+export const isQRIban = (value: string) =>
+  /^(CH|LI)\d{2}3[01]\d{3}/.test(normalizeIban(value));
+
+// Optional amount with at most two decimals, up to `max`
+const validateAmount = (
+  value: string,
+  max: number,
+  currency: string
+): string | undefined => {
+  const amount = value.trim();
+  if (!amount) return undefined;
+  if (!/^\d+(\.\d{1,2})?$/.test(amount)) {
+    return "Enter the amount with a dot and at most two decimals, like 12.50";
+  }
+  if (Number(amount) < 0.01) return "The amount must be at least 0.01";
+  if (Number(amount) > max) {
+    return `The amount cannot exceed ${max.toLocaleString("en-US")} ${currency}`;
+  }
+  return undefined;
+};
+
+const formatAmount = (value: string) =>
+  value.trim() ? Number(value).toFixed(2) : "";
+
+const checkLength = (
+  value: string,
+  max: number,
+  label: string
+): string | undefined =>
+  value.length > max ? `${label} is limited to ${max} characters` : undefined;
+
+// Drops undefined entries so the error object only lists real errors
+const compactErrors = <F extends string>(
+  errors: Record<F, string | undefined>
+): FieldErrors<F> =>
+  Object.fromEntries(
+    Object.entries(errors).filter(([, message]) => message)
+  ) as FieldErrors<F>;
+
+// ---------------------------------------------------------------------------
+// EPC / SEPA credit transfer
+// ---------------------------------------------------------------------------
+
+export interface SepaPayloadInput {
+  name: string;
+  iban: string;
+  // Optional within the EEA since version 002
+  bic: string;
+  // EUR
+  amount: string;
+  // ISO 20022 purpose code such as CHAR or GDDS
+  purpose: string;
+  // Structured ISO 11649 reference, or else the free text below
+  reference: string;
+  text: string;
+  // Note shown to the payer, not sent with the transfer
+  information: string;
+}
+
+export type SepaField = keyof SepaPayloadInput;
+
+const EPC_MAX_BYTES = 331;
+
+export function buildSepaPayload(
+  input: SepaPayloadInput
+): PayloadResult<SepaField> {
+  const name = input.name.trim();
+  const iban = normalizeIban(input.iban);
+  const bic = input.bic.trim().toUpperCase();
+  const purpose = input.purpose.trim().toUpperCase();
+  const reference = input.reference.replace(/\s+/g, "").toUpperCase();
+  const text = input.text.trim();
+  const information = input.information.trim();
+
+  const errors = compactErrors<SepaField>({
+    name: name
+      ? checkLength(name, 70, "The beneficiary name")
+      : "Beneficiary name is required",
+    iban: validateIban(iban) ?? undefined,
+    bic:
+      bic && !isValidBic(bic)
+        ? "A BIC has 8 or 11 characters, like COBADEFFXXX"
+        : undefined,
+    amount: validateAmount(input.amount, MAX_BANK_AMOUNT, "EUR"),
+    purpose:
+      purpose && !/^[A-Z]{4}$/.test(purpose)
+        ? "Purpose codes are four letters, like CHAR or GDDS"
+        : undefined,
+    reference:
+      reference && !isValidCreditorReference(reference)
+        ? "Not a valid creditor reference, it starts with RF and two check digits"
+        : undefined,
+    text:
+      reference && text
+        ? "Use either a structured reference or a text, not both"
+        : checkLength(text, 140, "The remittance text"),
+    information: checkLength(information, 70, "The note"),
+  });
+
+  const payload = [
+    "BCD",
+    "002",
+    // UTF-8
+    "1",
+    "SCT",
+    bic,
+    name,
+    iban,
+    input.amount.trim() ? `EUR${formatAmount(input.amount)}` : "",
+    purpose,
+    reference,
+    text,
+    information,
+  ]
+    .join("\n")
+    .replace(/\n+$/, "");
+
+  if (byteLength(payload) > EPC_MAX_BYTES && !errors.text) {
+    errors.text = `The transfer data exceeds the ${EPC_MAX_BYTES} bytes banking apps accept, shorten the texts`;
+  }
+  return { payload, errors };
+}
+
+// ---------------------------------------------------------------------------
+// Swiss QR-bill
+// ---------------------------------------------------------------------------
+
+export interface SwissQRBillInput {
+  // CH or LI IBAN, or a QR-IBAN
+  iban: string;
+  creditorName: string;
+  creditorStreet: string;
+  creditorBuildingNumber: string;
+  creditorPostalCode: string;
+  creditorTown: string;
+  creditorCountry: string;
+  amount: string;
+  currency: "CHF" | "EUR";
+  // The payer is optional, leave all debtor fields empty to skip it
+  debtorName: string;
+  debtorStreet: string;
+  debtorBuildingNumber: string;
+  debtorPostalCode: string;
+  debtorTown: string;
+  debtorCountry: string;
+  // QR reference for QR-IBANs, otherwise an RF creditor reference or empty
+  reference: string;
+  message: string;
+  // Structured billing information starting with "//"
+  billingInformation: string;
+}
+
+export type SwissQRField = keyof SwissQRBillInput;
+
+const SWISS_MAX_TEXT = 140;
+
+type SwissParty = "creditor" | "debtor";
+
+// Structured address ("S"): name, street, building number, postal code,
+// town and country
+const swissAddressFields = [
+  "Name",
+  "Street",
+  "BuildingNumber",
+  "PostalCode",
+  "Town",
+  "Country",
+] as const;
+
+const getSwissAddress = (input: SwissQRBillInput, party: SwissParty) =>
+  swissAddressFields.map((field) => input[`${party}${field}`].trim());
+
+const validateSwissAddress = (
+  input: SwissQRBillInput,
+  party: SwissParty
+): Partial<Record<SwissQRField, string | undefined>> => {
+  const [name, street, buildingNumber, postalCode, town, country] =
+    getSwissAddress(input, party);
+  const label = party === "creditor" ? "Payee" : "Payer";
+  return {
+    [`${party}Name`]: name
+      ? checkLength(name, 70, "The name")
+      : `${label} name is required`,
+    [`${party}Street`]: checkLength(street, 70, "The street"),
+    [`${party}BuildingNumber`]: checkLength(
+      buildingNumber,
+      16,
+      "The building number"
+    ),
+    [`${party}PostalCode`]: postalCode
+      ? checkLength(postalCode, 16, "The postal code")
+      : "Postal code is required",
+    [`${party}Town`]: town
+      ? checkLength(town, 35, "The town")
+      : "Town is required",
+    [`${party}Country`]: /^[A-Z]{2}$/.test(country.toUpperCase())
+      ? undefined
+      : "Use the two-letter country code, like CH",
+  };
+};
+
+export function buildSwissQRBillPayload(
+  input: SwissQRBillInput
+): PayloadResult<SwissQRField> {
+  const iban = normalizeIban(input.iban);
+  const reference = input.reference.replace(/\s+/g, "").toUpperCase();
+  const message = input.message.trim();
+  const billingInformation = input.billingInformation.trim();
+  const hasDebtor = getSwissAddress(input, "debtor").some(Boolean);
+  const qrIban = isQRIban(iban);
+
+  const ibanError =
+    validateIban(iban) ??
+    (/^(CH|LI)/.test(iban)
+      ? undefined
+      : "QR-bills need a Swiss or Liechtenstein IBAN");
+
+  let referenceType: "QRR" | "SCOR" | "NON" = "NON";
+  let referenceError: string | undefined;
+  if (qrIban) {
+    referenceType = "QRR";
+    if (!reference) {
+      referenceError = "QR-IBANs need a 27-digit QR reference";
+    } else if (!isValidQRReference(reference)) {
+      referenceError = "Not a valid QR reference, check the last digit";
+    }
+  } else if (reference) {
+    referenceType = "SCOR";
+    if (/^\d{27}$/.test(reference)) {
+      referenceError = "QR references can only be used with a QR-IBAN";
+    } else if (!isValidCreditorReference(reference)) {
+      referenceError =
+        "Not a valid creditor reference, it starts with RF and two check digits";
+    }
+  }
+
+  const errors = compactErrors<SwissQRField>({
+    ...validateSwissAddress(input, "creditor"),
+    ...(hasDebtor ? validateSwissAddress(input, "debtor") : {}),
+    iban: ibanError,
+    amount: validateAmount(input.amount, MAX_BANK_AMOUNT, input.currency),
+    currency: ["CHF", "EUR"].includes(input.currency)
+      ? undefined
+      : "QR-bills are paid in CHF or EUR",
+    reference: referenceError,
+    message:
+      message.length + billingInformation.length > SWISS_MAX_TEXT
+        ? `Message and billing information share ${SWISS_MAX_TEXT} characters`
+        : undefined,
+    billingInformation:
+      billingInformation && !billingInformation.startsWith("//")
+        ? 'Billing information starts with "//", like //S1/10/10201409'
+        : undefined,
+  } as Record<SwissQRField, string | undefined>);
+
+  const address = (party: SwissParty) => {
+    const [name, street, buildingNumber, postalCode, town, country] =
+      getSwissAddress(input, party);
+    return [
+      "S",
+      name,
+      street,
+      buildingNumber,
+      postalCode,
+      town,
+      country.toUpperCase(),
+    ];
+  };
+  const emptyAddress = Array<string>(7).fill("");
+
+  const payload = [
+    "SPC",
+    "0200",
+    // UTF-8 restricted to the Latin character set
+    "1",
+    iban,
+    ...address("creditor"),
+    // Ultimate creditor, reserved for future use
+    ...emptyAddress,
+    formatAmount(input.amount),
+    input.currency,
+    ...(hasDebtor ? address("debtor") : emptyAddress),
+    referenceType,
+    reference,
+    message,
+    "EPD",
+    ...(billingInformation ? [billingInformation] : []),
+  ].join("\n");
+
+  return { payload, errors };
+}
+
+// ---------------------------------------------------------------------------
+// UPI
+// ---------------------------------------------------------------------------
+
+export interface UpiPayloadInput {
+  // Virtual payment address, like name@bank
+  vpa: string;
+  name: string;
+  // INR, empty lets the payer enter it
+  amount: string;
+  note: string;
+  // Transaction reference of the payee
+  reference: string;
+  // Merchant category code
+  merchantCode: string;
+}
+
+export type UpiField = keyof UpiPayloadInput;
+
+// Per-transaction limit of a regular UPI payment
+export const UPI_MAX_AMOUNT = 100000;
+
+const VPA_PATTERN = /^[a-z0-9._-]{2,256}@[a-z][a-z0-9.-]{1,64}$/i;
+
+export function buildUpiPayload(
+  input: UpiPayloadInput
+): PayloadResult<UpiField> {
+  const vpa = input.vpa.trim();
+  const name = input.name.trim();
+  const note = input.note.trim();
+  const reference = input.reference.trim();
+  const merchantCode = input.merchantCode.trim();
+
+  const errors = compactErrors<UpiField>({
+    vpa: !vpa
+      ? "UPI ID is required"
+      : VPA_PATTERN.test(vpa)
+        ? undefined
+        : "A UPI ID looks like name@bank",
+    name: name
+      ? checkLength(name, 99, "The payee name")
+      : "Payee name is required",
+    amount: validateAmount(input.amount, UPI_MAX_AMOUNT, "INR"),
+    note: checkLength(note, 80, "The note"),
+    reference:
+      reference && !/^[A-Za-z0-9._-]{1,35}$/.test(reference)
+        ? "References use up to 35 letters, digits, dots, dashes or underscores"
+        : undefined,
+    merchantCode:
+      merchantCode && !/^\d{4}$/.test(merchantCode)
+        ? "Merchant category codes have four digits"
+        : undefined,
+  });
+
+  // Spaces as %20 since some UPI apps show a literal "+", and the "@" of the
+  // UPI ID kept as is
+  const params = [
+    ["pa", vpa],
+    ["pn", name],
+    ["am", formatAmount(input.amount)],
+    ["cu", "INR"],
+    ["tn", note],
+    ["tr", reference],
+    ["mc", merchantCode],
+  ]
+    .filter(([, value]) => value)
+    .map(
+      ([key, value]) =>
+        `${key}=${encodeURIComponent(value).replace(/%40/g, "@")}`
+    );
+
+  return { payload: `upi://pay?${params.join("&")}`, errors };
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+export function parseSepaPayload(payload: string): SepaPayloadInput | null {
+  const lines = payload.split(/\r?\n/);
+  if (lines[0]?.trim() !== "BCD" || lines[3]?.trim() !== "SCT") return null;
+  const field = (index: number) => lines[index]?.trim() || "";
+  return {
+    bic: field(4),
+    name: field(5),
+    iban: field(6),
+    amount: field(7).replace(/^EUR/i, ""),
+    purpose: field(8),
+    reference: field(9),
+    text: field(10),
+    information: field(11),
+  };
+}
+
+export function parseSwissQRBill(payload: string): SwissQRBillInput | null {
+  const lines = payload.split(/\r?\n/);
+  if (lines[0]?.trim() !== "SPC") return null;
+  const field = (index: number) => lines[index]?.trim() || "";
+
+  // Combined addresses ("K") hold two address lines instead of the parts
+  const readAddress = (start: number, party: SwissParty) => {
+    const combined = field(start) === "K";
+    return {
+      [`${party}Name`]: field(start + 1),
+      [`${party}Street`]: field(start + 2),
+      [`${party}BuildingNumber`]: combined ? "" : field(start + 3),
+      [`${party}PostalCode`]: combined ? "" : field(start + 4),
+      [`${party}Town`]: combined ? field(start + 3) : field(start + 5),
+      [`${party}Country`]: field(start + 6),
+    };
+  };
+
+  return {
+    iban: field(3),
+    ...readAddress(4, "creditor"),
+    amount: field(18),
+    currency: field(19) === "EUR" ? "EUR" : "CHF",
+    ...readAddress(20, "debtor"),
+    reference: field(28),
+    message: field(29),
+    billingInformation: field(30) === "EPD" ? field(31) : "",
+  } as SwissQRBillInput;
+}
+
+export function parseUpiPayload(payload: string): UpiPayloadInput | null {
+  const upi = payload.match(/^upi:\/\/pay\?(.*)$/i);
+  if (!upi) return null;
+  const params = new URLSearchParams(upi[1]);
+  return {
+    vpa: params.get("pa") || "",
+    name: params.get("pn") || "",
+    amount: params.get("am") || "",
+    note: params.get("tn") || "",
+    reference: params.get("tr") || "",
+    merchantCode: params.get("mc") || "",
+  };
+}
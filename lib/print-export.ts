@@ -0,0 +1,656 @@
+import { saveAs } from "file-saver";
+import { jsPDF } from "jspdf";
+import QRCodeStyling from "qr-code-styling";
+import { hexToCMYK } from "./cmyk";
+import { createPngChunk, PNG_SIGNATURE, readPngChunks } from "./png-chunks";
+import { FramedRenderer, getFrameLayout, type QRFrame } from "./qr-frame";
+import {
+  applyBackgroundImage,
+  qrRawDataToBlob,
+  resolveLogoImage,
+  type StyledQROptions,
+} from "./qr-utils";
+import {
+  buildQRLayers,
+  createQRMatrix,
+  getHiddenLogoModules,
+  parseSVGPath,
+  type PathCommand,
+  type QRVectorLayer,
+  transformPath,
+} from "./qr-vector";
+
+/**
+ * Print exports
+ *
+ * Exports a QR code at a physical size and resolution, e.g. 25 mm at 600 DPI.
+ * The pixel size is rounded so every module covers the same whole number of
+ * pixels, which keeps module edges sharp on the press. PNG files carry the
+ * resolution in their pHYs chunk and SVG files their size in millimetres.
+ *
+ * PDF and EPS are drawn as vector paths from the module matrix, in RGB or
+ * device CMYK. They use the solid colors of the design: gradients and
+ * background images are left out, dot shapes are simplified to squares, dots
+ * or rounded modules, and a logo is embedded as an image.
+ *
+ * A frame is drawn around the code in every format, the code keeps its
+ * printed size and the frame adds to it. PDF and EPS set the frame text in
+ * Helvetica, the one font every printer has.
+ */
+
+export type PrintFormat = "png" | "svg" | "pdf" | "eps";
+
+export interface PrintSettings {
+  // Printed width of the code, quiet zone included
+  sizeMm: number;
+  dpi: number;
+  // PDF and EPS only: device CMYK instead of RGB colors
+  cmyk: boolean;
+}
+
+export const printDpiOptions = [150, 300, 600, 1200];
+
+export interface PrintLayout {
+  moduleCount: number;
+  // Quiet zone on each side, taken from the margin of the design
+  quietZoneModules: number;
+  modulePixels: number;
+  pixels: number;
+  moduleMm: number;
+  // Actual printed size after rounding to whole module pixels
+  sizeMm: number;
+}
+
+const MM_PER_INCH = 25.4;
+
+// Pixel and millimetre geometry of a print export, null when the data does
+// not fit in a QR code
+export function getPrintLayout(
+  options: StyledQROptions,
+  settings: PrintSettings
+): PrintLayout | null {
+  if (!options.data || settings.sizeMm <= 0 || settings.dpi <= 0) return null;
+  let moduleCount: number;
+  try {
+    moduleCount = createQRMatrix(options).getModuleCount();
+  } catch {
+    return null;
+  }
+
+  const width = options.width || 300;
+  const height = options.height || 300;
+  const margin = options.margin || 0;
+  const designModule = (Math.min(width, height) - 2 * margin) / moduleCount;
+  const quietZoneModules = Math.max(0, Math.round(margin / designModule));
+  const totalModules = moduleCount + 2 * quietZoneModules;
+
+  const targetPixels = (settings.sizeMm / MM_PER_INCH) * settings.dpi;
+  const modulePixels = Math.max(1, Math.round(targetPixels / totalModules));
+  const pixels = modulePixels * totalModules;
+  const sizeMm = (pixels / settings.dpi) * MM_PER_INCH;
+
+  return {
+    moduleCount,
+    quietZoneModules,
+    modulePixels,
+    pixels,
+    moduleMm: sizeMm / totalModules,
+    sizeMm,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// PNG and SVG
+// ---------------------------------------------------------------------------
+
+// Design options scaled to the print layout, margin and logo margin included
+const getScaledOptions = (
+  options: StyledQROptions,
+  layout: PrintLayout
+): StyledQROptions => {
+  const width = options.width || 300;
+  const height = options.height || 300;
+  const designModule =
+    (Math.min(width, height) - 2 * (options.margin || 0)) / layout.moduleCount;
+  const scale = layout.modulePixels / designModule;
+  return {
+    ...options,
+    width: layout.pixels,
+    height: layout.pixels,
+    margin: layout.quietZoneModules * layout.modulePixels,
+    imageOptions: {
+      ...options.imageOptions,
+      margin: Math.round((options.imageOptions?.margin || 0) * scale),
+    },
+  };
+};
+
+// Writes the resolution into the pHYs chunk so layout and print software
+// place the image at its physical size
+export async function setPngResolution(blob: Blob, dpi: number) {
+  const png = new Uint8Array(await blob.arrayBuffer());
+  const pixelsPerMeter = Math.round((dpi / MM_PER_INCH) * 1000);
+  const physical = new Uint8Array(9);
+  const view = new DataView(physical.buffer);
+  view.setUint32(0, pixelsPerMeter);
+  view.setUint32(4, pixelsPerMeter);
+  physical[8] = 1;
+
+  // Copy every chunk except an existing pHYs, the new one follows IHDR
+  const chunks: Uint8Array[] = [PNG_SIGNATURE];
+  for (const chunk of readPngChunks(png)) {
+    if (chunk.type !== "pHYs") chunks.push(chunk.bytes);
+    if (chunk.type === "IHDR") chunks.push(createPngChunk("pHYs", physical));
+  }
+  return new Blob(chunks as BlobPart[], { type: "image/png" });
+}
+
+async function renderPrintImage(
+  options: StyledQROptions,
+  layout: PrintLayout,
+  settings: PrintSettings,
+  format: "png" | "svg",
+  frame: QRFrame | null
+): Promise<Blob> {
+  const scaled = getScaledOptions(options, layout);
+  const qrInstance = new QRCodeStyling({
+    ...scaled,
+    type: format === "svg" ? "svg" : "canvas",
+    image: resolveLogoImage(options.image, layout.pixels, layout.pixels),
+  });
+  applyBackgroundImage(qrInstance, options.backgroundImage);
+  const source = frame
+    ? new FramedRenderer(qrInstance, frame, layout.pixels, layout.pixels)
+    : qrInstance;
+  const mimeType = format === "svg" ? "image/svg+xml" : "image/png";
+  const blob = qrRawDataToBlob(await source.getRawData(format), mimeType);
+  if (!blob) throw new Error("Failed to render QR code");
+
+  if (format === "png") return setPngResolution(blob, settings.dpi);
+
+  // Physical size on the root element, the viewBox keeps the pixel grid
+  const mmPerPixel = layout.sizeMm / layout.pixels;
+  const svg = (await blob.text()).replace(
+    /<svg\b([^>]*)>/,
+    (_, attributes: string) => {
+      const toMm = (name: string) => {
+        const pixels = parseFloat(
+          attributes.match(new RegExp(`\\s${name}="([\\d.]+)`))?.[1] ?? ""
+        );
+        return `${Number(((pixels || layout.pixels) * mmPerPixel).toFixed(3))}mm`;
+      };
+      return `<svg${attributes.replace(/\s(width|height)="[^"]*"/g, "")} width="${toMm("width")}" height="${toMm("height")}">`;
+    }
+  );
+  return new Blob([svg], { type: mimeType });
+}
+
+// ---------------------------------------------------------------------------
+// Vector artwork for PDF and EPS
+// ---------------------------------------------------------------------------
+
+// Frame elements in millimetres, icons become stroked shapes
+type VectorFrameElement =
+  | {
+      kind: "shape";
+      path: PathCommand[];
+      fill?: string;
+      stroke?: string;
+      strokeWidth?: number;
+      dash?: number[];
+    }
+  | {
+      kind: "text";
+      text: string;
+      x: number;
+      // Vertical center of the text
+      y: number;
+      anchor: "start" | "middle";
+      fontSize: number;
+      bold: boolean;
+      color: string;
+    };
+
+interface VectorArtwork {
+  // Page size, the frame included
+  width: number;
+  height: number;
+  // Top left corner of the code, quiet zone included
+  codeX: number;
+  codeY: number;
+  sizeMm: number;
+  background: string | null;
+  frame: VectorFrameElement[];
+  layers: QRVectorLayer[];
+  logo: {
+    src: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+  } | null;
+}
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = "anonymous";
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Failed to load the logo"));
+    image.src = src;
+  });
+
+// Logo flattened onto the background so every format can embed it
+function rasterizeLogo(
+  image: HTMLImageElement,
+  width: number,
+  height: number,
+  background: string | null
+) {
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not available");
+  ctx.fillStyle = background || "#ffffff";
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
+
+// The frame is laid out around the code at print pixels and scaled to mm,
+// so text is measured at the size the raster exports use
+function buildVectorFrame(frame: QRFrame, layout: PrintLayout) {
+  const frameLayout = getFrameLayout(frame, layout.pixels, layout.pixels);
+  const scale = layout.sizeMm / layout.pixels;
+  const elements = frameLayout.elements.map((element): VectorFrameElement => {
+    if (element.kind === "text") {
+      return {
+        ...element,
+        x: element.x * scale,
+        y: element.y * scale,
+        fontSize: element.fontSize * scale,
+        bold: element.fontWeight >= 600,
+      };
+    }
+    if (element.kind === "icon") {
+      // Icons are drawn on a 24 unit grid with a stroke of 2 units
+      const iconScale = (element.size / 24) * scale;
+      return {
+        kind: "shape",
+        path: transformPath(
+          parseSVGPath(element.d),
+          iconScale,
+          element.x * scale,
+          element.y * scale
+        ),
+        stroke: element.color,
+        strokeWidth: 2 * iconScale,
+      };
+    }
+    return {
+      kind: "shape",
+      path: transformPath(parseSVGPath(element.d), scale, 0, 0),
+      fill: element.fill,
+      stroke: element.stroke,
+      strokeWidth: (element.strokeWidth ?? 0) * scale,
+      dash: element.dash?.map((length) => length * scale),
+    };
+  });
+  return {
+    width: frameLayout.width * scale,
+    height: frameLayout.height * scale,
+    codeX: frameLayout.code.x * scale,
+    codeY: frameLayout.code.y * scale,
+    elements,
+  };
+}
+
+async function buildVectorArtwork(
+  options: StyledQROptions,
+  layout: PrintLayout,
+  frame: QRFrame | null
+): Promise<VectorArtwork> {
+  const qr = createQRMatrix(options);
+  const count = layout.moduleCount;
+  const m = layout.moduleMm;
+  const framed = frame ? buildVectorFrame(frame, layout) : null;
+  const codeX = framed?.codeX ?? 0;
+  const codeY = framed?.codeY ?? 0;
+  const offset = layout.quietZoneModules * m;
+
+  const backgroundColor = options.backgroundOptions?.color;
+  const background =
+    backgroundColor && /^#[0-9a-f]{6}$/i.test(backgroundColor)
+      ? backgroundColor
+      : null;
+
+  // Logo area, the modules beneath it stay empty like in the preview
+  let hidden = { columns: 0, rows: 0 };
+  let logo: VectorArtwork["logo"] = null;
+  const logoSrc = resolveLogoImage(options.image, layout.pixels, layout.pixels);
+  if (logoSrc) {
+    const image = await loadImage(logoSrc);
+    const aspect = image.naturalHeight / image.naturalWidth || 1;
+    hidden = getHiddenLogoModules(count, options, aspect);
+    const designModule =
+      (Math.min(options.width || 300, options.height || 300) -
+        2 * (options.margin || 0)) /
+      count;
+    const inset = ((options.imageOptions?.margin || 0) / designModule) * m;
+    const boxWidth = hidden.columns * m;
+    const boxHeight = boxWidth * aspect;
+    const width = boxWidth - 2 * inset;
+    const height = boxHeight - 2 * inset;
+    if (width > 0 && height > 0) {
+      const pixelsPerMm = layout.modulePixels / m;
+      logo = {
+        src: rasterizeLogo(
+          image,
+          width * pixelsPerMm,
+          height * pixelsPerMm,
+          background
+        ).toDataURL("image/png"),
+        x: codeX + offset + (count * m - width) / 2,
+        y: codeY + offset + (count * m - height) / 2,
+        width,
+        height,
+      };
+    }
+  }
+
+  const layers = buildQRLayers(options, qr, {
+    moduleSize: m,
+    offsetX: codeX + offset,
+    offsetY: codeY + offset,
+    hidden,
+  });
+  return {
+    width: framed?.width ?? layout.sizeMm,
+    height: framed?.height ?? layout.sizeMm,
+    codeX,
+    codeY,
+    sizeMm: layout.sizeMm,
+    background,
+    frame: framed?.elements ?? [],
+    layers,
+    logo,
+  };
+}
+
+const POINTS_PER_MM = 72 / MM_PER_INCH;
+
+function renderPDF(artwork: VectorArtwork, cmyk: boolean): Blob {
+  const { width: pageWidth, height: pageHeight, sizeMm } = artwork;
+  const doc = new jsPDF({
+    unit: "mm",
+    format: [pageWidth, pageHeight],
+    orientation: pageWidth > pageHeight ? "landscape" : "portrait",
+  });
+  const applyColor = (
+    hex: string,
+    setRGB: (hex: string) => void,
+    setCMYK: (c: number, m: number, y: number, k: number) => void
+  ) => {
+    if (cmyk) {
+      const { c, m, y, k } = hexToCMYK(hex);
+      setCMYK(c, m, y, k);
+    } else {
+      setRGB(hex);
+    }
+  };
+  const setFill = (hex: string) =>
+    applyColor(
+      hex,
+      (rgb) => doc.setFillColor(rgb),
+      (c, m, y, k) => doc.setFillColor(c, m, y, k)
+    );
+  const setDraw = (hex: string) =>
+    applyColor(
+      hex,
+      (rgb) => doc.setDrawColor(rgb),
+      (c, m, y, k) => doc.setDrawColor(c, m, y, k)
+    );
+  const setText = (hex: string) =>
+    applyColor(
+      hex,
+      (rgb) => doc.setTextColor(rgb),
+      (c, m, y, k) => doc.setTextColor(c, m, y, k)
+    );
+  const drawPath = (path: PathCommand[]) => {
+    for (const command of path) {
+      if (command[0] === "M") doc.moveTo(command[1], command[2]);
+      else if (command[0] === "L") doc.lineTo(command[1], command[2]);
+      else if (command[0] === "C") {
+        doc.curveTo(
+          command[1],
+          command[2],
+          command[3],
+          command[4],
+          command[5],
+          command[6]
+        );
+      } else doc.close();
+    }
+  };
+
+  for (const element of artwork.frame) {
+    if (element.kind === "text") {
+      setText(element.color);
+      doc.setFont("helvetica", element.bold ? "bold" : "normal");
+      doc.setFontSize(element.fontSize * POINTS_PER_MM);
+      doc.text(element.text, element.x, element.y, {
+        align: element.anchor === "middle" ? "center" : "left",
+        baseline: "middle",
+      });
+      continue;
+    }
+    if (element.fill) setFill(element.fill);
+    if (element.stroke) {
+      setDraw(element.stroke);
+      doc.setLineWidth(element.strokeWidth ?? 0);
+      doc.setLineCap("round");
+      doc.setLineJoin("round");
+      doc.setLineDashPattern(element.dash ?? [], 0);
+    }
+    drawPath(element.path);
+    if (element.fill && element.stroke) doc.fillStroke();
+    else if (element.fill) doc.fill();
+    else doc.stroke();
+  }
+  doc.setLineDashPattern([], 0);
+
+  if (artwork.background) {
+    setFill(artwork.background);
+    doc.rect(artwork.codeX, artwork.codeY, sizeMm, sizeMm, "F");
+  }
+  for (const layer of artwork.layers) {
+    if (layer.path.length === 0) continue;
+    setFill(layer.color);
+    drawPath(layer.path);
+    doc.fillEvenOdd();
+  }
+  if (artwork.logo) {
+    const { src, x, y, width, height } = artwork.logo;
+    doc.addImage(src, "PNG", x, y, width, height);
+  }
+  return doc.output("blob");
+}
+
+const formatNumber = (value: number) => Number(value.toFixed(4)).toString();
+
+// PostScript string literal, Latin-1 characters as octal escapes
+const toPSString = (text: string) =>
+  `(${Array.from(text, (char) => {
+    const code = char.charCodeAt(0);
+    if (char.length > 1 || code > 255) return "?";
+    if (char === "(" || char === ")" || char === "\\") return `\\${char}`;
+    return code < 32 || code > 126
+      ? `\\${code.toString(8).padStart(3, "0")}`
+      : char;
+  }).join("")})`;
+
+// Helvetica with Latin-1 encoding under the name `name`
+const definePSFont = (base: string, name: string) =>
+  `/${base} findfont dup length dict begin { 1 index /FID ne { def } { pop pop } ifelse } forall /Encoding ISOLatin1Encoding def currentdict end /${name} exch definefont pop`;
+
+// EPS works in points from the bottom left, the artwork is in mm from the top
+async function renderEPS(artwork: VectorArtwork, cmyk: boolean) {
+  const { width: pageWidth, height: pageHeight, sizeMm } = artwork;
+  const pointsWidth = pageWidth * POINTS_PER_MM;
+  const pointsHeight = pageHeight * POINTS_PER_MM;
+  const point = (x: number, y: number) =>
+    `${formatNumber(x)} ${formatNumber(pageHeight - y)}`;
+  const color = (hex: string) => {
+    if (cmyk) {
+      const { c, m, y, k } = hexToCMYK(hex);
+      return `${[c, m, y, k].map(formatNumber).join(" ")} setcmykcolor`;
+    }
+    const value = parseInt(hex.slice(1), 16);
+    return `${[value >> 16, (value >> 8) & 255, value & 255]
+      .map((channel) => formatNumber(channel / 255))
+      .join(" ")} setrgbcolor`;
+  };
+  const pathLines = (path: PathCommand[]) =>
+    path.map((command) => {
+      if (command[0] === "M") return `${point(command[1], command[2])} moveto`;
+      if (command[0] === "L") return `${point(command[1], command[2])} lineto`;
+      if (command[0] === "C") {
+        return `${point(command[1], command[2])} ${point(command[3], command[4])} ${point(command[5], command[6])} curveto`;
+      }
+      return "closepath";
+    });
+
+  const lines = [
+    "%!PS-Adobe-3.0 EPSF-3.0",
+    `%%BoundingBox: 0 0 ${Math.ceil(pointsWidth)} ${Math.ceil(pointsHeight)}`,
+    `%%HiResBoundingBox: 0 0 ${formatNumber(pointsWidth)} ${formatNumber(pointsHeight)}`,
+    "%%Title: QR code",
+    "%%LanguageLevel: 2",
+    "%%EndComments",
+    "gsave",
+    // Millimetres as the user unit
+    "2.834645669 2.834645669 scale",
+  ];
+
+  if (artwork.frame.some((element) => element.kind === "text")) {
+    lines.push(
+      definePSFont("Helvetica", "FrameFont"),
+      definePSFont("Helvetica-Bold", "FrameFontBold")
+    );
+  }
+  for (const element of artwork.frame) {
+    if (element.kind === "text") {
+      // The baseline sits about a third of the font size below the center
+      const baseline = point(element.x, element.y + element.fontSize * 0.35);
+      lines.push(
+        color(element.color),
+        `/${element.bold ? "FrameFontBold" : "FrameFont"} findfont ${formatNumber(element.fontSize)} scalefont setfont`,
+        `${baseline} moveto`,
+        element.anchor === "middle"
+          ? `${toPSString(element.text)} dup stringwidth pop 2 div neg 0 rmoveto show`
+          : `${toPSString(element.text)} show`
+      );
+      continue;
+    }
+    lines.push("newpath", ...pathLines(element.path));
+    if (element.fill) {
+      lines.push(
+        color(element.fill),
+        element.stroke ? "gsave fill grestore" : "fill"
+      );
+    }
+    if (element.stroke) {
+      lines.push(
+        color(element.stroke),
+        `${formatNumber(element.strokeWidth ?? 0)} setlinewidth`,
+        "1 setlinecap 1 setlinejoin",
+        `[${(element.dash ?? []).map(formatNumber).join(" ")}] 0 setdash`,
+        "stroke",
+        "[] 0 setdash"
+      );
+    }
+  }
+
+  if (artwork.background) {
+    lines.push(
+      color(artwork.background),
+      `${point(artwork.codeX, artwork.codeY + sizeMm)} ${formatNumber(sizeMm)} ${formatNumber(sizeMm)} rectfill`
+    );
+  }
+  for (const layer of artwork.layers) {
+    if (layer.path.length === 0) continue;
+    lines.push(
+      color(layer.color),
+      "newpath",
+      ...pathLines(layer.path),
+      "eofill"
+    );
+  }
+
+  if (artwork.logo) {
+    const { x, y, width, height } = artwork.logo;
+    const image = await loadImage(artwork.logo.src);
+    const canvas = rasterizeLogo(image, image.width, image.height, null);
+    const { data } = canvas
+      .getContext("2d")!
+      .getImageData(0, 0, canvas.width, canvas.height);
+    const hex: string[] = [];
+    for (let i = 0; i < data.length; i += 4) {
+      const pixel = `#${[data[i], data[i + 1], data[i + 2]]
+        .map((channel) => channel.toString(16).padStart(2, "0"))
+        .join("")}`;
+      const channels = cmyk
+        ? Object.values(hexToCMYK(pixel)).map((value) =>
+            Math.round(value * 255)
+          )
+        : [data[i], data[i + 1], data[i + 2]];
+      hex.push(
+        channels.map((value) => value.toString(16).padStart(2, "0")).join("")
+      );
+    }
+    const { width: columns, height: rows } = canvas;
+    lines.push(
+      "gsave",
+      `${point(x, y + height)} translate`,
+      `${formatNumber(width)} ${formatNumber(height)} scale`,
+      `${columns} ${rows} 8 [${columns} 0 0 -${rows} 0 ${rows}]`,
+      `currentfile /ASCIIHexDecode filter false ${cmyk ? 4 : 3} colorimage`,
+      ...(hex.join("").match(/.{1,78}/g) ?? []),
+      ">",
+      "grestore"
+    );
+  }
+
+  lines.push("grestore", "showpage", "%%EOF");
+  return new Blob([lines.join("\n")], { type: "application/postscript" });
+}
+
+/**
+ * Downloads the QR code at its physical size. Returns the layout that was
+ * used, whose size can differ slightly from the requested one.
+ */
+export async function downloadPrintQR(
+  options: StyledQROptions,
+  settings: PrintSettings,
+  format: PrintFormat,
+  frame: QRFrame | null = null
+): Promise<PrintLayout> {
+  const layout = getPrintLayout(options, settings);
+  if (!layout) throw new Error("The content does not fit in a QR code");
+
+  let blob: Blob;
+  if (format === "png" || format === "svg") {
+    blob = await renderPrintImage(options, layout, settings, format, frame);
+  } else {
+    const artwork = await buildVectorArtwork(options, layout, frame);
+    blob =
+      format === "pdf"
+        ? renderPDF(artwork, settings.cmyk)
+        : await renderEPS(artwork, settings.cmyk);
+  }
+
+  const size = Number(layout.sizeMm.toFixed(1));
+  saveAs(blob, `qr-code-${size}mm-${settings.dpi}dpi.${format}`);
+  return layout;
+}
@@ -0,0 +1,385 @@
+import { saveAs } from "file-saver";
+import QRCodeStyling from "qr-code-styling";
+import { type AnimationFrame, encodeApng, encodeGif } from "./animated-image";
+import { adjustColorForContrast, hexToHsl, hslToHex } from "./color-adjustment";
+import { calculateWorstCaseContrast, type ColorFill } from "./contrast-utils";
+import {
+  applyBackgroundImage,
+  emojiPresets,
+  qrRawDataToBlob,
+  resolveLogoImage,
+  type StyledQROptions,
+} from "./qr-utils";
+import { decodeQRImage } from "./qr-verify";
+import { createQRMatrix, getHiddenLogoModules } from "./qr-vector";
+
+/**
+ * Animated QR codes
+ *
+ * Renders a looping animation from the current design and encodes it as GIF
+ * or APNG. The modules are drawn once and stay fixed in every frame; only the
+ * safe regions move: the logo area, which the error correction already
+ * covers, and the background, whose colors keep the contrast scanners need.
+ * The first and middle frames are decoded again to confirm the code scans.
+ */
+
+export type QRAnimationType = "pulse" | "spin" | "bounce" | "emoji" | "colors";
+export type QRAnimationFormat = "gif" | "apng";
+
+export interface QRAnimationSettings {
+  type: QRAnimationType;
+  format: QRAnimationFormat;
+  frameCount: number;
+  // Length of one loop in milliseconds
+  duration: number;
+  // Shown in turn by the emoji animation
+  emojis: string[];
+}
+
+export interface QRAnimationResult {
+  blob: Blob;
+  // False when a sampled frame could not be decoded
+  scannable: boolean;
+}
+
+export const qrAnimations: {
+  id: QRAnimationType;
+  name: string;
+  description: string;
+  // Animates the uploaded or text logo
+  needsLogo: boolean;
+}[] = [
+  {
+    id: "pulse",
+    name: "Logo pulse",
+    description: "The logo grows and shrinks",
+    needsLogo: true,
+  },
+  {
+    id: "spin",
+    name: "Logo spin",
+    description: "The logo turns around its center",
+    needsLogo: true,
+  },
+  {
+    id: "bounce",
+    name: "Logo bounce",
+    description: "The logo hops inside its area",
+    needsLogo: true,
+  },
+  {
+    id: "emoji",
+    name: "Emoji cycle",
+    description: "Emoji take turns in the logo area",
+    needsLogo: false,
+  },
+  {
+    id: "colors",
+    name: "Color cycle",
+    description: "The background cycles through colors with enough contrast",
+    needsLogo: false,
+  },
+];
+
+export const defaultAnimationEmojis = emojiPresets
+  .slice(0, 10)
+  .map((preset) => preset.emoji);
+
+export const ANIMATION_LIMITS = { minFrames: 4, maxFrames: 60 };
+
+// Contrast every background color keeps against the modules
+const MIN_CONTRAST = 4.5;
+// Adjustment passes over all module fills before falling back to the
+// design's own background
+const MAX_ADJUST_PASSES = 4;
+// Saturation and lightness of cycled backgrounds: white, black and gray
+// have no hue to turn
+const MIN_CYCLE_SATURATION = 70;
+const MIN_CYCLE_LIGHTNESS = 12;
+const MAX_CYCLE_LIGHTNESS = 88;
+
+interface LogoArea {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = "anonymous";
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Failed to load the logo"));
+    image.src = src;
+  });
+
+// Transparent image of the logo's proportions: qr-code-styling clears the
+// modules beneath it, the animation draws into the free area
+const createPlaceholderImage = (aspect: number) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = 100;
+  canvas.height = Math.max(1, Math.round(100 * aspect));
+  return canvas.toDataURL("image/png");
+};
+
+// Where qr-code-styling places the logo for the given proportions
+function getLogoArea(options: StyledQROptions, aspect: number): LogoArea {
+  const width = options.width || 300;
+  const height = options.height || 300;
+  const count = createQRMatrix(options).getModuleCount();
+  const moduleSize = Math.floor(
+    (Math.min(width, height) - 2 * (options.margin || 0)) / count
+  );
+  const hidden = getHiddenLogoModules(count, options, aspect);
+  const margin = options.imageOptions?.margin || 0;
+  const areaWidth = hidden.columns * moduleSize - 2 * margin;
+  const areaHeight = hidden.rows * moduleSize - 2 * margin;
+  return {
+    x:
+      Math.floor((width - count * moduleSize) / 2) +
+      margin +
+      (count * moduleSize - hidden.columns * moduleSize) / 2,
+    y:
+      Math.floor((height - count * moduleSize) / 2) +
+      margin +
+      (count * moduleSize - hidden.rows * moduleSize) / 2,
+    width: Math.max(0, areaWidth),
+    height: Math.max(0, areaHeight),
+  };
+}
+
+// Background colors around the hue circle, each adjusted until it keeps the
+// contrast of the design, at most MIN_CONTRAST, against every module fill.
+// Gradients count with their least readable color
+export function getCycleColors(
+  options: StyledQROptions,
+  count: number
+): string[] {
+  const base = options.backgroundOptions?.color;
+  const baseColor = base && hexToHsl(base) ? base : "#ffffff";
+  const hsl = hexToHsl(baseColor)!;
+  const foregrounds = [
+    options.dotsOptions,
+    options.cornersSquareOptions,
+    options.cornersDotOptions,
+  ]
+    .flatMap((element): ColorFill[] =>
+      element?.gradient
+        ? [element.gradient.colorStops]
+        : element?.color
+          ? [element.color]
+          : []
+    )
+    .map((fill) => ({
+      fill,
+      target: Math.min(
+        MIN_CONTRAST,
+        calculateWorstCaseContrast(fill, baseColor).ratio
+      ),
+    }));
+  const keepsContrast = (color: string) =>
+    foregrounds.every(
+      ({ fill, target }) =>
+        calculateWorstCaseContrast(fill, color).ratio >= target
+    );
+
+  return Array.from({ length: count }, (_, index) => {
+    let color = hslToHex(
+      (hsl.h + (360 * index) / count) % 360,
+      Math.max(hsl.s, MIN_CYCLE_SATURATION),
+      Math.min(Math.max(hsl.l, MIN_CYCLE_LIGHTNESS), MAX_CYCLE_LIGHTNESS)
+    );
+    // Adjusting for one fill can undo another, a few passes settle it
+    for (
+      let pass = 0;
+      pass < MAX_ADJUST_PASSES && !keepsContrast(color);
+      pass++
+    ) {
+      for (const { fill, target } of foregrounds) {
+        const worst = calculateWorstCaseContrast(fill, color);
+        if (worst.ratio < target) {
+          // A little headroom, the lightness search stops just short of it
+          color = adjustColorForContrast(
+            worst.foregroundColor,
+            color,
+            target + 0.1,
+            false
+          );
+        }
+      }
+    }
+    // The background of the design always keeps its own contrast
+    return keepsContrast(color) ? color : baseColor;
+  });
+}
+
+async function renderModules(
+  options: StyledQROptions,
+  image: string | undefined,
+  transparent: boolean
+) {
+  const qrInstance = new QRCodeStyling({
+    ...options,
+    type: "canvas",
+    image,
+    ...(transparent && {
+      backgroundOptions: { color: "rgba(0, 0, 0, 0)" },
+    }),
+  });
+  if (!transparent) applyBackgroundImage(qrInstance, options.backgroundImage);
+  const blob = qrRawDataToBlob(await qrInstance.getRawData("png"), "image/png");
+  if (!blob) throw new Error("Failed to render QR code");
+  return createImageBitmap(blob);
+}
+
+// Logo scaled to fit the area after rotating by `angle`
+const drawLogo = (
+  ctx: CanvasRenderingContext2D,
+  logo: CanvasImageSource & { width: number; height: number },
+  area: LogoArea,
+  { scale = 1, angle = 0, offsetY = 0 }
+) => {
+  const cos = Math.abs(Math.cos(angle));
+  const sin = Math.abs(Math.sin(angle));
+  const fit = Math.min(
+    area.width / (area.width * cos + area.height * sin),
+    area.height / (area.width * sin + area.height * cos)
+  );
+  const width = area.width * fit * scale;
+  const height = area.height * fit * scale;
+  ctx.save();
+  ctx.translate(area.x + area.width / 2, area.y + area.height / 2 + offsetY);
+  ctx.rotate(angle);
+  ctx.drawImage(logo, -width / 2, -height / 2, width, height);
+  ctx.restore();
+};
+
+export async function renderQRAnimationFrames(
+  options: StyledQROptions,
+  settings: QRAnimationSettings,
+  onProgress?: (completed: number, total: number) => void
+): Promise<AnimationFrame[]> {
+  const width = options.width || 300;
+  const height = options.height || 300;
+  const { type, frameCount } = settings;
+  const logoSrc = resolveLogoImage(options.image, width, height);
+  const logo = type !== "emoji" && logoSrc ? await loadImage(logoSrc) : null;
+  if (!logo && type !== "emoji" && type !== "colors") {
+    throw new Error("Add a logo to animate it");
+  }
+
+  const aspect = logo ? logo.naturalHeight / logo.naturalWidth || 1 : 1;
+  const animatesLogo = type !== "colors";
+  const area = getLogoArea(options, aspect);
+  if (animatesLogo && (area.width <= 0 || area.height <= 0)) {
+    throw new Error("Increase the logo size to make room for the animation");
+  }
+  const modules = await renderModules(
+    options,
+    animatesLogo ? createPlaceholderImage(aspect) : logoSrc,
+    type === "colors"
+  );
+  const backgrounds =
+    type === "colors" ? getCycleColors(options, frameCount) : [];
+  const emojis = settings.emojis.length
+    ? settings.emojis
+    : defaultAnimationEmojis;
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas is not available");
+
+  const frames: AnimationFrame[] = [];
+  for (let index = 0; index < frameCount; index++) {
+    // Position in the loop from 0 to 1, eased to start and end at rest
+    const t = index / frameCount;
+    const wave = (1 - Math.cos(2 * Math.PI * t)) / 2;
+    ctx.clearRect(0, 0, width, height);
+    if (type === "colors") {
+      ctx.fillStyle = backgrounds[index];
+      ctx.fillRect(0, 0, width, height);
+    }
+    ctx.drawImage(modules, 0, 0, width, height);
+
+    if (logo && type === "pulse") {
+      drawLogo(ctx, logo, area, { scale: 0.75 + 0.25 * wave });
+    } else if (logo && type === "spin") {
+      drawLogo(ctx, logo, area, { angle: 2 * Math.PI * t });
+    } else if (logo && type === "bounce") {
+      const scale = 0.8;
+      const hop = Math.abs(Math.sin(Math.PI * 2 * t));
+      drawLogo(ctx, logo, area, {
+        scale,
+        offsetY: ((area.height * (1 - scale)) / 2) * (1 - 2 * hop),
+      });
+    } else if (type === "emoji") {
+      const emoji = emojis[Math.floor(t * emojis.length)];
+      const size = Math.min(area.width, area.height);
+      ctx.font = `${size * 0.8}px Arial, sans-serif`;
+      ctx.textAlign = "center";
+      ctx.textBaseline = "middle";
+      ctx.fillStyle = "#000000";
+      ctx.fillText(
+        emoji,
+        area.x + area.width / 2,
+        area.y + area.height / 2,
+        area.width
+      );
+    }
+
+    frames.push({
+      width,
+      height,
+      data: ctx.getImageData(0, 0, width, height).data,
+    });
+    onProgress?.(index + 1, frameCount);
+    // Let the progress bar paint between frames
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+  modules.close();
+  return frames;
+}
+
+const frameToBlob = (frame: AnimationFrame) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = frame.width;
+  canvas.height = frame.height;
+  canvas
+    .getContext("2d")!
+    .putImageData(
+      new ImageData(new Uint8ClampedArray(frame.data), frame.width),
+      0,
+      0
+    );
+  return new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, "image/png")
+  );
+};
+
+export async function createQRAnimation(
+  options: StyledQROptions,
+  settings: QRAnimationSettings,
+  onProgress?: (completed: number, total: number) => void
+): Promise<QRAnimationResult> {
+  const frames = await renderQRAnimationFrames(options, settings, onProgress);
+  const delay = settings.duration / settings.frameCount;
+  const blob =
+    settings.format === "gif"
+      ? encodeGif(frames, delay)
+      : await encodeApng(frames, delay);
+
+  let scannable = true;
+  for (const frame of [frames[0], frames[Math.floor(frames.length / 2)]]) {
+    const image = await frameToBlob(frame);
+    if (!image || (await decodeQRImage(image)) !== options.data) {
+      scannable = false;
+    }
+  }
+  return { blob, scannable };
+}
+
+export const downloadQRAnimation = (blob: Blob, format: QRAnimationFormat) =>
+  saveAs(blob, `qr-code-animated.${format === "gif" ? "gif" : "png"}`);
@@ -0,0 +1,314 @@
+import { type Gradient } from "qr-code-styling";
+import {
+  decodeDesign,
+  DESIGN_SCHEMA_VERSION,
+  restoreDesign,
+} from "./qr-design-link";
+import { wrapSvgInFrame } from "./qr-frame";
+import { type QRCodeState, toQRFrame, toStyledQROptions } from "./qr-state";
+import {
+  buildQRLayers,
+  createQRMatrix,
+  getHiddenLogoModules,
+  toSVGPathData,
+} from "./qr-vector";
+import { getQRModuleCount } from "./scannability";
+
+/**
+ * QR rendering API
+ *
+ * Validates requests to the /api/qr route and renders the QR code as SVG
+ * without a browser. A request is a JSON body with any `QRCodeState` fields,
+ * optionally on top of an encoded design from a design link, and the content
+ * in `data`. Missing fields use the defaults of the generator page.
+ *
+ * Logos and background images must be data URLs or short text logos: the
+ * server never fetches remote images. The frame is drawn as in the
+ * downloads of the page, with text widths estimated from the font size.
+ */
+
+export type QRApiFormat = "png" | "svg";
+
+export interface QRApiRequest {
+  state: QRCodeState;
+  format: QRApiFormat;
+}
+
+export const QR_API_LIMITS = {
+  minSize: 64,
+  maxSize: 2048,
+  // Request bodies and embedded images, in bytes
+  maxBodyBytes: 2 * 1024 * 1024,
+  maxImageBytes: 1024 * 1024,
+  maxDataLength: 4096,
+  maxTextLogoLength: 8,
+  maxLogoMargin: 50,
+};
+
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+const IMAGE_DATA_URL =
+  /^data:image\/(png|jpeg|gif|webp|svg\+xml);base64,[A-Za-z0-9+/]+=*$/;
+
+const colorFields = [
+  "dotsColor",
+  "cornersSquareColor",
+  "cornersDotColor",
+] as const;
+
+const gradientFields = [
+  "dotsGradient",
+  "cornersSquareGradient",
+  "cornersDotGradient",
+  "backgroundGradient",
+] as const;
+
+// Size of the decoded data URL
+const getDataUrlBytes = (dataUrl: string) =>
+  Math.floor(((dataUrl.length - dataUrl.indexOf(",") - 1) * 3) / 4);
+
+const validateImage = (
+  value: string,
+  label: string,
+  allowText: boolean
+): string | null => {
+  if (!value || IMAGE_DATA_URL.test(value)) {
+    return getDataUrlBytes(value) > QR_API_LIMITS.maxImageBytes
+      ? `The ${label} must be at most ${QR_API_LIMITS.maxImageBytes / 1024} KB`
+      : null;
+  }
+  if (/^(https?:|data:)/i.test(value)) {
+    return `The ${label} must be a base64 PNG, JPEG, GIF, WebP or SVG data URL`;
+  }
+  if (!allowText) return `The ${label} must be a data URL`;
+  return [...value].length > QR_API_LIMITS.maxTextLogoLength
+    ? `Text logos can have at most ${QR_API_LIMITS.maxTextLogoLength} characters`
+    : null;
+};
+
+// Returns an error message, or null when the design can be rendered
+export function validateQRApiState(state: QRCodeState): string | null {
+  const { minSize, maxSize, maxDataLength, maxLogoMargin } = QR_API_LIMITS;
+  if (state.symbology !== "qr") {
+    return 'Only QR codes can be rendered, set symbology to "qr"';
+  }
+  if (!state.data) return "Enter the content of the QR code in data";
+  if (state.data.length > maxDataLength) {
+    return `The content can have at most ${maxDataLength} characters`;
+  }
+  for (const field of ["width", "height"] as const) {
+    const value = state[field];
+    if (!Number.isInteger(value) || value < minSize || value > maxSize) {
+      return `${field} must be a whole number from ${minSize} to ${maxSize}`;
+    }
+  }
+  if (
+    state.margin < 0 ||
+    state.margin > Math.min(state.width, state.height) / 4
+  ) {
+    return "margin must be between 0 and a quarter of the size";
+  }
+  const moduleCount = getQRModuleCount(state.data, state.errorCorrectionLevel);
+  if (!moduleCount) {
+    return `The content does not fit in a QR code at error correction level ${state.errorCorrectionLevel}`;
+  }
+  if (Math.min(state.width, state.height) - 2 * state.margin < moduleCount) {
+    return `The code has ${moduleCount} modules per side, increase width and height or reduce margin`;
+  }
+  if (state.logoSize < 0 || state.logoSize > 1) {
+    return "logoSize must be between 0 and 1";
+  }
+  if (state.logoMargin < 0 || state.logoMargin > maxLogoMargin) {
+    return `logoMargin must be between 0 and ${maxLogoMargin}`;
+  }
+  if (state.backgroundImageOpacity < 0 || state.backgroundImageOpacity > 1) {
+    return "backgroundImageOpacity must be between 0 and 1";
+  }
+  for (const field of colorFields) {
+    if (!HEX_COLOR.test(state[field])) {
+      return `${field} must be a hex color such as #000000`;
+    }
+  }
+  if (
+    state.backgroundColor !== "transparent" &&
+    !HEX_COLOR.test(state.backgroundColor)
+  ) {
+    return 'backgroundColor must be a hex color or "transparent"';
+  }
+  for (const field of gradientFields) {
+    if (state[field]?.colorStops.some((stop) => !HEX_COLOR.test(stop.color))) {
+      return `The color stops of ${field} must be hex colors`;
+    }
+  }
+  return (
+    validateImage(state.logo ?? "", "logo", true) ??
+    validateImage(state.backgroundImage, "background image", false)
+  );
+}
+
+/**
+ * Reads a request body: `state` with design fields, `design` with an encoded
+ * design as in a design link, `data` with the content and `format`.
+ */
+export function parseQRApiRequest(
+  body: unknown
+): { request: QRApiRequest } | { error: string } {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { error: "Send a JSON object" };
+  }
+  const {
+    state,
+    design,
+    data,
+    format = "png",
+  } = body as Record<string, unknown>;
+  if (format !== "png" && format !== "svg") {
+    return { error: 'format must be "png" or "svg"' };
+  }
+  if (data !== undefined && typeof data !== "string") {
+    return { error: "data must be a string" };
+  }
+  if (state !== undefined && (!state || typeof state !== "object")) {
+    return { error: "state must be an object" };
+  }
+
+  let baseState: Partial<QRCodeState> = {};
+  if (design !== undefined) {
+    const decoded = typeof design === "string" ? decodeDesign(design) : null;
+    if (!decoded) return { error: "design is not a valid encoded design" };
+    baseState = decoded.design.state;
+  }
+
+  // Same field checks as design links, but unknown fields are an error here.
+  // Numbers are not clamped, validateQRApiState checks the API's own limits
+  const restored = restoreDesign(
+    {
+      state: {
+        ...baseState,
+        ...(state as Partial<QRCodeState> | undefined),
+        ...(data !== undefined && { data }),
+      },
+    },
+    DESIGN_SCHEMA_VERSION,
+    {}
+  );
+  if (restored.droppedFields.length > 0) {
+    return {
+      error: `Invalid or unknown fields: ${restored.droppedFields.join(", ")}`,
+    };
+  }
+
+  const error = validateQRApiState(restored.design.state);
+  if (error) return { error };
+  return { request: { state: restored.design.state, format } };
+}
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// Gradient across the whole image, as qr-code-styling draws it
+const createGradient = (
+  id: string,
+  gradient: Gradient,
+  width: number,
+  height: number
+) => {
+  const stops = gradient.colorStops
+    .map(
+      (stop) =>
+        `<stop offset="${stop.offset}" stop-color="${escapeXml(stop.color)}"/>`
+    )
+    .join("");
+  const cx = width / 2;
+  const cy = height / 2;
+  const radius = Math.max(width, height) / 2;
+  if (gradient.type === "radial") {
+    return `<radialGradient id="${id}" gradientUnits="userSpaceOnUse" cx="${cx}" cy="${cy}" r="${radius}">${stops}</radialGradient>`;
+  }
+  const dx = Math.cos(gradient.rotation || 0) * radius;
+  const dy = Math.sin(gradient.rotation || 0) * radius;
+  return `<linearGradient id="${id}" gradientUnits="userSpaceOnUse" x1="${cx - dx}" y1="${cy - dy}" x2="${cx + dx}" y2="${cy + dy}">${stops}</linearGradient>`;
+};
+
+/**
+ * Renders a validated design as an SVG document. `logoAspect` is the height
+ * to width ratio of an image logo, it sizes the area kept free for the logo.
+ */
+export function renderQRSvg(state: QRCodeState, logoAspect = 1): string {
+  const options = toStyledQROptions(state);
+  const qr = createQRMatrix(options);
+  const { width, height, margin } = state;
+  const count = qr.getModuleCount();
+  const moduleSize = Math.floor((Math.min(width, height) - 2 * margin) / count);
+  const offsetX = Math.floor((width - count * moduleSize) / 2);
+  const offsetY = Math.floor((height - count * moduleSize) / 2);
+
+  const hidden = state.logo
+    ? getHiddenLogoModules(count, options, logoAspect)
+    : { columns: 0, rows: 0 };
+  const layers = buildQRLayers(options, qr, {
+    moduleSize,
+    offsetX,
+    offsetY,
+    hidden,
+  });
+
+  const defs: string[] = [];
+  const getFill = (id: string, color: string, gradient?: Gradient) => {
+    if (!gradient) return escapeXml(color);
+    defs.push(createGradient(`${id}-gradient`, gradient, width, height));
+    return `url(#${id}-gradient)`;
+  };
+
+  const content: string[] = [];
+  const { backgroundOptions, backgroundImage } = options;
+  if (backgroundOptions?.gradient || state.backgroundColor !== "transparent") {
+    content.push(
+      `<rect width="${width}" height="${height}" fill="${getFill("background", state.backgroundColor, backgroundOptions?.gradient)}"/>`
+    );
+  }
+  if (backgroundImage) {
+    content.push(
+      `<image href="${escapeXml(backgroundImage.src)}" width="${width}" height="${height}" preserveAspectRatio="xMidYMid slice" opacity="${backgroundImage.opacity}"/>`
+    );
+  }
+
+  const gradients = {
+    dots: options.dotsOptions?.gradient,
+    cornersSquare: options.cornersSquareOptions?.gradient,
+    cornersDot: options.cornersDotOptions?.gradient,
+  };
+  for (const layer of layers) {
+    if (layer.path.length === 0) continue;
+    content.push(
+      `<path d="${toSVGPathData(layer.path)}" fill="${getFill(layer.id, layer.color, gradients[layer.id])}" fill-rule="evenodd"/>`
+    );
+  }
+
+  // Logo centered in the free area, inset by the logo margin
+  if (state.logo && hidden.columns > 0) {
+    const logoWidth = hidden.columns * moduleSize - 2 * state.logoMargin;
+    const logoHeight = hidden.rows * moduleSize - 2 * state.logoMargin;
+    const x = offsetX + (count * moduleSize - logoWidth) / 2;
+    const y = offsetY + (count * moduleSize - logoHeight) / 2;
+    if (logoWidth > 0 && logoHeight > 0) {
+      content.push(
+        state.logo.startsWith("data:")
+          ? `<image href="${escapeXml(state.logo)}" x="${x}" y="${y}" width="${logoWidth}" height="${logoHeight}"/>`
+          : `<text x="${x + logoWidth / 2}" y="${y + logoHeight / 2}" font-family="Arial, sans-serif" font-size="${logoHeight * 0.6}" text-anchor="middle" dominant-baseline="central">${escapeXml(state.logo)}</text>`
+      );
+    }
+  }
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    defs.length > 0 ? `<defs>${defs.join("")}</defs>` : "",
+    ...content,
+    "</svg>",
+  ].join("");
+  const frame = toQRFrame(state);
+  return frame ? wrapSvgInFrame(svg, frame, width, height) : svg;
+}
@@ -0,0 +1,306 @@
+import { saveAs } from "file-saver";
+import JSZip from "jszip";
+import QRCodeStyling from "qr-code-styling";
+import { FramedRenderer, type QRFrame } from "./qr-frame";
+import { parseWiFiSecurity } from "./qr-payloads";
+import {
+  applyBackgroundImage,
+  generateVCardQR,
+  generateWiFiQR,
+  qrRawDataToBlob,
+  resolveLogoImage,
+  type StyledQROptions,
+} from "./qr-utils";
+
+/**
+ * Batch QR generation
+ *
+ * A CSV file is parsed into a table, each row is mapped onto a data template
+ * (URL, text, WiFi or vCard) and every resulting payload is rendered with the
+ * current QR styling, inside the frame when one is set. The rendered codes are
+ * bundled into a single ZIP file.
+ */
+
+export interface CSVTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export type BatchTemplate = "url" | "text" | "wifi" | "vcard";
+
+export interface BatchTemplateField {
+  key: string;
+  label: string;
+  required?: boolean;
+}
+
+export const batchTemplateFields: Record<BatchTemplate, BatchTemplateField[]> =
+  {
+    url: [{ key: "url", label: "URL", required: true }],
+    text: [{ key: "text", label: "Text", required: true }],
+    wifi: [
+      { key: "ssid", label: "Network Name (SSID)", required: true },
+      { key: "password", label: "Password" },
+      { key: "security", label: "Security (WPA/WPA3/WEP/nopass)" },
+      { key: "hidden", label: "Hidden network (yes/no)" },
+    ],
+    vcard: [
+      { key: "firstName", label: "First name" },
+      { key: "lastName", label: "Last name" },
+      { key: "title", label: "Title" },
+      { key: "organization", label: "Company" },
+      { key: "street", label: "Street" },
+      { key: "city", label: "City" },
+      { key: "zipCode", label: "Zip code" },
+      { key: "country", label: "Country" },
+      { key: "emailPersonal", label: "Email (personal)" },
+      { key: "emailBusiness", label: "Email (business)" },
+      { key: "phonePersonal", label: "Phone (personal)" },
+      { key: "phoneMobile", label: "Phone (mobile)" },
+      { key: "phoneBusiness", label: "Phone (business)" },
+      { key: "website", label: "Website" },
+    ],
+  };
+
+// Maps a template field key to a CSV header
+export type BatchColumnMapping = Record<string, string | undefined>;
+
+export interface BatchItem {
+  index: number;
+  data: string;
+  filename: string;
+  row: Record<string, string>;
+}
+
+// Parse CSV text (RFC 4180: quoted fields, escaped quotes, CRLF line breaks)
+export function parseCSV(text: string): CSVTable {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  // Auto-detect semicolon separated files exported by spreadsheet apps
+  const firstLine = text.split(/\r?\n/, 1)[0] || "";
+  const delimiter =
+    firstLine.split(";").length > firstLine.split(",").length ? ";" : ",";
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  // Drop empty lines
+  const nonEmpty = records.filter((r) => r.some((cell) => cell.trim()));
+  const [headerRow = [], ...rows] = nonEmpty;
+  const headers = headerRow.map(
+    (header, i) => header.replace(/^\uFEFF/, "").trim() || `Column ${i + 1}`
+  );
+
+  return { headers, rows };
+}
+
+// Guess a column mapping by comparing headers to field keys and labels
+export function suggestColumnMapping(
+  template: BatchTemplate,
+  headers: string[]
+): BatchColumnMapping {
+  const normalize = (value: string) =>
+    value.toLowerCase().replace(/[^a-z0-9]/g, "");
+  const mapping: BatchColumnMapping = {};
+
+  for (const field of batchTemplateFields[template]) {
+    const candidates = [normalize(field.key), normalize(field.label)];
+    const match = headers.find((header) => {
+      const normalized = normalize(header);
+      return candidates.some(
+        (candidate) =>
+          normalized === candidate ||
+          (normalized.length > 2 && candidate.startsWith(normalized))
+      );
+    });
+    if (match) mapping[field.key] = match;
+  }
+
+  // Single-field templates fall back to the first column
+  if (batchTemplateFields[template].length === 1 && headers.length > 0) {
+    const key = batchTemplateFields[template][0].key;
+    mapping[key] = mapping[key] || headers[0];
+  }
+
+  return mapping;
+}
+
+// Build the QR payload for one CSV row
+export function buildBatchPayload(
+  template: BatchTemplate,
+  row: Record<string, string>,
+  mapping: BatchColumnMapping
+): string {
+  const value = (key: string) => {
+    const header = mapping[key];
+    return header ? (row[header] || "").trim() : "";
+  };
+
+  switch (template) {
+    case "url":
+      return value("url");
+    case "text":
+      return value("text");
+    case "wifi": {
+      if (!value("ssid")) return "";
+      return generateWiFiQR(
+        value("ssid"),
+        value("password"),
+        parseWiFiSecurity(value("security")),
+        /^(true|yes|1)$/i.test(value("hidden"))
+      );
+    }
+    case "vcard": {
+      const contact = Object.fromEntries(
+        batchTemplateFields.vcard.map(({ key }) => [key, value(key)])
+      );
+      if (!Object.values(contact).some(Boolean)) return "";
+      return generateVCardQR(contact);
+    }
+  }
+}
+
+// Replace {index} and {Column Name} placeholders and strip unsafe characters
+export function formatBatchFilename(
+  pattern: string,
+  row: Record<string, string>,
+  index: number
+): string {
+  const name = pattern.replace(/\{([^}]+)\}/g, (_, token: string) => {
+    if (token === "index") return String(index + 1);
+    return row[token] ?? "";
+  });
+
+  return (
+    name
+      .replace(/[\\/:*?"<>|\x00-\x1f]/g, "_")
+      .replace(/\s+/g, " ")
+      .trim()
+      .slice(0, 120) || `qr-${index + 1}`
+  );
+}
+
+// Turn a parsed CSV into renderable items, skipping rows without payload
+export function createBatchItems(
+  table: CSVTable,
+  template: BatchTemplate,
+  mapping: BatchColumnMapping,
+  filenamePattern: string
+): { items: BatchItem[]; skippedRows: number[] } {
+  const items: BatchItem[] = [];
+  const skippedRows: number[] = [];
+  const usedNames = new Set<string>();
+
+  table.rows.forEach((cells, index) => {
+    const row = Object.fromEntries(
+      table.headers.map((header, i) => [header, cells[i] ?? ""])
+    );
+    const data = buildBatchPayload(template, row, mapping);
+    if (!data) {
+      skippedRows.push(index + 1);
+      return;
+    }
+
+    // Keep filenames unique inside the archive, a numbered name can itself
+    // be taken by another row
+    const baseName = formatBatchFilename(filenamePattern, row, index);
+    let filename = baseName;
+    for (let n = 2; usedNames.has(filename.toLowerCase()); n++) {
+      filename = `${baseName}-${n}`;
+    }
+    usedNames.add(filename.toLowerCase());
+
+    items.push({ index, data, filename, row });
+  });
+
+  return { items, skippedRows };
+}
+
+// Render every item with the shared styling and bundle them into a ZIP
+export async function generateQRBatchZip(
+  items: BatchItem[],
+  baseOptions: StyledQROptions,
+  format: "png" | "svg" = "png",
+  onProgress?: (completed: number, total: number) => void,
+  frame: QRFrame | null = null
+): Promise<Blob> {
+  const zip = new JSZip();
+  const width = baseOptions.width || 300;
+  const height = baseOptions.height || 300;
+  const qrInstance = new QRCodeStyling({
+    ...baseOptions,
+    type: format === "svg" ? "svg" : "canvas",
+    image: resolveLogoImage(baseOptions.image, width, height),
+  });
+  applyBackgroundImage(qrInstance, baseOptions.backgroundImage);
+  const source = frame
+    ? new FramedRenderer(qrInstance, frame, width, height)
+    : qrInstance;
+  const mimeType = format === "svg" ? "image/svg+xml" : "image/png";
+
+  for (let i = 0; i < items.length; i++) {
+    const item = items[i];
+    qrInstance.update({ data: item.data });
+    const rawData = await source.getRawData(format);
+    const blob = qrRawDataToBlob(rawData, mimeType);
+    if (!blob) {
+      throw new Error(`Failed to render QR code for row ${item.index + 1}`);
+    }
+    zip.file(`${item.filename}.${format}`, blob);
+    onProgress?.(i + 1, items.length);
+  }
+
+  return zip.generateAsync({ type: "blob" });
+}
+
+export async function downloadQRBatch(
+  items: BatchItem[],
+  baseOptions: StyledQROptions,
+  format: "png" | "svg" = "png",
+  onProgress?: (completed: number, total: number) => void,
+  frame: QRFrame | null = null
+) {
+  const zipBlob = await generateQRBatchZip(
+    items,
+    baseOptions,
+    format,
+    onProgress,
+    frame
+  );
+  saveAs(zipBlob, `qr-codes-${Date.now()}.zip`);
+}
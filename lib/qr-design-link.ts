@@ -0,0 +1,281 @@
+import { initialQRState, type QRCodeState } from "./qr-state";
+import { FRAME_LIMITS, isValidFrameLine } from "./qr-frame";
+import { isValidGradient } from "./qr-utils";
+import { symbologyIds } from "./symbology";
+
+/**
+ * Shareable design links
+ *
+ * A QR design (styling, content type and the form fields of that type) is
+ * stored in the URL hash as `#design=<version>.<base64url JSON>`. Only values
+ * that differ from the defaults are written to keep links short. Links made
+ * with an older schema are migrated step by step; links from an unknown
+ * version are restored field by field, keeping whatever is still valid.
+ * The same restoring is used for designs imported into the design library.
+ */
+
+export const DESIGN_SCHEMA_VERSION = 2;
+const HASH_KEY = "design";
+
+export interface QRDesign {
+  state: QRCodeState;
+  dataType: string;
+  typeData?: Record<string, unknown>;
+}
+
+export interface DecodedDesign {
+  design: QRDesign;
+  // "partial" means unknown or invalid fields were dropped
+  status: "exact" | "migrated" | "partial";
+  droppedFields: string[];
+}
+
+// Serialized form, short keys keep the link compact
+interface DesignPayload {
+  s?: Partial<QRCodeState>;
+  t?: string;
+  f?: Record<string, unknown>;
+}
+
+// Design as found in a link or an imported file, nothing is trusted yet
+export interface UnvalidatedDesign {
+  state?: unknown;
+  dataType?: unknown;
+  typeData?: unknown;
+}
+
+// Upgrades a design of version N to version N + 1
+const migrations: Record<
+  number,
+  (design: UnvalidatedDesign) => UnvalidatedDesign
+> = {
+  // A single frame text on top or bottom became a list of text lines
+  1: (design) => {
+    if (!design.state || typeof design.state !== "object") return design;
+    const { frameText, textPosition, ...state } = design.state as Record<
+      string,
+      unknown
+    >;
+    if (frameText === undefined && textPosition === undefined) {
+      return { ...design, state };
+    }
+    const text =
+      typeof frameText === "string" ? frameText : "Scan for more info";
+    return {
+      ...design,
+      state: {
+        ...state,
+        frameLines: text
+          ? [
+              {
+                text,
+                icon: "none",
+                size: "medium",
+                position: textPosition === "top" ? "top" : "bottom",
+              },
+            ]
+          : [],
+      },
+    };
+  },
+};
+
+const enumFields: Partial<Record<keyof QRCodeState, readonly string[]>> = {
+  errorCorrectionLevel: ["L", "M", "Q", "H"],
+  symbology: symbologyIds,
+  frameShape: ["square", "rounded", "ticket"],
+  frameStyle: ["solid", "outline"],
+  frameArrow: ["none", "top", "bottom"],
+};
+
+// Ranges of the sliders in the generator, values outside them are clamped
+const designNumberRanges: Partial<
+  Record<keyof QRCodeState, [min: number, max: number]>
+> = {
+  width: [200, 800],
+  height: [200, 800],
+  margin: [0, 50],
+  borderRadius: [0, 50],
+  backgroundImageOpacity: [0.05, 1],
+  logoSize: [0.1, 0.8],
+  logoMargin: [0, 10],
+};
+
+const gradientFields = [
+  "dotsGradient",
+  "cornersSquareGradient",
+  "cornersDotGradient",
+  "backgroundGradient",
+] as const;
+
+const toBase64Url = (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+};
+
+const fromBase64Url = (value: string) => {
+  const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+  return new TextDecoder().decode(
+    Uint8Array.from(binary, (char) => char.charCodeAt(0))
+  );
+};
+
+const isSameType = (a: unknown, b: unknown) =>
+  Array.isArray(a) ? Array.isArray(b) : typeof a === typeof b && b !== null;
+
+/**
+ * Copies the fields of `data` that exist in `defaults` with the same type.
+ * Returns the merged object and the names of fields that were dropped.
+ */
+export function mergeKnownFields<T extends object>(
+  defaults: T,
+  data: unknown
+): { value: T; dropped: string[] } {
+  const value = { ...defaults };
+  const dropped: string[] = [];
+  if (!data || typeof data !== "object") return { value, dropped };
+
+  for (const [key, fieldValue] of Object.entries(data)) {
+    const defaultValue = (defaults as Record<string, unknown>)[key];
+    if (key in defaults && isSameType(defaultValue, fieldValue)) {
+      (value as Record<string, unknown>)[key] = fieldValue;
+    } else {
+      dropped.push(key);
+    }
+  }
+  return { value, dropped };
+}
+
+// Uploaded logos and background images are data URLs that would make links
+// huge, they are left out
+export const isLogoShareable = (logo?: string) => !logo?.startsWith("data:");
+
+export function encodeDesign(design: QRDesign): string {
+  const state: Partial<QRCodeState> = {};
+  for (const key of Object.keys(design.state) as (keyof QRCodeState)[]) {
+    const value = design.state[key];
+    if (
+      (key === "logo" || key === "backgroundImage") &&
+      !isLogoShareable(value as string | undefined)
+    ) {
+      continue;
+    }
+    if (JSON.stringify(value) !== JSON.stringify(initialQRState[key])) {
+      (state as Record<string, unknown>)[key] = value;
+    }
+  }
+
+  const payload: DesignPayload = { s: state, t: design.dataType };
+  if (design.typeData) payload.f = design.typeData;
+  return `${DESIGN_SCHEMA_VERSION}.${toBase64Url(JSON.stringify(payload))}`;
+}
+
+/**
+ * Migrates a design saved with schema `version` and keeps only the fields
+ * that are valid for the current schema. Numbers are clamped to
+ * `numberRanges`, clamped fields count as dropped.
+ */
+export function restoreDesign(
+  data: UnvalidatedDesign,
+  version: number,
+  numberRanges = designNumberRanges
+): DecodedDesign {
+  let design = data;
+  let status: DecodedDesign["status"] = "exact";
+  while (version < DESIGN_SCHEMA_VERSION && migrations[version]) {
+    design = migrations[version](design);
+    version++;
+    status = "migrated";
+  }
+  // Unknown versions fall through to field-by-field restoring
+  if (version !== DESIGN_SCHEMA_VERSION) status = "partial";
+
+  // logo is optional and therefore missing from the defaults
+  const { logo, ...stateData } =
+    design.state && typeof design.state === "object"
+      ? (design.state as Partial<QRCodeState>)
+      : {};
+  const { value: state, dropped } = mergeKnownFields(initialQRState, stateData);
+  if (typeof logo === "string") state.logo = logo;
+
+  for (const [key, allowed] of Object.entries(enumFields)) {
+    const field = key as keyof QRCodeState;
+    if (!allowed.includes(state[field] as string)) {
+      Object.assign(state, { [field]: initialQRState[field] });
+      dropped.push(field);
+    }
+  }
+  for (const [key, [min, max]] of Object.entries(numberRanges)) {
+    const field = key as keyof QRCodeState;
+    const value = state[field] as number;
+    const clamped = Number.isFinite(value)
+      ? Math.min(Math.max(value, min), max)
+      : initialQRState[field];
+    if (clamped !== value) {
+      Object.assign(state, { [field]: clamped });
+      dropped.push(field);
+    }
+  }
+  for (const field of gradientFields) {
+    if (state[field] !== null && !isValidGradient(state[field])) {
+      state[field] = null;
+      dropped.push(field);
+    }
+  }
+  const frameLines = state.frameLines
+    .filter(isValidFrameLine)
+    .slice(0, FRAME_LIMITS.maxLines);
+  if (frameLines.length !== state.frameLines.length) {
+    state.frameLines = frameLines;
+    dropped.push("frameLines");
+  }
+  if (dropped.length > 0) status = "partial";
+
+  return {
+    design: {
+      state,
+      dataType: typeof design.dataType === "string" ? design.dataType : "text",
+      typeData:
+        design.typeData && typeof design.typeData === "object"
+          ? (design.typeData as Record<string, unknown>)
+          : undefined,
+    },
+    status,
+    droppedFields: dropped,
+  };
+}
+
+export function decodeDesign(encoded: string): DecodedDesign | null {
+  const match = encoded.match(/^(\d+)\.([A-Za-z0-9_-]+)$/);
+  if (!match) return null;
+
+  let payload: DesignPayload;
+  try {
+    payload = JSON.parse(fromBase64Url(match[2]));
+  } catch {
+    return null;
+  }
+  if (!payload || typeof payload !== "object") return null;
+
+  return restoreDesign(
+    { state: payload.s, dataType: payload.t, typeData: payload.f },
+    Number(match[1])
+  );
+}
+
+export const buildDesignLink = (baseUrl: string, design: QRDesign) =>
+  `${baseUrl.split("#")[0]}#${HASH_KEY}=${encodeDesign(design)}`;
+
+// Reads a design from a location hash such as "#design=1.eyJ..."
+export function readDesignFromHash(hash: string): DecodedDesign | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  const encoded = params.get(HASH_KEY);
+  return encoded ? decodeDesign(encoded) : null;
+}
@@ -0,0 +1,700 @@
+import { type FileExtension } from "qr-code-styling";
+import { qrRawDataToBlob, type QRRawDataSource } from "./qr-utils";
+
+/**
+ * QR frames
+ *
+ * A frame is laid out once as a list of vector elements around a slot for
+ * the code: the outline, any number of text lines with optional icons and a
+ * call-to-action arrow pointing at the code. The preview draws the elements
+ * as inline SVG, SVG downloads nest the code's SVG into the frame and PNG
+ * downloads paint the code into the rasterized frame, so all of them match.
+ * Raster downloads draw the text on the canvas, SVG images cannot use web
+ * fonts.
+ *
+ * Sizes are given for a 300px wide code and scale with the code.
+ */
+
+export type FrameShape = "square" | "rounded" | "ticket";
+// Solid frames are filled with the frame color and hold the code on a card,
+// outline frames only draw their border in the frame color
+export type FrameStyle = "solid" | "outline";
+// Side of the code the arrow sits on, it always points at the code
+export type FrameArrow = "none" | "top" | "bottom";
+export type FrameTextSize = "small" | "medium" | "large";
+export type FrameIcon =
+  | "none"
+  | "scan"
+  | "phone"
+  | "camera"
+  | "link"
+  | "wifi"
+  | "cart"
+  | "mail"
+  | "heart"
+  | "star";
+
+export interface FrameLine {
+  text: string;
+  icon: FrameIcon;
+  size: FrameTextSize;
+  position: "top" | "bottom";
+}
+
+export interface QRFrame {
+  color: string;
+  textColor: string;
+  // Behind the code and inside outline frames
+  paperColor: string;
+  // CSS font-family, "inherit" uses the default font stack
+  font: string;
+  shape: FrameShape;
+  style: FrameStyle;
+  lines: FrameLine[];
+  arrow: FrameArrow;
+}
+
+export type FrameElement =
+  | {
+      kind: "path";
+      d: string;
+      fill?: string;
+      stroke?: string;
+      strokeWidth?: number;
+      dash?: number[];
+    }
+  // Stroked icon path on a 24 unit grid, placed at x/y with the given size
+  | {
+      kind: "icon";
+      d: string;
+      x: number;
+      y: number;
+      size: number;
+      color: string;
+    }
+  | {
+      kind: "text";
+      text: string;
+      x: number;
+      // Vertical center of the text
+      y: number;
+      anchor: "start" | "middle";
+      fontSize: number;
+      fontWeight: number;
+      color: string;
+    };
+
+export interface FrameLayout {
+  width: number;
+  height: number;
+  // Where the code goes, at its own size
+  code: { x: number; y: number; width: number; height: number };
+  fontFamily: string;
+  elements: FrameElement[];
+}
+
+export interface FramePreset {
+  id: string;
+  name: string;
+  frameColor: string;
+  textColor: string;
+  shape: FrameShape;
+  style: FrameStyle;
+  arrow: FrameArrow;
+  // Replaces the text lines when set
+  lines?: FrameLine[];
+}
+
+export const FRAME_LIMITS = { maxLines: 4, maxLineLength: 40 };
+
+export const DEFAULT_FRAME_FONT = "Arial, Helvetica, sans-serif";
+
+export const frameShapes: { id: FrameShape; name: string }[] = [
+  { id: "square", name: "Square" },
+  { id: "rounded", name: "Rounded" },
+  { id: "ticket", name: "Ticket" },
+];
+
+export const frameTextSizes: { id: FrameTextSize; name: string }[] = [
+  { id: "small", name: "Small" },
+  { id: "medium", name: "Medium" },
+  { id: "large", name: "Large" },
+];
+
+// Outline icons in the style of the lucide set used across the app
+export const frameIcons: { id: FrameIcon; name: string; path: string }[] = [
+  { id: "none", name: "No icon", path: "" },
+  {
+    id: "scan",
+    name: "Scan",
+    path: "M3 7V5a2 2 0 0 1 2-2h2M17 3h2a2 2 0 0 1 2 2v2M21 17v2a2 2 0 0 1-2 2h-2M7 21H5a2 2 0 0 1-2-2v-2M7 12h10",
+  },
+  {
+    id: "phone",
+    name: "Phone",
+    path: "M7 2h10a2 2 0 0 1 2 2v16a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2zM12 18h.01",
+  },
+  {
+    id: "camera",
+    name: "Camera",
+    path: "M14.5 4h-5L7 7H4a2 2 0 0 0-2 2v9a2 2 0 0 0 2 2h16a2 2 0 0 0 2-2V9a2 2 0 0 0-2-2h-3zM9 13a3 3 0 1 0 6 0a3 3 0 1 0-6 0",
+  },
+  {
+    id: "link",
+    name: "Link",
+    path: "M10 13a5 5 0 0 0 7.54.54l3-3a5 5 0 0 0-7.07-7.07l-1.72 1.71M14 11a5 5 0 0 0-7.54-.54l-3 3a5 5 0 0 0 7.07 7.07l1.71-1.71",
+  },
+  {
+    id: "wifi",
+    name: "Wi-Fi",
+    path: "M5 12.55a11 11 0 0 1 14.08 0M1.42 9a16 16 0 0 1 21.16 0M8.53 16.11a6 6 0 0 1 6.95 0M12 20h.01",
+  },
+  {
+    id: "cart",
+    name: "Cart",
+    path: "M1 1h4l2.68 13.39a2 2 0 0 0 2 1.61h9.72a2 2 0 0 0 2-1.61L23 6H6M8 21a1 1 0 1 0 2 0a1 1 0 1 0-2 0M19 21a1 1 0 1 0 2 0a1 1 0 1 0-2 0",
+  },
+  {
+    id: "mail",
+    name: "Mail",
+    path: "M4 4h16a2 2 0 0 1 2 2v12a2 2 0 0 1-2 2H4a2 2 0 0 1-2-2V6a2 2 0 0 1 2-2zM22 6l-10 7L2 6",
+  },
+  {
+    id: "heart",
+    name: "Heart",
+    path: "M19 14c1.49-1.46 3-3.21 3-5.5A5.5 5.5 0 0 0 16.5 3c-1.76 0-3 .5-4.5 2-1.5-1.5-2.74-2-4.5-2A5.5 5.5 0 0 0 2 8.5c0 2.3 1.5 4.05 3 5.5l7 7z",
+  },
+  {
+    id: "star",
+    name: "Star",
+    path: "M12 2l3.09 6.26L22 9.27l-5 4.87 1.18 6.88L12 17.77l-6.18 3.25L7 14.14 2 9.27l6.91-1.01z",
+  },
+];
+
+export const framePresets: FramePreset[] = [
+  {
+    id: "dark-frame",
+    name: "Dark Frame",
+    frameColor: "#000000",
+    textColor: "#ffffff",
+    shape: "rounded",
+    style: "solid",
+    arrow: "none",
+  },
+  {
+    id: "scan-me",
+    name: "Scan Me",
+    frameColor: "#1d4ed8",
+    textColor: "#ffffff",
+    shape: "rounded",
+    style: "solid",
+    arrow: "bottom",
+    lines: [
+      { text: "SCAN ME", icon: "scan", size: "large", position: "bottom" },
+    ],
+  },
+  {
+    id: "ticket",
+    name: "Ticket",
+    frameColor: "#6d28d9",
+    textColor: "#ffffff",
+    shape: "ticket",
+    style: "solid",
+    arrow: "none",
+    lines: [
+      { text: "ADMIT ONE", icon: "star", size: "large", position: "bottom" },
+      {
+        text: "Show this code at the door",
+        icon: "none",
+        size: "small",
+        position: "bottom",
+      },
+    ],
+  },
+  {
+    id: "light-frame",
+    name: "Light Frame",
+    frameColor: "#000000",
+    textColor: "#000000",
+    shape: "rounded",
+    style: "outline",
+    arrow: "none",
+  },
+  {
+    id: "minimal-frame",
+    name: "Minimal Frame",
+    frameColor: "#cbd5e1",
+    textColor: "#64748b",
+    shape: "square",
+    style: "outline",
+    arrow: "none",
+  },
+];
+
+const BASE_CODE_WIDTH = 300;
+const PADDING = 20;
+const GAP = 12;
+const CARD_PADDING = 8;
+const CARD_RADIUS = 8;
+const OUTLINE_WIDTH = 6;
+const NOTCH_RADIUS = 10;
+const ARROW_WIDTH = 28;
+const ARROW_HEIGHT = 14;
+const ARROW_STROKE = 4;
+const LINE_HEIGHT = 1.35;
+const shapeRadius: Record<FrameShape, number> = {
+  square: 0,
+  rounded: 16,
+  ticket: 12,
+};
+const fontSizes: Record<FrameTextSize, number> = {
+  small: 12,
+  medium: 16,
+  large: 22,
+};
+const fontWeights: Record<FrameTextSize, number> = {
+  small: 400,
+  medium: 500,
+  large: 700,
+};
+
+const enumValues = {
+  icon: frameIcons.map((icon) => icon.id) as string[],
+  size: frameTextSizes.map((size) => size.id) as string[],
+  position: ["top", "bottom"],
+};
+
+export const isValidFrameLine = (value: unknown): value is FrameLine => {
+  if (!value || typeof value !== "object") return false;
+  const line = value as Record<string, unknown>;
+  return (
+    typeof line.text === "string" &&
+    line.text.length <= FRAME_LIMITS.maxLineLength &&
+    enumValues.icon.includes(line.icon as string) &&
+    enumValues.size.includes(line.size as string) &&
+    enumValues.position.includes(line.position as string)
+  );
+};
+
+export const resolveFrameFont = (font: string) =>
+  !font || font === "inherit" ? DEFAULT_FRAME_FONT : font;
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+// Canvas metrics in the browser, an average glyph width elsewhere
+const measureText = (
+  text: string,
+  fontSize: number,
+  fontWeight: number,
+  fontFamily: string
+) => {
+  if (typeof document === "undefined") {
+    return Array.from(text).length * fontSize * 0.6;
+  }
+  measureContext ??= document.createElement("canvas").getContext("2d");
+  if (!measureContext) return Array.from(text).length * fontSize * 0.6;
+  measureContext.font = `${fontWeight} ${fontSize}px ${fontFamily}`;
+  return measureContext.measureText(text).width;
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const rectPath = (x: number, y: number, w: number, h: number, r: number) => {
+  const radius = Math.min(r, w / 2, h / 2);
+  if (radius <= 0) return `M${x} ${y}H${x + w}V${y + h}H${x}Z`;
+  return [
+    `M${x + radius} ${y}`,
+    `H${x + w - radius}`,
+    `A${radius} ${radius} 0 0 1 ${x + w} ${y + radius}`,
+    `V${y + h - radius}`,
+    `A${radius} ${radius} 0 0 1 ${x + w - radius} ${y + h}`,
+    `H${x + radius}`,
+    `A${radius} ${radius} 0 0 1 ${x} ${y + h - radius}`,
+    `V${y + radius}`,
+    `A${radius} ${radius} 0 0 1 ${x + radius} ${y}`,
+    "Z",
+  ].join("");
+};
+
+// Rounded rectangle with a half-circle notch cut into each side at notchY
+const ticketPath = (
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+  r: number,
+  notchY: number,
+  notch: number
+) =>
+  [
+    `M${x + r} ${y}`,
+    `H${x + w - r}`,
+    `A${r} ${r} 0 0 1 ${x + w} ${y + r}`,
+    `V${notchY - notch}`,
+    `A${notch} ${notch} 0 0 0 ${x + w} ${notchY + notch}`,
+    `V${y + h - r}`,
+    `A${r} ${r} 0 0 1 ${x + w - r} ${y + h}`,
+    `H${x + r}`,
+    `A${r} ${r} 0 0 1 ${x} ${y + h - r}`,
+    `V${notchY + notch}`,
+    `A${notch} ${notch} 0 0 0 ${x} ${notchY - notch}`,
+    `V${y + r}`,
+    `A${r} ${r} 0 0 1 ${x + r} ${y}`,
+    "Z",
+  ].join("");
+
+/**
+ * Lays out the frame around a code of the given size. Text lines stack above
+ * and below the code in their order, the frame grows to fit the widest line.
+ */
+export function getFrameLayout(
+  frame: QRFrame,
+  codeWidth: number,
+  codeHeight: number
+): FrameLayout {
+  const unit = codeWidth / BASE_CODE_WIDTH;
+  const fontFamily = resolveFrameFont(frame.font);
+  const isSolid = frame.style === "solid";
+  const accent = isSolid ? frame.textColor : frame.color;
+  const padding = PADDING * unit;
+  const gap = GAP * unit;
+  const inset = isSolid ? CARD_PADDING * unit : 0;
+
+  const lines = frame.lines
+    .filter((line) => line.text.trim() || line.icon !== "none")
+    .map((line) => {
+      const fontSize = fontSizes[line.size] * unit;
+      const fontWeight = fontWeights[line.size];
+      const icon = frameIcons.find((item) => item.id === line.icon)?.path;
+      const iconSize = icon ? fontSize * 1.2 : 0;
+      const iconGap = icon && line.text ? fontSize * 0.4 : 0;
+      const textWidth = line.text
+        ? measureText(line.text, fontSize, fontWeight, fontFamily)
+        : 0;
+      return {
+        ...line,
+        fontSize,
+        fontWeight,
+        icon,
+        iconSize,
+        iconGap,
+        width: iconSize + iconGap + textWidth,
+        height: Math.max(fontSize * LINE_HEIGHT, iconSize),
+      };
+    });
+  const topLines = lines.filter((line) => line.position === "top");
+  const bottomLines = lines.filter((line) => line.position === "bottom");
+
+  const boxWidth = codeWidth + 2 * inset;
+  const boxHeight = codeHeight + 2 * inset;
+  const contentWidth = Math.max(boxWidth, ...lines.map((line) => line.width));
+  const width = Math.ceil(contentWidth + 2 * padding);
+  const centerX = width / 2;
+
+  const texts: FrameElement[] = [];
+  const placeLines = (block: typeof lines, top: number) => {
+    let y = top;
+    for (const line of block) {
+      const centerY = y + line.height / 2;
+      const left = centerX - line.width / 2;
+      if (line.icon) {
+        texts.push({
+          kind: "icon",
+          d: line.icon,
+          x: round(left),
+          y: round(centerY - line.iconSize / 2),
+          size: round(line.iconSize),
+          color: frame.textColor,
+        });
+      }
+      if (line.text) {
+        texts.push({
+          kind: "text",
+          text: line.text,
+          x: round(line.icon ? left + line.iconSize + line.iconGap : centerX),
+          y: round(centerY),
+          anchor: line.icon ? "start" : "middle",
+          fontSize: round(line.fontSize),
+          fontWeight: line.fontWeight,
+          color: frame.textColor,
+        });
+      }
+      y += line.height;
+    }
+    return y;
+  };
+  const arrowHeight = ARROW_HEIGHT * unit;
+  const arrowPath = (top: number, pointsDown: boolean) => {
+    const halfWidth = (ARROW_WIDTH * unit) / 2;
+    const [from, to] = pointsDown
+      ? [top, top + arrowHeight]
+      : [top + arrowHeight, top];
+    return `M${round(centerX - halfWidth)} ${round(from)}L${round(centerX)} ${round(to)}L${round(centerX + halfWidth)} ${round(from)}`;
+  };
+  const arrows: string[] = [];
+
+  let y = padding;
+  if (topLines.length > 0) y = placeLines(topLines, y) + gap;
+  if (frame.arrow === "top") {
+    arrows.push(arrowPath(y, true));
+    y += arrowHeight + gap;
+  }
+  const boxY = y;
+  y += boxHeight;
+  if (frame.arrow === "bottom") {
+    arrows.push(arrowPath(y + gap, false));
+    y += gap + arrowHeight;
+  }
+  if (bottomLines.length > 0) y = placeLines(bottomLines, y + gap);
+  const height = Math.ceil(y + padding);
+
+  const elements: FrameElement[] = [];
+  const strokeWidth = isSolid ? 0 : OUTLINE_WIDTH * unit;
+  const outline = {
+    x: strokeWidth / 2,
+    y: strokeWidth / 2,
+    width: width - strokeWidth,
+    height: height - strokeWidth,
+    radius: shapeRadius[frame.shape] * unit,
+  };
+  const shapeStyle = isSolid
+    ? { fill: frame.color }
+    : { fill: frame.paperColor, stroke: frame.color, strokeWidth };
+
+  if (frame.shape === "ticket") {
+    // Tear line between the code and the text below it, or above it
+    const notchY =
+      bottomLines.length > 0 || topLines.length === 0
+        ? boxY + boxHeight + gap / 2
+        : boxY - gap / 2;
+    const notch = NOTCH_RADIUS * unit;
+    elements.push({
+      kind: "path",
+      d: ticketPath(
+        round(outline.x),
+        round(outline.y),
+        round(outline.width),
+        round(outline.height),
+        round(outline.radius),
+        round(notchY),
+        round(notch)
+      ),
+      ...shapeStyle,
+    });
+    elements.push({
+      kind: "path",
+      d: `M${round(notch + 6 * unit)} ${round(notchY)}H${round(width - notch - 6 * unit)}`,
+      stroke: accent,
+      strokeWidth: round(2 * unit),
+      dash: [round(6 * unit), round(6 * unit)],
+    });
+  } else {
+    elements.push({
+      kind: "path",
+      d: rectPath(
+        round(outline.x),
+        round(outline.y),
+        round(outline.width),
+        round(outline.height),
+        round(outline.radius)
+      ),
+      ...shapeStyle,
+    });
+  }
+  const boxX = (width - boxWidth) / 2;
+  if (isSolid) {
+    elements.push({
+      kind: "path",
+      d: rectPath(
+        round(boxX),
+        round(boxY),
+        round(boxWidth),
+        round(boxHeight),
+        round(CARD_RADIUS * unit)
+      ),
+      fill: frame.paperColor,
+    });
+  }
+  for (const d of arrows) {
+    elements.push({
+      kind: "path",
+      d,
+      stroke: accent,
+      strokeWidth: round(ARROW_STROKE * unit),
+    });
+  }
+  elements.push(...texts);
+
+  return {
+    width,
+    height,
+    code: {
+      x: round(boxX + inset),
+      y: round(boxY + inset),
+      width: codeWidth,
+      height: codeHeight,
+    },
+    fontFamily,
+    elements,
+  };
+}
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const elementToSvg = (element: FrameElement, fontFamily: string) => {
+  if (element.kind === "icon") {
+    return `<path d="${element.d}" transform="translate(${element.x} ${element.y}) scale(${round(element.size / 24)})" fill="none" stroke="${escapeXml(element.color)}" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"/>`;
+  }
+  if (element.kind === "text") {
+    return `<text x="${element.x}" y="${element.y}" font-family="${escapeXml(fontFamily)}" font-size="${element.fontSize}" font-weight="${element.fontWeight}" fill="${escapeXml(element.color)}" text-anchor="${element.anchor}" dominant-baseline="central">${escapeXml(element.text)}</text>`;
+  }
+  return [
+    `<path d="${element.d}" fill="${element.fill ? escapeXml(element.fill) : "none"}"`,
+    element.stroke
+      ? ` stroke="${escapeXml(element.stroke)}" stroke-width="${element.strokeWidth}" stroke-linecap="round" stroke-linejoin="round"`
+      : "",
+    element.dash ? ` stroke-dasharray="${element.dash.join(" ")}"` : "",
+    "/>",
+  ].join("");
+};
+
+// The frame as an SVG document, `code` is placed into the slot as is
+const layoutToSvg = (layout: FrameLayout, code = "", includeText = true) =>
+  [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${layout.width}" height="${layout.height}" viewBox="0 0 ${layout.width} ${layout.height}">`,
+    ...layout.elements
+      .filter((element) => includeText || element.kind !== "text")
+      .map((element) => elementToSvg(element, layout.fontFamily)),
+    code,
+    "</svg>",
+  ].join("");
+
+const readSvgSize = (svg: string) => {
+  const root = svg.match(/<svg\b[^>]*>/)?.[0] ?? "";
+  const read = (name: string) =>
+    parseFloat(root.match(new RegExp(`\\s${name}="([\\d.]+)`))?.[1] ?? "");
+  return { width: read("width"), height: read("height") };
+};
+
+/**
+ * Nests an SVG code into the frame. The code keeps its own size when its
+ * root element declares one, otherwise the given size is used.
+ */
+export function wrapSvgInFrame(
+  codeSvg: string,
+  frame: QRFrame,
+  width: number,
+  height: number
+): string {
+  const size = readSvgSize(codeSvg);
+  const layout = getFrameLayout(
+    frame,
+    size.width || width,
+    size.height || height
+  );
+  const code = codeSvg
+    .replace(/^\s*<\?xml[^>]*\?>\s*/, "")
+    .replace(/<svg\b/, `<svg x="${layout.code.x}" y="${layout.code.y}"`);
+  return layoutToSvg(layout, code);
+}
+
+const loadSvgImage = (svg: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const url = URL.createObjectURL(
+      new Blob([svg], { type: "image/svg+xml;charset=utf-8" })
+    );
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Failed to render frame"));
+    };
+    image.src = url;
+  });
+
+// Waits for the web font of the frame text, so it is measured and drawn with
+// the font instead of a fallback
+const loadFrameFonts = async (frame: QRFrame) => {
+  if (typeof document === "undefined" || !document.fonts) return;
+  const fontFamily = resolveFrameFont(frame.font);
+  try {
+    await Promise.all(
+      frame.lines
+        .filter((line) => line.text)
+        .map((line) =>
+          document.fonts.load(
+            `${fontWeights[line.size]} ${fontSizes[line.size]}px ${fontFamily}`,
+            line.text
+          )
+        )
+    );
+  } catch (error) {
+    // Unknown fonts fall back like in the preview
+  }
+};
+
+// Export source that draws the frame around another source, interchangeable
+// with a QRCodeStyling instance
+export class FramedRenderer {
+  constructor(
+    private source: QRRawDataSource,
+    private frame: QRFrame,
+    private width: number,
+    private height: number
+  ) {}
+
+  async getRawData(extension: FileExtension = "png"): Promise<Blob | null> {
+    const mimeType =
+      extension === "svg" ? "image/svg+xml" : `image/${extension}`;
+    const blob = qrRawDataToBlob(
+      await this.source.getRawData(extension === "svg" ? "svg" : "png"),
+      extension === "svg" ? mimeType : "image/png"
+    );
+    if (!blob) return null;
+    await loadFrameFonts(this.frame);
+
+    if (extension === "svg") {
+      const svg = wrapSvgInFrame(
+        await blob.text(),
+        this.frame,
+        this.width,
+        this.height
+      );
+      return new Blob([svg], { type: mimeType });
+    }
+
+    const code = await createImageBitmap(blob);
+    const layout = getFrameLayout(this.frame, code.width, code.height);
+    const frameImage = await loadSvgImage(layoutToSvg(layout, "", false));
+    const canvas = document.createElement("canvas");
+    canvas.width = layout.width;
+    canvas.height = layout.height;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Canvas is not available");
+    // JPEG has no transparency for the rounded corners
+    if (extension === "jpeg") {
+      ctx.fillStyle = "#ffffff";
+      ctx.fillRect(0, 0, layout.width, layout.height);
+    }
+    ctx.drawImage(frameImage, 0, 0, layout.width, layout.height);
+    for (const element of layout.elements) {
+      if (element.kind !== "text") continue;
+      ctx.font = `${element.fontWeight} ${element.fontSize}px ${layout.fontFamily}`;
+      ctx.fillStyle = element.color;
+      ctx.textAlign = element.anchor === "middle" ? "center" : "left";
+      ctx.textBaseline = "middle";
+      ctx.fillText(element.text, element.x, element.y);
+    }
+    ctx.drawImage(code, layout.code.x, layout.code.y);
+    code.close();
+    return new Promise((resolve) => canvas.toBlob(resolve, mimeType));
+  }
+}
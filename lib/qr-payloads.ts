@@ -0,0 +1,701 @@
+/**
+ * Payload builders
+ *
+ * Builds the WIFI, MECARD and vCard (3.0 / 4.0) payloads scanners understand,
+ * escaping every value for its grammar. Each builder returns the payload
+ * together with per-field validation errors so forms can show them inline;
+ * the payload is still produced when there are errors so the preview keeps
+ * updating while the user types.
+ *
+ * The parsers at the end read scanned payloads back into builder input.
+ * They are lenient and accept what other generators commonly produce.
+ */
+
+export type FieldErrors<F extends string> = Partial<Record<F, string>>;
+
+export interface PayloadResult<F extends string> {
+  payload: string;
+  errors: FieldErrors<F>;
+}
+
+// Largest byte-mode payload a version 40 code holds at level L
+export const MAX_QR_PAYLOAD_BYTES = 2953;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+?[\d\s\-().\/]{3,}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const byteLength = (value: string) => new TextEncoder().encode(value).length;
+
+const isValidUrl = (value: string) => {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+};
+
+// RFC 6350 / RFC 5545 TEXT escaping
+export const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r\n|\r|\n/g, "\\n");
+
+// Fold content lines at 75 octets without splitting UTF-8 sequences
+export const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of Array.from(line)) {
+    const size = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+};
+
+// WIFI and MECARD share the same backslash escaping for special characters
+const escapeFieldValue = (value: string) =>
+  value.replace(/([\\;,:"])/g, "\\$1");
+
+// ---------------------------------------------------------------------------
+// WIFI
+// ---------------------------------------------------------------------------
+
+export type WiFiSecurity = "WPA" | "WPA3" | "WPA2-EAP" | "WEP" | "nopass";
+export type WiFiEapMethod = "PEAP" | "TTLS" | "TLS" | "PWD";
+export type WiFiPhase2 = "" | "MSCHAPV2" | "GTC" | "PAP";
+
+export interface WiFiPayloadInput {
+  ssid: string;
+  password: string;
+  security: WiFiSecurity;
+  hidden?: boolean;
+  eapMethod?: WiFiEapMethod;
+  phase2?: WiFiPhase2;
+  identity?: string;
+  anonymousIdentity?: string;
+}
+
+export type WiFiField = "ssid" | "password" | "identity";
+
+// Reads the security column of imported data, defaulting to WPA
+export const parseWiFiSecurity = (value: string): WiFiSecurity => {
+  switch (value.trim().toUpperCase()) {
+    case "WEP":
+      return "WEP";
+    case "NOPASS":
+    case "NONE":
+    case "OPEN":
+      return "nopass";
+    case "WPA3":
+    case "SAE":
+      return "WPA3";
+    case "WPA2-EAP":
+    case "EAP":
+      return "WPA2-EAP";
+    default:
+      return "WPA";
+  }
+};
+
+// SSIDs that look like hex are quoted so readers keep them as text
+const formatSsid = (ssid: string) =>
+  /^[0-9A-Fa-f]+$/.test(ssid) && ssid.length % 2 === 0
+    ? `"${escapeFieldValue(ssid)}"`
+    : escapeFieldValue(ssid);
+
+export function buildWiFiPayload(
+  input: WiFiPayloadInput
+): PayloadResult<WiFiField> {
+  const errors: FieldErrors<WiFiField> = {};
+  const { ssid, password, security } = input;
+
+  if (!ssid) errors.ssid = "Network name is required";
+  else if (byteLength(ssid) > 32) {
+    errors.ssid = "Network names are limited to 32 bytes";
+  }
+
+  if (security === "WPA" || security === "WPA3") {
+    if (!/^[0-9A-Fa-f]{64}$/.test(password)) {
+      if (password.length < 8 || password.length > 63) {
+        errors.password = "WPA passwords need 8 to 63 characters";
+      }
+    }
+  } else if (security === "WEP") {
+    const validWep =
+      [5, 13, 16, 29].includes(password.length) ||
+      /^([0-9A-Fa-f]{10}|[0-9A-Fa-f]{26}|[0-9A-Fa-f]{32}|[0-9A-Fa-f]{58})$/.test(
+        password
+      );
+    if (!validWep) {
+      errors.password =
+        "WEP keys are 5 or 13 characters, or 10 or 26 hex digits";
+    }
+  } else if (security === "WPA2-EAP") {
+    if (!input.identity) errors.identity = "Enterprise networks need a user";
+    if (input.eapMethod !== "TLS" && !password) {
+      errors.password = "Password is required for this EAP method";
+    }
+  }
+
+  // Android names WPA3-Personal "SAE" and writes it that way when sharing
+  const type = security === "WPA3" ? "SAE" : security;
+  const parts = [`T:${type}`, `S:${formatSsid(ssid)}`];
+
+  if (security === "WPA2-EAP") {
+    parts.push(`E:${input.eapMethod || "PEAP"}`);
+    if (input.phase2) parts.push(`PH2:${input.phase2}`);
+    if (input.anonymousIdentity) {
+      parts.push(`A:${escapeFieldValue(input.anonymousIdentity)}`);
+    }
+    if (input.identity) parts.push(`I:${escapeFieldValue(input.identity)}`);
+  }
+  if (security !== "nopass" && password) {
+    parts.push(`P:${escapeFieldValue(password)}`);
+  }
+  if (input.hidden) parts.push("H:true");
+
+  return { payload: `WIFI:${parts.join(";")};;`, errors };
+}
+
+// ---------------------------------------------------------------------------
+// Contacts (vCard 3.0 / 4.0 and MECARD)
+// ---------------------------------------------------------------------------
+
+export type ContactFormat = "vcard3" | "vcard4" | "mecard";
+
+export interface ContactAddress {
+  type: "home" | "work";
+  street: string;
+  city: string;
+  region: string;
+  zipCode: string;
+  country: string;
+}
+
+export interface ContactPayloadInput {
+  firstName?: string;
+  lastName?: string;
+  nickname?: string;
+  title?: string;
+  organization?: string;
+  addresses?: ContactAddress[];
+  emailPersonal?: string;
+  emailBusiness?: string;
+  phonePersonal?: string;
+  phoneMobile?: string;
+  phoneBusiness?: string;
+  website?: string;
+  birthday?: string;
+  note?: string;
+  // http(s) URL or a base64 data URL
+  photo?: string;
+}
+
+export type ContactField =
+  | "name"
+  | "emailPersonal"
+  | "emailBusiness"
+  | "phonePersonal"
+  | "phoneMobile"
+  | "phoneBusiness"
+  | "website"
+  | "birthday"
+  | "photo"
+  | "payload";
+
+export const createEmptyAddress = (
+  type: ContactAddress["type"] = "home"
+): ContactAddress => ({
+  type,
+  street: "",
+  city: "",
+  region: "",
+  zipCode: "",
+  country: "",
+});
+
+const hasAddress = (address: ContactAddress) =>
+  !!(
+    address.street ||
+    address.city ||
+    address.region ||
+    address.zipCode ||
+    address.country
+  );
+
+const validateContact = (
+  contact: ContactPayloadInput,
+  format: ContactFormat
+): FieldErrors<ContactField> => {
+  const errors: FieldErrors<ContactField> = {};
+
+  if (!contact.firstName && !contact.lastName && !contact.organization) {
+    errors.name = "Enter a name or a company";
+  }
+  for (const field of ["emailPersonal", "emailBusiness"] as const) {
+    const value = contact[field];
+    if (value && !EMAIL_PATTERN.test(value)) {
+      errors[field] = "Enter a valid email address";
+    }
+  }
+  for (const field of [
+    "phonePersonal",
+    "phoneMobile",
+    "phoneBusiness",
+  ] as const) {
+    const value = contact[field];
+    if (value && !PHONE_PATTERN.test(value)) {
+      errors[field] = "Phone numbers may contain digits, spaces, + - ( )";
+    }
+  }
+  if (contact.website && !isValidUrl(contact.website)) {
+    errors.website = "Enter a full URL including https://";
+  }
+  if (contact.birthday && !DATE_PATTERN.test(contact.birthday)) {
+    errors.birthday = "Use the YYYY-MM-DD format";
+  }
+  // MECARD has no photo property, the photo is left out there
+  if (
+    contact.photo &&
+    format !== "mecard" &&
+    !isValidUrl(contact.photo) &&
+    !/^data:image\/[\w+.-]+;base64,/.test(contact.photo)
+  ) {
+    errors.photo = "Use an image URL or a base64 image data URL";
+  }
+
+  return errors;
+};
+
+// Splits "data:image/jpeg;base64,..." into its type and data
+const parseDataUrl = (value: string) => {
+  const match = value.match(/^data:image\/([\w+.-]+);base64,(.*)$/);
+  return match ? { type: match[1].toUpperCase(), data: match[2] } : null;
+};
+
+function buildVCard(contact: ContactPayloadInput, version: "3.0" | "4.0") {
+  const v4 = version === "4.0";
+  const lines = ["BEGIN:VCARD", `VERSION:${version}`];
+  const type = (value: string) => (v4 ? value.toLowerCase() : value);
+
+  const fullName =
+    `${contact.firstName || ""} ${contact.lastName || ""}`.trim() ||
+    contact.organization ||
+    "";
+  // vCard 3.0 requires N and FN, 4.0 requires FN
+  lines.push(`FN:${escapeText(fullName)}`);
+  if (contact.firstName || contact.lastName || !v4) {
+    lines.push(
+      `N:${escapeText(contact.lastName || "")};${escapeText(contact.firstName || "")};;;`
+    );
+  }
+  if (contact.nickname) lines.push(`NICKNAME:${escapeText(contact.nickname)}`);
+  if (contact.organization) {
+    lines.push(`ORG:${escapeText(contact.organization)}`);
+  }
+  if (contact.title) lines.push(`TITLE:${escapeText(contact.title)}`);
+
+  for (const address of (contact.addresses || []).filter(hasAddress)) {
+    const components = [
+      "", // PO Box
+      "", // Extended address
+      address.street,
+      address.city,
+      address.region,
+      address.zipCode,
+      address.country,
+    ].map(escapeText);
+    lines.push(
+      `ADR;TYPE=${type(address.type.toUpperCase())}:${components.join(";")}`
+    );
+  }
+
+  const phones: [string | undefined, string][] = [
+    [contact.phonePersonal, "HOME"],
+    [contact.phoneMobile, "CELL"],
+    [contact.phoneBusiness, "WORK"],
+  ];
+  for (const [phone, phoneType] of phones) {
+    if (!phone) continue;
+    lines.push(
+      v4
+        ? `TEL;VALUE=uri;TYPE=${type(phoneType)}:tel:${phone.replace(/[^\d+]/g, "")}`
+        : `TEL;TYPE=${phoneType}:${escapeText(phone)}`
+    );
+  }
+
+  const emails: [string | undefined, string][] = [
+    [contact.emailPersonal, "HOME"],
+    [contact.emailBusiness, "WORK"],
+  ];
+  for (const [email, emailType] of emails) {
+    if (email) lines.push(`EMAIL;TYPE=${type(emailType)}:${email}`);
+  }
+
+  if (contact.website) lines.push(`URL:${contact.website}`);
+  if (contact.birthday) {
+    lines.push(
+      `BDAY:${v4 ? contact.birthday.replace(/-/g, "") : contact.birthday}`
+    );
+  }
+  if (contact.note) lines.push(`NOTE:${escapeText(contact.note)}`);
+
+  if (contact.photo) {
+    const dataUrl = parseDataUrl(contact.photo);
+    if (v4) {
+      lines.push(`PHOTO:${contact.photo}`);
+    } else if (dataUrl) {
+      lines.push(`PHOTO;ENCODING=b;TYPE=${dataUrl.type}:${dataUrl.data}`);
+    } else {
+      lines.push(`PHOTO;VALUE=URI:${contact.photo}`);
+    }
+  }
+
+  lines.push("END:VCARD");
+  return lines.map(foldLine).join("\r\n");
+}
+
+// MECARD values cannot contain line breaks
+const escapeMeCardValue = (value: string) =>
+  escapeFieldValue(value.replace(/\s*(\r\n|\r|\n)\s*/g, " "));
+
+function buildMeCard(contact: ContactPayloadInput) {
+  const parts: string[] = [];
+  const name = [contact.lastName, contact.firstName].filter(Boolean);
+  parts.push(
+    `N:${name.length ? name.map((n) => escapeMeCardValue(n!)).join(",") : escapeMeCardValue(contact.organization || "")}`
+  );
+  if (contact.nickname) {
+    parts.push(`NICKNAME:${escapeMeCardValue(contact.nickname)}`);
+  }
+  for (const phone of [
+    contact.phoneMobile,
+    contact.phonePersonal,
+    contact.phoneBusiness,
+  ]) {
+    if (phone) parts.push(`TEL:${escapeMeCardValue(phone)}`);
+  }
+  for (const email of [contact.emailPersonal, contact.emailBusiness]) {
+    if (email) parts.push(`EMAIL:${escapeMeCardValue(email)}`);
+  }
+  if (contact.organization && name.length) {
+    parts.push(`ORG:${escapeMeCardValue(contact.organization)}`);
+  }
+  if (contact.birthday) {
+    parts.push(`BDAY:${contact.birthday.replace(/-/g, "")}`);
+  }
+  for (const address of (contact.addresses || []).filter(hasAddress)) {
+    // MECARD addresses are a single comma separated value
+    const value = [
+      address.street,
+      address.city,
+      address.region,
+      address.zipCode,
+      address.country,
+    ]
+      .filter(Boolean)
+      .join(", ");
+    parts.push(`ADR:${escapeMeCardValue(value)}`);
+  }
+  if (contact.website) parts.push(`URL:${escapeMeCardValue(contact.website)}`);
+  if (contact.note) parts.push(`NOTE:${escapeMeCardValue(contact.note)}`);
+
+  return `MECARD:${parts.join(";")};;`;
+}
+
+export function buildContactPayload(
+  contact: ContactPayloadInput,
+  format: ContactFormat = "vcard3"
+): PayloadResult<ContactField> {
+  const errors = validateContact(contact, format);
+  const payload =
+    format === "mecard"
+      ? buildMeCard(contact)
+      : buildVCard(contact, format === "vcard4" ? "4.0" : "3.0");
+
+  if (byteLength(payload) > MAX_QR_PAYLOAD_BYTES) {
+    errors.payload = contact.photo?.startsWith("data:")
+      ? "The embedded photo is too large for a QR code - use an image URL"
+      : "The contact has too much data to fit in a QR code";
+  }
+
+  return { payload, errors };
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+// Splits on a separator that is not escaped with a backslash
+const splitUnescaped = (value: string, separator: string) => {
+  const parts: string[] = [];
+  let current = "";
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char === "\\" && i + 1 < value.length) {
+      current += char + value[++i];
+    } else if (char === separator) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+};
+
+const unescapeFieldValue = (value: string) => value.replace(/\\(.)/g, "$1");
+
+const unescapeText = (value: string) =>
+  value.replace(/\\([nN]|.)/g, (_, char: string) =>
+    char === "n" || char === "N" ? "\n" : char
+  );
+
+// "KEY:value;KEY:value;;" fields of WIFI and MECARD payloads, keys uppercased
+const parseFieldList = (body: string) => {
+  const fields: [string, string][] = [];
+  for (const part of splitUnescaped(body, ";")) {
+    const separator = part.indexOf(":");
+    if (separator > 0) {
+      fields.push([
+        part.slice(0, separator).trim().toUpperCase(),
+        part.slice(separator + 1),
+      ]);
+    }
+  }
+  return fields;
+};
+
+// "19900131" or "1990-01-31" to the YYYY-MM-DD form inputs use
+const parseBirthday = (value: string) => {
+  const match = value.match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : "";
+};
+
+export function parseWiFiPayload(payload: string): WiFiPayloadInput | null {
+  if (!/^WIFI:/i.test(payload)) return null;
+
+  const input: WiFiPayloadInput = { ssid: "", password: "", security: "WPA" };
+  let type = "";
+  for (const [key, rawValue] of parseFieldList(payload.slice(5))) {
+    // Quoted values are kept as text, the quotes are not part of the value
+    const quoted = rawValue.match(/^"(.*)"$/);
+    const value = unescapeFieldValue(quoted ? quoted[1] : rawValue);
+    switch (key) {
+      case "T":
+        type = value;
+        break;
+      case "S":
+        input.ssid = value;
+        break;
+      case "P":
+        input.password = value;
+        break;
+      case "H":
+        input.hidden = value.toLowerCase() === "true";
+        break;
+      case "E":
+        input.eapMethod = (["PEAP", "TTLS", "TLS", "PWD"] as const).find(
+          (method) => method === value.toUpperCase()
+        );
+        break;
+      case "PH2":
+        input.phase2 =
+          (["MSCHAPV2", "GTC", "PAP"] as const).find(
+            (method) => method === value.toUpperCase()
+          ) || "";
+        break;
+      case "I":
+        input.identity = value;
+        break;
+      case "A":
+        input.anonymousIdentity = value;
+        break;
+    }
+  }
+  // A missing type means an open network
+  input.security = type ? parseWiFiSecurity(type) : "nopass";
+  return input;
+}
+
+export interface ParsedContact {
+  contact: ContactPayloadInput;
+  format: ContactFormat;
+}
+
+function parseVCard(payload: string): ParsedContact {
+  const contact: ContactPayloadInput = { addresses: [] };
+  let format: ContactFormat = "vcard3";
+  let fullName = "";
+  // Continuation lines start with a space or tab
+  const lines = payload.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+
+  for (const line of lines) {
+    const separator = line.indexOf(":");
+    if (separator < 0) continue;
+    const [name, ...params] = line.slice(0, separator).split(";");
+    const paramText = params.join(";").toUpperCase();
+    const value = line.slice(separator + 1);
+    const hasType = (type: string) =>
+      new RegExp(`(^|[=,;])${type}($|[,;])`).test(paramText);
+
+    switch (name.toUpperCase().replace(/^ITEM\d+\./, "")) {
+      case "VERSION":
+        if (value.startsWith("4")) format = "vcard4";
+        break;
+      case "FN":
+        fullName = unescapeText(value);
+        break;
+      case "N": {
+        const [lastName, firstName] = splitUnescaped(value, ";").map(
+          unescapeText
+        );
+        contact.lastName = lastName || "";
+        contact.firstName = firstName || "";
+        break;
+      }
+      case "NICKNAME":
+        contact.nickname = unescapeText(value);
+        break;
+      case "ORG":
+        contact.organization = unescapeText(splitUnescaped(value, ";")[0]);
+        break;
+      case "TITLE":
+        contact.title = unescapeText(value);
+        break;
+      case "ADR": {
+        const [, , street, city, region, zipCode, country] = splitUnescaped(
+          value,
+          ";"
+        ).map(unescapeText);
+        contact.addresses!.push({
+          type: hasType("HOME") ? "home" : "work",
+          street: street || "",
+          city: city || "",
+          region: region || "",
+          zipCode: zipCode || "",
+          country: country || "",
+        });
+        break;
+      }
+      case "TEL": {
+        const phone = unescapeText(value).replace(/^tel:/i, "");
+        const field = hasType("CELL")
+          ? "phoneMobile"
+          : hasType("WORK")
+            ? "phoneBusiness"
+            : "phonePersonal";
+        // Further numbers of the same type go to the first free field
+        const target = !contact[field]
+          ? field
+          : (["phoneMobile", "phonePersonal", "phoneBusiness"] as const).find(
+              (f) => !contact[f]
+            );
+        if (target) contact[target] = phone;
+        break;
+      }
+      case "EMAIL": {
+        const email = unescapeText(value).replace(/^mailto:/i, "");
+        const field =
+          hasType("WORK") || contact.emailPersonal
+            ? "emailBusiness"
+            : "emailPersonal";
+        if (!contact[field]) contact[field] = email;
+        break;
+      }
+      case "URL":
+        if (!contact.website) contact.website = unescapeText(value);
+        break;
+      case "BDAY":
+        contact.birthday = parseBirthday(value);
+        break;
+      case "NOTE":
+        contact.note = unescapeText(value);
+        break;
+      case "PHOTO": {
+        const imageType = paramText.match(/TYPE=([\w+.-]+)/);
+        contact.photo =
+          /ENCODING=B/.test(paramText) && imageType
+            ? `data:image/${imageType[1].toLowerCase()};base64,${value}`
+            : value;
+        break;
+      }
+    }
+  }
+
+  if (!contact.firstName && !contact.lastName && fullName) {
+    if (fullName !== contact.organization) contact.firstName = fullName;
+  }
+  return { contact, format };
+}
+
+function parseMeCard(payload: string): ParsedContact {
+  const contact: ContactPayloadInput = { addresses: [] };
+  const phones: string[] = [];
+  const emails: string[] = [];
+
+  for (const [key, rawValue] of parseFieldList(payload.slice(7))) {
+    const value = unescapeFieldValue(rawValue);
+    switch (key) {
+      case "N": {
+        // "Last,First", a single value is a company or a full name
+        const [lastName, firstName] = splitUnescaped(rawValue, ",").map(
+          unescapeFieldValue
+        );
+        contact.lastName = lastName || "";
+        contact.firstName = firstName || "";
+        break;
+      }
+      case "NICKNAME":
+        contact.nickname = value;
+        break;
+      case "TEL":
+        phones.push(value);
+        break;
+      case "EMAIL":
+        emails.push(value);
+        break;
+      case "ORG":
+        contact.organization = value;
+        break;
+      case "BDAY":
+        contact.birthday = parseBirthday(value);
+        break;
+      case "ADR":
+        contact.addresses!.push({ ...createEmptyAddress(), street: value });
+        break;
+      case "URL":
+        contact.website = value;
+        break;
+      case "NOTE":
+        contact.note = value;
+        break;
+    }
+  }
+
+  // Same order the builder writes them in
+  [contact.phoneMobile, contact.phonePersonal, contact.phoneBusiness] = phones;
+  [contact.emailPersonal, contact.emailBusiness] = emails;
+  return { contact, format: "mecard" };
+}
+
+export function parseContactPayload(payload: string): ParsedContact | null {
+  const trimmed = payload.trim();
+  if (/^BEGIN:VCARD/i.test(trimmed)) return parseVCard(trimmed);
+  if (/^MECARD:/i.test(trimmed)) return parseMeCard(trimmed);
+  return null;
+}
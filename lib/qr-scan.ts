@@ -0,0 +1,504 @@
+import Dexie, { type Table } from "dexie";
+import {
+  formatIban,
+  parseSepaPayload,
+  parseSwissQRBill,
+  parseUpiPayload,
+} from "./payment-payloads";
+import {
+  createEmptyAddress,
+  parseContactPayload,
+  parseWiFiPayload,
+} from "./qr-payloads";
+import {
+  type DetectedDataType,
+  detectDataType,
+  isValidTimeZone,
+} from "./qr-utils";
+
+/**
+ * QR scanner
+ *
+ * Reads decoded QR payloads back into the generator's data types so a
+ * scanned or imported code can be opened in the editor: the data type plus
+ * the complete form fields of that type. Payloads that match no type open
+ * as text.
+ * Scans are kept in a local history in IndexedDB.
+ */
+
+export type ScanSource = "upload" | "clipboard" | "camera";
+
+export interface ScannedPayload {
+  // One of the generator's data types
+  dataType: string;
+  // Every form field of the type, so they replace what the form held
+  typeData?: Record<string, unknown>;
+  // Value of the main input for types without their own form
+  data: string;
+  summary: string;
+}
+
+export interface ScanHistoryEntry {
+  id?: number;
+  text: string;
+  dataType: string;
+  summary: string;
+  source: ScanSource;
+  scannedAt: Date;
+}
+
+const MAX_HISTORY_ENTRIES = 100;
+
+export class ScanHistoryDatabase extends Dexie {
+  scans!: Table<ScanHistoryEntry>;
+
+  constructor() {
+    super("QRScanHistory");
+    this.version(1).stores({
+      scans: "++id, dataType, scannedAt",
+    });
+  }
+}
+
+export const scanHistoryDb = new ScanHistoryDatabase();
+
+const CRYPTO_SCHEMES: Record<string, string> = {
+  bitcoin: "bitcoin",
+  bitcoincash: "bitcoin-cash",
+  ethereum: "ethereum",
+  litecoin: "litecoin",
+};
+
+const safeDecode = (value: string) => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+const parseUrl = (value: string) => {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:" ? url : null;
+  } catch {
+    return null;
+  }
+};
+
+// iCalendar date or date-time to the values of the event form
+const parseICalDate = (value: string) => {
+  const match = value.match(
+    /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})\d{2}(Z?))?$/
+  );
+  if (!match) return null;
+  const [, year, month, day, hour, minute, utc] = match;
+  const date = `${year}-${month}-${day}`;
+  return hour
+    ? { value: `${date}T${hour}:${minute}`, allDay: false, utc: !!utc }
+    : { value: date, allDay: true, utc: false };
+};
+
+const addDays = (value: string, days: number) => {
+  const [year, month, day] = value.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days))
+    .toISOString()
+    .slice(0, 10);
+};
+
+function parseEvent(text: string): ScannedPayload | null {
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const fields = new Map<string, { params: string; value: string }>();
+  // Properties of nested components such as VTIMEZONE are skipped
+  const components: string[] = [];
+  for (const line of lines) {
+    const match = line.match(/^([A-Z-]+)((?:;[^:]*)?):(.*)$/i);
+    if (!match) continue;
+    const [, key, params, value] = match;
+    const name = key.toUpperCase();
+    if (name === "BEGIN") {
+      components.push(value.toUpperCase());
+    } else if (name === "END") {
+      components.pop();
+    } else if (
+      ["VCALENDAR", "VEVENT", undefined].includes(
+        components[components.length - 1]
+      ) &&
+      !fields.has(name)
+    ) {
+      fields.set(name, { params, value });
+    }
+  }
+
+  const dtStart = fields.get("DTSTART");
+  const start = dtStart && parseICalDate(dtStart.value);
+  if (!start) return null;
+  const dtEnd = fields.get("DTEND");
+  const end = dtEnd ? parseICalDate(dtEnd.value) : null;
+  // One pass, so an escaped backslash before "n" stays a backslash
+  const getText = (key: string) =>
+    (fields.get(key)?.value || "").replace(/\\([\\;,nN])/g, (_, char) =>
+      char === "n" || char === "N" ? "\n" : char
+    );
+  // Only zones the browser knows are kept, Windows names such as
+  // "W. Europe Standard Time" from Outlook open as floating time
+  const zone = dtStart.params.match(/TZID="?([^;"]+)/i)?.[1];
+
+  const rule = new URLSearchParams(
+    (fields.get("RRULE")?.value || "").replace(/;/g, "&")
+  );
+  const recurrence = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"].find(
+    (freq) => freq === rule.get("FREQ")
+  );
+  const until = rule.get("UNTIL");
+
+  const title = getText("SUMMARY");
+  return {
+    dataType: "event",
+    typeData: {
+      title,
+      start: start.value,
+      // DTEND is exclusive for all-day events
+      end: end ? (end.allDay ? addDays(end.value, -1) : end.value) : "",
+      allDay: start.allDay,
+      timeZone: isValidTimeZone(zone) ? zone : start.utc ? "UTC" : "",
+      location: getText("LOCATION"),
+      description: getText("DESCRIPTION"),
+      recurrence: recurrence || "",
+      interval: Number(rule.get("INTERVAL")) || 1,
+      count: Number(rule.get("COUNT")) || 0,
+      until: until
+        ? `${until.slice(0, 4)}-${until.slice(4, 6)}-${until.slice(6, 8)}`
+        : "",
+    },
+    data: text,
+    summary: title ? `Event: ${title}` : "Calendar event",
+  };
+}
+
+const readWiFi = (text: string): ScannedPayload | null => {
+  const wifi = parseWiFiPayload(text);
+  if (!wifi) return null;
+  return {
+    dataType: "wifi",
+    typeData: {
+      ssid: wifi.ssid,
+      password: wifi.password,
+      security: wifi.security,
+      hidden: !!wifi.hidden,
+      eapMethod: wifi.eapMethod || "PEAP",
+      phase2: wifi.phase2 ?? (wifi.eapMethod ? "" : "MSCHAPV2"),
+      identity: wifi.identity || "",
+      anonymousIdentity: wifi.anonymousIdentity || "",
+    },
+    data: text,
+    summary: `WiFi: ${wifi.ssid || "hidden network"}`,
+  };
+};
+
+const readContact = (text: string): ScannedPayload | null => {
+  const parsed = parseContactPayload(text);
+  if (!parsed) return null;
+  const { contact, format } = parsed;
+  const name =
+    `${contact.firstName || ""} ${contact.lastName || ""}`.trim() ||
+    contact.organization ||
+    "";
+  return {
+    dataType: "vcard",
+    typeData: {
+      format,
+      firstName: contact.firstName || "",
+      lastName: contact.lastName || "",
+      title: contact.title || "",
+      organization: contact.organization || "",
+      addresses: contact.addresses?.length
+        ? contact.addresses
+        : [createEmptyAddress("work")],
+      emailPersonal: contact.emailPersonal || "",
+      emailBusiness: contact.emailBusiness || "",
+      phonePersonal: contact.phonePersonal || "",
+      phoneMobile: contact.phoneMobile || "",
+      phoneBusiness: contact.phoneBusiness || "",
+      website: contact.website || "",
+      birthday: contact.birthday || "",
+      note: contact.note || "",
+      photo: contact.photo || "",
+    },
+    data: text,
+    summary: name ? `Contact: ${name}` : "Contact",
+  };
+};
+
+// sms:+123?body=Hi and the older SMSTO:+123:Hi
+const readSMS = (text: string): ScannedPayload | null => {
+  const sms =
+    text.match(/^sms:([^?;]*);?(?:\?(.*))?$/i) ||
+    text.match(/^smsto:([^:]*)(?::([\s\S]*))?$/i);
+  if (!sms) return null;
+  const phone = safeDecode(sms[1]);
+  const message = /^sms:/i.test(text)
+    ? new URLSearchParams(sms[2] || "").get("body") || ""
+    : sms[2] || "";
+  return {
+    dataType: "sms",
+    typeData: { phone, message },
+    data: text,
+    summary: `SMS to ${phone}`,
+  };
+};
+
+const readCrypto = (text: string): ScannedPayload | null => {
+  const crypto = text.match(/^([a-z]+):([^?]+)(?:\?(.*))?$/i);
+  const type = crypto && CRYPTO_SCHEMES[crypto[1].toLowerCase()];
+  if (!crypto || !type) return null;
+  const params = new URLSearchParams(crypto[3] || "");
+  return {
+    dataType: "crypto",
+    typeData: {
+      type,
+      address: crypto[2],
+      amount: params.get("amount") || params.get("value") || "",
+      message: params.get("message") || params.get("label") || "",
+    },
+    data: text,
+    summary: `${type} payment to ${crypto[2]}`,
+  };
+};
+
+const readSepa = (text: string): ScannedPayload | null => {
+  const sepa = parseSepaPayload(text);
+  if (!sepa) return null;
+  return {
+    dataType: "sepa",
+    typeData: { ...sepa },
+    data: text,
+    summary: `SEPA transfer to ${sepa.name || formatIban(sepa.iban)}`,
+  };
+};
+
+const readSwissQRBill = (text: string): ScannedPayload | null => {
+  const bill = parseSwissQRBill(text);
+  if (!bill) return null;
+  return {
+    dataType: "swissqr",
+    typeData: { ...bill },
+    data: text,
+    summary: `QR-bill from ${bill.creditorName || formatIban(bill.iban)}`,
+  };
+};
+
+const readUpi = (text: string): ScannedPayload | null => {
+  const upi = parseUpiPayload(text);
+  if (!upi) return null;
+  return {
+    dataType: "upi",
+    typeData: { ...upi },
+    data: text,
+    summary: `UPI payment to ${upi.name || upi.vpa}`,
+  };
+};
+
+const readSkype = (text: string): ScannedPayload | null => {
+  const skype = text.match(/^skype:([^?]+)/i);
+  if (!skype) return null;
+  return {
+    dataType: "skype",
+    typeData: { username: skype[1] },
+    data: text,
+    summary: `Skype: ${skype[1]}`,
+  };
+};
+
+// wa.me/<number>?text= and api.whatsapp.com/send?phone=&text=
+const readWhatsApp = (text: string): ScannedPayload | null => {
+  const url = parseUrl(text);
+  if (!url) return null;
+  const number = (
+    url.searchParams.get("phone") || url.pathname.replace(/^\/(send)?/, "")
+  ).replace(/[^\d]/g, "");
+  if (!number) return null;
+  return {
+    dataType: "whatsapp",
+    typeData: {
+      phone: `+${number}`,
+      message: url.searchParams.get("text") || "",
+    },
+    data: text,
+    summary: `WhatsApp: +${number}`,
+  };
+};
+
+const readZoom = (text: string): ScannedPayload | null => {
+  const url = parseUrl(text);
+  const meetingId = url?.pathname.match(/^\/j\/(\d+)/)?.[1];
+  if (!url || !meetingId) return null;
+  return {
+    dataType: "zoom",
+    typeData: { meetingId, password: url.searchParams.get("pwd") || "" },
+    data: text,
+    summary: `Zoom meeting ${meetingId}`,
+  };
+};
+
+const readPayPal = (text: string): ScannedPayload | null => {
+  const params = parseUrl(text)?.searchParams;
+  const email = params?.get("business");
+  if (!params || !email) return null;
+  return {
+    dataType: "paypal",
+    typeData: {
+      type: params.get("cmd") === "_donations" ? "donate" : "buy-now",
+      email,
+      itemName: params.get("item_name") || "",
+      itemId: params.get("item_number") || "",
+      price: params.get("amount") || "",
+      currency: params.get("currency_code") || "USD",
+      shipping: params.get("shipping") || "",
+      taxRate: params.get("tax_rate") || "",
+    },
+    data: text,
+    summary: `PayPal: ${email}`,
+  };
+};
+
+// Profile links keep the full URL, the handle fills the username field
+const readProfile =
+  (dataType: string, service: string, usernameField = "username") =>
+  (text: string): ScannedPayload | null => {
+    const url = parseUrl(text);
+    if (!url) return null;
+    const segments = url.pathname.split("/").filter(Boolean);
+    // linkedin.com/in/<name>, youtube.com/c/<name>, youtube.com/channel/<id>
+    const handle = (
+      ["in", "c", "channel", "user", "company"].includes(segments[0])
+        ? segments[1]
+        : segments[0]
+    )?.replace(/^@/, "");
+    return {
+      dataType,
+      typeData: { url: text, [usernameField]: handle || "" },
+      data: text,
+      summary: handle ? `${service}: ${handle}` : `${service} link`,
+    };
+  };
+
+const payloadReaders: Partial<
+  Record<DetectedDataType, (text: string) => ScannedPayload | null>
+> = {
+  wifi: readWiFi,
+  vcard: readContact,
+  event: parseEvent,
+  sms: readSMS,
+  crypto: readCrypto,
+  skype: readSkype,
+  whatsapp: readWhatsApp,
+  zoom: readZoom,
+  paypal: readPayPal,
+  sepa: readSepa,
+  swissqr: readSwissQRBill,
+  upi: readUpi,
+  facebook: readProfile("facebook", "Facebook"),
+  twitter: readProfile("twitter", "X (Twitter)"),
+  instagram: readProfile("instagram", "Instagram"),
+  linkedin: readProfile("linkedin", "LinkedIn"),
+  tiktok: readProfile("tiktok", "TikTok"),
+  youtube: readProfile("youtube", "YouTube", "channel"),
+};
+
+/**
+ * Reads a payload back into the data type detectDataType finds for it.
+ * Payloads whose fields cannot be read fall back to a link or text.
+ */
+export function parseScannedPayload(text: string): ScannedPayload {
+  const trimmed = text.trim();
+  const dataType = detectDataType(trimmed);
+
+  const payload = payloadReaders[dataType]?.(trimmed);
+  if (payload) return payload;
+
+  // The field of these types holds the payload itself, so mailto: and tel:
+  // URIs stay whole and keep their subject, body and dialing prefix
+  switch (dataType) {
+    case "email": {
+      const email = /^mailto:/i.test(trimmed)
+        ? safeDecode(trimmed.slice(7).split("?")[0])
+        : trimmed;
+      return { dataType, data: trimmed, summary: `Email: ${email}` };
+    }
+    case "phone": {
+      const phone = trimmed.replace(/^tel:/i, "");
+      return { dataType, data: trimmed, summary: `Phone: ${phone}` };
+    }
+  }
+
+  const url = parseUrl(trimmed);
+  if (url) return { dataType: "url", data: trimmed, summary: url.href };
+
+  return {
+    dataType: "text",
+    data: text,
+    summary: trimmed.length > 60 ? `${trimmed.slice(0, 60)}…` : trimmed,
+  };
+}
+
+// First image of a paste event or of the async clipboard API
+export async function readClipboardImage(
+  clipboardData?: DataTransfer | null
+): Promise<Blob | null> {
+  if (clipboardData) {
+    const item = Array.from(clipboardData.items).find((entry) =>
+      entry.type.startsWith("image/")
+    );
+    return item?.getAsFile() ?? null;
+  }
+
+  if (!navigator.clipboard?.read) {
+    throw new Error("This browser cannot read images from the clipboard");
+  }
+  for (const item of await navigator.clipboard.read()) {
+    const type = item.types.find((entry) => entry.startsWith("image/"));
+    if (type) return await item.getType(type);
+  }
+  return null;
+}
+
+// Helper functions for managing the scan history
+export const scanHistory = {
+  async getScans(): Promise<ScanHistoryEntry[]> {
+    return await scanHistoryDb.scans.orderBy("scannedAt").reverse().toArray();
+  },
+
+  async addScan(
+    text: string,
+    payload: ScannedPayload,
+    source: ScanSource
+  ): Promise<number> {
+    const id = await scanHistoryDb.scans.add({
+      text,
+      dataType: payload.dataType,
+      summary: payload.summary,
+      source,
+      scannedAt: new Date(),
+    });
+
+    // Keep the newest entries only
+    const count = await scanHistoryDb.scans.count();
+    if (count > MAX_HISTORY_ENTRIES) {
+      const oldest = await scanHistoryDb.scans
+        .orderBy("scannedAt")
+        .limit(count - MAX_HISTORY_ENTRIES)
+        .primaryKeys();
+      await scanHistoryDb.scans.bulkDelete(oldest);
+    }
+    return id;
+  },
+
+  async deleteScan(id: number): Promise<void> {
+    await scanHistoryDb.scans.delete(id);
+  },
+
+  async clearScans(): Promise<void> {
+    await scanHistoryDb.scans.clear();
+  },
+};
@@ -0,0 +1,532 @@
+import { saveAs } from "file-saver";
+import { jsPDF } from "jspdf";
+import QRCodeStyling from "qr-code-styling";
+import {
+  applyBackgroundImage,
+  qrRawDataToBlob,
+  resolveLogoImage,
+  type StyledQROptions,
+} from "./qr-utils";
+
+/**
+ * Printable QR sheets
+ *
+ * Tiles many QR codes onto paper sizes or label templates. All measurements
+ * are in millimetres; the same cell geometry drives the SVG and PDF output so
+ * both exports line up with the physical label sheet.
+ */
+
+export interface SheetLayout {
+  id: string;
+  name: string;
+  pageWidth: number;
+  pageHeight: number;
+  columns: number;
+  rows: number;
+  labelWidth: number;
+  labelHeight: number;
+  marginTop: number;
+  marginLeft: number;
+  gapX: number;
+  gapY: number;
+}
+
+export const sheetLayouts: SheetLayout[] = [
+  {
+    id: "a4-grid",
+    name: "A4 - 4 × 6 grid",
+    pageWidth: 210,
+    pageHeight: 297,
+    columns: 4,
+    rows: 6,
+    labelWidth: 45,
+    labelHeight: 45,
+    marginTop: 10,
+    marginLeft: 10,
+    gapX: 3.33,
+    gapY: 2.4,
+  },
+  {
+    id: "letter-grid",
+    name: "Letter - 4 × 5 grid",
+    pageWidth: 215.9,
+    pageHeight: 279.4,
+    columns: 4,
+    rows: 5,
+    labelWidth: 48,
+    labelHeight: 48,
+    marginTop: 12.7,
+    marginLeft: 9.95,
+    gapX: 2,
+    gapY: 3,
+  },
+  {
+    id: "avery-l7160",
+    name: "Avery L7160 (A4, 63.5 × 38.1 mm)",
+    pageWidth: 210,
+    pageHeight: 297,
+    columns: 3,
+    rows: 7,
+    labelWidth: 63.5,
+    labelHeight: 38.1,
+    marginTop: 15.15,
+    marginLeft: 7.25,
+    gapX: 2.5,
+    gapY: 0,
+  },
+  {
+    id: "avery-l7163",
+    name: "Avery L7163 (A4, 99.1 × 38.1 mm)",
+    pageWidth: 210,
+    pageHeight: 297,
+    columns: 2,
+    rows: 7,
+    labelWidth: 99.1,
+    labelHeight: 38.1,
+    marginTop: 15.15,
+    marginLeft: 4.65,
+    gapX: 2.5,
+    gapY: 0,
+  },
+  {
+    id: "avery-5160",
+    name: "Avery 5160 (Letter, 2.625 × 1 in)",
+    pageWidth: 215.9,
+    pageHeight: 279.4,
+    columns: 3,
+    rows: 10,
+    labelWidth: 66.675,
+    labelHeight: 25.4,
+    marginTop: 12.7,
+    marginLeft: 4.7625,
+    gapX: 3.175,
+    gapY: 0,
+  },
+  {
+    id: "avery-22805",
+    name: "Avery 22805 (Letter, 1.5 × 1.5 in)",
+    pageWidth: 215.9,
+    pageHeight: 279.4,
+    columns: 4,
+    rows: 6,
+    labelWidth: 38.1,
+    labelHeight: 38.1,
+    marginTop: 15.875,
+    marginLeft: 15.875,
+    gapX: 7.9375,
+    gapY: 5.08,
+  },
+];
+
+export interface SheetOptions {
+  layout: SheetLayout;
+  // Extra background around each label so trimming never leaves a white edge
+  bleed: number;
+  cutMarks: boolean;
+  captions: boolean;
+  // Caption font size in points
+  captionSize: number;
+  // Space between the label edge and the QR code
+  padding: number;
+  backgroundColor: string;
+  captionColor: string;
+}
+
+export interface SheetItem {
+  data: string;
+  caption?: string;
+}
+
+export interface SheetCell {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // Grid position on the page
+  column: number;
+  row: number;
+  item: SheetItem;
+}
+
+const PT_TO_MM = 25.4 / 72;
+const CUT_MARK_LENGTH = 4;
+const CUT_MARK_OFFSET = 1;
+const SVG_PAGE_GAP = 10;
+const PDF_RASTER_DPI = 300;
+
+export const getLabelsPerPage = (layout: SheetLayout) =>
+  layout.columns * layout.rows;
+
+// Check that the label grid fits on the page
+export function validateSheetLayout(layout: SheetLayout): string | null {
+  if (layout.columns < 1 || layout.rows < 1) {
+    return "A sheet needs at least one column and one row";
+  }
+  if (layout.labelWidth <= 0 || layout.labelHeight <= 0) {
+    return "Label size must be greater than zero";
+  }
+  const usedWidth =
+    layout.marginLeft +
+    layout.columns * layout.labelWidth +
+    (layout.columns - 1) * layout.gapX;
+  const usedHeight =
+    layout.marginTop +
+    layout.rows * layout.labelHeight +
+    (layout.rows - 1) * layout.gapY;
+  if (usedWidth > layout.pageWidth + 0.01) {
+    return "Labels are wider than the page";
+  }
+  if (usedHeight > layout.pageHeight + 0.01) {
+    return "Labels are taller than the page";
+  }
+  return null;
+}
+
+// Split the items into pages and assign every item a label cell
+export function computeSheetPages(
+  layout: SheetLayout,
+  items: SheetItem[]
+): SheetCell[][] {
+  const perPage = getLabelsPerPage(layout);
+  const pages: SheetCell[][] = [];
+
+  items.forEach((item, index) => {
+    const pageIndex = Math.floor(index / perPage);
+    const position = index % perPage;
+    const column = position % layout.columns;
+    const row = Math.floor(position / layout.columns);
+
+    if (!pages[pageIndex]) pages[pageIndex] = [];
+    pages[pageIndex].push({
+      x: layout.marginLeft + column * (layout.labelWidth + layout.gapX),
+      y: layout.marginTop + row * (layout.labelHeight + layout.gapY),
+      width: layout.labelWidth,
+      height: layout.labelHeight,
+      column,
+      row,
+      item,
+    });
+  });
+
+  return pages;
+}
+
+// Position of the QR code and caption inside a label
+function getCellContentBox(cell: SheetCell, options: SheetOptions) {
+  const captionHeight =
+    options.captions && cell.item.caption
+      ? options.captionSize * PT_TO_MM * 1.4
+      : 0;
+  const qrSize = Math.max(
+    0,
+    Math.min(
+      cell.width - options.padding * 2,
+      cell.height - options.padding * 2 - captionHeight
+    )
+  );
+  const qrX = cell.x + (cell.width - qrSize) / 2;
+  const qrY = cell.y + (cell.height - qrSize - captionHeight) / 2;
+
+  return {
+    qrX,
+    qrY,
+    qrSize,
+    captionX: cell.x + cell.width / 2,
+    captionY: qrY + qrSize + captionHeight * 0.75,
+  };
+}
+
+// Line segments for the corner crop marks of a label. Marks toward a
+// neighbouring label are left out unless the gap holds them clear of its
+// bleed, templates without a gutter only get marks at the sheet edges
+function getCutMarkLines(cell: SheetCell, layout: SheetLayout, bleed: number) {
+  const offset = bleed + CUT_MARK_OFFSET;
+  const markSpace = offset + CUT_MARK_LENGTH + bleed;
+  const lines: [number, number, number, number][] = [];
+  const corners: [number, number, number, number][] = [
+    [cell.x, cell.y, -1, -1],
+    [cell.x + cell.width, cell.y, 1, -1],
+    [cell.x, cell.y + cell.height, -1, 1],
+    [cell.x + cell.width, cell.y + cell.height, 1, 1],
+  ];
+  const fitsX = layout.gapX >= markSpace;
+  const fitsY = layout.gapY >= markSpace;
+
+  for (const [x, y, dx, dy] of corners) {
+    const outerX =
+      dx < 0 ? cell.column === 0 : cell.column === layout.columns - 1;
+    const outerY = dy < 0 ? cell.row === 0 : cell.row === layout.rows - 1;
+    // Horizontal mark in line with the edge, vertical mark likewise
+    if (outerX || fitsX) {
+      lines.push([x + dx * offset, y, x + dx * (offset + CUT_MARK_LENGTH), y]);
+    }
+    if (outerY || fitsY) {
+      lines.push([x, y + dy * offset, x, y + dy * (offset + CUT_MARK_LENGTH)]);
+    }
+  }
+
+  return lines;
+}
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const hasBackground = (options: SheetOptions) =>
+  /^#[0-9a-f]{6}$/i.test(options.backgroundColor);
+
+const formatMm = (value: number) => Number(value.toFixed(3)).toString();
+
+// Render the distinct payloads once and reuse the output for repeated codes
+async function renderUniqueCodes(
+  items: SheetItem[],
+  qrOptions: StyledQROptions,
+  format: "svg" | "png",
+  pixelSize: number,
+  onProgress?: (completed: number, total: number) => void
+): Promise<Map<string, Blob>> {
+  const unique = Array.from(new Set(items.map((item) => item.data)));
+  const rendered = new Map<string, Blob>();
+  const qrInstance = new QRCodeStyling({
+    ...qrOptions,
+    width: pixelSize,
+    height: pixelSize,
+    type: format === "svg" ? "svg" : "canvas",
+    image: resolveLogoImage(qrOptions.image, pixelSize, pixelSize),
+  });
+  applyBackgroundImage(qrInstance, qrOptions.backgroundImage);
+  const mimeType = format === "svg" ? "image/svg+xml" : "image/png";
+
+  for (let i = 0; i < unique.length; i++) {
+    qrInstance.update({ data: unique[i] });
+    const blob = qrRawDataToBlob(await qrInstance.getRawData(format), mimeType);
+    if (!blob) throw new Error("Failed to render QR code");
+    rendered.set(unique[i], blob);
+    onProgress?.(i + 1, unique.length);
+  }
+
+  return rendered;
+}
+
+// Inline a rendered QR SVG at a position, keeping its ids unique
+function embedQRSvg(
+  svg: string,
+  prefix: string,
+  x: number,
+  y: number,
+  size: number
+): string {
+  const body = svg
+    .replace(/<\?xml[^>]*\?>/, "")
+    .replace(/\bid="([^"]+)"/g, `id="${prefix}-$1"`)
+    .replace(/url\(['"]?#([^'")]+)['"]?\)/g, `url(#${prefix}-$1)`)
+    .replace(/(xlink:)?href="#([^"]+)"/g, `$1href="#${prefix}-$2"`)
+    .trim();
+
+  return body.replace(
+    /^<svg\b([^>]*)>/,
+    (_, attributes: string) =>
+      `<svg${attributes.replace(/\s(x|y|width|height)="[^"]*"/g, "")} x="${formatMm(x)}" y="${formatMm(y)}" width="${formatMm(size)}" height="${formatMm(size)}">`
+  );
+}
+
+// Build a single SVG document with every page stacked vertically
+export async function generateSheetSVG(
+  items: SheetItem[],
+  qrOptions: StyledQROptions,
+  options: SheetOptions,
+  onProgress?: (completed: number, total: number) => void
+): Promise<string> {
+  const { layout } = options;
+  const pages = computeSheetPages(layout, items);
+  const rendered = await renderUniqueCodes(
+    items,
+    qrOptions,
+    "svg",
+    qrOptions.width || 300,
+    onProgress
+  );
+  const svgByData = new Map<string, string>();
+  for (const [data, blob] of rendered) {
+    svgByData.set(data, await blob.text());
+  }
+
+  const totalHeight =
+    pages.length * layout.pageHeight + (pages.length - 1) * SVG_PAGE_GAP;
+  const parts: string[] = [
+    `<?xml version="1.0" encoding="UTF-8" standalone="no"?>`,
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${formatMm(layout.pageWidth)}mm" height="${formatMm(totalHeight)}mm" viewBox="0 0 ${formatMm(layout.pageWidth)} ${formatMm(totalHeight)}">`,
+  ];
+
+  pages.forEach((cells, pageIndex) => {
+    const offsetY = pageIndex * (layout.pageHeight + SVG_PAGE_GAP);
+    parts.push(
+      `<g id="page-${pageIndex + 1}" transform="translate(0 ${formatMm(offsetY)})">`,
+      `<rect width="${formatMm(layout.pageWidth)}" height="${formatMm(layout.pageHeight)}" fill="#ffffff"/>`
+    );
+
+    cells.forEach((cell, cellIndex) => {
+      const box = getCellContentBox(cell, options);
+      if (hasBackground(options)) {
+        parts.push(
+          `<rect x="${formatMm(cell.x - options.bleed)}" y="${formatMm(cell.y - options.bleed)}" width="${formatMm(cell.width + options.bleed * 2)}" height="${formatMm(cell.height + options.bleed * 2)}" fill="${escapeXml(options.backgroundColor)}"/>`
+        );
+      }
+      parts.push(
+        embedQRSvg(
+          svgByData.get(cell.item.data) || "",
+          `p${pageIndex + 1}-c${cellIndex + 1}`,
+          box.qrX,
+          box.qrY,
+          box.qrSize
+        )
+      );
+
+      if (options.captions && cell.item.caption) {
+        parts.push(
+          `<text x="${formatMm(box.captionX)}" y="${formatMm(box.captionY)}" font-family="Helvetica, Arial, sans-serif" font-size="${formatMm(options.captionSize * PT_TO_MM)}" text-anchor="middle" fill="${escapeXml(options.captionColor)}">${escapeXml(cell.item.caption)}</text>`
+        );
+      }
+    });
+
+    if (options.cutMarks) {
+      const marks = cells.flatMap((cell) =>
+        getCutMarkLines(cell, layout, options.bleed)
+      );
+      parts.push(
+        `<g stroke="#000000" stroke-width="0.15">`,
+        ...marks.map(
+          ([x1, y1, x2, y2]) =>
+            `<line x1="${formatMm(x1)}" y1="${formatMm(y1)}" x2="${formatMm(x2)}" y2="${formatMm(y2)}"/>`
+        ),
+        `</g>`
+      );
+    }
+
+    parts.push(`</g>`);
+  });
+
+  parts.push(`</svg>`);
+  return parts.join("\n");
+}
+
+const blobToDataURL = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Build a multi-page PDF with one page per sheet
+export async function generateSheetPDF(
+  items: SheetItem[],
+  qrOptions: StyledQROptions,
+  options: SheetOptions,
+  onProgress?: (completed: number, total: number) => void
+): Promise<Blob> {
+  const { layout } = options;
+  const pages = computeSheetPages(layout, items);
+  const largestQR = Math.max(
+    ...pages.flat().map((cell) => getCellContentBox(cell, options).qrSize),
+    1
+  );
+  const pixelSize = Math.ceil((largestQR / 25.4) * PDF_RASTER_DPI);
+  const rendered = await renderUniqueCodes(
+    items,
+    qrOptions,
+    "png",
+    pixelSize,
+    onProgress
+  );
+  const imageByData = new Map<string, string>();
+  for (const [data, blob] of rendered) {
+    imageByData.set(data, await blobToDataURL(blob));
+  }
+
+  const orientation =
+    layout.pageWidth > layout.pageHeight ? "landscape" : "portrait";
+  const doc = new jsPDF({
+    unit: "mm",
+    format: [layout.pageWidth, layout.pageHeight],
+    orientation,
+  });
+
+  pages.forEach((cells, pageIndex) => {
+    if (pageIndex > 0) {
+      doc.addPage([layout.pageWidth, layout.pageHeight], orientation);
+    }
+
+    for (const cell of cells) {
+      const box = getCellContentBox(cell, options);
+      if (hasBackground(options)) {
+        doc.setFillColor(options.backgroundColor);
+        doc.rect(
+          cell.x - options.bleed,
+          cell.y - options.bleed,
+          cell.width + options.bleed * 2,
+          cell.height + options.bleed * 2,
+          "F"
+        );
+      }
+      doc.addImage(
+        imageByData.get(cell.item.data) || "",
+        "PNG",
+        box.qrX,
+        box.qrY,
+        box.qrSize,
+        box.qrSize,
+        // Alias identical images so repeated codes are embedded only once
+        cell.item.data,
+        "FAST"
+      );
+
+      if (options.captions && cell.item.caption) {
+        doc.setFont("helvetica", "normal");
+        doc.setFontSize(options.captionSize);
+        doc.setTextColor(options.captionColor);
+        doc.text(cell.item.caption, box.captionX, box.captionY, {
+          align: "center",
+          maxWidth: cell.width - options.padding,
+        });
+      }
+    }
+
+    if (options.cutMarks) {
+      doc.setDrawColor("#000000");
+      doc.setLineWidth(0.15);
+      for (const cell of cells) {
+        for (const [x1, y1, x2, y2] of getCutMarkLines(
+          cell,
+          layout,
+          options.bleed
+        )) {
+          doc.line(x1, y1, x2, y2);
+        }
+      }
+    }
+  });
+
+  return doc.output("blob");
+}
+
+export async function downloadQRSheet(
+  items: SheetItem[],
+  qrOptions: StyledQROptions,
+  options: SheetOptions,
+  format: "pdf" | "svg",
+  onProgress?: (completed: number, total: number) => void
+) {
+  const filename = `qr-sheet-${Date.now()}`;
+
+  if (format === "svg") {
+    const svg = await generateSheetSVG(items, qrOptions, options, onProgress);
+    saveAs(new Blob([svg], { type: "image/svg+xml" }), `${filename}.svg`);
+  } else {
+    const pdf = await generateSheetPDF(items, qrOptions, options, onProgress);
+    saveAs(pdf, `${filename}.pdf`);
+  }
+}
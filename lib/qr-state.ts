@@ -0,0 +1,171 @@
+import {
+  type CornerDotType,
+  type CornerSquareType,
+  type DotType,
+  type ErrorCorrectionLevel,
+} from "qr-code-styling";
+import {
+  type FrameArrow,
+  type FrameLine,
+  type FrameShape,
+  type FrameStyle,
+  type QRFrame,
+} from "./qr-frame";
+import {
+  type QRGradient,
+  type StyledQROptions,
+  toStylingGradient,
+} from "./qr-utils";
+import { type Symbology } from "./symbology";
+
+/**
+ * QR generator state
+ *
+ * The design edited in the generator, and how it maps to qr-code-styling
+ * options and a frame. Kept free of React so route handlers can use it.
+ */
+
+export interface QRCodeState {
+  data: string;
+  // Micro QR, rMQR, Data Matrix and Aztec only use the solid colors
+  symbology: Symbology;
+  width: number;
+  height: number;
+  margin: number;
+  borderRadius: number;
+  errorCorrectionLevel: ErrorCorrectionLevel;
+  dotsColor: string;
+  dotsType: DotType;
+  cornersSquareColor: string;
+  cornersSquareType: CornerSquareType;
+  cornersDotColor: string;
+  cornersDotType: CornerDotType;
+  backgroundColor: string;
+  // Gradients replace the solid color of their element when set
+  dotsGradient: QRGradient | null;
+  cornersSquareGradient: QRGradient | null;
+  cornersDotGradient: QRGradient | null;
+  backgroundGradient: QRGradient | null;
+  // Image drawn behind the modules, empty for none
+  backgroundImage: string;
+  backgroundImageOpacity: number;
+  logo?: string;
+  logoSize: number;
+  logoMargin: number;
+  // Frame settings
+  hasFrame: boolean;
+  frameColor: string;
+  textColor: string;
+  frameShape: FrameShape;
+  frameStyle: FrameStyle;
+  frameLines: FrameLine[];
+  frameArrow: FrameArrow;
+  // CSS font-family of the frame text
+  frameFont: string;
+}
+
+export const initialQRState: QRCodeState = {
+  data: "https://freetools.now",
+  symbology: "qr",
+  width: 300,
+  height: 300,
+  margin: 10,
+  borderRadius: 0,
+  errorCorrectionLevel: "Q",
+  dotsColor: "#000000",
+  dotsType: "rounded",
+  cornersSquareColor: "#000000",
+  cornersSquareType: "extra-rounded",
+  cornersDotColor: "#000000",
+  cornersDotType: "dot",
+  backgroundColor: "#ffffff",
+  dotsGradient: null,
+  cornersSquareGradient: null,
+  cornersDotGradient: null,
+  backgroundGradient: null,
+  backgroundImage: "",
+  backgroundImageOpacity: 0.3,
+  logoSize: 0.4,
+  logoMargin: 0,
+  // Frame settings
+  hasFrame: false,
+  frameColor: "#000000",
+  textColor: "#ffffff",
+  frameShape: "rounded",
+  frameStyle: "solid",
+  frameLines: [
+    {
+      text: "Scan for more info",
+      icon: "none",
+      size: "medium",
+      position: "bottom",
+    },
+  ],
+  frameArrow: "none",
+  frameFont: "inherit",
+};
+
+// qr-code-styling options for a design, shared by the preview and the
+// server-side renderer
+export const toStyledQROptions = (state: QRCodeState): StyledQROptions => {
+  return {
+    width: state.width,
+    height: state.height,
+    type: "svg",
+    data: state.data,
+    image: state.logo,
+    margin: state.margin,
+    dotsOptions: {
+      color: state.dotsColor,
+      type: state.dotsType,
+      gradient: toStylingGradient(state.dotsGradient),
+    },
+    backgroundOptions: {
+      color: state.backgroundColor,
+      gradient: toStylingGradient(state.backgroundGradient),
+    },
+    backgroundImage: state.backgroundImage
+      ? {
+          src: state.backgroundImage,
+          opacity: state.backgroundImageOpacity,
+        }
+      : undefined,
+    imageOptions: {
+      margin: state.logoMargin,
+      imageSize: state.logoSize,
+      crossOrigin: "anonymous",
+      hideBackgroundDots: true,
+    },
+    cornersSquareOptions: {
+      color: state.cornersSquareColor,
+      type: state.cornersSquareType,
+      gradient: toStylingGradient(state.cornersSquareGradient),
+    },
+    cornersDotOptions: {
+      color: state.cornersDotColor,
+      type: state.cornersDotType,
+      gradient: toStylingGradient(state.cornersDotGradient),
+    },
+    qrOptions: {
+      errorCorrectionLevel: state.errorCorrectionLevel,
+    },
+  };
+};
+
+// Frame drawn around the code, null when the frame is off
+export const toQRFrame = (state: QRCodeState): QRFrame | null =>
+  state.hasFrame
+    ? {
+        color: state.frameColor,
+        textColor: state.textColor,
+        // The card behind the code continues its background
+        paperColor: /^#[0-9a-f]{6}$/i.test(state.backgroundColor)
+          ? state.backgroundColor
+          : "#ffffff",
+        font: state.frameFont,
+        shape: state.frameShape,
+        style: state.frameStyle,
+        lines: state.frameLines,
+        arrow: state.frameArrow,
+      }
+    : null;
@@ -1,5 +1,19 @@
 import { saveAs } from "file-saver";
-import QRCodeStyling, { type Options as QRCodeOptions } from "qr-code-styling";
+import QRCodeStyling, {
+  type ExtensionFunction,
+  type Gradient,
+  type Options as QRCodeOptions,
+} from "qr-code-styling";
+import { type ColorFill } from "./contrast-utils";
+import {
+  buildContactPayload,
+  buildWiFiPayload,
+  type ContactPayloadInput,
+  createEmptyAddress,
+  escapeText,
+  foldLine,
+  type WiFiSecurity,
+} from "./qr-payloads";
 
 /**
  * =============================================================================
@@ -53,50 +67,52 @@ import QRCodeStyling, { type Options as QRCodeOptions } from "qr-code-styling";
  * =============================================================================
  */
 
+// Convert the output of QRCodeStyling.getRawData into a Blob
+export const qrRawDataToBlob = (
+  rawData: unknown,
+  mimeType: string
+): Blob | null => {
+  if (rawData instanceof Blob) return rawData;
+  if (rawData instanceof ArrayBuffer) {
+    return new Blob([rawData], { type: mimeType });
+  }
+  if (typeof rawData === "string") {
+    if (mimeType === "image/svg+xml" && !rawData.startsWith("data:")) {
+      return new Blob([rawData], { type: mimeType });
+    }
+    // Handle base64 data URLs
+    const binaryString = atob(rawData.split(",")[1] || rawData);
+    const bytes = new Uint8Array(binaryString.length);
+    for (let i = 0; i < binaryString.length; i++) {
+      bytes[i] = binaryString.charCodeAt(i);
+    }
+    return new Blob([bytes], { type: mimeType });
+  }
+  return null;
+};
+
+// Anything that exports like QRCodeStyling, such as a SymbolRenderer
+export type QRRawDataSource = Pick<QRCodeStyling, "getRawData">;
+
+const getExportMimeType = (format: "png" | "jpeg" | "svg") =>
+  format === "svg" ? "image/svg+xml" : `image/${format}`;
+
 // QR Code export utilities
 export const downloadQRCode = async (
-  qrInstance: QRCodeStyling | null,
+  qrInstance: QRRawDataSource | null,
   filename: string,
   format: "png" | "jpeg" | "svg" = "png"
 ) => {
   if (!qrInstance) return;
 
   try {
-    if (format === "svg") {
-      const svgString = await qrInstance.getRawData("svg");
-      if (svgString) {
-        const blob = new Blob([svgString as unknown as string], {
-          type: "image/svg+xml",
-        });
-        saveAs(blob, `${filename}.svg`);
-      }
-    } else {
-      const rawData = await qrInstance.getRawData(format);
-      if (rawData) {
-        let blob: Blob;
-        if (rawData instanceof Blob) {
-          blob = rawData;
-        } else if (rawData instanceof ArrayBuffer) {
-          blob = new Blob([rawData], {
-            type: format === "jpeg" ? "image/jpeg" : `image/${format}`,
-          });
-        } else if (typeof rawData === "string") {
-          // Handle base64 data URLs
-          const binaryString = atob(
-            (rawData as string).split(",")[1] || (rawData as string)
-          );
-          const bytes = new Uint8Array(binaryString.length);
-          for (let i = 0; i < binaryString.length; i++) {
-            bytes[i] = binaryString.charCodeAt(i);
-          }
-          blob = new Blob([bytes], {
-            type: format === "jpeg" ? "image/jpeg" : `image/${format}`,
-          });
-        } else {
-          throw new Error("Unsupported rawData type");
-        }
-        saveAs(blob, `${filename}.${format === "jpeg" ? "jpg" : format}`);
+    const rawData = await qrInstance.getRawData(format);
+    if (rawData) {
+      const blob = qrRawDataToBlob(rawData, getExportMimeType(format));
+      if (!blob) {
+        throw new Error("Unsupported rawData type");
       }
+      saveAs(blob, `${filename}.${format === "jpeg" ? "jpg" : format}`);
     }
   } catch (error) {
     console.error("Error downloading QR code:", error);
@@ -105,32 +121,13 @@ export const downloadQRCode = async (
 };
 
 // Copy QR code to clipboard
-export const copyQRToClipboard = async (qrInstance: QRCodeStyling | null) => {
+export const copyQRToClipboard = async (qrInstance: QRRawDataSource | null) => {
   if (!qrInstance) return false;
 
   try {
     if (navigator.clipboard && window.ClipboardItem) {
       const rawData = await qrInstance.getRawData("png");
-      let blob: Blob | null = null;
-      if (rawData instanceof Blob) {
-        blob = rawData;
-      } else if (rawData instanceof ArrayBuffer) {
-        blob = new Blob([rawData], {
-          type: "image/png",
-        });
-      } else if (typeof rawData === "string") {
-        // Handle base64 data URLs
-        const binaryString = atob(
-          (rawData as string).split(",")[1] || (rawData as string)
-        );
-        const bytes = new Uint8Array(binaryString.length);
-        for (let i = 0; i < binaryString.length; i++) {
-          bytes[i] = binaryString.charCodeAt(i);
-        }
-        blob = new Blob([bytes], {
-          type: "image/png",
-        });
-      }
+      const blob = qrRawDataToBlob(rawData, "image/png");
       if (blob) {
         await navigator.clipboard.write([
           new ClipboardItem({ "image/png": blob }),
@@ -145,6 +142,160 @@ export const copyQRToClipboard = async (qrInstance: QRCodeStyling | null) => {
   }
 };
 
+// Render a text/emoji logo to an image so qr-code-styling can embed it
+export const createTextLogoImage = (text: string, size: number): string => {
+  const canvas = document.createElement("canvas");
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext("2d")!;
+
+  // Set canvas background to transparent
+  ctx.clearRect(0, 0, size, size);
+
+  // Configure text styling
+  const fontSize = size * 0.6;
+  ctx.font = `${fontSize}px Arial, sans-serif`;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.fillStyle = "#000000";
+
+  // Draw the text/emoji
+  ctx.fillText(text, size / 2, size / 2);
+
+  return canvas.toDataURL();
+};
+
+// Text and emoji logos are rendered to images; data/http URLs pass through
+export const resolveLogoImage = (
+  logo: string | undefined,
+  width: number,
+  height: number
+): string | undefined => {
+  if (logo && !logo.startsWith("data:image/") && !logo.startsWith("http")) {
+    return createTextLogoImage(logo, Math.min(width, height) * 0.3);
+  }
+  return logo;
+};
+
+export interface QRGradientStop {
+  // 0 to 1
+  offset: number;
+  color: string;
+}
+
+export interface QRGradient {
+  type: "linear" | "radial";
+  // Degrees, only used by linear gradients
+  rotation: number;
+  colorStops: QRGradientStop[];
+}
+
+export interface QRBackgroundImage {
+  // Image data URL or URL
+  src: string;
+  opacity: number;
+}
+
+// qr-code-styling options plus the background image drawn by an extension
+export type StyledQROptions = QRCodeOptions & {
+  backgroundImage?: QRBackgroundImage;
+};
+
+// Gradient stops when a gradient is set, otherwise the solid color
+export const getColorFill = (
+  color: string,
+  gradient: QRGradient | null
+): ColorFill => (gradient ? gradient.colorStops : color);
+
+// Two-stop gradient starting at the current solid color
+export const createGradient = (
+  color: string,
+  type: QRGradient["type"] = "linear"
+): QRGradient => ({
+  type,
+  rotation: 0,
+  colorStops: [
+    { offset: 0, color },
+    {
+      offset: 1,
+      color: color.toLowerCase() === "#ffffff" ? "#000000" : "#ffffff",
+    },
+  ],
+});
+
+export const isValidGradient = (value: unknown): value is QRGradient => {
+  if (!value || typeof value !== "object") return false;
+  const gradient = value as Partial<QRGradient>;
+  return (
+    (gradient.type === "linear" || gradient.type === "radial") &&
+    typeof gradient.rotation === "number" &&
+    Array.isArray(gradient.colorStops) &&
+    gradient.colorStops.length >= 2 &&
+    gradient.colorStops.every(
+      (stop) =>
+        typeof stop?.color === "string" &&
+        typeof stop.offset === "number" &&
+        stop.offset >= 0 &&
+        stop.offset <= 1
+    )
+  );
+};
+
+// Converts a gradient to qr-code-styling's format (rotation in radians)
+export const toStylingGradient = (
+  gradient: QRGradient | null
+): Gradient | undefined =>
+  gradient
+    ? {
+        type: gradient.type,
+        rotation: (gradient.rotation * Math.PI) / 180,
+        colorStops: [...gradient.colorStops].sort(
+          (a, b) => a.offset - b.offset
+        ),
+      }
+    : undefined;
+
+/**
+ * qr-code-styling has no background image option, so the image is inserted
+ * into the rendered SVG between the background fill and the modules. PNG
+ * output is rasterized from that SVG and includes the image too.
+ */
+export const createBackgroundImageExtension =
+  ({ src, opacity }: QRBackgroundImage): ExtensionFunction =>
+  (svg, options) => {
+    const image = svg.ownerDocument.createElementNS(
+      "http://www.w3.org/2000/svg",
+      "image"
+    );
+    image.setAttribute("href", src);
+    image.setAttribute("x", "0");
+    image.setAttribute("y", "0");
+    image.setAttribute("width", String(options.width));
+    image.setAttribute("height", String(options.height));
+    image.setAttribute("preserveAspectRatio", "xMidYMid slice");
+    image.setAttribute("opacity", String(opacity));
+
+    const background = svg.querySelector(
+      '[clip-path*="clip-path-background-color"]'
+    );
+    if (background) {
+      // Share the clip path so rounded backgrounds stay rounded
+      image.setAttribute("clip-path", background.getAttribute("clip-path")!);
+      background.after(image);
+    } else {
+      svg.insertBefore(image, svg.querySelector("defs")?.nextSibling ?? null);
+    }
+  };
+
+export const applyBackgroundImage = (
+  qrInstance: QRCodeStyling,
+  backgroundImage?: QRBackgroundImage
+) => {
+  if (backgroundImage?.src) {
+    qrInstance.applyExtension(createBackgroundImageExtension(backgroundImage));
+  }
+};
+
 // QR Code presets
 export interface QRPreset {
   id: string;
@@ -1525,13 +1676,93 @@ export const emojiPresets: EmojiPreset[] = [
 ];
 
 // Data type detection and formatting
-export const detectDataType = (
-  data: string
-): "url" | "email" | "phone" | "wifi" | "text" => {
-  if (data.startsWith("http://") || data.startsWith("https://")) return "url";
-  if (data.includes("@") && data.includes(".")) return "email";
-  if (data.match(/^[\+]?[\d\s\-\(\)]+$/)) return "phone";
-  if (data.startsWith("WIFI:")) return "wifi";
+export type DetectedDataType =
+  | "text"
+  | "url"
+  | "email"
+  | "phone"
+  | "wifi"
+  | "vcard"
+  | "event"
+  | "crypto"
+  | "sms"
+  | "whatsapp"
+  | "skype"
+  | "zoom"
+  | "paypal"
+  | "sepa"
+  | "swissqr"
+  | "upi"
+  | "facebook"
+  | "twitter"
+  | "instagram"
+  | "linkedin"
+  | "tiktok"
+  | "youtube";
+
+// Hosts of the services that have their own form, without "www."
+const serviceHosts: Record<string, DetectedDataType> = {
+  "wa.me": "whatsapp",
+  "api.whatsapp.com": "whatsapp",
+  "facebook.com": "facebook",
+  "m.facebook.com": "facebook",
+  "fb.com": "facebook",
+  "twitter.com": "twitter",
+  "x.com": "twitter",
+  "instagram.com": "instagram",
+  "linkedin.com": "linkedin",
+  "tiktok.com": "tiktok",
+  "youtube.com": "youtube",
+  "m.youtube.com": "youtube",
+  "youtu.be": "youtube",
+};
+
+const detectUrlType = (url: URL): DetectedDataType => {
+  const host = url.hostname.toLowerCase().replace(/^www\./, "");
+  if (
+    (host === "zoom.us" || host.endsWith(".zoom.us")) &&
+    /^\/j\/\d+/.test(url.pathname)
+  ) {
+    return "zoom";
+  }
+  if (host === "paypal.com" && url.pathname === "/cgi-bin/webscr") {
+    return "paypal";
+  }
+  return serviceHosts[host] || "url";
+};
+
+/**
+ * Works out which generator data type a payload belongs to, from the URI
+ * scheme, the payload header or the host of a link. Used to read scanned
+ * and imported codes back into the matching form.
+ */
+export const detectDataType = (data: string): DetectedDataType => {
+  const value = data.trim();
+
+  if (/^WIFI:/i.test(value)) return "wifi";
+  if (/^(BEGIN:VCARD|MECARD:)/i.test(value)) return "vcard";
+  if (/^BEGIN:(VCALENDAR|VEVENT)/i.test(value)) return "event";
+  if (/^(sms|smsto):/i.test(value)) return "sms";
+  if (/^(bitcoin|bitcoincash|ethereum|litecoin):/i.test(value)) {
+    return "crypto";
+  }
+  if (/^BCD\r?\n00[12]\r?\n/.test(value)) return "sepa";
+  if (/^SPC\r?\n02\d\d\r?\n/.test(value)) return "swissqr";
+  if (/^upi:\/\/pay\?/i.test(value)) return "upi";
+  if (/^skype:/i.test(value)) return "skype";
+  if (/^mailto:/i.test(value)) return "email";
+  if (/^tel:/i.test(value)) return "phone";
+
+  if (/^https?:\/\//i.test(value)) {
+    try {
+      return detectUrlType(new URL(value));
+    } catch {
+      return "text";
+    }
+  }
+
+  if (/^[^\s@:/]+@[^\s@]+\.[^\s@]+$/.test(value)) return "email";
+  if (/^\+?[\d\s\-().]+$/.test(value) && /\d{3}/.test(value)) return "phone";
   return "text";
 };
 
@@ -1539,71 +1770,287 @@ export const detectDataType = (
 export const generateWiFiQR = (
   ssid: string,
   password: string,
-  security: "WPA" | "WEP" | "nopass" = "WPA"
+  security: WiFiSecurity = "WPA",
+  hidden: boolean = false
+) => buildWiFiPayload({ ssid, password, security, hidden }).payload;
+
+// vCard QR code generator, the flat address fields become one work address
+export const generateVCardQR = (
+  contact: ContactPayloadInput & {
+    street?: string;
+    city?: string;
+    zipCode?: string;
+    country?: string;
+  }
 ) => {
-  return `WIFI:T:${security};S:${ssid};P:${password};;`;
+  const { street, city, zipCode, country, ...rest } = contact;
+  const addresses = rest.addresses || [
+    {
+      ...createEmptyAddress("work"),
+      street: street || "",
+      city: city || "",
+      zipCode: zipCode || "",
+      country: country || "",
+    },
+  ];
+  return buildContactPayload({ ...rest, addresses }).payload;
 };
 
-// vCard QR code generator
-export const generateVCardQR = (contact: {
-  firstName?: string;
-  lastName?: string;
-  title?: string;
-  organization?: string;
-  street?: string;
-  city?: string;
-  zipCode?: string;
-  country?: string;
-  emailPersonal?: string;
-  emailBusiness?: string;
-  phonePersonal?: string;
-  phoneMobile?: string;
-  phoneBusiness?: string;
-  website?: string;
-}) => {
-  const lines = ["BEGIN:VCARD", "VERSION:3.0"];
-
-  const fullName =
-    `${contact.firstName || ""} ${contact.lastName || ""}`.trim();
-  if (fullName) {
-    lines.push(`FN:${fullName}`);
-    lines.push(`N:${contact.lastName || ""};${contact.firstName || ""};;;`);
+// Calendar event (iCalendar VEVENT) generator
+export type EventRecurrence = "" | "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
+export interface CalendarEvent {
+  title: string;
+  // "YYYY-MM-DDTHH:mm" for timed events, "YYYY-MM-DD" for all-day events
+  start: string;
+  end?: string;
+  allDay?: boolean;
+  // IANA zone, "UTC", or empty for floating (device local) time
+  timeZone?: string;
+  location?: string;
+  description?: string;
+  recurrence?: EventRecurrence;
+  interval?: number;
+  count?: number;
+  until?: string;
+}
+
+const pad2 = (value: number) => String(value).padStart(2, "0");
+
+const formatICalDate = (date: Date, utc: boolean) =>
+  utc
+    ? `${date.getUTCFullYear()}${pad2(date.getUTCMonth() + 1)}${pad2(date.getUTCDate())}T${pad2(date.getUTCHours())}${pad2(date.getUTCMinutes())}${pad2(date.getUTCSeconds())}Z`
+    : `${date.getFullYear()}${pad2(date.getMonth() + 1)}${pad2(date.getDate())}T${pad2(date.getHours())}${pad2(date.getMinutes())}${pad2(date.getSeconds())}`;
+
+// True for zones the browser knows, such as "Europe/Berlin" or "UTC". Other
+// names, like the Windows zones of Outlook invites, would make Intl throw
+export const isValidTimeZone = (timeZone?: string): timeZone is string => {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
   }
+};
+
+// Offset of an IANA time zone from UTC at the given instant, in milliseconds
+const getTimeZoneOffset = (timestamp: number, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(timestamp));
+  const get = (type: string) =>
+    Number(parts.find((part) => part.type === type)?.value);
+  const asUTC = Date.UTC(
+    get("year"),
+    get("month") - 1,
+    get("day"),
+    get("hour"),
+    get("minute"),
+    get("second")
+  );
+  return asUTC - Math.floor(timestamp / 1000) * 1000;
+};
+
+// Converts a wall-clock time in a zone to the matching UTC instant
+const zonedTimeToUtc = (value: string, timeZone: string) => {
+  const [date, time = "00:00"] = value.split("T");
+  const [year, month, day] = date.split("-").map(Number);
+  const [hour, minute] = time.split(":").map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  let utc = wallClock - getTimeZoneOffset(wallClock, timeZone);
+  // Second pass settles times close to a DST transition
+  utc = wallClock - getTimeZoneOffset(utc, timeZone);
+  return new Date(utc);
+};
+
+// Wall-clock time without a zone, as written for floating and TZID times
+const formatLocalDateTime = (value: string) => {
+  const [date, time = "00:00"] = value.split("T");
+  return `${date.replace(/-/g, "")}T${time.replace(/:/g, "").padEnd(6, "0")}`;
+};
+
+const formatEventDateTime = (value: string, timeZone?: string) => {
+  if (!timeZone) return `:${formatLocalDateTime(value)}`;
+  if (timeZone === "UTC")
+    return `:${formatICalDate(new Date(`${value}Z`), true)}`;
+  return `;TZID=${timeZone}:${formatLocalDateTime(value)}`;
+};
+
+const formatUtcOffset = (offset: number) => {
+  const minutes = Math.round(Math.abs(offset) / 60000);
+  return `${offset < 0 ? "-" : "+"}${pad2(Math.floor(minutes / 60))}${pad2(minutes % 60)}`;
+};
+
+const ICAL_WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
 
-  if (contact.title) lines.push(`TITLE:${contact.title}`);
-  if (contact.organization) lines.push(`ORG:${contact.organization}`);
-
-  // Address
-  if (contact.street || contact.city || contact.zipCode || contact.country) {
-    const addressParts = [
-      "", // PO Box (empty)
-      "", // Extended address (empty)
-      contact.street || "",
-      contact.city || "",
-      "", // State/Province (empty)
-      contact.zipCode || "",
-      contact.country || "",
-    ];
-    lines.push(`ADR:${addressParts.join(";")}`);
+// Instants in a year where the offset of the zone changes, to the minute
+const findOffsetTransitions = (year: number, timeZone: string) => {
+  const transitions: number[] = [];
+  const week = 7 * 24 * 3600 * 1000;
+  const end = Date.UTC(year + 1, 0, 1);
+  for (let from = Date.UTC(year, 0, 1); from < end; from += week) {
+    const to = Math.min(from + week, end);
+    if (getTimeZoneOffset(from, timeZone) === getTimeZoneOffset(to, timeZone)) {
+      continue;
+    }
+    let low = from;
+    let high = to;
+    while (high - low > 60000) {
+      const middle = low + Math.floor((high - low) / 120000) * 60000;
+      if (
+        getTimeZoneOffset(middle, timeZone) === getTimeZoneOffset(low, timeZone)
+      ) {
+        low = middle;
+      } else {
+        high = middle;
+      }
+    }
+    transitions.push(high);
   }
+  return transitions;
+};
 
-  // Phone numbers with types
-  if (contact.phonePersonal)
-    lines.push(`TEL;TYPE=HOME:${contact.phonePersonal}`);
-  if (contact.phoneMobile) lines.push(`TEL;TYPE=CELL:${contact.phoneMobile}`);
-  if (contact.phoneBusiness)
-    lines.push(`TEL;TYPE=WORK:${contact.phoneBusiness}`);
+/**
+ * Minimal VTIMEZONE for a zone: the offset changes of the year before the
+ * event repeat yearly on the same weekday of the month, which covers the
+ * daylight saving rules of current zones.
+ */
+const buildTimeZone = (timeZone: string, year: number) => {
+  const lines = ["BEGIN:VTIMEZONE", `TZID:${timeZone}`];
+  const transitions = findOffsetTransitions(year - 1, timeZone);
 
-  // Email addresses with types
-  if (contact.emailPersonal)
-    lines.push(`EMAIL;TYPE=HOME:${contact.emailPersonal}`);
-  if (contact.emailBusiness)
-    lines.push(`EMAIL;TYPE=WORK:${contact.emailBusiness}`);
+  if (transitions.length === 0) {
+    const offset = formatUtcOffset(
+      getTimeZoneOffset(Date.UTC(year, 0, 1), timeZone)
+    );
+    lines.push(
+      "BEGIN:STANDARD",
+      "DTSTART:19700101T000000",
+      `TZOFFSETFROM:${offset}`,
+      `TZOFFSETTO:${offset}`,
+      "END:STANDARD"
+    );
+  }
 
-  if (contact.website) lines.push(`URL:${contact.website}`);
+  for (const transition of transitions) {
+    const offsetFrom = getTimeZoneOffset(transition - 60000, timeZone);
+    const offsetTo = getTimeZoneOffset(transition, timeZone);
+    // Onsets are written in the local time before the change
+    const local = new Date(transition + offsetFrom);
+    const day = local.getUTCDate();
+    const daysInMonth = new Date(
+      Date.UTC(local.getUTCFullYear(), local.getUTCMonth() + 1, 0)
+    ).getUTCDate();
+    const week = day + 7 > daysInMonth ? -1 : Math.ceil(day / 7);
+    const component = offsetTo > offsetFrom ? "DAYLIGHT" : "STANDARD";
+    lines.push(
+      `BEGIN:${component}`,
+      `DTSTART:${formatICalDate(local, true).slice(0, -1)}`,
+      `RRULE:FREQ=YEARLY;BYMONTH=${local.getUTCMonth() + 1};BYDAY=${week}${ICAL_WEEKDAYS[local.getUTCDay()]}`,
+      `TZOFFSETFROM:${formatUtcOffset(offsetFrom)}`,
+      `TZOFFSETTO:${formatUtcOffset(offsetTo)}`,
+      `END:${component}`
+    );
+  }
+
+  lines.push("END:VTIMEZONE");
+  return lines;
+};
+
+const addDays = (value: string, days: number) => {
+  const [year, month, day] = value.split("-").map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day + days));
+  return `${date.getUTCFullYear()}-${pad2(date.getUTCMonth() + 1)}-${pad2(date.getUTCDate())}`;
+};
 
-  lines.push("END:VCARD");
-  return lines.join("\r\n");
+// Small stable hash so the same event always gets the same UID
+const hashString = (value: string) => {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) >>> 0;
+  }
+  return hash.toString(36);
+};
+
+/**
+ * Builds a VCALENDAR wrapping one VEVENT. Zoned times keep their wall-clock
+ * time with a TZID and a VTIMEZONE, so repeating events stay at the same
+ * local time across daylight saving changes; floating times are written
+ * without a zone and open in the scanner's local time.
+ */
+export const generateEventQR = (event: CalendarEvent) => {
+  if (!event.start) return "";
+
+  const start = event.allDay ? event.start.split("T")[0] : event.start;
+  // Unknown zones fall back to floating time
+  const timeZone = isValidTimeZone(event.timeZone) ? event.timeZone : "";
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//FreeTools//QR Generator//EN",
+  ];
+  if (!event.allDay && timeZone && timeZone !== "UTC") {
+    lines.push(...buildTimeZone(timeZone, Number(start.slice(0, 4))));
+  }
+  lines.push(
+    "BEGIN:VEVENT",
+    `UID:${hashString(`${event.title}|${start}`)}@freetools.now`,
+    `DTSTAMP:${formatICalDate(new Date(), true)}`
+  );
+
+  if (event.allDay) {
+    const end = event.end ? event.end.split("T")[0] : start;
+    lines.push(`DTSTART;VALUE=DATE:${start.replace(/-/g, "")}`);
+    // DTEND is exclusive for all-day events
+    lines.push(`DTEND;VALUE=DATE:${addDays(end, 1).replace(/-/g, "")}`);
+  } else {
+    lines.push(`DTSTART${formatEventDateTime(start, timeZone)}`);
+    if (event.end) {
+      lines.push(`DTEND${formatEventDateTime(event.end, timeZone)}`);
+    }
+  }
+
+  if (event.title) lines.push(`SUMMARY:${escapeText(event.title)}`);
+  if (event.location) {
+    lines.push(`LOCATION:${escapeText(event.location)}`);
+  }
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  }
+
+  if (event.recurrence) {
+    const rule = [`FREQ=${event.recurrence}`];
+    if (event.interval && event.interval > 1) {
+      rule.push(`INTERVAL=${event.interval}`);
+    }
+    if (event.count && event.count > 0) {
+      rule.push(`COUNT=${event.count}`);
+    } else if (event.until) {
+      // UNTIL must use the same value type as DTSTART, and UTC for TZID times
+      rule.push(
+        event.allDay
+          ? `UNTIL=${event.until.replace(/-/g, "")}`
+          : `UNTIL=${formatICalDate(
+              timeZone
+                ? zonedTimeToUtc(`${event.until}T23:59`, timeZone)
+                : new Date(`${event.until}T23:59:59`),
+              !!timeZone
+            )}`
+      );
+    }
+    lines.push(`RRULE:${rule.join(";")}`);
+  }
+
+  lines.push("END:VEVENT", "END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n");
 };
 
 // Generate random colors for QR code
@@ -1655,57 +2102,13 @@ export const generateRandomShapes = () => {
   };
 };
 
-// Frame presets
-export interface FramePreset {
-  id: string;
-  name: string;
-  backgroundColor: string;
-  textColor: string;
-  borderColor: string;
-  borderWidth: string;
-  borderRadius: string;
-  padding: string;
-}
-
-export const framePresets: FramePreset[] = [
-  {
-    id: "dark-frame",
-    name: "Dark Frame",
-    backgroundColor: "#000000",
-    textColor: "#ffffff",
-    borderColor: "#000000",
-    borderWidth: "8px",
-    borderRadius: "12px",
-    padding: "20px",
-  },
-  {
-    id: "light-frame",
-    name: "Light Frame",
-    backgroundColor: "#ffffff",
-    textColor: "#000000",
-    borderColor: "#e2e8f0",
-    borderWidth: "4px",
-    borderRadius: "8px",
-    padding: "16px",
-  },
-  {
-    id: "gradient-frame",
-    name: "Gradient Frame",
-    backgroundColor: "linear-gradient(135deg, #667eea 0%, #764ba2 100%)",
-    textColor: "#ffffff",
-    borderColor: "#667eea",
-    borderWidth: "6px",
-    borderRadius: "16px",
-    padding: "24px",
-  },
-  {
-    id: "minimal-frame",
-    name: "Minimal Frame",
-    backgroundColor: "#f8fafc",
-    textColor: "#64748b",
-    borderColor: "#cbd5e1",
-    borderWidth: "2px",
-    borderRadius: "4px",
-    padding: "12px",
-  },
+// Font stacks offered for frame text; "inherit" uses the page font
+export const frameFonts: { label: string; value: string }[] = [
+  { label: "Default", value: "inherit" },
+  { label: "Arial", value: "Arial, Helvetica, sans-serif" },
+  { label: "Verdana", value: "Verdana, Geneva, sans-serif" },
+  { label: "Trebuchet", value: "'Trebuchet MS', sans-serif" },
+  { label: "Georgia", value: "Georgia, serif" },
+  { label: "Times", value: "'Times New Roman', Times, serif" },
+  { label: "Courier", value: "'Courier New', Courier, monospace" },
 ];
@@ -0,0 +1,449 @@
+import {
+  type CornerDotType,
+  type CornerSquareType,
+  type DotType,
+  type ErrorCorrectionLevel,
+} from "qr-code-styling";
+import qrcode from "qrcode-generator";
+import { type StyledQROptions } from "./qr-utils";
+import { getQRMode, recoveryCapacity } from "./qr-verify";
+
+/**
+ * QR vector artwork
+ *
+ * Draws the modules of a QR code as filled paths without a DOM, in whatever
+ * unit the caller picks. Shapes are simplified from qr-code-styling: runs of
+ * dark modules merge into one shape per row, "dots" stay separate circles and
+ * the rounded styles become rounded rectangles. Modules beneath a logo are
+ * left out with the same sizing rule qr-code-styling uses.
+ */
+
+export type PathCommand =
+  | ["M" | "L", number, number]
+  | ["C", number, number, number, number, number, number]
+  | ["Z"];
+
+export interface QRVectorLayer {
+  id: "dots" | "cornersSquare" | "cornersDot";
+  color: string;
+  // Subpaths filled together with the even-odd rule
+  path: PathCommand[];
+}
+
+export interface QRVectorGeometry {
+  // Size of one module and position of the top left module
+  moduleSize: number;
+  offsetX: number;
+  offsetY: number;
+  // Modules hidden by the logo across and down
+  hidden: { columns: number; rows: number };
+}
+
+const FINDER_SIZE = 7;
+// Control point distance that approximates a quarter circle with a Bézier
+const KAPPA = 0.5523;
+
+// Throws when the data does not fit in a QR code
+export function createQRMatrix(options: StyledQROptions) {
+  const data = options.data || "";
+  const qr = qrcode(
+    0,
+    (options.qrOptions?.errorCorrectionLevel || "Q") as ErrorCorrectionLevel
+  );
+  qr.addData(data, getQRMode(data));
+  qr.make();
+  return qr;
+}
+
+export const roundedRect = (
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  radius: number
+): PathCommand[] => {
+  const r = Math.min(radius, width / 2, height / 2);
+  if (r <= 0) {
+    return [
+      ["M", x, y],
+      ["L", x + width, y],
+      ["L", x + width, y + height],
+      ["L", x, y + height],
+      ["Z"],
+    ];
+  }
+  const k = r * KAPPA;
+  const right = x + width;
+  const bottom = y + height;
+  return [
+    ["M", x + r, y],
+    ["L", right - r, y],
+    ["C", right - r + k, y, right, y + r - k, right, y + r],
+    ["L", right, bottom - r],
+    ["C", right, bottom - r + k, right - r + k, bottom, right - r, bottom],
+    ["L", x + r, bottom],
+    ["C", x + r - k, bottom, x, bottom - r + k, x, bottom - r],
+    ["L", x, y + r],
+    ["C", x, y + r - k, x + r - k, y, x + r, y],
+    ["Z"],
+  ];
+};
+
+// Corner radius for a module or finder shape of the given size
+const getCornerRadius = (
+  type: DotType | CornerSquareType | CornerDotType | undefined,
+  size: number
+) => {
+  switch (type) {
+    case "square":
+    case "classy":
+      return 0;
+    case "dot":
+    case "dots":
+      return size / 2;
+    case "rounded":
+    case "classy-rounded":
+      return size * 0.3;
+    default:
+      return size * 0.4;
+  }
+};
+
+// Port of the logo sizing in qr-code-styling: the number of modules the logo
+// hides across and down for a logo of the given height to width ratio
+export function getHiddenLogoModules(
+  moduleCount: number,
+  options: StyledQROptions,
+  aspect: number
+) {
+  const level = (options.qrOptions?.errorCorrectionLevel ||
+    "Q") as ErrorCorrectionLevel;
+  const maxHidden = Math.floor(
+    (options.imageOptions?.imageSize ?? 0.4) *
+      recoveryCapacity[level] *
+      moduleCount *
+      moduleCount
+  );
+  const maxAxis = moduleCount - 14;
+  if (maxHidden <= 0) return { columns: 0, rows: 0 };
+
+  let columns = Math.max(1, Math.floor(Math.sqrt(maxHidden / aspect)));
+  if (maxAxis < columns) columns = maxAxis;
+  if (columns % 2 === 0) columns--;
+  let rows = 1 + 2 * Math.ceil((columns * aspect - 1) / 2);
+  if (rows * columns > maxHidden || maxAxis < rows) {
+    if (maxAxis < rows) {
+      rows = maxAxis;
+      if (rows % 2 === 0) columns--;
+    } else {
+      rows -= 2;
+    }
+    columns = 1 + 2 * Math.ceil((rows / aspect - 1) / 2);
+  }
+  return { columns, rows };
+}
+
+export function buildQRLayers(
+  options: StyledQROptions,
+  qr: ReturnType<typeof qrcode>,
+  { moduleSize: m, offsetX, offsetY, hidden }: QRVectorGeometry
+): QRVectorLayer[] {
+  const count = qr.getModuleCount();
+  const x = (col: number) => offsetX + col * m;
+  const y = (row: number) => offsetY + row * m;
+
+  const hideDots = options.imageOptions?.hideBackgroundDots !== false;
+  const isHidden = (row: number, col: number) =>
+    hideDots &&
+    row >= (count - hidden.rows) / 2 &&
+    row < (count + hidden.rows) / 2 &&
+    col >= (count - hidden.columns) / 2 &&
+    col < (count + hidden.columns) / 2;
+  const isFinder = (row: number, col: number) =>
+    (row < FINDER_SIZE && col < FINDER_SIZE) ||
+    (row < FINDER_SIZE && col >= count - FINDER_SIZE) ||
+    (row >= count - FINDER_SIZE && col < FINDER_SIZE);
+  const isDot = (row: number, col: number) =>
+    qr.isDark(row, col) && !isFinder(row, col) && !isHidden(row, col);
+
+  // Dots, runs of dark modules merged into one shape per row
+  const dotsType = options.dotsOptions?.type;
+  const dotRadius = getCornerRadius(dotsType, m);
+  const dots: PathCommand[] = [];
+  for (let row = 0; row < count; row++) {
+    for (let col = 0; col < count; col++) {
+      if (!isDot(row, col)) continue;
+      let end = col;
+      if (dotsType !== "dots") {
+        while (end + 1 < count && isDot(row, end + 1)) end++;
+      }
+      dots.push(
+        ...roundedRect(x(col), y(row), (end - col + 1) * m, m, dotRadius)
+      );
+      col = end;
+    }
+  }
+
+  // Finder patterns: a 7-module ring around a 3-module center
+  const squareType = options.cornersSquareOptions?.type;
+  const dotType = options.cornersDotOptions?.type;
+  const squares: PathCommand[] = [];
+  const centers: PathCommand[] = [];
+  for (const [row, col] of [
+    [0, 0],
+    [0, count - FINDER_SIZE],
+    [count - FINDER_SIZE, 0],
+  ]) {
+    const left = x(col);
+    const top = y(row);
+    squares.push(
+      ...roundedRect(
+        left,
+        top,
+        7 * m,
+        7 * m,
+        getCornerRadius(squareType, 7 * m)
+      ),
+      ...roundedRect(
+        left + m,
+        top + m,
+        5 * m,
+        5 * m,
+        getCornerRadius(squareType, 5 * m)
+      )
+    );
+    centers.push(
+      ...roundedRect(
+        left + 2 * m,
+        top + 2 * m,
+        3 * m,
+        3 * m,
+        getCornerRadius(dotType, 3 * m)
+      )
+    );
+  }
+
+  const dotsColor = options.dotsOptions?.color || "#000000";
+  return [
+    { id: "dots", color: dotsColor, path: dots },
+    {
+      id: "cornersSquare",
+      color: options.cornersSquareOptions?.color || dotsColor,
+      path: squares,
+    },
+    {
+      id: "cornersDot",
+      color: options.cornersDotOptions?.color || dotsColor,
+      path: centers,
+    },
+  ];
+}
+
+const formatNumber = (value: number) => Number(value.toFixed(3)).toString();
+
+// Path data for an SVG <path> element
+export const toSVGPathData = (path: PathCommand[]) =>
+  path
+    .map(([command, ...values]) =>
+      [command, ...values.map(formatNumber)].join(" ")
+    )
+    .join(" ");
+
+// Cubic curves for an SVG elliptical arc, following the endpoint to center
+// conversion of the SVG specification
+function arcToCurves(
+  x1: number,
+  y1: number,
+  radiusX: number,
+  radiusY: number,
+  rotation: number,
+  largeArc: boolean,
+  sweep: boolean,
+  x2: number,
+  y2: number
+): PathCommand[] {
+  let rx = Math.abs(radiusX);
+  let ry = Math.abs(radiusY);
+  if (rx === 0 || ry === 0 || (x1 === x2 && y1 === y2)) return [["L", x2, y2]];
+
+  const phi = (rotation * Math.PI) / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+  const dx = (x1 - x2) / 2;
+  const dy = (y1 - y2) / 2;
+  const x = cos * dx + sin * dy;
+  const y = -sin * dx + cos * dy;
+  const lambda = (x * x) / (rx * rx) + (y * y) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+  const numerator = rx * rx * ry * ry - rx * rx * y * y - ry * ry * x * x;
+  const coefficient =
+    (largeArc === sweep ? -1 : 1) *
+    Math.sqrt(Math.max(0, numerator / (rx * rx * y * y + ry * ry * x * x)));
+  const centerX = (coefficient * rx * y) / ry;
+  const centerY = (-coefficient * ry * x) / rx;
+  const cx = cos * centerX - sin * centerY + (x1 + x2) / 2;
+  const cy = sin * centerX + cos * centerY + (y1 + y2) / 2;
+
+  const angle = (ux: number, uy: number, vx: number, vy: number) =>
+    Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+  const ux = (x - centerX) / rx;
+  const uy = (y - centerY) / ry;
+  const start = angle(1, 0, ux, uy);
+  let delta = angle(ux, uy, (-x - centerX) / rx, (-y - centerY) / ry);
+  if (!sweep && delta > 0) delta -= 2 * Math.PI;
+  if (sweep && delta < 0) delta += 2 * Math.PI;
+
+  // Quarter turns at most keep the curves close to the ellipse
+  const segments = Math.max(1, Math.ceil(Math.abs(delta) / (Math.PI / 2)));
+  const step = delta / segments;
+  const handle = (4 / 3) * Math.tan(step / 4);
+  const point = (px: number, py: number): [number, number] => [
+    cx + rx * cos * px - ry * sin * py,
+    cy + rx * sin * px + ry * cos * py,
+  ];
+  const curves: PathCommand[] = [];
+  for (let i = 0; i < segments; i++) {
+    const from = start + i * step;
+    const to = from + step;
+    curves.push([
+      "C",
+      ...point(
+        Math.cos(from) - handle * Math.sin(from),
+        Math.sin(from) + handle * Math.cos(from)
+      ),
+      ...point(
+        Math.cos(to) + handle * Math.sin(to),
+        Math.sin(to) - handle * Math.cos(to)
+      ),
+      ...(i === segments - 1 ? [x2, y2] : point(Math.cos(to), Math.sin(to))),
+    ] as PathCommand);
+  }
+  return curves;
+}
+
+/**
+ * Converts SVG path data (M, L, H, V, C, S, Q, A and Z, absolute or
+ * relative) to absolute moves, lines and cubic curves, so paths drawn for
+ * the preview can be written to PDF and EPS as well.
+ */
+export function parseSVGPath(d: string): PathCommand[] {
+  const tokens =
+    d.match(/[a-z]|[-+]?(?:\d*\.\d+|\d+\.?)(?:e[-+]?\d+)?/gi) ?? [];
+  const path: PathCommand[] = [];
+  let index = 0;
+  let command = "";
+  let x = 0;
+  let y = 0;
+  let startX = 0;
+  let startY = 0;
+  // Second control point of the last curve, mirrored by S
+  let controlX = 0;
+  let controlY = 0;
+  const next = () => Number(tokens[index++]);
+
+  while (index < tokens.length) {
+    if (/[a-z]/i.test(tokens[index])) command = tokens[index++];
+    const relative = command === command.toLowerCase();
+    const ox = relative ? x : 0;
+    const oy = relative ? y : 0;
+    let lastControl: [number, number] | null = null;
+
+    switch (command.toUpperCase()) {
+      case "M":
+        x = ox + next();
+        y = oy + next();
+        [startX, startY] = [x, y];
+        path.push(["M", x, y]);
+        // Further coordinate pairs are lines
+        command = relative ? "l" : "L";
+        break;
+      case "L":
+        x = ox + next();
+        y = oy + next();
+        path.push(["L", x, y]);
+        break;
+      case "H":
+        x = ox + next();
+        path.push(["L", x, y]);
+        break;
+      case "V":
+        y = oy + next();
+        path.push(["L", x, y]);
+        break;
+      case "C":
+      case "S": {
+        const [x1, y1] =
+          command.toUpperCase() === "C"
+            ? [ox + next(), oy + next()]
+            : [2 * x - controlX, 2 * y - controlY];
+        const x2 = ox + next();
+        const y2 = oy + next();
+        x = ox + next();
+        y = oy + next();
+        path.push(["C", x1, y1, x2, y2, x, y]);
+        lastControl = [x2, y2];
+        break;
+      }
+      case "Q": {
+        const qx = ox + next();
+        const qy = oy + next();
+        const endX = ox + next();
+        const endY = oy + next();
+        path.push([
+          "C",
+          x + ((qx - x) * 2) / 3,
+          y + ((qy - y) * 2) / 3,
+          endX + ((qx - endX) * 2) / 3,
+          endY + ((qy - endY) * 2) / 3,
+          endX,
+          endY,
+        ]);
+        [x, y] = [endX, endY];
+        break;
+      }
+      case "A": {
+        const rx = next();
+        const ry = next();
+        const rotation = next();
+        const largeArc = next() === 1;
+        const sweep = next() === 1;
+        const endX = ox + next();
+        const endY = oy + next();
+        path.push(
+          ...arcToCurves(x, y, rx, ry, rotation, largeArc, sweep, endX, endY)
+        );
+        [x, y] = [endX, endY];
+        break;
+      }
+      case "Z":
+        path.push(["Z"]);
+        [x, y] = [startX, startY];
+        // Numbers right after Z are invalid
+        command = "";
+        break;
+      default:
+        throw new Error(`Unsupported path command "${command}"`);
+    }
+    [controlX, controlY] = lastControl ?? [x, y];
+  }
+  return path;
+}
+
+// Scales a path and moves it by dx/dy afterwards
+export const transformPath = (
+  path: PathCommand[],
+  scale: number,
+  dx: number,
+  dy: number
+): PathCommand[] =>
+  path.map(([command, ...values]) =>
+    command === "Z"
+      ? ["Z"]
+      : ([
+          command,
+          ...values.map((value, i) => value * scale + (i % 2 ? dy : dx)),
+        ] as PathCommand)
+  );
@@ -0,0 +1,223 @@
+import { Html5Qrcode, Html5QrcodeSupportedFormats } from "html5-qrcode";
+import QRCodeStyling from "qr-code-styling";
+import qrcode from "qrcode-generator";
+import {
+  applyBackgroundImage,
+  qrRawDataToBlob,
+  resolveLogoImage,
+  type StyledQROptions,
+} from "./qr-utils";
+
+/**
+ * Decode verification
+ *
+ * Renders a QR code off-screen exactly like the preview, decodes it with
+ * html5-qrcode and checks that the payload survives the round trip. The
+ * rendered pixels are also compared module by module against the ideal
+ * matrix to estimate how much of the error correction budget the styling
+ * (logos, dot shapes, colours) already uses up.
+ */
+
+type ErrorCorrectionLevel = "L" | "M" | "Q" | "H";
+
+export type QRVerificationStatus = "pass" | "mismatch" | "unreadable";
+
+export interface QRVerificationResult {
+  status: QRVerificationStatus;
+  decoded: string | null;
+  errorCorrectionLevel: ErrorCorrectionLevel;
+  // Modules outside the finder patterns that render with the wrong colour
+  damagedModules: number;
+  totalModules: number;
+  // Share of the error correction capacity used, 1 means none left
+  headroomUsed: number;
+  message: string;
+}
+
+// Share of codewords each level can restore
+export const recoveryCapacity: Record<ErrorCorrectionLevel, number> = {
+  L: 0.07,
+  M: 0.15,
+  Q: 0.25,
+  H: 0.3,
+};
+
+const READER_ELEMENT_ID = "qr-verify-reader";
+const FINDER_SIZE = 8;
+
+// Same mode detection qr-code-styling applies when no mode is given
+export const getQRMode = (data: string) => {
+  if (/^[0-9]*$/.test(data)) return "Numeric";
+  if (/^[0-9A-Z $%*+\-./:]*$/.test(data)) return "Alphanumeric";
+  return "Byte";
+};
+
+const isFinderModule = (row: number, col: number, count: number) =>
+  (row < FINDER_SIZE || row >= count - FINDER_SIZE) &&
+  (col < FINDER_SIZE || col >= count - FINDER_SIZE) &&
+  !(row >= count - FINDER_SIZE && col >= count - FINDER_SIZE);
+
+// html5-qrcode needs a DOM element even when it only decodes files
+const getReaderElementId = () => {
+  if (!document.getElementById(READER_ELEMENT_ID)) {
+    const element = document.createElement("div");
+    element.id = READER_ELEMENT_ID;
+    element.style.display = "none";
+    document.body.appendChild(element);
+  }
+  return READER_ELEMENT_ID;
+};
+
+// Decodes the QR code in an image, null when none is found
+export async function decodeQRImage(blob: Blob): Promise<string | null> {
+  const reader = new Html5Qrcode(getReaderElementId(), {
+    verbose: false,
+    formatsToSupport: [Html5QrcodeSupportedFormats.QR_CODE],
+  });
+  try {
+    const file = new File([blob], "qr-verify.png", { type: "image/png" });
+    return await reader.scanFile(file, false);
+  } catch {
+    return null;
+  } finally {
+    reader.clear();
+  }
+}
+
+// Average luminance around a point, transparent pixels count as white paper
+const sampleLuminance = (
+  image: ImageData,
+  x: number,
+  y: number,
+  radius: number
+) => {
+  let total = 0;
+  let samples = 0;
+  for (let dy = -radius; dy <= radius; dy++) {
+    for (let dx = -radius; dx <= radius; dx++) {
+      const px = Math.min(image.width - 1, Math.max(0, Math.round(x + dx)));
+      const py = Math.min(image.height - 1, Math.max(0, Math.round(y + dy)));
+      const i = (py * image.width + px) * 4;
+      const alpha = image.data[i + 3] / 255;
+      const luminance =
+        0.299 * image.data[i] +
+        0.587 * image.data[i + 1] +
+        0.114 * image.data[i + 2];
+      total += luminance * alpha + 255 * (1 - alpha);
+      samples++;
+    }
+  }
+  return total / samples;
+};
+
+async function countDamagedModules(blob: Blob, options: StyledQROptions) {
+  const level = (options.qrOptions?.errorCorrectionLevel ||
+    "Q") as ErrorCorrectionLevel;
+  const data = options.data || "";
+  const qr = qrcode(options.qrOptions?.typeNumber ?? 0, level);
+  qr.addData(data, options.qrOptions?.mode || getQRMode(data));
+  qr.make();
+  const count = qr.getModuleCount();
+
+  const bitmap = await createImageBitmap(blob);
+  const canvas = document.createElement("canvas");
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not available");
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+
+  // Module grid as laid out by qr-code-styling
+  const width = options.width || 300;
+  const height = options.height || 300;
+  const roundSize = (value: number) =>
+    options.dotsOptions?.roundSize === false ? value : Math.floor(value);
+  const drawArea = Math.min(width, height) - 2 * (options.margin || 0);
+  const moduleSize = roundSize(
+    (options.shape === "circle" ? drawArea / Math.sqrt(2) : drawArea) / count
+  );
+  const left = roundSize((width - count * moduleSize) / 2);
+  const top = roundSize((height - count * moduleSize) / 2);
+  const radius = Math.max(0, Math.floor(moduleSize / 6));
+  const moduleLuminance = (row: number, col: number) =>
+    sampleLuminance(
+      image,
+      left + (col + 0.5) * moduleSize,
+      top + (row + 0.5) * moduleSize,
+      radius
+    );
+
+  // Reference tones from the top-left finder: centre is dark, ring gap light
+  const darkTone = moduleLuminance(3, 3);
+  const lightTone = moduleLuminance(1, 1);
+
+  let damagedModules = 0;
+  let totalModules = 0;
+  for (let row = 0; row < count; row++) {
+    for (let col = 0; col < count; col++) {
+      if (isFinderModule(row, col, count)) continue;
+      const luminance = moduleLuminance(row, col);
+      const rendersDark =
+        Math.abs(luminance - darkTone) < Math.abs(luminance - lightTone);
+      if (rendersDark !== qr.isDark(row, col)) damagedModules++;
+      totalModules++;
+    }
+  }
+
+  return { level, damagedModules, totalModules };
+}
+
+export async function verifyQRCode(
+  options: StyledQROptions
+): Promise<QRVerificationResult> {
+  const expected = options.data || "";
+  const width = options.width || 300;
+  const height = options.height || 300;
+  const qrInstance = new QRCodeStyling({
+    ...options,
+    type: "canvas",
+    image: resolveLogoImage(options.image, width, height),
+  });
+  applyBackgroundImage(qrInstance, options.backgroundImage);
+  const blob = qrRawDataToBlob(await qrInstance.getRawData("png"), "image/png");
+  if (!blob) throw new Error("Failed to render QR code for verification");
+
+  const [decoded, damage] = await Promise.all([
+    decodeQRImage(blob),
+    countDamagedModules(blob, options),
+  ]);
+  const headroomUsed =
+    damage.totalModules > 0
+      ? damage.damagedModules /
+        damage.totalModules /
+        recoveryCapacity[damage.level]
+      : 0;
+  const headroomText = `${Math.round(headroomUsed * 100)}% of level ${damage.level} error correction used`;
+
+  let status: QRVerificationStatus;
+  let message: string;
+  if (decoded === null) {
+    status = "unreadable";
+    message = `Could not be decoded - ${headroomText}`;
+  } else if (decoded !== expected) {
+    status = "mismatch";
+    message = Array.from(expected).some((char) => char.charCodeAt(0) > 0xff)
+      ? "Decoded content differs - characters outside Latin-1 were not encoded correctly"
+      : "Decoded content differs from the input";
+  } else {
+    status = "pass";
+    message = `Decodes correctly - ${headroomText}`;
+  }
+
+  return {
+    status,
+    decoded,
+    errorCorrectionLevel: damage.level,
+    damagedModules: damage.damagedModules,
+    totalModules: damage.totalModules,
+    headroomUsed,
+    message,
+  };
+}
@@ -0,0 +1,37 @@
+import { createHash, timingSafeEqual } from "crypto";
+import { NextResponse } from "next/server";
+
+/**
+ * Access control for the redirect registry API.
+ *
+ * Only the `/r/<slug>` redirects are public. Listing and changing redirects
+ * needs the secret from REDIRECT_ADMIN_TOKEN as a bearer token; without the
+ * variable the registry API is locked.
+ */
+
+const digest = (value: string) => createHash("sha256").update(value).digest();
+
+// Returns the error response for unauthorized requests, null otherwise
+export function checkRegistryAuth(request: Request): NextResponse | null {
+  const token = process.env.REDIRECT_ADMIN_TOKEN;
+  if (!token) {
+    return NextResponse.json(
+      {
+        error:
+          "The redirect registry is locked, set REDIRECT_ADMIN_TOKEN on the server to manage redirects",
+      },
+      { status: 503 }
+    );
+  }
+
+  const header = request.headers.get("authorization") ?? "";
+  const match = /^Bearer\s+(.+)$/i.exec(header.trim());
+  // Digests have the same length, so timingSafeEqual never throws
+  if (!match || !timingSafeEqual(digest(match[1]), digest(token))) {
+    return NextResponse.json(
+      { error: "Enter the registry admin token to manage redirects" },
+      { status: 401, headers: { "WWW-Authenticate": "Bearer" } }
+    );
+  }
+  return null;
+}
@@ -0,0 +1,183 @@
+import { mkdirSync, promises as fs } from "fs";
+import path from "path";
+import type { RedirectEntry } from "./dynamic-qr";
+
+/**
+ * Server-side storage for the dynamic QR redirect registry.
+ *
+ * The backend is chosen with REDIRECT_STORE ("file" or "sqlite") and stored
+ * at REDIRECT_STORE_PATH. The JSON file store works everywhere; the SQLite
+ * store uses the built-in node:sqlite module (Node.js 22.5+).
+ */
+
+export interface RedirectStore {
+  list(): Promise<RedirectEntry[]>;
+  get(slug: string): Promise<RedirectEntry | null>;
+  save(slug: string, target: string): Promise<RedirectEntry>;
+  remove(slug: string): Promise<boolean>;
+  recordHit(slug: string): Promise<void>;
+}
+
+const DEFAULT_DIRECTORY = path.join(process.cwd(), ".data");
+
+class JsonFileRedirectStore implements RedirectStore {
+  // Writes are chained so concurrent requests never interleave
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  private async read(): Promise<Record<string, RedirectEntry>> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return {};
+      throw error;
+    }
+  }
+
+  private async write(entries: Record<string, RedirectEntry>) {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(entries, null, 2));
+    await fs.rename(tempPath, this.filePath);
+  }
+
+  private update<T>(
+    change: (entries: Record<string, RedirectEntry>) => T
+  ): Promise<T> {
+    const next = this.queue.then(async () => {
+      const entries = await this.read();
+      const result = change(entries);
+      await this.write(entries);
+      return result;
+    });
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  async list() {
+    return Object.values(await this.read()).sort((a, b) =>
+      b.updatedAt.localeCompare(a.updatedAt)
+    );
+  }
+
+  async get(slug: string) {
+    return (await this.read())[slug] || null;
+  }
+
+  save(slug: string, target: string) {
+    return this.update((entries) => {
+      const now = new Date().toISOString();
+      const existing = entries[slug];
+      entries[slug] = {
+        slug,
+        target,
+        createdAt: existing?.createdAt || now,
+        updatedAt: now,
+        hits: existing?.hits || 0,
+      };
+      return entries[slug];
+    });
+  }
+
+  remove(slug: string) {
+    return this.update((entries) => {
+      const existed = slug in entries;
+      delete entries[slug];
+      return existed;
+    });
+  }
+
+  async recordHit(slug: string) {
+    await this.update((entries) => {
+      if (entries[slug]) entries[slug].hits++;
+    });
+  }
+}
+
+type SqliteModule = typeof import("node:sqlite");
+
+class SqliteRedirectStore implements RedirectStore {
+  private db: InstanceType<SqliteModule["DatabaseSync"]>;
+
+  constructor(filePath: string) {
+    // Loaded at runtime so bundlers and older Node versions never resolve it
+    const sqlite = process.getBuiltinModule?.("node:sqlite") as
+      | SqliteModule
+      | undefined;
+    if (!sqlite) {
+      throw new Error("REDIRECT_STORE=sqlite requires Node.js 22.5 or newer");
+    }
+    // SQLite creates the file but not the directories above it
+    mkdirSync(path.dirname(filePath), { recursive: true });
+    this.db = new sqlite.DatabaseSync(filePath);
+    this.db.exec(`CREATE TABLE IF NOT EXISTS redirects (
+      slug TEXT PRIMARY KEY,
+      target TEXT NOT NULL,
+      createdAt TEXT NOT NULL,
+      updatedAt TEXT NOT NULL,
+      hits INTEGER NOT NULL DEFAULT 0
+    )`);
+  }
+
+  async list() {
+    return this.db
+      .prepare("SELECT * FROM redirects ORDER BY updatedAt DESC")
+      .all() as unknown as RedirectEntry[];
+  }
+
+  async get(slug: string) {
+    const row = this.db
+      .prepare("SELECT * FROM redirects WHERE slug = ?")
+      .get(slug) as unknown as RedirectEntry | undefined;
+    return row || null;
+  }
+
+  async save(slug: string, target: string) {
+    const now = new Date().toISOString();
+    this.db
+      .prepare(
+        `INSERT INTO redirects (slug, target, createdAt, updatedAt, hits)
+         VALUES (?, ?, ?, ?, 0)
+         ON CONFLICT(slug) DO UPDATE SET target = excluded.target, updatedAt = excluded.updatedAt`
+      )
+      .run(slug, target, now, now);
+    return (await this.get(slug))!;
+  }
+
+  async remove(slug: string) {
+    const result = this.db
+      .prepare("DELETE FROM redirects WHERE slug = ?")
+      .run(slug);
+    return Number(result.changes) > 0;
+  }
+
+  async recordHit(slug: string) {
+    this.db
+      .prepare("UPDATE redirects SET hits = hits + 1 WHERE slug = ?")
+      .run(slug);
+  }
+}
+
+let store: RedirectStore | null = null;
+
+export function getRedirectStore(): RedirectStore {
+  if (store) return store;
+
+  const kind = process.env.REDIRECT_STORE || "file";
+  if (kind === "sqlite") {
+    const filePath =
+      process.env.REDIRECT_STORE_PATH ||
+      path.join(DEFAULT_DIRECTORY, "redirects.sqlite");
+    store = new SqliteRedirectStore(filePath);
+  } else if (kind === "file") {
+    const filePath =
+      process.env.REDIRECT_STORE_PATH ||
+      path.join(DEFAULT_DIRECTORY, "redirects.json");
+    store = new JsonFileRedirectStore(filePath);
+  } else {
+    throw new Error(`Unknown REDIRECT_STORE "${kind}"`);
+  }
+
+  return store;
+}
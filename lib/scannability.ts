@@ -0,0 +1,272 @@
+import { type DotType, type ErrorCorrectionLevel } from "qr-code-styling";
+import qrcode from "qrcode-generator";
+import { calculateContrastRatio, isCorrectQRPattern } from "./contrast-utils";
+import { getQRMode, recoveryCapacity } from "./qr-verify";
+
+/**
+ * Scannability score
+ *
+ * Estimates how reliably a printed QR code scans before it is printed. Four
+ * factors are scored: colour contrast, the physical module size against the
+ * expected scan distance, the print resolution of the exported image and the
+ * error correction left over once the logo is placed. Dot shapes that leave
+ * part of each module empty count as smaller modules. Every factor that falls
+ * short comes with a concrete fix.
+ */
+
+export type ScannabilityStatus = "good" | "fair" | "poor";
+
+export interface ScannabilityInput {
+  data: string;
+  errorCorrectionLevel: ErrorCorrectionLevel;
+  dotsType: DotType;
+  // Exported image size and margin in pixels
+  width: number;
+  height: number;
+  margin: number;
+  // Worst-case dot and background colors
+  foreground: string;
+  background: string;
+  hasLogo: boolean;
+  // Share of the error correction capacity the logo may hide (imageSize)
+  logoSize: number;
+  // Printed width of the whole image, margin included
+  printSizeMm: number;
+  scanDistanceCm: number;
+}
+
+export interface ScannabilityFactor {
+  id: "contrast" | "moduleSize" | "resolution" | "errorCorrection";
+  label: string;
+  status: ScannabilityStatus;
+  // 0 to 1
+  score: number;
+  detail: string;
+}
+
+export interface ScannabilityReport {
+  // 0 to 100
+  score: number;
+  status: ScannabilityStatus;
+  moduleCount: number;
+  moduleSizeMm: number;
+  factors: ScannabilityFactor[];
+  fixes: string[];
+}
+
+const weights: Record<ScannabilityFactor["id"], number> = {
+  contrast: 0.3,
+  moduleSize: 0.35,
+  resolution: 0.1,
+  errorCorrection: 0.25,
+};
+
+// Share of the module area each dot style paints
+const dotCoverage: Record<DotType, number> = {
+  square: 1,
+  rounded: 0.95,
+  "extra-rounded": 0.9,
+  classy: 0.85,
+  "classy-rounded": 0.8,
+  dots: Math.PI / 4,
+};
+
+const dotLabels: Record<DotType, string> = {
+  square: "square",
+  rounded: "rounded",
+  "extra-rounded": "extra rounded",
+  classy: "classy",
+  "classy-rounded": "classy rounded",
+  dots: "round",
+};
+
+// Phone cameras resolve a module from about 250 times its size away, the
+// "10:1 distance to code width" rule for a typical 25-module code
+const DISTANCE_PER_MODULE = 250;
+// Smaller modules blur on paper regardless of the distance
+const MIN_MODULE_MM = 0.4;
+const PRINT_DPI = 300;
+// Error correction that should stay free for smudges, glare and curvature
+const SPARE_CORRECTION = 0.12;
+
+const rate = (
+  score: number,
+  thresholds: [number, number, number]
+): { score: number; status: ScannabilityStatus } => {
+  if (score >= thresholds[0]) return { score: 1, status: "good" };
+  if (score >= thresholds[1]) return { score: 0.85, status: "good" };
+  if (score >= thresholds[2]) return { score: 0.5, status: "fair" };
+  return { score: 0.15, status: "poor" };
+};
+
+const formatMm = (value: number) =>
+  value >= 10 ? `${Math.round(value)} mm` : `${value.toFixed(1)} mm`;
+
+// Modules per side of the symbol qr-code-styling draws, null when the data
+// does not fit
+export function getQRModuleCount(
+  data: string,
+  level: ErrorCorrectionLevel
+): number | null {
+  if (!data) return null;
+  try {
+    const qr = qrcode(0, level);
+    qr.addData(data, getQRMode(data));
+    qr.make();
+    return qr.getModuleCount();
+  } catch {
+    return null;
+  }
+}
+
+export function assessScannability(
+  input: ScannabilityInput
+): ScannabilityReport | null {
+  const moduleCount = getQRModuleCount(input.data, input.errorCorrectionLevel);
+  if (!moduleCount || input.printSizeMm <= 0 || input.scanDistanceCm <= 0) {
+    return null;
+  }
+  const factors: ScannabilityFactor[] = [];
+  const fixes: string[] = [];
+
+  // Contrast
+  const background =
+    input.background === "transparent" ? "#ffffff" : input.background;
+  const ratio = calculateContrastRatio(input.foreground, background);
+  if (!isCorrectQRPattern(input.foreground, background)) {
+    factors.push({
+      id: "contrast",
+      label: "Contrast",
+      status: "poor",
+      score: 0,
+      detail: "Light dots on a dark background, many scanners fail",
+    });
+    fixes.push("Swap the colors so the dots are darker than the background");
+  } else {
+    const rating = rate(ratio, [7, 4.5, 3]);
+    factors.push({
+      id: "contrast",
+      label: "Contrast",
+      ...rating,
+      detail: `${ratio.toFixed(1)}:1 between dots and background`,
+    });
+    if (rating.status !== "good") {
+      fixes.push(
+        "Darken the dots or lighten the background to reach at least 4.5:1"
+      );
+    }
+  }
+
+  // Module size against the scan distance
+  const drawShare =
+    (Math.min(input.width, input.height) - 2 * input.margin) / input.width;
+  const moduleSizeMm = (input.printSizeMm * drawShare) / moduleCount;
+  const coverage = dotCoverage[input.dotsType] ?? 1;
+  const effectiveModuleMm = moduleSizeMm * Math.sqrt(coverage);
+  const requiredModuleMm = Math.max(
+    MIN_MODULE_MM,
+    (input.scanDistanceCm * 10) / DISTANCE_PER_MODULE
+  );
+  const moduleRating = rate(
+    effectiveModuleMm / requiredModuleMm,
+    [1.25, 1, 0.75]
+  );
+  factors.push({
+    id: "moduleSize",
+    label: "Module size",
+    ...moduleRating,
+    detail: `${moduleCount}×${moduleCount} modules of ${moduleSizeMm.toFixed(2)} mm${
+      coverage < 1
+        ? `, ${dotLabels[input.dotsType]} dots read like ${effectiveModuleMm.toFixed(2)} mm`
+        : ""
+    }`,
+  });
+  if (moduleRating.status !== "good" || moduleRating.score < 1) {
+    const minPrintMm =
+      (requiredModuleMm * moduleCount) / Math.sqrt(coverage) / drawShare;
+    if (moduleRating.status !== "good") {
+      fixes.push(
+        `Print the code at least ${formatMm(minPrintMm)} wide for a ${input.scanDistanceCm} cm scan distance`
+      );
+      const maxDistanceCm = (effectiveModuleMm * DISTANCE_PER_MODULE) / 10;
+      if (effectiveModuleMm >= MIN_MODULE_MM) {
+        fixes.push(
+          `At this size, scan from no farther than ${Math.floor(maxDistanceCm)} cm`
+        );
+      }
+    }
+    if (coverage < dotCoverage["extra-rounded"]) {
+      fixes.push(
+        `Use square or rounded dots, ${dotLabels[input.dotsType]} dots fill only ${Math.round(coverage * 100)}% of each module`
+      );
+    }
+    if (moduleCount > 41) {
+      fixes.push(
+        "Shorten the content or use a dynamic QR code, fewer modules print larger"
+      );
+    }
+  }
+
+  // Print resolution of the exported image
+  const dpi = input.width / (input.printSizeMm / 25.4);
+  const resolutionRating = rate(dpi, [PRINT_DPI, 200, 150]);
+  factors.push({
+    id: "resolution",
+    label: "Print resolution",
+    ...resolutionRating,
+    detail: `${Math.round(dpi)} DPI at ${formatMm(input.printSizeMm)}`,
+  });
+  if (resolutionRating.status !== "good") {
+    fixes.push(
+      `Export at least ${Math.ceil(((input.printSizeMm / 25.4) * PRINT_DPI) / 10) * 10} px wide, or use SVG, for sharp edges in print`
+    );
+  }
+
+  // Error correction left after the logo
+  const capacity = recoveryCapacity[input.errorCorrectionLevel];
+  const logoShare = input.hasLogo ? Math.min(input.logoSize, 1) : 0;
+  const spare = capacity * (1 - logoShare);
+  const correctionRating = rate(spare / SPARE_CORRECTION, [1.25, 1, 0.55]);
+  factors.push({
+    id: "errorCorrection",
+    label: input.hasLogo ? "Logo coverage" : "Error correction",
+    ...correctionRating,
+    detail: input.hasLogo
+      ? `The logo hides ${(capacity * logoShare * 100).toFixed(0)}% of the code, ${Math.round(spare * 100)}% stays recoverable at level ${input.errorCorrectionLevel}`
+      : `Level ${input.errorCorrectionLevel} restores up to ${Math.round(capacity * 100)}% of the code`,
+  });
+  if (correctionRating.status !== "good") {
+    if (input.errorCorrectionLevel !== "H") {
+      fixes.push(
+        input.hasLogo
+          ? "Raise the error correction level to H to make room for the logo"
+          : "Raise the error correction level to M or higher for printed codes"
+      );
+    }
+    const maxLogoSize = Math.floor((1 - SPARE_CORRECTION / capacity) * 10) / 10;
+    if (input.hasLogo && maxLogoSize > 0) {
+      fixes.push(
+        `Or reduce the logo size to ${Math.round(maxLogoSize * 100)}% or less at level ${input.errorCorrectionLevel}`
+      );
+    }
+  }
+
+  const weighted = factors.reduce(
+    (total, factor) => total + factor.score * weights[factor.id],
+    0
+  );
+  // One failing factor is enough to stop a scan
+  const hasPoor = factors.some((factor) => factor.status === "poor");
+  const score = Math.round(
+    hasPoor ? Math.min(weighted * 100, 49) : weighted * 100
+  );
+
+  return {
+    score,
+    status: score >= 80 ? "good" : score >= 50 ? "fair" : "poor",
+    moduleCount,
+    moduleSizeMm,
+    factors,
+    fixes,
+  };
+}
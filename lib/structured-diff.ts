@@ -0,0 +1,240 @@
+import difflib from "difflib";
+import YAML from "yaml";
+import { type JSONNode, parseJSON } from "./json-formatter";
+
+/**
+ * Structured diff
+ *
+ * Parses both texts as JSON, or as YAML when they are not JSON, and compares
+ * the values path by path instead of line by line. Object keys are matched
+ * by name, so key order and formatting never show up as changes. Arrays are
+ * aligned with difflib's SequenceMatcher on their items, or matched as
+ * multisets when array order is ignored. Paths are the `JSONNode` paths of
+ * the JSON formatter.
+ */
+
+export type StructuredFormat = "json" | "yaml";
+
+export type StructuredChange = {
+  type: "added" | "removed" | "changed";
+  path: JSONNode["path"];
+  // Same as the id of the JSONNode at `path`
+  id: string;
+  // Readable JSONPath, such as $.items[0].name
+  jsonPath: string;
+  // Unset for added values
+  oldValue?: unknown;
+  // Unset for removed values
+  newValue?: unknown;
+};
+
+export type StructuredDiffOptions = {
+  ignoreArrayOrder: boolean;
+};
+
+export type StructuredDiffResult = {
+  formats: { left: StructuredFormat; right: StructuredFormat };
+  changes: StructuredChange[];
+  stats: {
+    added: number;
+    removed: number;
+    changed: number;
+  };
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === "object" && !Array.isArray(value);
+
+// JSON with sorted keys, equal for values that only differ in key order
+const canonicalize = (value: unknown): string =>
+  JSON.stringify(value, (_key, item) =>
+    isObject(item)
+      ? Object.fromEntries(
+          Object.keys(item)
+            .sort()
+            .map((key) => [key, item[key]])
+        )
+      : item
+  ) ?? "undefined";
+
+const hasKey = (object: object, key: string) =>
+  Object.prototype.hasOwnProperty.call(object, key);
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+const appendKey = (jsonPath: string, key: string) =>
+  IDENTIFIER.test(key)
+    ? `${jsonPath}.${key}`
+    : `${jsonPath}[${JSON.stringify(key)}]`;
+
+/**
+ * Parses a JSON or YAML text. Throws with the parser message when the text
+ * is neither.
+ */
+export function parseStructured(text: string): {
+  value: unknown;
+  format: StructuredFormat;
+} {
+  try {
+    return { value: parseJSON(text), format: "json" };
+  } catch (error) {
+    // Not JSON, YAML is tried next
+  }
+  try {
+    return { value: YAML.parse(text) ?? null, format: "yaml" };
+  } catch (error) {
+    throw new Error(
+      `Invalid JSON or YAML: ${error instanceof Error ? error.message.split("\n")[0].replace(/:$/, "") : "unable to parse"}`
+    );
+  }
+}
+
+/**
+ * Changes between two parsed values, in the order of the left value with
+ * additions after the keys that exist on both sides.
+ */
+export function diffValues(
+  left: unknown,
+  right: unknown,
+  options: StructuredDiffOptions
+): StructuredChange[] {
+  const changes: StructuredChange[] = [];
+
+  const push = (
+    type: StructuredChange["type"],
+    path: string[],
+    jsonPath: string,
+    values: Pick<StructuredChange, "oldValue" | "newValue">
+  ) =>
+    changes.push({
+      type,
+      path,
+      id: path.join(".") || "root",
+      jsonPath,
+      ...values,
+    });
+
+  const compare = (
+    a: unknown,
+    b: unknown,
+    path: string[],
+    jsonPath: string
+  ) => {
+    if (isObject(a) && isObject(b)) {
+      for (const key of Object.keys(a)) {
+        const childPath = [...path, key];
+        const childJsonPath = appendKey(jsonPath, key);
+        if (hasKey(b, key)) {
+          compare(a[key], b[key], childPath, childJsonPath);
+        } else {
+          push("removed", childPath, childJsonPath, { oldValue: a[key] });
+        }
+      }
+      for (const key of Object.keys(b)) {
+        if (!hasKey(a, key)) {
+          push("added", [...path, key], appendKey(jsonPath, key), {
+            newValue: b[key],
+          });
+        }
+      }
+      return;
+    }
+    if (Array.isArray(a) && Array.isArray(b)) {
+      compareArrays(a, b, path, jsonPath);
+      return;
+    }
+    if (canonicalize(a) !== canonicalize(b)) {
+      push("changed", path, jsonPath, { oldValue: a, newValue: b });
+    }
+  };
+
+  const compareArrays = (
+    a: unknown[],
+    b: unknown[],
+    path: string[],
+    jsonPath: string
+  ) => {
+    const at = (index: number) => ({
+      path: [...path, String(index)],
+      jsonPath: `${jsonPath}[${index}]`,
+    });
+    const aKeys = a.map(canonicalize);
+    const bKeys = b.map(canonicalize);
+
+    if (options.ignoreArrayOrder) {
+      // Items match by value, whatever their position
+      const unmatched = new Map<string, number[]>();
+      bKeys.forEach((key, index) =>
+        unmatched.set(key, [...(unmatched.get(key) ?? []), index])
+      );
+      aKeys.forEach((key, index) => {
+        const matches = unmatched.get(key);
+        if (matches?.length) {
+          matches.shift();
+        } else {
+          const { path, jsonPath } = at(index);
+          push("removed", path, jsonPath, { oldValue: a[index] });
+        }
+      });
+      [...unmatched.values()]
+        .flat()
+        .sort((x, y) => x - y)
+        .forEach((index) => {
+          const { path, jsonPath } = at(index);
+          push("added", path, jsonPath, { newValue: b[index] });
+        });
+      return;
+    }
+
+    // Removed items keep their left index, added items get their right index
+    const sm = new difflib.SequenceMatcher(null, aKeys, bKeys, false);
+    for (const [tag, i1, i2, j1, j2] of sm.getOpcodes()) {
+      if (tag === "equal") continue;
+      const paired = tag === "replace" ? Math.min(i2 - i1, j2 - j1) : 0;
+      for (let k = 0; k < paired; k++) {
+        const { path, jsonPath } = at(i1 + k);
+        compare(a[i1 + k], b[j1 + k], path, jsonPath);
+      }
+      for (let i = i1 + paired; i < i2; i++) {
+        const { path, jsonPath } = at(i);
+        push("removed", path, jsonPath, { oldValue: a[i] });
+      }
+      for (let j = j1 + paired; j < j2; j++) {
+        const { path, jsonPath } = at(j);
+        push("added", path, jsonPath, { newValue: b[j] });
+      }
+    }
+  };
+
+  compare(left, right, [], "$");
+  return changes;
+}
+
+export function diffStructured(
+  leftText: string,
+  rightText: string,
+  options: StructuredDiffOptions
+): StructuredDiffResult {
+  const parse = (text: string, side: string) => {
+    try {
+      return parseStructured(text);
+    } catch (error) {
+      throw new Error(
+        `${side}: ${error instanceof Error ? error.message : "unable to parse"}`
+      );
+    }
+  };
+  const left = parse(leftText, "Original text");
+  const right = parse(rightText, "Modified text");
+  const changes = diffValues(left.value, right.value, options);
+
+  return {
+    formats: { left: left.format, right: right.format },
+    changes,
+    stats: {
+      added: changes.filter((change) => change.type === "added").length,
+      removed: changes.filter((change) => change.type === "removed").length,
+      changed: changes.filter((change) => change.type === "changed").length,
+    },
+  };
+}
@@ -0,0 +1,244 @@
+import { toSVG } from "bwip-js/browser";
+import { type ErrorCorrectionLevel, type FileExtension } from "qr-code-styling";
+
+/**
+ * 2D symbologies besides QR
+ *
+ * Standard QR codes are drawn by qr-code-styling. Micro QR, rectangular Micro
+ * QR (rMQR), Data Matrix and Aztec are encoded with bwip-js and drawn as a
+ * plain SVG in the dots and background colors of the design. A
+ * SymbolRenderer offers the same getRawData method as QRCodeStyling, so
+ * downloads and copying go through downloadQRCode and copyQRToClipboard.
+ *
+ * Dot and corner shapes, gradients, logos and background images only exist
+ * for QR codes and are ignored by the other symbologies.
+ */
+
+export type Symbology = "qr" | "microqr" | "rmqr" | "datamatrix" | "aztec";
+
+export interface SymbologyInfo {
+  id: Symbology;
+  label: string;
+  description: string;
+  // Whether the html5-qrcode scanner can read it back for the scan test
+  canTestScan: boolean;
+}
+
+export const symbologies: SymbologyInfo[] = [
+  {
+    id: "qr",
+    label: "QR Code",
+    description: "Standard QR code with full styling",
+    canTestScan: true,
+  },
+  {
+    id: "microqr",
+    label: "Micro QR",
+    description: "Tiny square symbol, up to 35 digits or 15 bytes of text",
+    canTestScan: false,
+  },
+  {
+    id: "rmqr",
+    label: "rMQR",
+    description: "Rectangular Micro QR for narrow labels, up to 150 bytes",
+    canTestScan: false,
+  },
+  {
+    id: "datamatrix",
+    label: "Data Matrix",
+    description: "Compact square symbol common on product labels",
+    canTestScan: true,
+  },
+  {
+    id: "aztec",
+    label: "Aztec",
+    description: "Square symbol without quiet zone, used on tickets",
+    canTestScan: true,
+  },
+];
+
+export const symbologyIds = symbologies.map((symbology) => symbology.id);
+
+export const getSymbology = (id: Symbology): SymbologyInfo =>
+  symbologies.find((symbology) => symbology.id === id) ?? symbologies[0];
+
+export interface SymbolOptions {
+  symbology: Exclude<Symbology, "qr">;
+  data: string;
+  width: number;
+  height: number;
+  margin: number;
+  foreground: string;
+  background: string;
+  errorCorrectionLevel: ErrorCorrectionLevel;
+}
+
+const bcids: Record<SymbolOptions["symbology"], string> = {
+  microqr: "microqrcode",
+  rmqr: "rectangularmicroqrcode",
+  datamatrix: "datamatrix",
+  aztec: "azteccode",
+};
+
+// Share of the Aztec symbol used for error correction, in percent
+const aztecCorrection: Record<ErrorCorrectionLevel, number> = {
+  L: 10,
+  M: 23,
+  Q: 36,
+  H: 50,
+};
+
+// rMQR needs an explicit version (height x width in modules), the smallest
+// one that holds the data is picked
+const rmqrVersions = [7, 9, 11, 13, 15, 17]
+  .flatMap((rows) =>
+    [27, 43, 59, 77, 99, 139]
+      .filter((columns) => columns !== 27 || rows === 11 || rows === 13)
+      .map((columns) => ({ rows, columns }))
+  )
+  .sort((a, b) => a.rows * a.columns - b.rows * b.columns)
+  .map(({ rows, columns }) => `R${rows}x${columns}`);
+
+// bwip-js errors read "bwipp.code#123: Message"
+const toSymbolError = (error: unknown) =>
+  new Error(
+    String(error instanceof Error ? error.message : error).replace(
+      /^bwipp?\.\w+#\d+:\s*/,
+      ""
+    )
+  );
+
+const escapeAttribute = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;");
+
+// Module paths and size of the bare symbol as drawn by bwip-js
+function encodeSymbol(options: SymbolOptions) {
+  const text = options.data.trim();
+  const level = options.errorCorrectionLevel;
+  const encode = (extra: Record<string, unknown>) =>
+    toSVG({
+      bcid: bcids[options.symbology],
+      text,
+      scale: 1,
+      ...extra,
+    });
+
+  let svg: string;
+  try {
+    switch (options.symbology) {
+      case "microqr":
+        // Micro QR has no level H
+        svg = encode({ eclevel: level === "H" ? "Q" : level });
+        break;
+      case "rmqr": {
+        // rMQR only knows levels M and H
+        const eclevel = level === "L" || level === "M" ? "M" : "H";
+        const version = rmqrVersions.find((candidate) => {
+          try {
+            encode({ eclevel, version: candidate });
+            return true;
+          } catch {
+            return false;
+          }
+        });
+        if (!version)
+          throw new Error("Maximum length exceeded or invalid content");
+        svg = encode({ eclevel, version });
+        break;
+      }
+      case "aztec":
+        svg = encode({ eclevel: aztecCorrection[level] });
+        break;
+      case "datamatrix":
+        svg = encode({});
+        break;
+    }
+  } catch (error) {
+    throw toSymbolError(error);
+  }
+
+  const viewBox = svg.match(/viewBox="0 0 (\d+) (\d+)"/);
+  if (!viewBox) throw new Error("Unexpected symbol output");
+  return {
+    width: Number(viewBox[1]),
+    height: Number(viewBox[2]),
+    paths: Array.from(svg.matchAll(/<path d="([^"]*)"/g), (match) => match[1]),
+  };
+}
+
+/**
+ * Renders the symbol as an SVG document that fits width x height with the
+ * margin around it. Rectangular symbols keep their aspect ratio, so the
+ * document can be smaller than requested. Throws when the data does not fit.
+ */
+export function renderSymbolSVG(options: SymbolOptions) {
+  const symbol = encodeSymbol(options);
+  const margin = Math.max(options.margin, 0);
+  const scale = Math.max(
+    Math.min(
+      (options.width - 2 * margin) / symbol.width,
+      (options.height - 2 * margin) / symbol.height
+    ),
+    0.1
+  );
+  const width = Math.round(symbol.width * scale + 2 * margin);
+  const height = Math.round(symbol.height * scale + 2 * margin);
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" shape-rendering="crispEdges">`,
+    `<rect width="${width}" height="${height}" fill="${escapeAttribute(options.background)}"/>`,
+    `<g transform="translate(${margin} ${margin}) scale(${scale})" fill="${escapeAttribute(options.foreground)}">`,
+    ...symbol.paths.map((d) => `<path d="${d}" fill-rule="evenodd"/>`),
+    "</g>",
+    "</svg>",
+  ].join("");
+  return { svg, width, height };
+}
+
+// Draws an SVG document onto a canvas and encodes it as PNG, JPEG or WebP
+export const rasterizeSVG = (
+  svg: string,
+  width: number,
+  height: number,
+  mimeType: string
+) =>
+  new Promise<Blob | null>((resolve, reject) => {
+    const url = URL.createObjectURL(
+      new Blob([svg], { type: "image/svg+xml;charset=utf-8" })
+    );
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      const canvas = document.createElement("canvas");
+      canvas.width = width;
+      canvas.height = height;
+      canvas.getContext("2d")?.drawImage(image, 0, 0, width, height);
+      canvas.toBlob(resolve, mimeType);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Failed to render symbol"));
+    };
+    image.src = url;
+  });
+
+// Export source for symbols, interchangeable with a QRCodeStyling instance
+export class SymbolRenderer {
+  private options: SymbolOptions;
+
+  constructor(options: SymbolOptions) {
+    this.options = options;
+  }
+
+  update(options: SymbolOptions) {
+    this.options = options;
+  }
+
+  async getRawData(extension: FileExtension = "png"): Promise<Blob | null> {
+    const { svg, width, height } = renderSymbolSVG(this.options);
+    if (extension === "svg") {
+      return new Blob([svg], { type: "image/svg+xml" });
+    }
+    return rasterizeSVG(svg, width, height, `image/${extension}`);
+  }
+}
@@ -0,0 +1,561 @@
+import difflib from "difflib";
+
+/**
+ * Text diff
+ *
+ * Lines are aligned with difflib's SequenceMatcher on whitespace-normalized
+ * keys. Within changed lines the comparison depends on the mode: "line"
+ * compares characters and replaces the whole line once less than half of it
+ * matches, "word" and "token" compare words or code tokens across each
+ * changed block, so reflowed prose and reformatted code still line up.
+ * In word and token modes, text deleted in one place and inserted in another
+ * is marked as moved instead of deleted and added.
+ *
+ * Whole blocks of deleted lines that reappear as inserted lines elsewhere,
+ * identical or nearly so, become moves: both ends are kept as rows of type
+ * "moved" that point at each other.
+ */
+
+export type DiffMode = "line" | "word" | "token";
+
+export type DiffSegment = {
+  type: "unchanged" | "added" | "deleted" | "moved";
+  text: string;
+};
+
+export type DiffMove = {
+  id: number;
+  // "from" rows hold the left text of the move, "to" rows the right text
+  side: "from" | "to";
+  // First row of the block, which carries the link to the other end
+  isStart: boolean;
+  // Row index and line number where the other end of the move starts
+  targetRow: number;
+  targetLine: number;
+};
+
+export type DiffLine = {
+  type: "unchanged" | "modified" | "added" | "deleted" | "moved";
+  leftLine: number | null;
+  rightLine: number | null;
+  leftSegments: DiffSegment[];
+  rightSegments: DiffSegment[];
+  move?: DiffMove;
+};
+
+export type DiffResult = {
+  lines: DiffLine[];
+  stats: {
+    additions: number;
+    deletions: number;
+    modifications: number;
+    // Pairs of moved words or tokens
+    movedWords: number;
+    // Pairs of moved line blocks, their lines are not counted as additions
+    // or deletions
+    movedBlocks: number;
+  };
+};
+
+export const diffModes: { id: DiffMode; name: string; description: string }[] =
+  [
+    {
+      id: "line",
+      name: "Lines",
+      description: "Character changes within each line",
+    },
+    {
+      id: "word",
+      name: "Words",
+      description: "Word changes across lines, for prose and contracts",
+    },
+    {
+      id: "token",
+      name: "Code",
+      description: "Identifier, number, string and operator changes",
+    },
+  ];
+
+// Blocks with more tokens than this are compared line by line
+const MAX_BLOCK_TOKENS = 20000;
+// Moved blocks may differ this much and still pair up
+const MOVE_SIMILARITY = 0.8;
+// Shorter blocks, like a lone closing brace, are never treated as moved
+const MIN_MOVE_CHARS = 10;
+// Longer blocks only pair up when identical
+const MAX_MOVE_COMPARE_CHARS = 10000;
+
+// Words with inner apostrophes or hyphens, whitespace runs, newlines and
+// single punctuation marks
+const WORD_PATTERN =
+  /\n|[^\S\n]+|[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*|[^\s\p{L}\p{N}]/gu;
+
+// Comments, strings, identifiers, numbers and multi-character operators of
+// C-like languages, which covers most config and script files
+const TOKEN_PATTERN =
+  /\n|[^\S\n]+|\/\/[^\n]*|\/\*.*?\*\/|#[^\n]*|"(?:\\.|[^"\\\n])*"?|'(?:\\.|[^'\\\n])*'?|`(?:\\.|[^`\\\n])*`?|[\p{L}_$][\p{L}\p{N}_$]*|\d[\d_]*(?:\.\d+)?(?:[eE][+-]?\d+)?|===|!==|\*\*=?|<<=?|>>>?=?|=>|->|::|&&|\|\||\?\?|\+\+|--|[+\-*/%=<>!&|^~?:]=|[^\s]/gu;
+
+export const tokenize = (text: string, mode: "word" | "token"): string[] =>
+  text.match(mode === "word" ? WORD_PATTERN : TOKEN_PATTERN) ?? [];
+
+const isWhitespace = (token: string) => /^\s+$/.test(token);
+
+// Normalize lines by collapsing whitespace and trimming trailing spaces
+function normalizeLine(s: string): string {
+  const collapsed = s.replace(/[\t ]+/g, " ");
+  return collapsed.trimEnd();
+}
+
+// Merge consecutive segments of the same type
+function mergeSegments(segs: DiffSegment[]): DiffSegment[] {
+  if (!segs.length) return segs;
+  const merged = [{ ...segs[0] }];
+  for (let i = 1; i < segs.length; i++) {
+    const prev = merged[merged.length - 1];
+    const curr = segs[i];
+    if (prev.type === curr.type) {
+      prev.text += curr.text;
+    } else {
+      merged.push({ ...curr });
+    }
+  }
+  return merged;
+}
+
+// Character-level diff for a single line pair
+function charDiff(
+  left: string,
+  right: string
+): {
+  leftSeg: DiffSegment[];
+  rightSeg: DiffSegment[];
+} {
+  // Use SequenceMatcher on arrays of characters
+  const sm = new difflib.SequenceMatcher(null, left.split(""), right.split(""));
+
+  // If similarity is 50% or less, treat the whole strings as different
+  if (sm.ratio() <= 0.5) {
+    return {
+      leftSeg: left ? [{ type: "deleted", text: left }] : [],
+      rightSeg: right ? [{ type: "added", text: right }] : [],
+    };
+  }
+
+  const leftSeg: DiffSegment[] = [];
+  const rightSeg: DiffSegment[] = [];
+  const opcodes = sm.getOpcodes();
+
+  for (const [tag, i1, i2, j1, j2] of opcodes) {
+    if (tag === "equal") {
+      const text = left.substring(i1, i2);
+      leftSeg.push({ type: "unchanged", text });
+      rightSeg.push({ type: "unchanged", text });
+    } else if (tag === "delete") {
+      const delText = left.substring(i1, i2);
+      leftSeg.push({ type: "deleted", text: delText });
+    } else if (tag === "insert") {
+      const insText = right.substring(j1, j2);
+      rightSeg.push({ type: "added", text: insText });
+    } else if (tag === "replace") {
+      const repL = left.substring(i1, i2);
+      const repR = right.substring(j1, j2);
+      if (repL) leftSeg.push({ type: "deleted", text: repL });
+      if (repR) rightSeg.push({ type: "added", text: repR });
+    }
+  }
+
+  return { leftSeg: mergeSegments(leftSeg), rightSeg: mergeSegments(rightSeg) };
+}
+
+// Splits typed tokens at newline tokens into the segments of each line
+function toLineSegments(
+  tokens: DiffSegment[],
+  lineCount: number
+): DiffSegment[][] {
+  const lines: DiffSegment[][] = [[]];
+  for (const token of tokens) {
+    if (token.text === "\n") {
+      lines.push([]);
+    } else {
+      lines[lines.length - 1].push(token);
+    }
+  }
+  while (lines.length < lineCount) lines.push([]);
+  return lines.map(mergeSegments);
+}
+
+/**
+ * Word or token diff of a block of changed lines. The lines of each side are
+ * compared as one token stream, so text may move between lines of the block.
+ * Returns the segments of every line on each side.
+ */
+function tokenDiff(
+  leftLines: string[],
+  rightLines: string[],
+  mode: "word" | "token"
+): { left: DiffSegment[][]; right: DiffSegment[][] } {
+  const leftTokens = tokenize(leftLines.join("\n"), mode);
+  const rightTokens = tokenize(rightLines.join("\n"), mode);
+
+  if (
+    leftLines.length > 1 &&
+    rightLines.length > 1 &&
+    leftTokens.length + rightTokens.length > MAX_BLOCK_TOKENS
+  ) {
+    const pairs = Array.from(
+      { length: Math.max(leftLines.length, rightLines.length) },
+      (_, i) =>
+        tokenDiff(
+          i < leftLines.length ? [leftLines[i]] : [],
+          i < rightLines.length ? [rightLines[i]] : [],
+          mode
+        )
+    );
+    return {
+      left: pairs.slice(0, leftLines.length).map((pair) => pair.left[0]),
+      right: pairs.slice(0, rightLines.length).map((pair) => pair.right[0]),
+    };
+  }
+
+  // Whitespace is junk: matches never start on a space, which keeps common
+  // spacing from pairing up unrelated words
+  const sm = new difflib.SequenceMatcher(
+    isWhitespace,
+    leftTokens,
+    rightTokens,
+    false
+  );
+  const left: DiffSegment[] = [];
+  const right: DiffSegment[] = [];
+  for (const [tag, i1, i2, j1, j2] of sm.getOpcodes()) {
+    const leftType = tag === "equal" ? "unchanged" : "deleted";
+    const rightType = tag === "equal" ? "unchanged" : "added";
+    for (const text of leftTokens.slice(i1, i2)) {
+      left.push({ type: text === "\n" ? "unchanged" : leftType, text });
+    }
+    for (const text of rightTokens.slice(j1, j2)) {
+      right.push({ type: text === "\n" ? "unchanged" : rightType, text });
+    }
+  }
+  return {
+    left: toLineSegments(left, leftLines.length),
+    right: toLineSegments(right, rightLines.length),
+  };
+}
+
+/**
+ * Marks deleted text that was inserted elsewhere as moved, on both sides.
+ * Only whole runs of changed text that contain a letter or digit are paired,
+ * so stray spaces and punctuation keep showing as changes.
+ */
+function markMovedText(lines: DiffLine[]): number {
+  const moveKey = (text: string) => text.trim().replace(/\s+/g, " ");
+  const added = new Map<string, DiffSegment[]>();
+  for (const line of lines) {
+    if (line.type !== "modified") continue;
+    for (const segment of line.rightSegments) {
+      const key = moveKey(segment.text);
+      if (segment.type !== "added" || !/[\p{L}\p{N}]/u.test(key)) continue;
+      added.set(key, [...(added.get(key) ?? []), segment]);
+    }
+  }
+
+  let moved = 0;
+  for (const line of lines) {
+    if (line.type !== "modified") continue;
+    for (const segment of line.leftSegments) {
+      if (segment.type !== "deleted") continue;
+      const match = added.get(moveKey(segment.text))?.shift();
+      if (match) {
+        segment.type = "moved";
+        match.type = "moved";
+        moved++;
+      }
+    }
+  }
+  return moved;
+}
+
+// Deleted or inserted lines from `start` to `end`, the first one at `row`
+type LineBlock = { row: number; start: number; end: number };
+
+// The non-blank runs of a block, such as the paragraphs of a text
+function splitAtBlankLines(block: LineBlock, lines: string[]): LineBlock[] {
+  const parts: LineBlock[] = [];
+  for (let i = block.start; i < block.end; i++) {
+    if (!lines[i].trim()) continue;
+    const last = parts[parts.length - 1];
+    if (last && last.end === i) {
+      last.end = i + 1;
+    } else {
+      parts.push({ row: block.row + i - block.start, start: i, end: i + 1 });
+    }
+  }
+  return parts;
+}
+
+// Blank lines around a block stay plain deletions or additions
+const trimBlankLines = (block: LineBlock, lines: string[]): LineBlock => {
+  let { start, end } = block;
+  while (start < end && !lines[start].trim()) start++;
+  while (end > start && !lines[end - 1].trim()) end--;
+  return { row: block.row + start - block.start, start, end };
+};
+
+const blockSimilarity = (a: string, b: string) => {
+  if (a === b) return 1;
+  if (a.length + b.length > MAX_MOVE_COMPARE_CHARS) return 0;
+  const sm = new difflib.SequenceMatcher(null, a.split(""), b.split(""));
+  return sm.quickRatio() < MOVE_SIMILARITY ? 0 : sm.ratio();
+};
+
+/**
+ * Pairs deleted blocks with inserted blocks of the same or nearly the same
+ * text and turns their rows into moves. Whole blocks are paired first, the
+ * rest is retried paragraph by paragraph. Returns the number of moves.
+ */
+function markMovedBlocks(
+  rows: DiffLine[],
+  leftLines: string[],
+  rightLines: string[],
+  deleted: LineBlock[],
+  inserted: LineBlock[],
+  mode: DiffMode
+): number {
+  const textOf = (block: LineBlock, lines: string[]) =>
+    lines.slice(block.start, block.end).map(normalizeLine).join("\n").trim();
+  const isMovable = (text: string) =>
+    text.replace(/\s/g, "").length >= MIN_MOVE_CHARS;
+  let moves = 0;
+
+  const pairBlocks = (from: LineBlock[], to: LineBlock[]) => {
+    const candidates: { from: LineBlock; to: LineBlock; score: number }[] = [];
+    for (const a of from) {
+      const aText = textOf(a, leftLines);
+      if (!isMovable(aText)) continue;
+      for (const b of to) {
+        const score = blockSimilarity(aText, textOf(b, rightLines));
+        if (score >= MOVE_SIMILARITY)
+          candidates.push({ from: a, to: b, score });
+      }
+    }
+    candidates.sort((x, y) => y.score - x.score);
+
+    const used = new Set<LineBlock>();
+    for (const { from: a, to: b, score } of candidates) {
+      if (used.has(a) || used.has(b)) continue;
+      used.add(a);
+      used.add(b);
+      moves++;
+
+      // Moved text is shown as moved, edits made along the way as changes
+      const segs =
+        score === 1
+          ? {
+              left: leftLines
+                .slice(a.start, a.end)
+                .map((text) => [{ type: "moved" as const, text }]),
+              right: rightLines
+                .slice(b.start, b.end)
+                .map((text) => [{ type: "moved" as const, text }]),
+            }
+          : tokenDiff(
+              leftLines.slice(a.start, a.end),
+              rightLines.slice(b.start, b.end),
+              mode === "token" ? "token" : "word"
+            );
+      const asMoved = (line: DiffSegment[]) =>
+        line.map((segment) =>
+          segment.type === "unchanged"
+            ? { ...segment, type: "moved" as const }
+            : segment
+        );
+      for (let k = 0; k < a.end - a.start; k++) {
+        Object.assign(rows[a.row + k], {
+          type: "moved",
+          leftSegments: asMoved(segs.left[k]),
+          move: {
+            id: moves,
+            side: "from",
+            isStart: k === 0,
+            targetRow: b.row,
+            targetLine: b.start + 1,
+          },
+        });
+      }
+      for (let k = 0; k < b.end - b.start; k++) {
+        Object.assign(rows[b.row + k], {
+          type: "moved",
+          rightSegments: asMoved(segs.right[k]),
+          move: {
+            id: moves,
+            side: "to",
+            isStart: k === 0,
+            targetRow: a.row,
+            targetLine: a.start + 1,
+          },
+        });
+      }
+    }
+    return {
+      from: from.filter((block) => !used.has(block)),
+      to: to.filter((block) => !used.has(block)),
+    };
+  };
+
+  const rest = pairBlocks(
+    deleted.map((block) => trimBlankLines(block, leftLines)),
+    inserted.map((block) => trimBlankLines(block, rightLines))
+  );
+  pairBlocks(
+    rest.from.flatMap((block) => splitAtBlankLines(block, leftLines)),
+    rest.to.flatMap((block) => splitAtBlankLines(block, rightLines))
+  );
+  return moves;
+}
+
+// Main line-level diff, changed lines are compared as set by `mode`
+export function diffLines(
+  leftText: string,
+  rightText: string,
+  mode: DiffMode = "line"
+): DiffResult {
+  const leftLines = leftText.split("\n");
+  const rightLines = rightText.split("\n");
+
+  // Build normalised keys for aligning lines
+  const leftKeys = leftLines.map(normalizeLine);
+  const rightKeys = rightLines.map(normalizeLine);
+
+  const sm = new difflib.SequenceMatcher(null, leftKeys, rightKeys);
+  const opcodes = sm.getOpcodes();
+
+  const result: DiffLine[] = [];
+  const stats = {
+    additions: 0,
+    deletions: 0,
+    modifications: 0,
+    movedWords: 0,
+    movedBlocks: 0,
+  };
+  const deletedBlocks: LineBlock[] = [];
+  const insertedBlocks: LineBlock[] = [];
+
+  // Segments of changed line pairs, or of a whole replace block
+  const diffChanged = (i1: number, i2: number, j1: number, j2: number) => {
+    if (mode !== "line") {
+      return tokenDiff(leftLines.slice(i1, i2), rightLines.slice(j1, j2), mode);
+    }
+    const left: DiffSegment[][] = [];
+    const right: DiffSegment[][] = [];
+    for (let p = 0; p < Math.max(i2 - i1, j2 - j1); p++) {
+      const segs = charDiff(
+        i1 + p < i2 ? leftLines[i1 + p] : "",
+        j1 + p < j2 ? rightLines[j1 + p] : ""
+      );
+      if (i1 + p < i2) left.push(segs.leftSeg);
+      if (j1 + p < j2) right.push(segs.rightSeg);
+    }
+    return { left, right };
+  };
+
+  for (const [tag, i1, i2, j1, j2] of opcodes) {
+    if (tag === "equal") {
+      // If the original lines differ (e.g. whitespace), treat as modified
+      for (let k = 0; k < i2 - i1; k++) {
+        const li = i1 + k;
+        const ri = j1 + k;
+        const leftTextLine = leftLines[li];
+        const rightTextLine = rightLines[ri];
+        const lNum = li + 1;
+        const rNum = ri + 1;
+
+        if (leftTextLine === rightTextLine) {
+          result.push({
+            type: "unchanged",
+            leftLine: lNum,
+            rightLine: rNum,
+            leftSegments: [{ type: "unchanged", text: leftTextLine }],
+            rightSegments: [{ type: "unchanged", text: rightTextLine }],
+          });
+        } else {
+          const segs = diffChanged(li, li + 1, ri, ri + 1);
+          result.push({
+            type: "modified",
+            leftLine: lNum,
+            rightLine: rNum,
+            leftSegments: segs.left[0],
+            rightSegments: segs.right[0],
+          });
+          stats.modifications++;
+        }
+      }
+    } else if (tag === "replace") {
+      // In a replace block, emit one modified row per line on either side;
+      // if counts differ, continue pairing with a blank line
+      const delCount = i2 - i1;
+      const insCount = j2 - j1;
+      const maxCount = Math.max(delCount, insCount);
+      const segs = diffChanged(i1, i2, j1, j2);
+
+      for (let p = 0; p < maxCount; p++) {
+        result.push({
+          type: "modified",
+          leftLine: p < delCount ? i1 + p + 1 : null,
+          rightLine: p < insCount ? j1 + p + 1 : null,
+          leftSegments: p < delCount ? segs.left[p] : [],
+          rightSegments: p < insCount ? segs.right[p] : [],
+        });
+        stats.modifications++;
+      }
+    } else if (tag === "delete") {
+      // Lines present only in the left text
+      deletedBlocks.push({ row: result.length, start: i1, end: i2 });
+      for (let d = 0; d < i2 - i1; d++) {
+        const li = i1 + d;
+        const lNum = li + 1;
+        const delText = leftLines[li];
+        result.push({
+          type: "deleted",
+          leftLine: lNum,
+          rightLine: null,
+          leftSegments: [{ type: "deleted", text: delText }],
+          rightSegments: [],
+        });
+        stats.deletions++;
+      }
+    } else if (tag === "insert") {
+      // Lines present only in the right text
+      insertedBlocks.push({ row: result.length, start: j1, end: j2 });
+      for (let a = 0; a < j2 - j1; a++) {
+        const ri = j1 + a;
+        const rNum = ri + 1;
+        const insText = rightLines[ri];
+        result.push({
+          type: "added",
+          leftLine: null,
+          rightLine: rNum,
+          leftSegments: [],
+          rightSegments: [{ type: "added", text: insText }],
+        });
+        stats.additions++;
+      }
+    }
+  }
+
+  stats.movedBlocks = markMovedBlocks(
+    result,
+    leftLines,
+    rightLines,
+    deletedBlocks,
+    insertedBlocks,
+    mode
+  );
+  for (const line of result) {
+    if (line.move?.side === "from") stats.deletions--;
+    if (line.move?.side === "to") stats.additions--;
+  }
+  if (mode !== "line") stats.movedWords = markMovedText(result);
+
+  return { lines: result, stats };
+}
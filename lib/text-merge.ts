@@ -0,0 +1,228 @@
+import difflib from "difflib";
+import { type DiffLine, diffLines } from "./text-diff";
+
+/**
+ * Three-way merge
+ *
+ * Ours and theirs are each aligned with the common base using difflib's
+ * SequenceMatcher, as diff3 does. Base lines kept by both sides split the
+ * texts into chunks; between them a chunk changed by one side only, or
+ * changed the same way by both, merges on its own, anything else is a
+ * conflict to be resolved by accepting ours, theirs or both.
+ */
+
+export type MergeChunk = {
+  // "unchanged": all three texts agree; "ours", "theirs": only that side
+  // changed; "both": both sides made the same change; "conflict": the sides
+  // made different changes
+  status: "unchanged" | "ours" | "theirs" | "both" | "conflict";
+  base: string[];
+  ours: string[];
+  theirs: string[];
+  // Line numbers of the first line of the chunk in each text
+  baseLine: number;
+  oursLine: number;
+  theirsLine: number;
+  // Ours on the left and theirs on the right, set for conflicts
+  lines: DiffLine[];
+};
+
+export type MergeResolution = "ours" | "theirs" | "both";
+
+export type MergeResult = {
+  chunks: MergeChunk[];
+  stats: {
+    // Chunks changed by one or both sides that merged without conflict
+    autoMerged: number;
+    conflicts: number;
+  };
+};
+
+export const CONFLICT_MARKERS = {
+  ours: "<<<<<<< ours",
+  base: "||||||| base",
+  separator: "=======",
+  theirs: ">>>>>>> theirs",
+};
+
+const sameLines = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((line, i) => line === b[i]);
+
+// Base line index -> index of the same line in `other`, for matched lines
+function matchLines(base: string[], other: string[]): Map<number, number> {
+  const matches = new Map<number, number>();
+  const sm = new difflib.SequenceMatcher(null, base, other, false);
+  for (const [a, b, size] of sm.getMatchingBlocks()) {
+    for (let k = 0; k < size; k++) matches.set(a + k, b + k);
+  }
+  return matches;
+}
+
+// Side-by-side rows of a conflict, numbered as in the ours and theirs texts
+function conflictLines(
+  chunk: Omit<MergeChunk, "lines" | "status">
+): DiffLine[] {
+  const oursOffset = chunk.oursLine - 1;
+  const theirsOffset = chunk.theirsLine - 1;
+  if (!chunk.ours.length || !chunk.theirs.length) {
+    // One side removed the lines the other side changed
+    return chunk.ours
+      .map<DiffLine>((text, i) => ({
+        type: "deleted",
+        leftLine: oursOffset + i + 1,
+        rightLine: null,
+        leftSegments: [{ type: "deleted", text }],
+        rightSegments: [],
+      }))
+      .concat(
+        chunk.theirs.map((text, i) => ({
+          type: "added",
+          leftLine: null,
+          rightLine: theirsOffset + i + 1,
+          leftSegments: [],
+          rightSegments: [{ type: "added", text }],
+        }))
+      );
+  }
+  return diffLines(
+    chunk.ours.join("\n"),
+    chunk.theirs.join("\n"),
+    "word"
+  ).lines.map((line) => ({
+    ...line,
+    leftLine: line.leftLine === null ? null : line.leftLine + oursOffset,
+    rightLine: line.rightLine === null ? null : line.rightLine + theirsOffset,
+    ...(line.move && {
+      move: {
+        ...line.move,
+        targetLine:
+          line.move.targetLine +
+          (line.move.side === "from" ? theirsOffset : oursOffset),
+      },
+    }),
+  }));
+}
+
+export function mergeTexts(
+  baseText: string,
+  oursText: string,
+  theirsText: string
+): MergeResult {
+  const base = baseText.split("\n");
+  const ours = oursText.split("\n");
+  const theirs = theirsText.split("\n");
+  const oursMatches = matchLines(base, ours);
+  const theirsMatches = matchLines(base, theirs);
+
+  const chunks: MergeChunk[] = [];
+  const stats = { autoMerged: 0, conflicts: 0 };
+  let b = 0;
+  let o = 0;
+  let t = 0;
+
+  // Closes the chunk running from b, o, t to the given line indexes
+  const pushChunk = (b2: number, o2: number, t2: number) => {
+    const chunk = {
+      base: base.slice(b, b2),
+      ours: ours.slice(o, o2),
+      theirs: theirs.slice(t, t2),
+      baseLine: b + 1,
+      oursLine: o + 1,
+      theirsLine: t + 1,
+    };
+    let status: MergeChunk["status"];
+    if (sameLines(chunk.ours, chunk.base)) {
+      status = sameLines(chunk.theirs, chunk.base) ? "unchanged" : "theirs";
+    } else if (sameLines(chunk.theirs, chunk.base)) {
+      status = "ours";
+    } else if (sameLines(chunk.ours, chunk.theirs)) {
+      status = "both";
+    } else {
+      status = "conflict";
+    }
+
+    if (status === "conflict") stats.conflicts++;
+    else if (status !== "unchanged") stats.autoMerged++;
+    chunks.push({
+      ...chunk,
+      status,
+      lines: status === "conflict" ? conflictLines(chunk) : [],
+    });
+    b = b2;
+    o = o2;
+    t = t2;
+  };
+
+  while (b < base.length || o < ours.length || t < theirs.length) {
+    // Base lines kept in place by both sides
+    let stable = 0;
+    while (
+      b + stable < base.length &&
+      oursMatches.get(b + stable) === o + stable &&
+      theirsMatches.get(b + stable) === t + stable
+    ) {
+      stable++;
+    }
+    if (stable > 0) {
+      pushChunk(b + stable, o + stable, t + stable);
+      continue;
+    }
+
+    // Changes up to the next base line both sides kept
+    let next = b;
+    while (
+      next < base.length &&
+      !(oursMatches.has(next) && theirsMatches.has(next))
+    ) {
+      next++;
+    }
+    if (next === base.length) {
+      pushChunk(base.length, ours.length, theirs.length);
+    } else {
+      pushChunk(next, oursMatches.get(next)!, theirsMatches.get(next)!);
+    }
+  }
+
+  return { chunks, stats };
+}
+
+/**
+ * Lines a chunk contributes to the merged text. Conflicts without a
+ * resolution keep both sides between conflict markers.
+ */
+export function resolveChunk(
+  chunk: MergeChunk,
+  resolution?: MergeResolution
+): string[] {
+  switch (chunk.status) {
+    case "unchanged":
+      return chunk.base;
+    case "theirs":
+      return chunk.theirs;
+    case "ours":
+    case "both":
+      return chunk.ours;
+  }
+  if (resolution === "ours") return chunk.ours;
+  if (resolution === "theirs") return chunk.theirs;
+  if (resolution === "both") return [...chunk.ours, ...chunk.theirs];
+  return [
+    CONFLICT_MARKERS.ours,
+    ...chunk.ours,
+    CONFLICT_MARKERS.base,
+    ...chunk.base,
+    CONFLICT_MARKERS.separator,
+    ...chunk.theirs,
+    CONFLICT_MARKERS.theirs,
+  ];
+}
+
+// Merged text, `resolutions` is keyed by chunk index
+export function buildMergedText(
+  chunks: MergeChunk[],
+  resolutions: Record<number, MergeResolution>
+): string {
+  return chunks
+    .flatMap((chunk, index) => resolveChunk(chunk, resolutions[index]))
+    .join("\n");
+}
@@ -0,0 +1,399 @@
+import { type DiffLine, type DiffResult, type DiffSegment } from "./text-diff";
+
+/**
+ * Patches
+ *
+ * Exports a diff result as a unified diff, the format of `diff -u` and
+ * `git diff`, or as a standalone HTML report, and applies unified diffs to
+ * a text. Hunks are applied where their line numbers say, or at the nearest
+ * place their context and removed lines match, like `patch` does without
+ * fuzz. Hunks that match nowhere are reported and skipped.
+ */
+
+export type PatchLine = {
+  type: " " | "-" | "+";
+  text: string;
+  // Followed by "\ No newline at end of file"
+  noNewline?: boolean;
+};
+
+export type PatchHunk = {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: PatchLine[];
+};
+
+export type UnifiedDiffOptions = {
+  // Unchanged lines around each change
+  context: number;
+  leftName: string;
+  rightName: string;
+};
+
+export type FailedHunk = {
+  // Position of the hunk in the patch, from 1
+  index: number;
+  header: string;
+  reason: string;
+};
+
+export type PatchResult = {
+  text: string;
+  applied: number;
+  failed: FailedHunk[];
+};
+
+export const DEFAULT_CONTEXT_LINES = 3;
+export const MAX_CONTEXT_LINES = 100;
+
+const NO_NEWLINE = "\\ No newline at end of file";
+
+const lineText = (segments: DiffSegment[]) =>
+  segments.map((segment) => segment.text).join("");
+
+// Text split into lines, a final newline ends the last line
+function splitLines(text: string) {
+  if (!text) return { lines: [], newline: false };
+  const lines = text.split("\n");
+  const newline = lines[lines.length - 1] === "";
+  if (newline) lines.pop();
+  return { lines, newline };
+}
+
+// Diff rows as patch lines, removals before additions in each change
+function toPatchLines(rows: DiffLine[]): PatchLine[] {
+  const result: PatchLine[] = [];
+  let removed: PatchLine[] = [];
+  let added: PatchLine[] = [];
+  const flush = () => {
+    result.push(...removed, ...added);
+    removed = [];
+    added = [];
+  };
+
+  for (const row of rows) {
+    if (row.type === "unchanged") {
+      flush();
+      result.push({ type: " ", text: lineText(row.leftSegments) });
+      continue;
+    }
+    if (row.leftLine !== null) {
+      removed.push({ type: "-", text: lineText(row.leftSegments) });
+    }
+    if (row.rightLine !== null) {
+      added.push({ type: "+", text: lineText(row.rightSegments) });
+    }
+  }
+  flush();
+
+  // Both texts come from splitting on "\n", so a text ending in a newline
+  // has an empty last line. Drop it and flag the texts that do not end in one.
+  const lastIndex = (side: "-" | "+") => {
+    for (let i = result.length - 1; i >= 0; i--) {
+      if (result[i].type === " " || result[i].type === side) return i;
+    }
+    return -1;
+  };
+  const newlines = { "-": false, "+": false };
+  for (const side of ["-", "+"] as const) {
+    const index = lastIndex(side);
+    if (index < 0) continue;
+    const other = side === "-" ? "+" : "-";
+    if (result[index].text === "") {
+      newlines[side] = true;
+      if (result[index].type === side) result.splice(index, 1);
+      else result[index] = { ...result[index], type: other };
+    }
+  }
+  for (const side of ["-", "+"] as const) {
+    const index = lastIndex(side);
+    if (index < 0 || newlines[side]) continue;
+    const line = result[index];
+    const other = side === "-" ? "+" : "-";
+    if (
+      line.type === side ||
+      (!newlines[other] && lastIndex(other) === index)
+    ) {
+      result[index] = { ...line, noNewline: true };
+    } else {
+      // A shared line that only one side ends with a newline
+      const split: PatchLine[] = [
+        { type: side, text: line.text, noNewline: true },
+        { type: other, text: line.text },
+      ];
+      result.splice(index, 1, ...(side === "-" ? split : split.reverse()));
+    }
+  }
+  return result;
+}
+
+// Groups patch lines into hunks with `context` unchanged lines around changes
+function toHunks(lines: PatchLine[], context: number): PatchHunk[] {
+  const hunks: PatchHunk[] = [];
+  const changes = lines.flatMap((line, i) => (line.type === " " ? [] : [i]));
+
+  let i = 0;
+  while (i < changes.length) {
+    const start = Math.max(0, changes[i] - context);
+    let end = changes[i] + 1;
+    while (i < changes.length && changes[i] - context <= end + context) {
+      end = changes[i] + 1;
+      i++;
+    }
+    end = Math.min(lines.length, end + context);
+
+    // Line numbers where the hunk starts in both texts
+    let oldStart = 1;
+    let newStart = 1;
+    for (const line of lines.slice(0, start)) {
+      if (line.type !== "+") oldStart++;
+      if (line.type !== "-") newStart++;
+    }
+    const hunkLines = lines.slice(start, end);
+    const oldLines = hunkLines.filter((line) => line.type !== "+").length;
+    const newLines = hunkLines.filter((line) => line.type !== "-").length;
+    hunks.push({
+      // An empty range starts at the line before it
+      oldStart: oldLines ? oldStart : oldStart - 1,
+      oldLines,
+      newStart: newLines ? newStart : newStart - 1,
+      newLines,
+      lines: hunkLines,
+    });
+  }
+  return hunks;
+}
+
+const formatRange = (start: number, count: number) =>
+  count === 1 ? `${start}` : `${start},${count}`;
+
+export const formatHunkHeader = (hunk: PatchHunk) =>
+  `@@ -${formatRange(hunk.oldStart, hunk.oldLines)} +${formatRange(hunk.newStart, hunk.newLines)} @@`;
+
+/**
+ * Unified diff of a diff result, empty when the texts are the same.
+ */
+export function toUnifiedDiff(
+  result: DiffResult,
+  options: UnifiedDiffOptions
+): string {
+  const hunks = toHunks(toPatchLines(result.lines), options.context);
+  if (!hunks.length) return "";
+
+  const output = [`--- ${options.leftName}`, `+++ ${options.rightName}`];
+  for (const hunk of hunks) {
+    output.push(formatHunkHeader(hunk));
+    for (const line of hunk.lines) {
+      output.push(line.type + line.text);
+      if (line.noNewline) output.push(NO_NEWLINE);
+    }
+  }
+  return output.join("\n") + "\n";
+}
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const REPORT_STYLES = `
+body { font-family: system-ui, sans-serif; margin: 24px; color: #111827; }
+h1 { font-size: 20px; margin: 0 0 8px; }
+.stats span { display: inline-block; margin-right: 12px; font-size: 14px; }
+table { border-collapse: collapse; width: 100%; margin-top: 16px; table-layout: fixed; }
+th { text-align: left; font-size: 14px; padding: 4px 8px; border-bottom: 1px solid #d1d5db; }
+td { font-family: ui-monospace, monospace; font-size: 13px; padding: 2px 8px; white-space: pre-wrap; word-break: break-all; vertical-align: top; }
+td.num { width: 3em; color: #6b7280; text-align: right; user-select: none; }
+tr.added td.num { border-left: 4px solid #22c55e; background: #f0fdf4; }
+tr.deleted td.num { border-left: 4px solid #ef4444; background: #fef2f2; }
+tr.modified td.num { border-left: 4px solid #3b82f6; background: #eff6ff; }
+tr.moved td.num { border-left: 4px solid #a855f7; background: #faf5ff; }
+.seg-added { background: #bbf7d0; }
+.seg-deleted { background: #fecaca; }
+.seg-moved { background: #e9d5ff; }
+`;
+
+const renderSegments = (segments: DiffSegment[]) =>
+  segments
+    .map((segment) =>
+      segment.type === "unchanged"
+        ? escapeHtml(segment.text)
+        : `<span class="seg-${segment.type}">${escapeHtml(segment.text)}</span>`
+    )
+    .join("");
+
+/**
+ * Standalone HTML page showing a diff result side by side.
+ */
+export function toHtmlReport(
+  result: DiffResult,
+  options: Omit<UnifiedDiffOptions, "context">
+): string {
+  const { stats } = result;
+  const rows = result.lines
+    .map(
+      (line) =>
+        `<tr class="${line.type}"><td class="num">${line.leftLine ?? ""}</td>` +
+        `<td class="left">${renderSegments(line.leftSegments)}</td>` +
+        `<td class="num">${line.rightLine ?? ""}</td>` +
+        `<td class="right">${renderSegments(line.rightSegments)}</td></tr>`
+    )
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Text comparison</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(options.leftName)} → ${escapeHtml(options.rightName)}</h1>
+<div class="stats">
+<span>+${stats.additions} additions</span>
+<span>-${stats.deletions} deletions</span>
+<span>~${stats.modifications} modified</span>
+<span>⇄${stats.movedBlocks} moved blocks</span>
+</div>
+<table>
+<colgroup><col style="width: 3em"><col><col style="width: 3em"><col></colgroup>
+<thead><tr><th></th><th>${escapeHtml(options.leftName)}</th><th></th><th>${escapeHtml(options.rightName)}</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+</body>
+</html>
+`;
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Hunks of a unified diff. File headers and other lines outside of hunks,
+ * like the ones `git diff` adds, are skipped.
+ */
+export function parsePatch(patch: string): PatchHunk[] {
+  const hunks: PatchHunk[] = [];
+  const lines = patch.replace(/\r\n/g, "\n").split("\n");
+  let hunk: PatchHunk | null = null;
+  let oldLeft = 0;
+  let newLeft = 0;
+
+  for (const line of lines) {
+    if (hunk && line === NO_NEWLINE && hunk.lines.length) {
+      hunk.lines[hunk.lines.length - 1].noNewline = true;
+      continue;
+    }
+    if (hunk && (oldLeft > 0 || newLeft > 0)) {
+      const type = line[0] ?? " ";
+      if (type !== " " && type !== "-" && type !== "+") {
+        throw new Error(
+          `Hunk ${formatHunkHeader(hunk)} ends early, expected ${oldLeft} more old and ${newLeft} more new lines`
+        );
+      }
+      hunk.lines.push({ type, text: line.slice(1) });
+      if (type !== "+") oldLeft--;
+      if (type !== "-") newLeft--;
+      if (oldLeft < 0 || newLeft < 0) {
+        throw new Error(
+          `Hunk ${formatHunkHeader(hunk)} has more lines than its header says`
+        );
+      }
+      continue;
+    }
+
+    const match = HUNK_HEADER.exec(line);
+    if (!match) continue;
+    hunk = {
+      oldStart: Number(match[1]),
+      oldLines: match[2] === undefined ? 1 : Number(match[2]),
+      newStart: Number(match[3]),
+      newLines: match[4] === undefined ? 1 : Number(match[4]),
+      lines: [],
+    };
+    oldLeft = hunk.oldLines;
+    newLeft = hunk.newLines;
+    hunks.push(hunk);
+  }
+
+  if (hunk && (oldLeft > 0 || newLeft > 0)) {
+    throw new Error(`Hunk ${formatHunkHeader(hunk)} is incomplete`);
+  }
+  if (!hunks.length) {
+    throw new Error("No hunks found, expected a unified diff");
+  }
+  return hunks;
+}
+
+const matchesAt = (lines: string[], expected: string[], at: number) =>
+  at >= 0 &&
+  at + expected.length <= lines.length &&
+  expected.every((line, i) => lines[at + i] === line);
+
+/**
+ * Applies unified diff hunks to a text in order. Each hunk is tried at its
+ * own line number, shifted by the hunks applied before it, then at the
+ * nearest line where it matches.
+ */
+export function applyPatch(text: string, hunks: PatchHunk[]): PatchResult {
+  const source = splitLines(text);
+  const lines = source.lines;
+  let newline = source.newline || !text;
+  let offset = 0;
+  // Lines before this one were changed by earlier hunks
+  let minStart = 0;
+  let applied = 0;
+  const failed: FailedHunk[] = [];
+
+  hunks.forEach((hunk, index) => {
+    const oldLines = hunk.lines.filter((line) => line.type !== "+");
+    const newLines = hunk.lines.filter((line) => line.type !== "-");
+    const expected = oldLines.map((line) => line.text);
+
+    // Empty old ranges start after the given line
+    const wanted = (hunk.oldLines ? hunk.oldStart - 1 : hunk.oldStart) + offset;
+    let at = -1;
+    for (let distance = 0; at < 0 && distance <= lines.length; distance++) {
+      for (const candidate of [wanted - distance, wanted + distance]) {
+        if (candidate >= minStart && matchesAt(lines, expected, candidate)) {
+          at = candidate;
+          break;
+        }
+      }
+    }
+    if (at < 0) {
+      failed.push({
+        index: index + 1,
+        header: formatHunkHeader(hunk),
+        reason:
+          expected.length > lines.length
+            ? "The hunk expects more lines than the text has"
+            : "Context and removed lines do not match the text",
+      });
+      return;
+    }
+
+    // A hunk ending at the end of the text decides whether it ends in a newline
+    const oldEnd = oldLines[oldLines.length - 1];
+    const newEnd = newLines[newLines.length - 1];
+    if (at + expected.length === lines.length) {
+      if (oldEnd?.noNewline || newEnd?.noNewline) newline = !newEnd?.noNewline;
+    }
+
+    lines.splice(at, expected.length, ...newLines.map((line) => line.text));
+    offset += newLines.length - expected.length;
+    minStart = at + newLines.length;
+    applied++;
+  });
+
+  return {
+    text: lines.join("\n") + (newline && lines.length ? "\n" : ""),
+    applied,
+    failed,
+  };
+}
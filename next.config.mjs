@@ -1,6 +1,12 @@
+// FREETOOLS_SERVER=1 builds a Node server instead of a static export. Route
+// handlers live in *.server.ts files so the static export never sees them.
+const serverBuild = process.env.FREETOOLS_SERVER === '1';
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
-  output: 'export',
+  ...(serverBuild
+    ? { pageExtensions: ['tsx', 'ts', 'jsx', 'js', 'server.ts'] }
+    : { output: 'export' }),
   trailingSlash: true,
   images: {
     unoptimized: true,